@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import {
   Users, Settings, LogOut, Plus, Landmark, Folder,
-  Wifi, Loader2, AlertTriangle, RefreshCw, Building2, Menu, Sun, Moon
+  Wifi, Loader2, AlertTriangle, RefreshCw, Building2, Menu, Sun, Moon, Route
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Client, Transaction, TransactionType, AppSettings, BankAccount, AppLog, TransactionFormInput } from './types';
@@ -13,18 +13,21 @@ import { ToastContainer, ToastMessage, ToastType } from './components/Toast';
 import { ClientFormModal } from './components/ClientFormModal';
 import { BottomNavbar } from './components/BottomNavbar';
 import { QuickPaySearch } from './components/QuickPaySearch';
+import { OfflineIndicator } from './components/OfflineIndicator';
 import { supabase, isConfigured } from './lib/supabaseClient';
 import { useDataOperations } from './hooks/useDataOperations';
 import { useAuth } from './contexts/AuthContext';
 import { useOrganization } from './contexts/OrganizationContext';
 import { useData } from './contexts/DataContext';
-import { generateId, parseCurrency } from './utils/format';
-import { calculateLoanProjection as calcProjection, calculateNextPaymentDate } from './services/loanUtils';
+import { useOffline } from './contexts/OfflineContext';
+import { generateId, parseCurrency, formatCurrency } from './utils/format';
+import { calculateLoanProjection as calcProjection, calculateNextPaymentDate, generateAmortizationSchedule } from './services/loanUtils';
 
 // Phase 3: Code Splitting
 const ClientCard = React.lazy(() => import('./components/ClientCard').then(m => ({ default: m.ClientCard })));
 const BankDashboard = React.lazy(() => import('./components/BankDashboard').then(m => ({ default: m.BankDashboard })));
 const SettingsView = React.lazy(() => import('./components/SettingsView').then(m => ({ default: m.SettingsView })));
+const RouteView = React.lazy(() => import('./components/RouteView').then(m => ({ default: m.RouteView })));
 const AuthPage = React.lazy(() => import('./components/AuthPage').then(m => ({ default: m.AuthPage })));
 const AIChat = React.lazy(() => import('./components/AIChat').then(m => ({ default: m.AIChat })));
 const AuditLogModal = React.lazy(() => import('./components/AuditLogModal').then(m => ({ default: m.AuditLogModal })));
@@ -56,7 +59,7 @@ const App: React.FC = () => {
 
   // Use Centralized Data Context
   const {
-    clients, transactions, bankAccounts, settings, systemLogs, loading: dataLoading, error: dataError,
+    clients, transactions, bankAccounts, clientSummaries, settings, systemLogs, loading: dataLoading, error: dataError,
     refreshData, setSettings, loadClientHistory, historyLoading
   } = useData();
 
@@ -68,22 +71,11 @@ const App: React.FC = () => {
 
   // Navigation State
   const [activeClientId, setActiveClientId] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<'CLIENTS_LIST' | 'SINGLE_CLIENT' | 'BANKS' | 'SETTINGS'>('CLIENTS_LIST');
+  const [currentView, setCurrentView] = useState<'CLIENTS_LIST' | 'SINGLE_CLIENT' | 'BANKS' | 'ROUTE' | 'SETTINGS'>('CLIENTS_LIST');
 
   // Responsive Sidebar State
   const [isSidebarOpen, setIsSidebarOpen] = useState(window.innerWidth >= 768);
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+  const { isOnline } = useOffline();
 
   // Modals
   const [isTransModalOpen, setIsTransModalOpen] = useState(false);
@@ -172,29 +164,8 @@ const App: React.FC = () => {
     return transactions.filter(t => t.clientId === activeClientId).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
   }, [transactions, activeClientId]);
 
-  // Global Balances for Quick Search
-  const clientBalances = useMemo(() => {
-    const balances: Record<string, { balance: number }> = {};
-    const txByClient: Record<string, Transaction[]> = {};
-
-    transactions.forEach(t => {
-      if (!txByClient[t.clientId]) txByClient[t.clientId] = [];
-      txByClient[t.clientId].push(t);
-    });
-
-    clients.forEach(c => {
-      const cTx = txByClient[c.id] || [];
-      const sorted = cTx.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      balances[c.id] = {
-        balance: sorted.length > 0 ? sorted[sorted.length - 1].balanceAfter : 0
-      };
-    });
-    return balances;
-  }, [clients, transactions]);
-
-  const formatCurrency = (val: number) => {
-    return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', maximumFractionDigits: 0 }).format(val);
-  };
+  // Las cuentas archivadas conservan su historial pero no se ofrecen para nuevos movimientos.
+  const selectableBankAccounts = useMemo(() => bankAccounts.filter(b => !b.archivedAt), [bankAccounts]);
 
   // Modo Privado (org): oculta todo el dinero y la sección de Tesorería/Bancos.
   const hideMoney = settings?.uiConfig?.privacyMode === true;
@@ -245,6 +216,8 @@ const App: React.FC = () => {
         use_openai: newSettings.useOpenAI,
         n8n_webhook_url: newSettings.n8nWebhookUrl,
         max_card_limit: newSettings.maxCardLimit,
+        penalty_policy: newSettings.penaltyPolicy,
+        lending_policy: newSettings.lendingPolicy,
         ai_provider: newSettings.aiProvider,
         ai_agent_name: newSettings.aiAgentName,
         ai_system_prompt: newSettings.aiSystemPrompt,
@@ -376,6 +349,7 @@ const App: React.FC = () => {
         collateral: formData.collateral,
         notes: formData.notes,
         referrerId: formData.referrerId,
+        assignedTo: formData.assignedTo || null,
         interestRate: parseFloat(formData.interestRate) || 0,
         paymentFrequency: formData.paymentFrequency,
         interestType: formData.interestType,
@@ -405,6 +379,7 @@ const App: React.FC = () => {
         creditStartDate: formData.creditStartDate,
         loanLimit: parsedLoanLimit || undefined,
         referrerId: formData.referrerId || undefined,
+        assignedTo: formData.assignedTo || null,
         status: 'ACTIVE',
         notes: formData.notes,
         createdAt: Date.now(),
@@ -416,7 +391,16 @@ const App: React.FC = () => {
         interestType: formData.interestType,
         loanTermMonths: parseInt(formData.loanTermMonths) || 1,
         installmentsCount: loanProjection?.totalInstallments,
-        installmentAmount: loanProjection?.quota
+        installmentAmount: loanProjection?.quota,
+        paymentSchedule: formData.hasInitialLoan
+          ? generateAmortizationSchedule({
+            initialAmount: formData.initialAmount,
+            interestRate: formData.interestRate,
+            loanTermMonths: formData.loanTermMonths,
+            paymentFrequency: formData.paymentFrequency,
+            interestType: formData.interestType
+          }, formData.creditStartDate)
+          : undefined
       };
 
       let initialTx = undefined;
@@ -632,6 +616,11 @@ const App: React.FC = () => {
                   <Folder size={16} /> <span className="hidden sm:inline">Gestión de Cartera</span><span className="sm:hidden">Clientes</span>
                 </span>
               )}
+              {currentView === 'ROUTE' && (
+                <span className="flex items-center gap-2 text-slate-900 font-bold animate-in fade-in">
+                  <Route size={16} /> <span className="hidden sm:inline">Ruta del Día</span><span className="sm:hidden">Ruta</span>
+                </span>
+              )}
               {currentView === 'SETTINGS' && (
                 <span className="flex items-center gap-2 text-slate-900 font-bold animate-in fade-in">
                   <Settings size={16} /> <span className="hidden sm:inline">Configuración del Sistema</span><span className="sm:hidden">Ajustes</span>
@@ -654,6 +643,8 @@ const App: React.FC = () => {
               {currentOrg?.name}
             </div>
 
+            <OfflineIndicator onAddNotification={addNotification} />
+
             <button
               onClick={toggleTheme}
               className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -694,8 +685,6 @@ const App: React.FC = () => {
                   className="h-full flex flex-col"
                 >
                   <ClientList
-                    clients={clients}
-                    transactions={transactions}
                     onSelectClient={handleClientSelection}
                     onNewClient={openNewClientModal}
                     onQuickAction={handleQuickAction}
@@ -705,6 +694,7 @@ const App: React.FC = () => {
                     settings={settings}
                     onOpenQuickSearch={() => setIsQuickSearchOpen(true)}
                     onRefresh={refreshData}
+                    onAssignClients={dataOps.assignClients}
                   />
                 </motion.div>
               )}
@@ -729,8 +719,13 @@ const App: React.FC = () => {
                     onCloseCredit={handleCloseCredit}
                     onDeleteClient={handleDeleteClientWrapper}
                     onDeleteTransaction={dataOps.deleteTransaction}
+                    onReverseTransaction={dataOps.reverseTransaction}
+                    onRestructureLoan={dataOps.restructureLoan}
+                    onWriteOffClient={dataOps.writeOffClient}
+                    onRecordRecovery={dataOps.recordRecovery}
                     onEditTransaction={handleEditTransaction}
                     isLoadingDetails={historyLoading}
+                    onAddNotification={addNotification}
                   />
                 </motion.div>
               )}
@@ -749,7 +744,29 @@ const App: React.FC = () => {
                     transactions={transactions}
                     onAddAccount={handleAddAccount}
                     onInternalMovement={dataOps.createBankMovement}
+                    onTransfer={dataOps.createBankTransfer}
+                    onReverseTransfer={dataOps.reverseBankTransfer}
+                    onUpdateAccount={dataOps.updateBankAccount}
+                    onArchiveAccount={dataOps.archiveBankAccount}
                     onRefresh={refreshData}
+                    onAddNotification={addNotification}
+                  />
+                </motion.div>
+              )}
+
+              {currentView === 'ROUTE' && (
+                <motion.div
+                  key="ROUTE"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 20 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full flex flex-col"
+                >
+                  <RouteView
+                    clients={clients}
+                    onCollect={(client) => handleQuickAction(client, 'PAYMENT')}
+                    onAddNotification={addNotification}
                   />
                 </motion.div>
               )}
@@ -791,7 +808,7 @@ const App: React.FC = () => {
         isOpen={isQuickSearchOpen}
         onClose={() => setIsQuickSearchOpen(false)}
         clients={clients}
-        clientMetrics={clientBalances}
+        clientMetrics={clientSummaries}
         onSelectClient={(client) => handleQuickAction(client, 'PAYMENT')}
         formatCurrency={formatCurrency}
       />
@@ -810,7 +827,7 @@ const App: React.FC = () => {
         onClose={() => setIsClientModalOpen(false)}
         onSubmit={handleClientSubmit}
         editingClient={editingClient}
-        bankAccounts={bankAccounts}
+        bankAccounts={selectableBankAccounts}
         allClients={clients}
         nextCardCode={nextCardCode}
         maxCardLimit={settings.maxCardLimit}
@@ -823,7 +840,7 @@ const App: React.FC = () => {
           onSubmit={handleTransactionSubmit}
           activeClient={activeClient}
           allClients={clients}
-          bankAccounts={bankAccounts}
+          bankAccounts={selectableBankAccounts}
           initialMode={transModalMode}
           editingTransaction={editingTransaction}
           clientTransactions={transactions.filter(t => t.clientId === activeClient.id).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())}
@@ -1,61 +1,113 @@
 
-import React, { useState } from 'react';
-import { BankAccount, Transaction } from '../types';
-import { Landmark, Plus, ArrowUpRight, ArrowDownLeft, Wallet, CreditCard, History, Paperclip, Loader2, Image as ImageIcon, X, DollarSign, Calendar, Lock } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { BankAccount, Transaction, CashSession } from '../types';
+import { Landmark, Plus, ArrowUpRight, ArrowDownLeft, Wallet, CreditCard, History, Paperclip, Loader2, Image as ImageIcon, X, DollarSign, Calendar, Lock, Scale, ClipboardCheck, FileSpreadsheet, ArrowRightLeft, RotateCcw, Pencil, Archive, ArchiveRestore, ChevronDown, ChevronUp } from 'lucide-react';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { useData } from '../contexts/DataContext';
 import { compressImage } from '../utils/imageUtils';
+import { getErrorMessage, getToday, formatCurrency, formatNumberWithDots, parseCurrency, getActiveCurrency, CURRENCIES } from '../utils/format';
+import { fetchCashSessions, openCashSession, closeCashSession } from '../services/cashSessionService';
+import { fetchBankTransactions, fetchTransferCounterparts } from '../services/bankService';
+import { CashBoxModal } from './bank/CashBoxModal';
+import { CashSessionReview } from './bank/CashSessionReview';
+import { StatementReconciliation } from './bank/StatementReconciliation';
+import { BalanceProofModal } from './bank/BalanceProofModal';
 
 interface BankDashboardProps {
    accounts: BankAccount[];
    transactions: Transaction[];
    onAddAccount: (acc: BankAccount) => void;
-   onInternalMovement: (accountId: string, amount: number, type: 'DEPOSIT' | 'WITHDRAWAL', note: string, receiptFile?: File | null) => void;
+   onInternalMovement: (accountId: string, amount: number, type: 'DEPOSIT' | 'WITHDRAWAL', note: string, receiptFile?: File | null, exchangeRate?: number) => void;
+   onTransfer: (fromAccountId: string, toAccountId: string, amount: number, fee: number, note: string, rate?: number) => Promise<boolean>;
+   onReverseTransfer: (leg: Transaction, reason: string) => Promise<boolean>;
+   onUpdateAccount: (account: BankAccount, fields: { name: string; accountNumber: string }) => Promise<boolean>;
+   onArchiveAccount: (account: BankAccount, archived: boolean) => Promise<boolean>;
    onRefresh?: () => Promise<void>;
+   onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
 }
 
 import { PullToRefresh } from './ui/PullToRefresh';
 
-const formatNumberWithDots = (value: string | number) => {
-   if (value === '' || value === undefined || value === null) return '';
-   const numStr = value.toString().replace(/\D/g, '');
-   return numStr.replace(/\B(?=(\d{3})+(?!\d))/g, ".");
-};
-
-const parseCurrency = (value: string) => {
-   if (!value) return 0;
-   return Number(value.replace(/\./g, ''));
-};
-
-export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transactions, onAddAccount, onInternalMovement, onRefresh }) => {
-   const { can } = useOrganization();
+export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transactions, onAddAccount, onInternalMovement, onTransfer, onReverseTransfer, onUpdateAccount, onArchiveAccount, onRefresh, onAddNotification }) => {
+   const { can, currentOrg, userRole, members, loadMembers } = useOrganization();
+   const { ledgerBalances, addLog } = useData();
    const [showAddModal, setShowAddModal] = useState(false);
-   const [newAccount, setNewAccount] = useState({ name: '', accountNumber: '', isCash: false, initialBalance: '' });
+   const [newAccount, setNewAccount] = useState({ name: '', accountNumber: '', isCash: false, initialBalance: '', currency: '' });
 
    // Movement State
    const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
-   const [movementForm, setMovementForm] = useState({ type: 'DEPOSIT', amount: '', note: '' });
+   const [movementForm, setMovementForm] = useState({ type: 'DEPOSIT', amount: '', note: '', rate: '' });
    const [movementFile, setMovementFile] = useState<File | null>(null);
    const [movementPreview, setMovementPreview] = useState<string>('');
    const [isCompressing, setIsCompressing] = useState(false);
 
    // History State
    const [historyAccountId, setHistoryAccountId] = useState<string | null>(null);
-
-   const formatCurrency = (val: number) => {
-      return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(val);
+   const [historyRows, setHistoryRows] = useState<Transaction[]>([]);
+   const [historyCounterparts, setHistoryCounterparts] = useState<Record<string, string>>({});
+   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+   const [historyReload, setHistoryReload] = useState(0);
+
+   // Transfer State
+   const [showTransferModal, setShowTransferModal] = useState(false);
+   const [transferForm, setTransferForm] = useState({ fromId: '', toId: '', amount: '', fee: '', note: '', rate: '' });
+   const [isTransferring, setIsTransferring] = useState(false);
+
+   // Cash Box (arqueo) State
+   const [cashSessions, setCashSessions] = useState<CashSession[]>([]);
+   const [cashBoxAccountId, setCashBoxAccountId] = useState<string | null>(null);
+   const [isCashBoxLoading, setIsCashBoxLoading] = useState(false);
+   const canReviewCashBoxes = userRole === 'owner' || userRole === 'admin';
+
+   // Statement Reconciliation State
+   const [statementAccountId, setStatementAccountId] = useState<string | null>(null);
+
+   // Edit / Archive / Balance Proof State
+   const [editAccountId, setEditAccountId] = useState<string | null>(null);
+   const [editForm, setEditForm] = useState({ name: '', accountNumber: '' });
+   const [isSavingAccount, setIsSavingAccount] = useState(false);
+   const [showArchived, setShowArchived] = useState(false);
+   const [proofAccountId, setProofAccountId] = useState<string | null>(null);
+
+   // Las archivadas conservan su historial pero no se ofrecen para mover plata.
+   const activeAccounts = accounts.filter(a => !a.archivedAt);
+   const archivedAccounts = accounts.filter(a => a.archivedAt);
+
+   const loadCashSessions = async () => {
+      if (!currentOrg) return;
+      const since = new Date();
+      since.setDate(since.getDate() - 30);
+      try {
+         setCashSessions(await fetchCashSessions(currentOrg.id, since.toISOString().split('T')[0]));
+      } catch (err) {
+         console.error('Error cargando arqueos:', err);
+      }
    };
 
+   useEffect(() => {
+      loadCashSessions();
+      if (canReviewCashBoxes) loadMembers();
+   }, [currentOrg, canReviewCashBoxes]);
+
+   // Moneda de cada cuenta: la propia o, si no tiene, la de la organización.
+   const orgCurrency = currentOrg?.currency || getActiveCurrency();
+   const currencyOf = (accountId?: string | null) => accounts.find(a => a.id === accountId)?.currency || orgCurrency;
+   const isForeign = (accountId?: string | null) => currencyOf(accountId) !== orgCurrency;
+
    const handleCreate = (e: React.FormEvent) => {
       e.preventDefault();
+      // Las cuentas en otra moneda se abren en cero y no pueden ser caja de efectivo.
+      const foreign = !!newAccount.currency && newAccount.currency !== orgCurrency;
       onAddAccount({
          id: Math.random().toString(36).substr(2, 9),
          name: newAccount.name,
          accountNumber: newAccount.accountNumber,
-         isCash: newAccount.isCash,
-         balance: parseCurrency(newAccount.initialBalance) || 0
+         isCash: foreign ? false : newAccount.isCash,
+         currency: foreign ? newAccount.currency : null,
+         balance: foreign ? 0 : parseCurrency(newAccount.initialBalance) || 0
       });
       setShowAddModal(false);
-      setNewAccount({ name: '', accountNumber: '', isCash: false, initialBalance: '' });
+      setNewAccount({ name: '', accountNumber: '', isCash: false, initialBalance: '', currency: '' });
    };
 
    const handleMovementSubmit = async (e: React.FormEvent) => {
@@ -64,15 +116,16 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
 
       onInternalMovement(
          activeAccountId,
-         parseCurrency(movementForm.amount),
+         parseCurrency(movementForm.amount, currencyOf(activeAccountId)),
          movementForm.type as 'DEPOSIT' | 'WITHDRAWAL',
          movementForm.note,
-         movementFile
+         movementFile,
+         isForeign(activeAccountId) ? Number(movementForm.rate) : undefined
       );
 
       // Reset
       setActiveAccountId(null);
-      setMovementForm({ type: 'DEPOSIT', amount: '', note: '' });
+      setMovementForm({ type: 'DEPOSIT', amount: '', note: '', rate: '' });
       setMovementFile(null);
       setMovementPreview('');
    };
@@ -94,14 +147,164 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
       }
    };
 
-   const totalLiquidity = accounts.reduce((sum, acc) => sum + acc.balance, 0);
+   const handleOpenCashBox = async () => {
+      if (!cashBoxAccountId || isCashBoxLoading) return;
+      setIsCashBoxLoading(true);
+      try {
+         await openCashSession(cashBoxAccountId);
+         await loadCashSessions();
+         addLog('CREATE', 'BANK', `Caja abierta: ${accounts.find(a => a.id === cashBoxAccountId)?.name}`);
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      } finally {
+         setIsCashBoxLoading(false);
+      }
+   };
 
-   // Filter transactions for history view
-   const activeAccountHistory = historyAccountId
-      ? transactions.filter(t => t.bankAccountId === historyAccountId).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+   const handleCloseCashBox = async (counted: number, explanation: string) => {
+      const session = cashSessions.find(s => s.bankAccountId === cashBoxAccountId && s.status === 'OPEN');
+      if (!session || isCashBoxLoading) return;
+      setIsCashBoxLoading(true);
+      try {
+         const closed = await closeCashSession(session.id, counted, explanation);
+         setCashSessions(prev => prev.map(s => s.id === closed.id ? closed : s));
+         const diff = closed.difference || 0;
+         addLog('UPDATE', 'BANK', `Arqueo cerrado: ${accounts.find(a => a.id === closed.bankAccountId)?.name} (${closed.date})`,
+            `Esperado ${formatCurrency(closed.expectedBalance || 0)} · Contado ${formatCurrency(closed.countedAmount || 0)}${explanation ? ` · ${explanation}` : ''}`,
+            diff < 0 ? 'WARNING' : 'SUCCESS');
+         onAddNotification(diff === 0 ? 'Caja cuadrada y cerrada' : `Caja cerrada con diferencia de ${formatCurrency(diff)}`, diff === 0 ? 'success' : 'info');
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      } finally {
+         setIsCashBoxLoading(false);
+      }
+   };
+
+   // Sesión vigente de la caja: la abierta o, si ya se cerró, la de hoy.
+   const cashBoxAccount = accounts.find(a => a.id === cashBoxAccountId);
+   const cashBoxSession = cashSessions.find(s => s.bankAccountId === cashBoxAccountId && s.status === 'OPEN')
+      || cashSessions.find(s => s.bankAccountId === cashBoxAccountId && s.date === getToday());
+
+   // Las cuentas en otra moneda suman su valor en libros (diario, moneda de la organización).
+   const totalLiquidity = accounts.reduce((sum, acc) => sum + (isForeign(acc.id)
+      ? ledgerBalances.find(l => l.bank_account_id === acc.id)?.balance || 0
+      : acc.balance), 0);
+
+   // Balance de comprobación: débitos y créditos del diario deben coincidir.
+   const ledgerDebit = ledgerBalances.reduce((sum, a) => sum + a.debit, 0);
+   const ledgerCredit = ledgerBalances.reduce((sum, a) => sum + a.credit, 0);
+   const isLedgerBalanced = Math.abs(ledgerDebit - ledgerCredit) < 0.01;
+
+   // El listado global solo trae columnas resumen (sin cuenta ni notas): el
+   // historial se consulta por cuenta y se completa con lo que llegue en vivo.
+   useEffect(() => {
+      if (!historyAccountId) return;
+      let mounted = true;
+      setIsHistoryLoading(true);
+      fetchBankTransactions(historyAccountId, '0000-01-01', '9999-12-31')
+         .then(async rows => {
+            const counterparts = await fetchTransferCounterparts(rows);
+            if (!mounted) return;
+            setHistoryRows(rows);
+            setHistoryCounterparts(counterparts);
+         })
+         .catch(err => onAddNotification(getErrorMessage(err), 'error'))
+         .finally(() => { if (mounted) setIsHistoryLoading(false); });
+      return () => { mounted = false; };
+   }, [historyAccountId, historyReload]);
+
+   const accountRows = historyAccountId
+      ? [...historyRows, ...transactions.filter(t => t.bankAccountId === historyAccountId && !historyRows.some(h => h.id === t.id))]
       : [];
+   // La comisión de una transferencia se muestra dentro de su salida.
+   const transferFee = (t: Transaction) => accountRows.find(f => f.type === 'BANK_FEE' && f.relatedTransactionId === t.id);
+   const activeAccountHistory = accountRows
+      .filter(t => !(t.type === 'BANK_FEE' && accountRows.some(o => o.id === t.relatedTransactionId)))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+   // Una reversión mueve la plata en sentido contrario a su origen.
+   const isOutflow = (t: Transaction): boolean => {
+      if (t.type !== 'REVERSAL') return ['DISBURSEMENT', 'REFINANCE', 'BANK_WITHDRAWAL', 'BANK_TRANSFER_OUT', 'BANK_FEE'].includes(t.type);
+      const origin = accountRows.find(o => o.id === t.relatedTransactionId);
+      return origin ? !isOutflow(origin) : false;
+   };
+
+   const historyLabel = (t: Transaction): string => {
+      if (t.type === 'REVERSAL') {
+         const origin = accountRows.find(o => o.id === t.relatedTransactionId);
+         return origin ? `Reversión · ${historyLabel(origin)}` : 'Reversión';
+      }
+      const other = accounts.find(a => a.id === historyCounterparts[t.id])?.name;
+      if (t.type === 'BANK_TRANSFER_OUT') return `Transferencia → ${other || 'otra cuenta'}`;
+      if (t.type === 'BANK_TRANSFER_IN') return `Transferencia ← ${other || 'otra cuenta'}`;
+      if (t.type === 'BANK_FEE') return 'Comisión bancaria';
+      return t.type;
+   };
+
+   // Entre monedas distintas la tasa se digita como "1 <extranjera> = X <organización>"
+   // y se convierte a unidades destino por unidad origen, que es lo que espera el servidor.
+   const transferFromCurrency = currencyOf(transferForm.fromId);
+   const transferToCurrency = currencyOf(transferForm.toId);
+   const transferForeignCurrency = transferFromCurrency !== orgCurrency ? transferFromCurrency : transferToCurrency;
+   const isCrossCurrency = transferFromCurrency !== transferToCurrency;
+   const quotedRate = Number(transferForm.rate) || 0;
+   const transferRate = !isCrossCurrency || quotedRate <= 0
+      ? undefined
+      : transferFromCurrency === orgCurrency ? 1 / quotedRate : quotedRate;
+   const transferAmount = parseCurrency(transferForm.amount, transferFromCurrency);
+
+   const handleTransferSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (isTransferring || !transferForm.fromId || !transferForm.toId) return;
+      if (isCrossCurrency && !transferRate) return;
+      setIsTransferring(true);
+      const ok = await onTransfer(
+         transferForm.fromId,
+         transferForm.toId,
+         transferAmount,
+         parseCurrency(transferForm.fee, transferFromCurrency),
+         transferForm.note,
+         transferRate
+      );
+      setIsTransferring(false);
+      if (ok) {
+         setShowTransferModal(false);
+         setTransferForm({ fromId: '', toId: '', amount: '', fee: '', note: '', rate: '' });
+      }
+   };
+
+   // Se reversa la transferencia completa (salida, entrada y comisión) desde cualquiera de sus patas.
+   const handleReverseTransfer = async (leg: Transaction) => {
+      const reason = window.prompt('Motivo de la reversión de la transferencia:');
+      if (!reason || !reason.trim()) return;
+      if (await onReverseTransfer(leg, reason)) setHistoryReload(n => n + 1);
+   };
 
    const activeAccountDetails = accounts.find(a => a.id === historyAccountId);
+   const editAccount = accounts.find(a => a.id === editAccountId);
+   const proofAccount = accounts.find(a => a.id === proofAccountId);
+
+   const openEditAccount = (acc: BankAccount) => {
+      setEditForm({ name: acc.name, accountNumber: acc.accountNumber || '' });
+      setEditAccountId(acc.id);
+   };
+
+   const handleEditSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!editAccount || isSavingAccount) return;
+      setIsSavingAccount(true);
+      const ok = await onUpdateAccount(editAccount, editForm);
+      setIsSavingAccount(false);
+      if (ok) setEditAccountId(null);
+   };
+
+   const handleArchiveToggle = async (acc: BankAccount) => {
+      if (isSavingAccount) return;
+      setIsSavingAccount(true);
+      const ok = await onArchiveAccount(acc, !acc.archivedAt);
+      setIsSavingAccount(false);
+      if (ok) setEditAccountId(null);
+   };
 
    return (
       <PullToRefresh onRefresh={onRefresh || (async () => { })}>
@@ -116,24 +319,42 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                </div>
                <div className="text-right">
                   <div className="text-2xl md:text-3xl font-black text-green-400">{formatCurrency(totalLiquidity)}</div>
+                  {can('manage_banks') && activeAccounts.length > 1 && (
+                     <button
+                        onClick={() => { setTransferForm(f => ({ ...f, fromId: activeAccounts[0].id, toId: activeAccounts[1].id })); setShowTransferModal(true); }}
+                        className="mt-2 bg-white/10 hover:bg-white/20 text-white text-[10px] md:text-xs font-black px-3 py-1.5 rounded-lg inline-flex items-center gap-1 transition-colors"
+                     >
+                        <ArrowRightLeft size={14} /> Transferir
+                     </button>
+                  )}
                </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-               {accounts.map(acc => (
+               {activeAccounts.map(acc => (
                   <div key={acc.id} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden relative group hover:shadow-md transition-shadow flex flex-col">
                      <div className={`h-2 w-full ${acc.isCash ? 'bg-green-500' : 'bg-blue-600'}`}></div>
                      <div className="p-5 flex-1 flex flex-col">
                         <div className="flex justify-between items-start mb-4">
                            <div>
-                              <h3 className="font-bold text-lg text-slate-800">{acc.name}</h3>
+                              <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+                                 {acc.name}
+                                 {isForeign(acc.id) && <span className="text-[10px] font-black bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded">{acc.currency}</span>}
+                              </h3>
                               <p className="text-xs text-slate-500 font-mono">{acc.accountNumber}</p>
                            </div>
-                           {acc.isCash ? <Wallet className="text-green-500 opacity-20" size={32} /> : <CreditCard className="text-blue-600 opacity-20" size={32} />}
+                           <div className="flex items-center gap-1">
+                              {can('manage_banks') && (
+                                 <button onClick={() => openEditAccount(acc)} className="text-slate-300 hover:text-slate-600 hover:bg-slate-100 p-1.5 rounded-lg transition-colors" title="Editar cuenta">
+                                    <Pencil size={16} />
+                                 </button>
+                              )}
+                              {acc.isCash ? <Wallet className="text-green-500 opacity-20" size={32} /> : <CreditCard className="text-blue-600 opacity-20" size={32} />}
+                           </div>
                         </div>
 
                         <div className="text-2xl font-bold text-slate-900 mb-6">
-                           {formatCurrency(acc.balance)}
+                           {formatCurrency(acc.balance, acc.currency)}
                         </div>
 
                         <div className="mt-auto flex flex-col gap-2">
@@ -157,6 +378,23 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                                  <Lock size={12} /> Bloqueado (Sin permisos)
                               </div>
                            )}
+                           {acc.isCash && can('create_transactions') && (
+                              <button
+                                 onClick={() => setCashBoxAccountId(acc.id)}
+                                 className="bg-green-50 text-green-700 hover:bg-green-100 py-3 md:py-2 rounded-xl md:rounded text-xs font-black flex items-center justify-center gap-2 transition-colors"
+                              >
+                                 <ClipboardCheck size={16} /> Arqueo de Caja
+                                 {cashSessions.some(s => s.bankAccountId === acc.id && s.status === 'OPEN') && <span className="w-2 h-2 rounded-full bg-green-500"></span>}
+                              </button>
+                           )}
+                           {!acc.isCash && can('manage_banks') && (
+                              <button
+                                 onClick={() => setStatementAccountId(acc.id)}
+                                 className="bg-blue-50 text-blue-700 hover:bg-blue-100 py-3 md:py-2 rounded-xl md:rounded text-xs font-black flex items-center justify-center gap-2 transition-colors"
+                              >
+                                 <FileSpreadsheet size={16} /> Conciliar Extracto
+                              </button>
+                           )}
                            <button
                               onClick={() => setHistoryAccountId(acc.id)}
                               className="bg-slate-100 text-slate-600 hover:bg-slate-200 py-3 md:py-2 rounded-xl md:rounded text-xs font-black flex items-center justify-center gap-2 transition-colors"
@@ -179,6 +417,166 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                )}
             </div>
 
+            {/* Archived Accounts */}
+            {archivedAccounts.length > 0 && (
+               <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
+                  <button
+                     onClick={() => setShowArchived(!showArchived)}
+                     className="w-full flex justify-between items-center p-4 hover:bg-slate-50 transition-colors text-left"
+                  >
+                     <span className="font-bold text-slate-800 flex items-center gap-2">
+                        <Archive size={18} className="text-slate-500" /> Cuentas Archivadas ({archivedAccounts.length})
+                     </span>
+                     {showArchived ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+                  </button>
+                  {showArchived && (
+                     <div className="divide-y divide-slate-100 border-t border-slate-100">
+                        {archivedAccounts.map(acc => (
+                           <div key={acc.id} className="flex justify-between items-center p-4 gap-2">
+                              <div className="min-w-0">
+                                 <div className="font-bold text-slate-600 truncate">{acc.name}</div>
+                                 <div className="text-[10px] text-slate-400 font-mono">{acc.accountNumber} · archivada {acc.archivedAt?.split('T')[0]}</div>
+                              </div>
+                              <div className="flex gap-2 shrink-0">
+                                 <button onClick={() => setHistoryAccountId(acc.id)} className="bg-slate-100 text-slate-600 hover:bg-slate-200 px-3 py-2 rounded-lg text-xs font-black flex items-center gap-1 transition-colors">
+                                    <History size={14} /> Movimientos
+                                 </button>
+                                 {can('manage_banks') && (
+                                    <button onClick={() => handleArchiveToggle(acc)} disabled={isSavingAccount} className="bg-blue-50 text-blue-700 hover:bg-blue-100 px-3 py-2 rounded-lg text-xs font-black flex items-center gap-1 transition-colors disabled:opacity-50">
+                                       <ArchiveRestore size={14} /> Restaurar
+                                    </button>
+                                 )}
+                              </div>
+                           </div>
+                        ))}
+                     </div>
+                  )}
+               </div>
+            )}
+
+            {/* Trial Balance */}
+            {ledgerBalances.length > 0 && (
+               <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
+                  <div className="flex justify-between items-center p-4 border-b border-slate-100">
+                     <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                        <Scale size={18} className="text-slate-500" /> Balance de Comprobación
+                     </h3>
+                     <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-1 rounded-full ${isLedgerBalanced ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                        {isLedgerBalanced ? 'Cuadrado' : 'Descuadre'}
+                     </span>
+                  </div>
+                  <div className="overflow-x-auto">
+                     <table className="w-full text-sm">
+                        <thead>
+                           <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest bg-slate-50">
+                              <th className="text-left px-4 py-2">Cuenta</th>
+                              <th className="text-right px-4 py-2">Débitos</th>
+                              <th className="text-right px-4 py-2">Créditos</th>
+                              <th className="text-right px-4 py-2">Saldo</th>
+                           </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                           {ledgerBalances.map(a => (
+                              <tr key={a.id}>
+                                 <td className="px-4 py-2">
+                                    <span className="font-mono text-xs text-slate-400 mr-2">{a.code}</span>
+                                    <span className="font-bold text-slate-700">{a.name}</span>
+                                 </td>
+                                 <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(a.debit)}</td>
+                                 <td className="px-4 py-2 text-right text-slate-600">{formatCurrency(a.credit)}</td>
+                                 <td className="px-4 py-2 text-right font-black text-slate-900">{formatCurrency(a.balance)}</td>
+                              </tr>
+                           ))}
+                        </tbody>
+                        <tfoot>
+                           <tr className="bg-slate-50 font-black text-slate-800">
+                              <td className="px-4 py-2 text-xs uppercase tracking-widest">Totales</td>
+                              <td className="px-4 py-2 text-right">{formatCurrency(ledgerDebit)}</td>
+                              <td className="px-4 py-2 text-right">{formatCurrency(ledgerCredit)}</td>
+                              <td className="px-4 py-2"></td>
+                           </tr>
+                        </tfoot>
+                     </table>
+                  </div>
+               </div>
+            )}
+
+            {canReviewCashBoxes && <CashSessionReview sessions={cashSessions} accounts={accounts} members={members} />}
+
+            {/* Cash Box Modal */}
+            {cashBoxAccount && (
+               <CashBoxModal
+                  key={cashBoxSession?.id || 'closed'}
+                  account={cashBoxAccount}
+                  session={cashBoxSession}
+                  isLoading={isCashBoxLoading}
+                  onOpen={handleOpenCashBox}
+                  onClose={handleCloseCashBox}
+                  onDismiss={() => setCashBoxAccountId(null)}
+               />
+            )}
+
+            {/* Statement Reconciliation Modal */}
+            {statementAccountId && accounts.find(a => a.id === statementAccountId) && (
+               <StatementReconciliation
+                  account={accounts.find(a => a.id === statementAccountId)!}
+                  onDismiss={() => setStatementAccountId(null)}
+                  onAddNotification={onAddNotification}
+                  onAudit={(message, details) => addLog('UPDATE', 'BANK', message, details)}
+               />
+            )}
+
+            {/* Balance Proof Modal */}
+            {proofAccount && (
+               <BalanceProofModal
+                  account={proofAccount}
+                  onDismiss={() => setProofAccountId(null)}
+                  onAddNotification={onAddNotification}
+               />
+            )}
+
+            {/* Edit Account Modal */}
+            {editAccount && (
+               <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
+                  <form
+                     onSubmit={handleEditSubmit}
+                     className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl w-full max-w-md p-6 space-y-4 animate-in slide-in-from-bottom duration-300 md:animate-none"
+                     style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+                  >
+                     {/* MOBILE DRAG HANDLE */}
+                     <div className="md:hidden flex justify-center pb-2 opacity-30">
+                        <div className="w-10 h-1 bg-slate-400 rounded-full"></div>
+                     </div>
+                     <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2"><Pencil size={18} className="text-slate-500" /> Editar Cuenta</h3>
+                     <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Nombre Entidad / Caja</label>
+                        <input required type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-base font-medium transition-all" value={editForm.name} onChange={e => setEditForm({ ...editForm, name: e.target.value })} />
+                     </div>
+                     <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Número de Cuenta</label>
+                        <input type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-base font-mono transition-all" value={editForm.accountNumber} onChange={e => setEditForm({ ...editForm, accountNumber: e.target.value })} />
+                     </div>
+                     <div className="flex flex-col gap-2 pt-2">
+                        <button type="submit" disabled={isSavingAccount} className="w-full bg-slate-900 py-4 rounded-2xl font-black text-white hover:bg-black transition-all shadow-lg active:scale-95 flex items-center justify-center gap-2 disabled:opacity-50">
+                           {isSavingAccount && <Loader2 size={18} className="animate-spin" />} Guardar Cambios
+                        </button>
+                        <button
+                           type="button"
+                           onClick={() => handleArchiveToggle(editAccount)}
+                           disabled={isSavingAccount || editAccount.balance !== 0}
+                           className="w-full bg-red-50 py-3 rounded-2xl font-black text-red-600 hover:bg-red-100 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                           <Archive size={16} /> Archivar Cuenta
+                        </button>
+                        {editAccount.balance !== 0 && (
+                           <p className="text-[10px] text-slate-400 font-bold text-center">Para archivarla, deje la cuenta en cero (saldo actual {formatCurrency(editAccount.balance, editAccount.currency)}).</p>
+                        )}
+                        <button type="button" onClick={() => setEditAccountId(null)} className="w-full bg-slate-100 py-3 rounded-2xl font-black text-slate-500 hover:bg-slate-200 transition-colors">Cancelar</button>
+                     </div>
+                  </form>
+               </div>
+            )}
+
             {/* Internal Movement Modal */}
             {activeAccountId && (
                <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
@@ -205,11 +603,22 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                                  type="text"
                                  inputMode="decimal"
                                  className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl text-xl font-black outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all"
-                                 value={formatNumberWithDots(movementForm.amount)}
+                                 value={formatNumberWithDots(movementForm.amount, currencyOf(activeAccountId))}
                                  onChange={e => setMovementForm({ ...movementForm, amount: e.target.value })}
                               />
                            </div>
                         </div>
+                        {isForeign(activeAccountId) && (
+                           <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Tasa de cambio (1 {currencyOf(activeAccountId)} = ? {orgCurrency})</label>
+                              <input required type="number" min="0" step="any" inputMode="decimal" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-base font-bold outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all" value={movementForm.rate} onChange={e => setMovementForm({ ...movementForm, rate: e.target.value })} />
+                              {Number(movementForm.rate) > 0 && (
+                                 <p className="text-[10px] text-slate-400 font-bold mt-1">
+                                    Equivale a {formatCurrency(parseCurrency(movementForm.amount, currencyOf(activeAccountId)) * Number(movementForm.rate))}
+                                 </p>
+                              )}
+                           </div>
+                        )}
                         <div>
                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Motivo / Nota</label>
                            <input required type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all font-medium" placeholder="Ej: Inyección capital, Gastos..." value={movementForm.note} onChange={e => setMovementForm({ ...movementForm, note: e.target.value })} />
@@ -281,13 +690,20 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                            <h3 className="font-bold flex items-center gap-2">
                               <History size={18} /> Historial de Movimientos
                            </h3>
-                           <p className="text-xs text-slate-400">{activeAccountDetails.name}</p>
+                           <p className="text-xs text-slate-400">{activeAccountDetails.name}{activeAccountDetails.archivedAt ? ' · Archivada' : ''}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                           <button onClick={() => setProofAccountId(activeAccountDetails.id)} className="bg-white/10 hover:bg-white/20 text-[10px] md:text-xs font-black px-3 py-1.5 rounded-lg flex items-center gap-1 transition-colors">
+                              <Scale size={14} /> Prueba de Saldo
+                           </button>
+                           <button onClick={() => setHistoryAccountId(null)} className="hover:bg-slate-800 p-1 rounded"><X size={20} /></button>
                         </div>
-                        <button onClick={() => setHistoryAccountId(null)} className="hover:bg-slate-800 p-1 rounded"><X size={20} /></button>
                      </div>
 
                      <div className="flex-1 overflow-y-auto p-0 md:p-4 bg-slate-50">
-                        {activeAccountHistory.length === 0 ? (
+                        {isHistoryLoading ? (
+                           <div className="flex justify-center py-10"><Loader2 className="animate-spin text-slate-400" /></div>
+                        ) : activeAccountHistory.length === 0 ? (
                            <div className="text-center text-slate-400 py-10 font-bold uppercase tracking-widest text-xs">No hay movimientos.</div>
                         ) : (
                            <div className="divide-y divide-slate-200">
@@ -299,7 +715,9 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                               </div>
 
                               {activeAccountHistory.map(t => {
-                                 let isNegative = ['DISBURSEMENT', 'REFINANCE', 'BANK_WITHDRAWAL'].includes(t.type);
+                                 const isNegative = isOutflow(t);
+                                 const isTransferLeg = t.type === 'BANK_TRANSFER_OUT' || t.type === 'BANK_TRANSFER_IN';
+                                 const fee = t.type === 'BANK_TRANSFER_OUT' ? transferFee(t) : undefined;
                                  return (
                                     <div key={t.id} className="grid grid-cols-2 md:grid-cols-3 gap-1 p-4 bg-white md:bg-transparent items-center active:bg-slate-50 transition-colors">
                                        <div className="flex flex-col">
@@ -308,12 +726,26 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                                        </div>
 
                                        <div className="md:block order-3 md:order-2 col-span-2 md:col-span-1 mt-1 md:mt-0">
-                                          <div className="font-black text-[11px] md:text-sm text-slate-700 uppercase tracking-tight">{t.type}</div>
+                                          <div className="font-black text-[11px] md:text-sm text-slate-700 uppercase tracking-tight flex items-center gap-1">
+                                             {isTransferLeg && <ArrowRightLeft size={12} className="text-blue-500 shrink-0" />}
+                                             {historyLabel(t)}
+                                             {t.voided && <span className="text-[9px] font-black text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded normal-case">Reversada</span>}
+                                             {isTransferLeg && !t.voided && can('manage_banks') && (
+                                                <button
+                                                   onClick={() => handleReverseTransfer(t)}
+                                                   className="text-slate-400 hover:text-red-600 p-1 rounded transition-colors"
+                                                   title="Reversar Transferencia"
+                                                >
+                                                   <RotateCcw size={12} />
+                                                </button>
+                                             )}
+                                          </div>
                                           {t.notes && <div className="text-[10px] md:text-xs text-slate-500 italic font-medium truncate">"{t.notes}"</div>}
                                        </div>
 
-                                       <div className={`text-right font-black text-base md:text-sm order-2 md:order-3 ${isNegative ? 'text-red-500' : 'text-green-600'}`}>
-                                          {isNegative ? '-' : '+'}{formatCurrency(t.amount)}
+                                       <div className={`text-right font-black text-base md:text-sm order-2 md:order-3 ${t.voided ? 'text-slate-400 line-through' : isNegative ? 'text-red-500' : 'text-green-600'}`}>
+                                          {isNegative ? '-' : '+'}{formatCurrency(t.amount, activeAccountDetails.currency)}
+                                          {fee && <div className="text-[10px] font-bold text-red-400">Comisión -{formatCurrency(fee.amount, activeAccountDetails.currency)}</div>}
                                        </div>
                                     </div>
                                  );
@@ -325,6 +757,99 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                </div>
             )}
 
+            {/* Transfer Modal */}
+            {showTransferModal && (
+               <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
+                  <form
+                     onSubmit={handleTransferSubmit}
+                     className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl w-full max-w-sm p-6 space-y-4 animate-in slide-in-from-bottom duration-300 md:animate-none"
+                     style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+                  >
+                     {/* MOBILE DRAG HANDLE */}
+                     <div className="md:hidden flex justify-center pb-2 opacity-30">
+                        <div className="w-10 h-1 bg-slate-400 rounded-full"></div>
+                     </div>
+                     <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+                        <ArrowRightLeft className="text-blue-600" /> Transferir entre Cuentas
+                     </h3>
+                     <div className="grid grid-cols-2 gap-2">
+                        <div>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Desde</label>
+                           <select required className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-sm font-bold outline-none focus:ring-4 focus:ring-blue-100" value={transferForm.fromId} onChange={e => setTransferForm({ ...transferForm, fromId: e.target.value, toId: e.target.value === transferForm.toId ? (activeAccounts.find(a => a.id !== e.target.value)?.id || '') : transferForm.toId })}>
+                              {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                           </select>
+                        </div>
+                        <div>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Hacia</label>
+                           <select required className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-sm font-bold outline-none focus:ring-4 focus:ring-blue-100" value={transferForm.toId} onChange={e => setTransferForm({ ...transferForm, toId: e.target.value })}>
+                              {activeAccounts.filter(a => a.id !== transferForm.fromId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                           </select>
+                        </div>
+                     </div>
+                     <p className="text-[10px] text-slate-400 font-bold">
+                        Disponible: {formatCurrency(accounts.find(a => a.id === transferForm.fromId)?.balance || 0, transferFromCurrency)}
+                     </p>
+                     <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Monto</label>
+                        <div className="relative">
+                           <span className="absolute left-3 top-3.5 text-slate-400 font-black text-lg">$</span>
+                           <input
+                              autoFocus
+                              required
+                              type="text"
+                              inputMode="decimal"
+                              className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl text-xl font-black outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all"
+                              value={formatNumberWithDots(transferForm.amount, transferFromCurrency)}
+                              onChange={e => setTransferForm({ ...transferForm, amount: e.target.value })}
+                           />
+                        </div>
+                     </div>
+                     {isCrossCurrency && (
+                        <div>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Tasa de cambio (1 {transferForeignCurrency} = ? {orgCurrency})</label>
+                           <input required type="number" min="0" step="any" inputMode="decimal" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-base font-bold outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all" value={transferForm.rate} onChange={e => setTransferForm({ ...transferForm, rate: e.target.value })} />
+                           {transferRate && transferAmount > 0 && (
+                              <p className="text-[10px] text-slate-400 font-bold mt-1">
+                                 Recibe: {formatCurrency(transferAmount * transferRate, transferToCurrency)}
+                              </p>
+                           )}
+                           {transferFromCurrency !== orgCurrency && transferToCurrency !== orgCurrency && (
+                              <p className="text-[10px] text-red-500 font-bold mt-1">Una de las cuentas debe estar en {orgCurrency}.</p>
+                           )}
+                        </div>
+                     )}
+                     <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Comisión (Opcional)</label>
+                        <div className="relative">
+                           <span className="absolute left-3 top-3 text-slate-400 font-black">$</span>
+                           <input
+                              type="text"
+                              inputMode="decimal"
+                              className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl text-base font-bold outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all"
+                              placeholder="0"
+                              value={formatNumberWithDots(transferForm.fee, transferFromCurrency)}
+                              onChange={e => setTransferForm({ ...transferForm, fee: e.target.value })}
+                           />
+                        </div>
+                     </div>
+                     <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Nota</label>
+                        <input type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all font-medium" placeholder="Ej: Consignación del recaudo" value={transferForm.note} onChange={e => setTransferForm({ ...transferForm, note: e.target.value })} />
+                     </div>
+                     <div className="flex flex-col gap-2 pt-2">
+                        <button
+                           type="submit"
+                           disabled={isTransferring || !transferForm.toId || transferForm.fromId === transferForm.toId || (isCrossCurrency && !transferRate)}
+                           className="w-full py-4 rounded-2xl font-black text-white bg-blue-600 hover:bg-blue-700 shadow-lg transition-transform active:scale-95 flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                           {isTransferring ? <Loader2 size={18} className="animate-spin" /> : <ArrowRightLeft size={18} />} Confirmar Transferencia
+                        </button>
+                        <button type="button" onClick={() => setShowTransferModal(false)} className="w-full bg-slate-100 py-3 rounded-2xl font-black text-slate-500 hover:bg-slate-200 transition-colors">Cancelar</button>
+                     </div>
+                  </form>
+               </div>
+            )}
+
             {/* Add Account Modal */}
             {showAddModal && (
                <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
@@ -347,24 +872,38 @@ export const BankDashboard: React.FC<BankDashboardProps> = ({ accounts, transact
                         <input type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-base font-mono transition-all" placeholder="XXXX-XXXX" value={newAccount.accountNumber} onChange={e => setNewAccount({ ...newAccount, accountNumber: e.target.value })} />
                      </div>
                      <div>
-                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Saldo Inicial</label>
-                        <div className="relative">
-                           <span className="absolute left-3 top-3.5 text-slate-400 font-black text-lg">$</span>
-                           <input
-                              required
-                              type="text"
-                              inputMode="decimal"
-                              className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl font-black focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-xl transition-all"
-                              placeholder="0"
-                              value={formatNumberWithDots(newAccount.initialBalance)}
-                              onChange={e => setNewAccount({ ...newAccount, initialBalance: e.target.value })}
-                           />
-                        </div>
-                     </div>
-                     <div className="flex items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-200">
-                        <input type="checkbox" id="isCash" className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500" checked={newAccount.isCash} onChange={e => setNewAccount({ ...newAccount, isCash: e.target.checked })} />
-                        <label htmlFor="isCash" className="text-sm text-slate-700 font-bold uppercase tracking-tight">Es efectivo / Caja fuerte</label>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Moneda</label>
+                        <select className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-base font-bold transition-all" value={newAccount.currency || orgCurrency} onChange={e => setNewAccount({ ...newAccount, currency: e.target.value })}>
+                           {Object.entries(CURRENCIES).map(([code, c]) => <option key={code} value={code}>{code} · {c.label}</option>)}
+                        </select>
                      </div>
+                     {newAccount.currency && newAccount.currency !== orgCurrency ? (
+                        <p className="text-xs text-slate-500 bg-amber-50 border border-amber-100 p-3 rounded-2xl">
+                           Las cuentas en {newAccount.currency} se abren en cero: fondéela con una transferencia o un ingreso indicando la tasa de cambio.
+                        </p>
+                     ) : (
+                        <>
+                           <div>
+                              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Saldo Inicial</label>
+                              <div className="relative">
+                                 <span className="absolute left-3 top-3.5 text-slate-400 font-black text-lg">$</span>
+                                 <input
+                                    required
+                                    type="text"
+                                    inputMode="decimal"
+                                    className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl font-black focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none text-xl transition-all"
+                                    placeholder="0"
+                                    value={formatNumberWithDots(newAccount.initialBalance)}
+                                    onChange={e => setNewAccount({ ...newAccount, initialBalance: e.target.value })}
+                                 />
+                              </div>
+                           </div>
+                           <div className="flex items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-200">
+                              <input type="checkbox" id="isCash" className="w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500" checked={newAccount.isCash} onChange={e => setNewAccount({ ...newAccount, isCash: e.target.checked })} />
+                              <label htmlFor="isCash" className="text-sm text-slate-700 font-bold uppercase tracking-tight">Es efectivo / Caja fuerte</label>
+                           </div>
+                        </>
+                     )}
                      <div className="flex flex-col gap-2 pt-4">
                         <button type="submit" className="w-full bg-slate-900 py-4 rounded-2xl font-black text-white hover:bg-black transition-all shadow-lg active:scale-95">Crear Cuenta</button>
                         <button type="button" onClick={() => setShowAddModal(false)} className="w-full bg-slate-100 py-3 rounded-2xl font-black text-slate-500 hover:bg-slate-200 transition-colors">Cancelar</button>
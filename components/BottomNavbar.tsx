@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Folder, Landmark, Settings, Zap } from 'lucide-react';
+import { Folder, Landmark, Route, Settings, Zap } from 'lucide-react';
 
 interface BottomNavbarProps {
     currentView: string;
@@ -54,10 +54,13 @@ export const BottomNavbar: React.FC<BottomNavbarProps> = ({ currentView, onChang
                 <span className="text-[10px] font-bold uppercase tracking-tighter">Ajustes</span>
             </button>
 
-            <div className="flex-1 flex flex-col items-center justify-center gap-1 text-slate-300 pointer-events-none opacity-20">
-                <div className="w-5 h-5 border-2 border-current rounded-md"></div>
-                <span className="text-[10px] font-bold uppercase tracking-tighter italic">Pro</span>
-            </div>
+            <button
+                onClick={() => onChangeView('ROUTE')}
+                className={`flex-1 flex flex-col items-center justify-center gap-1 transition-colors ${currentView === 'ROUTE' ? 'text-blue-600' : 'text-slate-400'}`}
+            >
+                <Route size={20} className={currentView === 'ROUTE' ? 'fill-blue-50' : ''} />
+                <span className="text-[10px] font-bold uppercase tracking-tighter">Ruta</span>
+            </button>
         </div>
     );
 };
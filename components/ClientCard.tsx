@@ -4,14 +4,23 @@ import { Client, Transaction } from '../types';
 import {
    TrendingUp, ArrowRightLeft, ArrowLeft, CheckCircle, Ban, DollarSign,
    User, Calendar, MapPin, Phone, Briefcase, UserPlus, FileText,
-   AlertTriangle, Trash2, Pencil, ExternalLink, X, Clock, ShieldCheck, Loader2
+   AlertTriangle, Trash2, Pencil, ExternalLink, X, Clock, ShieldCheck, Loader2, RotateCcw, BanknoteX
 } from 'lucide-react';
 import { formatCurrency, getToday } from '../utils/format';
 import { getReceiptSignedUrl } from '../utils/receipts';
 import { EditableField } from './ui/EditableField';
 import { ClientStats } from './client/ClientStats';
 import { TransactionHistory } from './client/TransactionHistory';
+import { PaymentSchedule } from './client/PaymentSchedule';
+import { PaymentPromises } from './client/PaymentPromises';
+import { CreditScoreCard } from './client/CreditScoreCard';
+import { ClientLoans } from './client/ClientLoans';
+import { WriteOffCard } from './client/WriteOffCard';
+import { RecordRecoveryInput, RestructureLoanInput, WriteOffClientInput } from '../services/transactionService';
+import { getCurrentInstallment, summarizeArrears, getOutstandingLateFees } from '../services/loanUtils';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { useData } from '../contexts/DataContext';
+import { useAuth } from '../contexts/AuthContext';
 import { motion } from 'framer-motion';
 
 interface ClientCardProps {
@@ -25,16 +34,25 @@ interface ClientCardProps {
    onCloseCredit: () => void;
    onDeleteClient?: (client: Client) => void;
    onDeleteTransaction?: (tx: Transaction) => void;
+   onReverseTransaction?: (tx: Transaction, reason: string) => void;
+   onRestructureLoan?: (input: RestructureLoanInput) => Promise<boolean>;
+   onWriteOffClient?: (input: WriteOffClientInput) => Promise<boolean>;
+   onRecordRecovery?: (input: RecordRecoveryInput) => Promise<boolean>;
    onEditTransaction?: (tx: Transaction) => void;
    isLoadingDetails?: boolean;
+   onAddNotification?: (msg: string, type: 'success' | 'error' | 'info') => void;
 }
 
 export const ClientCard: React.FC<ClientCardProps> = ({
    client, transactions, allClients, onAddTransaction, onBack,
    onUpdateClient, onEditClient, onCloseCredit, onDeleteClient,
-   onDeleteTransaction, onEditTransaction, isLoadingDetails
+   onDeleteTransaction, onReverseTransaction, onRestructureLoan, onWriteOffClient, onRecordRecovery,
+   onEditTransaction, isLoadingDetails, onAddNotification
 }) => {
-   const { can } = useOrganization();
+   const { can, userRole } = useOrganization();
+   const { settings, bankAccounts } = useData();
+   const { user } = useAuth();
+   const isAdmin = userRole === 'owner' || userRole === 'admin';
 
    // State for image lightbox
    const [viewingReceiptUrl, setViewingReceiptUrl] = useState<string | null>(null);
@@ -42,10 +60,46 @@ export const ClientCard: React.FC<ClientCardProps> = ({
    // State for Confirmation Modal
    const [deletingItem, setDeletingItem] = useState<{ type: 'CLIENT' | 'TRANSACTION', data: any } | null>(null);
 
+   // State for Reversal Modal (motivo obligatorio)
+   const [reversingTx, setReversingTx] = useState<Transaction | null>(null);
+   const [reverseReason, setReverseReason] = useState('');
+
+   // State for Write-off Modal (lo aprueba quien lo confirma)
+   const [isWritingOff, setIsWritingOff] = useState(false);
+   const [writeOffReason, setWriteOffReason] = useState('');
+   const [writeOffDate, setWriteOffDate] = useState(getToday());
+
    // --- Derived Data & Metrics ---
    const currentBalance = transactions.length > 0 ? transactions[transactions.length - 1].balanceAfter : 0;
-   const isLate = !!client.nextPaymentDate && client.nextPaymentDate < getToday() && currentBalance > 0;
+   // Con plan de cuotas, la mora se mide por cuotas vencidas sin cubrir.
+   const arrears = useMemo(() => summarizeArrears(client.paymentSchedule, getToday()), [client.paymentSchedule]);
+   const isLate = currentBalance > 0 && (client.paymentSchedule?.length
+      ? arrears.overdueCount > 0
+      : !!client.nextPaymentDate && client.nextPaymentDate < getToday());
    const isWaitingFunds = (client.pendingRedirectionBalance || 0) > 0;
+   // Castigado: lo que pague entra como recuperación, no como abono.
+   const isWrittenOff = client.status === 'BAD_DEBT';
+   const canWriteOff = isAdmin && !!onWriteOffClient && client.status === 'ACTIVE' && currentBalance > 0;
+   const selectableBanks = useMemo(() => bankAccounts.filter(b => !b.archivedAt), [bankAccounts]);
+
+   // Mora causada pendiente de cobro (según la política de la organización)
+   const lateFeesDue = useMemo(
+      () => getOutstandingLateFees(client.paymentSchedule, settings.penaltyPolicy, transactions, getToday()),
+      [client.paymentSchedule, settings.penaltyPolicy, transactions]
+   );
+
+   // Con varios préstamos activos, cada uno muestra su propia cuota vigente.
+   const hasLoans = !!client.paymentSchedule?.some(i => i.loanId);
+   const activeLoanCount = useMemo(
+      () => new Set((client.paymentSchedule || []).map(i => i.loanId).filter(Boolean)).size,
+      [client.paymentSchedule]
+   );
+
+   // Cuota vigente del plan de pagos (la que cubre el próximo vencimiento)
+   const currentInstallment = useMemo(
+      () => getCurrentInstallment(client.paymentSchedule, client.nextPaymentDate || getToday()),
+      [client.paymentSchedule, client.nextPaymentDate]
+   );
 
    // Calculate remaining days for priority
    const daysPassed = Math.floor((new Date().getTime() - new Date(client.creditStartDate).getTime()) / (1000 * 60 * 60 * 24));
@@ -98,11 +152,25 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                            <span className="text-green-600 bg-green-50 px-1.5 py-0.5 rounded text-[10px] font-bold border border-green-100 flex items-center gap-1">
                               <CheckCircle size={8} /> ACTIVO
                            </span>
+                        ) : isWrittenOff ? (
+                           <span className="text-red-600 bg-red-50 px-1.5 py-0.5 rounded text-[10px] font-bold border border-red-100 flex items-center gap-1">
+                              <BanknoteX size={8} /> CASTIGADO
+                           </span>
                         ) : (
                            <span className="text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded text-[10px] font-bold border border-slate-200 flex items-center gap-1">
                               <Ban size={8} /> CERRADO
                            </span>
                         )}
+                        {currentInstallment && client.status === 'ACTIVE' && activeLoanCount <= 1 && (
+                           <span className="text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded text-[10px] font-bold border border-blue-100">
+                              CUOTA {currentInstallment.number} DE {client.paymentSchedule?.length}
+                           </span>
+                        )}
+                        {activeLoanCount > 1 && client.status === 'ACTIVE' && (
+                           <span className="text-blue-600 bg-blue-50 px-1.5 py-0.5 rounded text-[10px] font-bold border border-blue-100">
+                              {activeLoanCount} PRÉSTAMOS
+                           </span>
+                        )}
                      </div>
                   </div>
                </div>
@@ -113,7 +181,7 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                      <>
                         <motion.button
                            onClick={() => onAddTransaction('PAYMENT')}
-                           disabled={client.status === 'INACTIVE'}
+                           disabled={client.status !== 'ACTIVE'}
                            whileTap={{ scale: 0.95 }}
                            className="px-2 py-2.5 md:py-2 bg-green-600 hover:bg-green-700 text-white text-[13px] font-black md:font-bold rounded-xl md:rounded-lg shadow-md transition-all flex items-center justify-center gap-1 disabled:opacity-50 whitespace-nowrap"
                         >
@@ -122,7 +190,7 @@ export const ClientCard: React.FC<ClientCardProps> = ({
 
                         <motion.button
                            onClick={() => onAddTransaction('REDIRECT')}
-                           disabled={client.status === 'INACTIVE'}
+                           disabled={client.status !== 'ACTIVE'}
                            whileTap={{ scale: 0.95 }}
                            className="px-2 py-2.5 md:py-2 bg-yellow-500 hover:bg-yellow-600 text-white text-[13px] font-black md:font-bold rounded-xl md:rounded-lg shadow-md transition-all flex items-center justify-center gap-1 disabled:opacity-50 whitespace-nowrap"
                         >
@@ -131,7 +199,7 @@ export const ClientCard: React.FC<ClientCardProps> = ({
 
                         <motion.button
                            onClick={() => onAddTransaction('DISBURSEMENT')}
-                           disabled={client.status === 'INACTIVE' && currentBalance > 0}
+                           disabled={isWrittenOff || (client.status === 'INACTIVE' && currentBalance > 0)}
                            whileTap={{ scale: 0.95 }}
                            className="col-span-2 md:col-span-1 px-2 py-2.5 md:py-2 bg-slate-800 hover:bg-slate-900 text-white text-[13px] font-black md:font-bold rounded-xl md:rounded-lg shadow-md transition-all flex items-center justify-center gap-1 disabled:opacity-50 whitespace-nowrap"
                         >
@@ -153,6 +221,18 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                         </motion.button>
                      )}
 
+                     {canWriteOff && (
+                        <motion.button
+                           type="button"
+                           onClick={() => { setIsWritingOff(true); setWriteOffReason(''); setWriteOffDate(getToday()); }}
+                           whileTap={{ scale: 0.9 }}
+                           className="p-3 text-red-700 hover:bg-red-50 rounded-xl transition-colors border border-slate-100 md:border-transparent hover:border-red-200 shrink-0 min-w-[44px] min-h-[44px] flex items-center justify-center bg-red-50/30 md:bg-transparent"
+                           title="Castigar Cartera"
+                        >
+                           <BanknoteX size={20} />
+                        </motion.button>
+                     )}
+
                      {onDeleteClient && can('delete_clients') && (
                         <motion.button
                            type="button"
@@ -309,16 +389,80 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                   </div>
                )}
 
+               {lateFeesDue > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center gap-4 shadow-sm animate-in fade-in slide-in-from-top-2">
+                     <div className="bg-white p-3 rounded-full shadow-sm text-red-500 hidden sm:block">
+                        <AlertTriangle size={24} />
+                     </div>
+                     <div className="flex-1">
+                        <h3 className="text-red-900 font-bold text-sm uppercase tracking-wide">Intereses de Mora</h3>
+                        <div className="text-red-800 text-sm mt-1">
+                           Mora causada pendiente de cobro: <span className="font-bold text-lg">{formatCurrency(lateFeesDue)}</span>
+                           {arrears.overdueCount > 0 && <span className="opacity-80"> · {arrears.overdueCount} {arrears.overdueCount === 1 ? 'cuota vencida' : 'cuotas vencidas'}</span>}
+                        </div>
+                     </div>
+                  </div>
+               )}
+
                {/* CHARTS COMPONENT */}
                <ClientStats
                   client={client}
                   transactions={transactions}
                   currentBalance={currentBalance}
                   isLate={isLate}
+                  currentInstallment={currentInstallment}
                   onUpdateLimit={(v) => updateField('loanLimit', v)}
                   onCloseCredit={onCloseCredit}
                />
 
+               {/* CREDIT SCORE */}
+               <CreditScoreCard
+                  clientId={client.id}
+                  loanLimit={client.loanLimit}
+                  reloadKey={transactions.length}
+                  onApplyLimit={can('edit_clients') ? (v) => updateField('loanLimit', v) : undefined}
+               />
+
+               {/* WRITE-OFF: lo castigado, quién lo aprobó y lo recuperado */}
+               {isWrittenOff && (
+                  <WriteOffCard
+                     clientId={client.id}
+                     transactions={transactions}
+                     bankAccounts={selectableBanks}
+                     reloadKey={transactions.length}
+                     onRecordRecovery={onRecordRecovery && can('create_transactions') ? onRecordRecovery : undefined}
+                  />
+               )}
+
+               {/* LOANS: cada préstamo con su saldo y plan; total combinado */}
+               <ClientLoans
+                  clientId={client.id}
+                  schedule={client.paymentSchedule}
+                  reloadKey={transactions.length}
+                  onRestructure={onRestructureLoan && can('create_transactions') ? onRestructureLoan : undefined}
+               />
+
+               {/* AMORTIZATION SCHEDULE (clientes sin préstamos registrados) */}
+               {!hasLoans && client.paymentSchedule && client.paymentSchedule.length > 0 && (
+                  <PaymentSchedule
+                     schedule={client.paymentSchedule}
+                     currentInstallment={currentInstallment}
+                     overdueCount={arrears.overdueCount}
+                     overdueAmount={arrears.overdueAmount}
+                  />
+               )}
+
+               {/* PAYMENT PROMISES */}
+               <PaymentPromises
+                  clientId={client.id}
+                  clientName={client.name}
+                  suggestedAmount={arrears.overdueAmount || currentInstallment?.payment || client.installmentAmount || 0}
+                  canCreate={can('create_transactions') && client.status === 'ACTIVE' && currentBalance > 0}
+                  canCancel={(p) => isAdmin || p.createdBy === user?.id}
+                  reloadKey={transactions.length}
+                  onAddNotification={onAddNotification}
+               />
+
                {/* TRANSACTION HISTORY COMPONENT */}
                {isLoadingDetails ? (
                   <div className="bg-white rounded-xl p-8 flex flex-col items-center justify-center gap-4 border border-slate-200">
@@ -335,7 +479,8 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                         if (signed) setViewingReceiptUrl(signed);
                      }}
                      onEditTransaction={can('create_transactions') ? onEditTransaction : undefined}
-                     onDeleteTransaction={can('delete_transactions') ? (tx) => setDeletingItem({ type: 'TRANSACTION', data: tx }) : undefined}
+                     onReverseTransaction={onReverseTransaction && can('delete_transactions') ? (tx) => { setReversingTx(tx); setReverseReason(''); } : undefined}
+                     onDeleteTransaction={userRole === 'owner' ? (tx) => setDeletingItem({ type: 'TRANSACTION', data: tx }) : undefined}
                   />
                )}
 
@@ -365,12 +510,12 @@ export const ClientCard: React.FC<ClientCardProps> = ({
                         <AlertTriangle size={36} className="text-red-600" />
                      </div>
                      <h3 className="text-xl font-black text-slate-900">
-                        {deletingItem.type === 'CLIENT' ? '¿Eliminar Cliente?' : '¿Eliminar Transacción?'}
+                        {deletingItem.type === 'CLIENT' ? '¿Eliminar Cliente?' : '¿Purgar Transacción?'}
                      </h3>
                      <p className="text-sm text-slate-600 mt-2 font-medium">
                         {deletingItem.type === 'CLIENT'
                            ? `Vas a eliminar permanentemente a ${deletingItem.data.name}.`
-                           : `Vas a eliminar esta transacción de ${formatCurrency(deletingItem.data.amount + (deletingItem.data.interestPaid || 0))}.`
+                           : `Vas a borrar físicamente esta transacción de ${formatCurrency(deletingItem.data.amount + (deletingItem.data.interestPaid || 0))} sin dejar rastro. Para corregir un error use la reversión.`
                         }
                         <br />Esta acción no se puede deshacer.
                      </p>
@@ -400,6 +545,125 @@ export const ClientCard: React.FC<ClientCardProps> = ({
             </div>
          )}
 
+         {/* --- REVERSAL MODAL --- */}
+         {reversingTx && (
+            <div
+               className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-200"
+               onClick={() => setReversingTx(null)}
+            >
+               <div
+                  className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl max-w-sm w-full overflow-hidden animate-in slide-in-from-bottom md:zoom-in-95 duration-300"
+                  style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+                  onClick={e => e.stopPropagation()}
+               >
+                  <div className="bg-amber-50 p-6 flex flex-col items-center text-center border-b border-amber-100">
+                     <div className="bg-amber-100 p-3 rounded-full mb-4">
+                        <RotateCcw size={36} className="text-amber-600" />
+                     </div>
+                     <h3 className="text-xl font-black text-slate-900">¿Reversar Transacción?</h3>
+                     <p className="text-sm text-slate-600 mt-2 font-medium">
+                        Se registrará un contra-asiento por {formatCurrency(reversingTx.amount + (reversingTx.interestPaid || 0))} y el movimiento original quedará anulado en el historial.
+                     </p>
+                  </div>
+                  <div className="p-4 bg-white space-y-3">
+                     <label className="text-xs font-bold text-slate-500 uppercase">Motivo (obligatorio)</label>
+                     <textarea
+                        value={reverseReason}
+                        onChange={e => setReverseReason(e.target.value)}
+                        rows={3}
+                        autoFocus
+                        placeholder="Ej: Pago registrado al cliente equivocado"
+                        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-900 outline-none focus:ring-2 focus:ring-amber-500"
+                     />
+                     <div className="flex flex-col sm:flex-row gap-3">
+                        <button
+                           onClick={() => setReversingTx(null)}
+                           className="flex-1 py-4 bg-slate-100 text-slate-700 font-black rounded-2xl hover:bg-slate-200 transition-colors order-2 sm:order-1"
+                        >
+                           Cancelar
+                        </button>
+                        <button
+                           disabled={!reverseReason.trim()}
+                           onClick={() => {
+                              if (onReverseTransaction) onReverseTransaction(reversingTx, reverseReason.trim());
+                              setReversingTx(null);
+                           }}
+                           className="flex-1 py-4 bg-amber-600 text-white font-black rounded-2xl hover:bg-amber-700 transition-colors shadow-lg order-1 sm:order-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                           Sí, Reversar
+                        </button>
+                     </div>
+                  </div>
+               </div>
+            </div>
+         )}
+
+         {/* --- WRITE-OFF MODAL --- */}
+         {isWritingOff && (
+            <div
+               className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-200"
+               onClick={() => setIsWritingOff(false)}
+            >
+               <div
+                  className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl max-w-sm w-full overflow-hidden animate-in slide-in-from-bottom md:zoom-in-95 duration-300"
+                  style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+                  onClick={e => e.stopPropagation()}
+               >
+                  <div className="bg-red-50 p-6 flex flex-col items-center text-center border-b border-red-100">
+                     <div className="bg-red-100 p-3 rounded-full mb-4">
+                        <BanknoteX size={36} className="text-red-600" />
+                     </div>
+                     <h3 className="text-xl font-black text-slate-900">¿Castigar Cartera?</h3>
+                     <p className="text-sm text-slate-600 mt-2 font-medium">
+                        El saldo de {formatCurrency(currentBalance)} sale de la cartera activa como gasto por cartera castigada y {client.name} queda castigado.
+                        Lo que pague después se registra como recuperación.
+                     </p>
+                  </div>
+                  <div className="p-4 bg-white space-y-3">
+                     <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase">Fecha del castigo</label>
+                        <input
+                           type="date"
+                           value={writeOffDate}
+                           onChange={e => setWriteOffDate(e.target.value)}
+                           className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-900 font-mono outline-none focus:ring-2 focus:ring-red-500"
+                        />
+                     </div>
+                     <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase">Motivo (obligatorio)</label>
+                        <textarea
+                           value={writeOffReason}
+                           onChange={e => setWriteOffReason(e.target.value)}
+                           rows={3}
+                           autoFocus
+                           placeholder="Ej: Cliente inubicable hace 6 meses; fiador sin capacidad de pago"
+                           className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-900 outline-none focus:ring-2 focus:ring-red-500"
+                        />
+                     </div>
+                     <div className="flex flex-col sm:flex-row gap-3">
+                        <button
+                           onClick={() => setIsWritingOff(false)}
+                           className="flex-1 py-4 bg-slate-100 text-slate-700 font-black rounded-2xl hover:bg-slate-200 transition-colors order-2 sm:order-1"
+                        >
+                           Cancelar
+                        </button>
+                        <button
+                           disabled={writeOffReason.trim().length < 5 || !writeOffDate}
+                           onClick={async () => {
+                              if (!onWriteOffClient) return;
+                              const ok = await onWriteOffClient({ clientId: client.id, date: writeOffDate, reason: writeOffReason.trim() });
+                              if (ok) setIsWritingOff(false);
+                           }}
+                           className="flex-1 py-4 bg-red-600 text-white font-black rounded-2xl hover:bg-red-700 transition-colors shadow-lg order-1 sm:order-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                           Sí, Castigar
+                        </button>
+                     </div>
+                  </div>
+               </div>
+            </div>
+         )}
+
          {/* --- PROFESSIONAL IMAGE VIEWER OVERLAY --- */}
          {viewingReceiptUrl && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-4 animate-in fade-in duration-200">
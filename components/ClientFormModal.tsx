@@ -4,6 +4,8 @@ import { Pencil, Plus, X, UserPlus, Check, Calculator, Save, Landmark, RefreshCw
 import { Client, BankAccount } from '../types';
 import { getToday, formatNumberWithDots, formatCurrency, formatCurrencyMasked } from '../utils/format';
 import { useData } from '../contexts/DataContext';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { useAuth } from '../contexts/AuthContext';
 import { calculateLoanProjection } from '../services/loanUtils';
 
 interface ClientFormModalProps {
@@ -22,6 +24,9 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
 }) => {
    const { settings } = useData();
    const hideMoney = settings?.uiConfig?.privacyMode === true;
+   const { userRole, members, loadMembers } = useOrganization();
+   const { user } = useAuth();
+   const isAdmin = userRole === 'owner' || userRole === 'admin';
 
    // Internal State
    const [clientForm, setClientForm] = useState({
@@ -40,6 +45,7 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
       notes: '',
       referrerId: '',
       referrerSearch: '',
+      assignedTo: '',
       interestRate: '10',
       interestType: 'FIXED' as 'FIXED' | 'DIMINISHING',
       paymentFrequency: 'MONTHLY' as 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY',
@@ -87,6 +93,7 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
                notes: editingClient.notes || '',
                referrerId: editingClient.referrerId || '',
                referrerSearch: '',
+               assignedTo: editingClient.assignedTo || '',
                interestRate: editingClient.interestRate ? editingClient.interestRate.toString() : '0',
                interestType: editingClient.interestType || 'FIXED',
                paymentFrequency: editingClient.paymentFrequency || 'MONTHLY',
@@ -116,6 +123,8 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
                notes: '',
                referrerId: '',
                referrerSearch: '',
+               // Lo que crea un operador queda en su cartera.
+               assignedTo: isAdmin ? '' : user?.id || '',
                interestRate: '10',
                interestType: 'FIXED',
                paymentFrequency: 'MONTHLY',
@@ -131,6 +140,10 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
       }
    }, [isOpen, editingClient, nextCardCode, bankAccounts]);
 
+   useEffect(() => {
+      if (isOpen && isAdmin) loadMembers();
+   }, [isOpen, isAdmin]);
+
    // Derived Calculations
    const loanProjection = useMemo(() => {
       return calculateLoanProjection(clientForm);
@@ -353,6 +366,24 @@ export const ClientFormModal: React.FC<ClientFormModalProps> = ({
                   )}
                </div>
 
+               {isAdmin && (
+                  <div>
+                     <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Cobrador Asignado</label>
+                     <select
+                        className="w-full border border-slate-300 bg-white text-slate-900 p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                        value={clientForm.assignedTo}
+                        onChange={e => setClientForm({ ...clientForm, assignedTo: e.target.value })}
+                     >
+                        <option value="">Sin asignar</option>
+                        {members.map(m => (
+                           <option key={m.user_id} value={m.user_id}>
+                              {m.profile?.full_name || m.profile?.email || m.user_id.substring(0, 8)}{m.user_id === user?.id ? ' (yo)' : ''}
+                           </option>
+                        ))}
+                     </select>
+                  </div>
+               )}
+
                <div>
                   <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Dirección Casa</label>
                   <input required type="text" className="w-full border border-slate-300 bg-white text-slate-900 p-2 rounded focus:ring-2 focus:ring-blue-500 outline-none" value={clientForm.address} onChange={e => setClientForm({ ...clientForm, address: e.target.value })} />
@@ -1,12 +1,17 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Client, Transaction, AppSettings } from '../types';
-import { Search, Plus, CalendarCheck, AlertTriangle, ArrowRight, Settings2, DollarSign, Wallet, Eye, EyeOff, TrendingUp, ArrowRightLeft, Zap, X, ChevronRight, CreditCard, Send, Megaphone, UserCheck, Clock, ShieldCheck, BarChart3, Trash2, Hourglass, Calendar, ListFilter, Lock, Users } from 'lucide-react';
+import { Client, ClientListItem, ClientListFilter, ClientListSort, AppSettings, LedgerSystemKey, CreditScore } from '../types';
+import { Search, Plus, Loader2, ArrowUpDown, CalendarCheck, AlertTriangle, ArrowRight, Settings2, DollarSign, Wallet, Eye, EyeOff, TrendingUp, ArrowRightLeft, Zap, X, ChevronRight, CreditCard, Send, Megaphone, UserCheck, Clock, ShieldCheck, BarChart3, Trash2, Hourglass, Calendar, ListFilter, Lock, Users } from 'lucide-react';
 import { useOrganization } from '../contexts/OrganizationContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { formatCurrency } from '../utils/format';
+import { useClientList } from '../hooks/useClientList';
+import { fetchAllClients } from '../services/clientListService';
+import { computeCreditScore, describeCreditScore, fetchCreditFactors, CREDIT_BAND_LABELS } from '../services/creditScoreService';
+import { CREDIT_BAND_STYLES } from './client/CreditScoreCard';
 
 interface ClientListProps {
-  clients: Client[];
-  transactions: Transaction[];
   onSelectClient: (id: string) => void;
   onNewClient: () => void;
   onQuickAction: (client: Client, mode: 'PAYMENT' | 'DISBURSEMENT' | 'REDIRECT') => void;
@@ -16,39 +21,139 @@ interface ClientListProps {
   settings: AppSettings;
   onOpenQuickSearch: () => void;
   onRefresh?: () => Promise<void>;
+  onAssignClients?: (clientIds: string[], collectorId: string | null, collectorName: string) => Promise<boolean>;
 }
 
 // Columns definition for the toggler
-type ColumnKey = 'card' | 'name' | 'guarantor' | 'contact' | 'last_activity' | 'profit' | 'balance' | 'limit' | 'dates' | 'status' | 'action';
+type ColumnKey = 'card' | 'name' | 'guarantor' | 'contact' | 'collector' | 'score' | 'last_activity' | 'profit' | 'balance' | 'limit' | 'dates' | 'status' | 'action';
 
-import { getToday } from '../utils/format';
 import { Skeleton, TableSkeleton, CardStatsSkeleton } from './ui/Skeleton';
 import { PullToRefresh } from './ui/PullToRefresh';
 import { SwipeableItem } from './ui/SwipeableItem';
 
 export const ClientList: React.FC<ClientListProps> = ({
-  clients, transactions, onSelectClient, onNewClient, onQuickAction,
-  n8nWebhookUrl, onDeleteClient, isLoading, settings, onOpenQuickSearch, onRefresh
+  onSelectClient, onNewClient, onQuickAction,
+  n8nWebhookUrl, onDeleteClient, isLoading, settings, onOpenQuickSearch, onRefresh, onAssignClients
 }) => {
-  const { can } = useOrganization();
+  const { can, currentOrg, userRole, members, loadMembers } = useOrganization();
+  const { user } = useAuth();
+  const { ledgerBalances } = useData();
   const [searchTerm, setSearchTerm] = useState('');
   const [showColumnMenu, setShowColumnMenu] = useState(false);
   const [isSendingMassMsg, setIsSendingMassMsg] = useState(false);
 
   // FILTER MODE FOR CONTROL
-  const [filterMode, setFilterMode] = useState<'ALL' | 'TODAY' | 'LATE' | 'WAITING'>('ALL');
+  const [filterMode, setFilterMode] = useState<ClientListFilter>('ALL');
+  const [sortMode, setSortMode] = useState<ClientListSort>('RECENT');
+
+  // Cartera por cobrador: '' = todos, 'NONE' = sin asignar, o un user_id.
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkCollector, setBulkCollector] = useState('');
+  const isAdmin = userRole === 'owner' || userRole === 'admin';
+  const canAssign = isAdmin && !!onAssignClients;
+
+  useEffect(() => {
+    if (isAdmin) loadMembers();
+  }, [currentOrg, isAdmin]);
+
+  const collectorName = (id?: string | null) => {
+    if (!id) return 'Sin asignar';
+    const member = members.find(m => m.user_id === id);
+    return member?.profile?.full_name || member?.profile?.email || (id === user?.id ? 'Yo' : id.substring(0, 8));
+  };
+
+  // La búsqueda va al servidor; se espera a que el usuario deje de escribir.
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const clientQuery = useMemo(
+    () => ({ search: debouncedSearch, filter: filterMode, sort: sortMode, assignedTo: assigneeFilter }),
+    [debouncedSearch, filterMode, sortMode, assigneeFilter]
+  );
+  const {
+    rows: filteredClients, total: filteredTotal, stats: listStats, dueToday: dueTodayList, late: lateClientsList,
+    isLoading: isListLoading, isLoadingMore, hasMore, loadMore, refresh: refreshList
+  } = useClientList(clientQuery);
+
+  // La selección masiva es de la consulta actual.
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [clientQuery]);
+
+  // Puntaje crediticio de las filas cargadas; al paginar solo se piden las nuevas.
+  const [creditScores, setCreditScores] = useState<Record<string, CreditScore>>({});
+  useEffect(() => {
+    setCreditScores({});
+  }, [clientQuery]);
+  useEffect(() => {
+    const missing = filteredClients.map(c => c.id).filter(id => !creditScores[id]);
+    if (missing.length === 0) return;
+    let mounted = true;
+    fetchCreditFactors(missing)
+      .then(rows => {
+        if (!mounted) return;
+        setCreditScores(prev => {
+          const next = { ...prev };
+          rows.forEach(f => { next[f.clientId] = computeCreditScore(f); });
+          return next;
+        });
+      })
+      .catch(err => console.error('Error cargando puntajes crediticios:', err));
+    return () => { mounted = false; };
+  }, [filteredClients]);
+
+  const renderCreditBadge = (clientId: string) => {
+    const credit = creditScores[clientId];
+    if (!credit) return null;
+    if (credit.score === null || !credit.band) {
+      return <span className="text-[10px] font-bold text-slate-300" title={describeCreditScore(credit)}>S/H</span>;
+    }
+    return (
+      <span
+        className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-black border ${CREDIT_BAND_STYLES[credit.band]}`}
+        title={`${CREDIT_BAND_LABELS[credit.band]} (${credit.score}/100)\n${describeCreditScore(credit)}`}
+      >
+        {credit.score}
+      </span>
+    );
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allShownSelected = filteredClients.length > 0 && filteredClients.every(c => selectedIds.has(c.id));
+  const toggleAllShown = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(filteredClients.map(c => c.id)));
+  };
+
+  const handleBulkAssign = async () => {
+    if (!onAssignClients || selectedIds.size === 0 || !bulkCollector) return;
+    const collectorId = bulkCollector === 'NONE' ? null : bulkCollector;
+    const ok = await onAssignClients(Array.from(selectedIds), collectorId, collectorName(collectorId));
+    if (ok) {
+      setSelectedIds(new Set());
+      setBulkCollector('');
+      refreshList();
+    }
+  };
 
   // Custom Confirmation Modal State
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
 
-  // --- Calculations ---
-  const today = new Date().toISOString().split('T')[0];
-
   // State for visible columns
   // Handle Initial Columns from Settings
   const initialColumns = useMemo(() => {
     const defaultCols = {
-      card: true, name: true, guarantor: false, contact: false,
+      card: true, name: true, guarantor: false, contact: false, collector: false, score: true,
       last_activity: false, profit: true, balance: true,
       limit: false, dates: true, status: true, action: true
     };
@@ -76,98 +181,67 @@ export const ClientList: React.FC<ClientListProps> = ({
     setVisibleColumns(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
-  const formatCurrency = (val: number) => {
-    return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', maximumFractionDigits: 0 }).format(val);
-  };
-
-  // --- Advanced Calculations (Memoized) ---
-  const { clientMetrics, stats, lateClientsList, dueTodayList } = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
-    const activeClients = clients.filter(c => c.status === 'ACTIVE');
-
-    // Group transactions by client
-    const txByClient: Record<string, Transaction[]> = {};
-    transactions.forEach(t => {
-      if (!txByClient[t.clientId]) txByClient[t.clientId] = [];
-      txByClient[t.clientId].push(t);
-    });
-
-    const metrics: Record<string, { balance: number, totalInterest: number, lastDate: string | null }> = {};
-    let totalPortfolio = 0;
-    let totalInterestPortfolio = 0;
-
-    clients.forEach(c => {
-      const cTx = txByClient[c.id] || [];
-      // Sort by date to get last balance
-      const sorted = cTx.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-      const bal = sorted.length > 0 ? sorted[sorted.length - 1].balanceAfter : 0;
-      const interests = sorted.reduce((sum, t) => sum + t.interestPaid, 0);
-      const lastTxDate = sorted.length > 0 ? sorted[sorted.length - 1].date : null;
-
+  // --- Per-client metrics (computed by the client_list view) ---
+  const clientMetrics = useMemo(() => {
+    const metrics: Record<string, { balance: number, totalInterest: number, lastDate: string | null, isLate: boolean, overdueInstallments: number, overdueAmount: number }> = {};
+    [...filteredClients, ...dueTodayList, ...lateClientsList].forEach((c: ClientListItem) => {
       metrics[c.id] = {
-        balance: bal,
-        totalInterest: interests,
-        lastDate: lastTxDate
+        balance: c.balance,
+        totalInterest: c.totalInterest,
+        lastDate: c.lastTxDate,
+        isLate: c.isLate,
+        overdueInstallments: c.overdueInstallments,
+        overdueAmount: c.overdueAmount
       };
-
-      if (c.status === 'ACTIVE') {
-        totalPortfolio += bal;
-        totalInterestPortfolio += interests;
-      }
     });
+    return metrics;
+  }, [filteredClients, dueTodayList, lateClientsList]);
+
+  const stats = {
+    totalActive: listStats.active,
+    paymentsTodayCount: listStats.dueToday,
+    lateClientsCount: listStats.late,
+    totalPortfolio: listStats.portfolio,
+    totalInterestPortfolio: listStats.interest,
+    totalPenaltyPortfolio: listStats.penalty,
+    totalWrittenOff: listStats.writtenOff,
+    totalRecovered: listStats.recovered
+  };
 
-    // 2. Metrics
-    const paymentsTodayCount = activeClients.filter(c => c.nextPaymentDate === today).length;
-
-    // Clientes a cobrar HOY (con saldo pendiente).
-    const dueTodayList = activeClients.filter(c => {
-      const bal = metrics[c.id]?.balance || 0;
-      return c.nextPaymentDate === today && bal > 0;
-    });
-
-    // Filter Late Clients
-    const lateList = activeClients.filter(c => {
-      const bal = metrics[c.id]?.balance || 0;
-      return c.nextPaymentDate && c.nextPaymentDate < today && bal > 0;
-    }).sort((a, b) => (a.nextPaymentDate || '').localeCompare(b.nextPaymentDate || '')); // más atrasados primero
-
-    return {
-      clientMetrics: metrics,
-      lateClientsList: lateList,
-      dueTodayList,
-      stats: { totalActive: activeClients.length, paymentsTodayCount, lateClientsCount: lateList.length, totalPortfolio, totalInterestPortfolio }
-    };
-  }, [clients, transactions]);
-
-  // --- Filtering ---
-  const filteredClients = useMemo(() => {
-    const q = searchTerm.toLowerCase();
-    const today = new Date().toISOString().split('T')[0];
-
-    return clients.filter(c => {
-      // 1. Text Search
-      const matchesSearch =
-        c.name.toLowerCase().includes(q) ||
-        c.cardCode.includes(q) ||
-        c.cedula.includes(q) ||
-        c.phone.includes(q) ||
-        c.guarantorName.toLowerCase().includes(q);
-
-      if (!matchesSearch) return false;
-
-      // 2. Mode Filter (Control)
-      if (filterMode === 'TODAY') return c.nextPaymentDate === today && c.status === 'ACTIVE';
-
-      const metrics = clientMetrics[c.id];
-      if (filterMode === 'LATE') return c.nextPaymentDate && c.nextPaymentDate < today && c.status === 'ACTIVE' && (metrics?.balance || 0) > 0;
-      if (filterMode === 'WAITING') return (c.pendingRedirectionBalance || 0) > 0;
-
-      return true;
-    });
-  }, [clients, searchTerm, filterMode, clientMetrics]);
-
+  // Cifras del tablero desde el libro diario, para que cuadren con la
+  // contabilidad. Sin diario (migración pendiente) se usa el cálculo local.
+  // La cartera ya es neta de castigos: el castigo acredita la 1305.
+  const dashboardTotals = useMemo(() => {
+    const ledgerBalance = (key: LedgerSystemKey) => ledgerBalances.find(a => a.system_key === key)?.balance;
+    const portfolio = ledgerBalance('LOANS_RECEIVABLE');
+    const totals = portfolio === undefined
+      ? {
+        portfolio: stats.totalPortfolio, interest: stats.totalInterestPortfolio, penalty: stats.totalPenaltyPortfolio,
+        writtenOff: stats.totalWrittenOff, recovered: stats.totalRecovered
+      }
+      : {
+        portfolio, interest: ledgerBalance('INTEREST_INCOME') ?? 0, penalty: ledgerBalance('PENALTY_INCOME') ?? 0,
+        writtenOff: ledgerBalance('BAD_DEBT_EXPENSE') ?? 0, recovered: ledgerBalance('RECOVERY_INCOME') ?? 0
+      };
+    return { ...totals, recoveryRate: totals.writtenOff > 0 ? Math.round((totals.recovered / totals.writtenOff) * 100) : null };
+  }, [ledgerBalances, listStats]);
 
+  // --- Infinite scroll: carga la siguiente página al acercarse al final ---
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '300px' });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const handleRefresh = async () => {
+    if (onRefresh) await onRefresh();
+    await refreshList();
+  };
 
   // --- Mass Messaging Handler ---
   const handleMassNotification = async () => {
@@ -184,29 +258,34 @@ export const ClientList: React.FC<ClientListProps> = ({
       alert("⚠️ Error: La URL del Webhook de n8n no es válida. Debe ser una URL HTTPS.");
       return;
     }
-    if (lateClientsList.length === 0) {
+    if (stats.lateClientsCount === 0 || !currentOrg) {
       alert("No hay clientes en mora para notificar.");
       return;
     }
 
-    if (!window.confirm(`¿Estás seguro de enviar notificaciones de cobro a ${lateClientsList.length} clientes en mora?`)) {
+    if (!window.confirm(`¿Estás seguro de enviar notificaciones de cobro a ${stats.lateClientsCount} clientes en mora?`)) {
       return;
     }
 
     setIsSendingMassMsg(true);
 
     try {
+      // La lista en pantalla es solo una página: se trae la mora completa.
+      const allLate = await fetchAllClients(currentOrg.id, { search: '', filter: 'LATE', sort: 'NEXT_PAYMENT' });
+
       // Construct payload
       const payload = {
         timestamp: new Date().toISOString(),
-        totalLateClients: lateClientsList.length,
-        clients: lateClientsList.map(c => ({
+        totalLateClients: allLate.length,
+        clients: allLate.map(c => ({
           id: c.id,
           name: c.name,
           phone: c.phone,
           cedula: c.cedula,
           cardCode: c.cardCode,
-          debtAmount: clientMetrics[c.id].balance,
+          debtAmount: c.balance,
+          overdueInstallments: c.overdueInstallments,
+          overdueAmount: c.overdueAmount,
           dueDate: c.nextPaymentDate
         }))
       };
@@ -252,7 +331,7 @@ export const ClientList: React.FC<ClientListProps> = ({
                 <div className="flex items-center gap-2 text-blue-700 font-black text-sm uppercase tracking-tight">
                   <CalendarCheck size={18} /> A cobrar hoy
                 </div>
-                <span className="text-xs font-black bg-blue-600 text-white rounded-full px-2.5 py-0.5">{dueTodayList.length}</span>
+                <span className="text-xs font-black bg-blue-600 text-white rounded-full px-2.5 py-0.5">{stats.paymentsTodayCount}</span>
               </div>
               <div className="divide-y divide-slate-100">
                 {dueTodayList.length === 0 ? (
@@ -270,9 +349,9 @@ export const ClientList: React.FC<ClientListProps> = ({
                     </div>
                   ))
                 )}
-                {dueTodayList.length > 4 && (
+                {stats.paymentsTodayCount > 4 && (
                   <button onClick={() => setFilterMode('TODAY')} className="w-full px-4 py-2 text-xs font-bold text-blue-600 hover:bg-blue-50 flex items-center justify-center gap-1 transition-colors">
-                    Ver los {dueTodayList.length} <ChevronRight size={14} />
+                    Ver los {stats.paymentsTodayCount} <ChevronRight size={14} />
                   </button>
                 )}
               </div>
@@ -284,21 +363,31 @@ export const ClientList: React.FC<ClientListProps> = ({
                 <div className="flex items-center gap-2 text-red-700 font-black text-sm uppercase tracking-tight">
                   <AlertTriangle size={18} /> En mora
                 </div>
-                <span className="text-xs font-black bg-red-600 text-white rounded-full px-2.5 py-0.5">{lateClientsList.length}</span>
+                <span className="text-xs font-black bg-red-600 text-white rounded-full px-2.5 py-0.5">{stats.lateClientsCount}</span>
               </div>
               <div className="divide-y divide-slate-100">
                 {lateClientsList.length === 0 ? (
                   <div className="px-4 py-5 text-center text-slate-400 text-xs font-bold uppercase tracking-widest">Nadie en mora ✓</div>
                 ) : (
                   lateClientsList.slice(0, 4).map(c => {
-                    const daysLate = Math.max(0, Math.round((new Date(today).getTime() - new Date(c.nextPaymentDate!).getTime()) / 86400000));
+                    const daysLate = c.daysOverdue;
+                    const overdueInstallments = clientMetrics[c.id]?.overdueInstallments || 0;
                     return (
                       <div key={c.id} className="flex items-center justify-between gap-2 px-4 py-2.5 hover:bg-slate-50 transition-colors">
                         <button onClick={() => onSelectClient(c.id)} className="flex-1 text-left min-w-0">
                           <div className="font-bold text-sm text-slate-800 truncate">{c.name}</div>
                           <div className="flex items-center gap-2">
-                            <span className="text-xs font-black text-red-600">{formatCurrency(clientMetrics[c.id]?.balance || 0)}</span>
-                            <span className="text-[10px] font-bold text-red-400">{daysLate} {daysLate === 1 ? 'día' : 'días'}</span>
+                            {overdueInstallments > 0 ? (
+                              <>
+                                <span className="text-xs font-black text-red-600">{formatCurrency(clientMetrics[c.id]?.overdueAmount || 0)}</span>
+                                <span className="text-[10px] font-bold text-red-400">{overdueInstallments} {overdueInstallments === 1 ? 'cuota vencida' : 'cuotas vencidas'}</span>
+                              </>
+                            ) : (
+                              <>
+                                <span className="text-xs font-black text-red-600">{formatCurrency(clientMetrics[c.id]?.balance || 0)}</span>
+                                <span className="text-[10px] font-bold text-red-400">{daysLate} {daysLate === 1 ? 'día' : 'días'}</span>
+                              </>
+                            )}
                           </div>
                         </button>
                         {can('create_transactions') && (
@@ -308,9 +397,9 @@ export const ClientList: React.FC<ClientListProps> = ({
                     );
                   })
                 )}
-                {lateClientsList.length > 4 && (
+                {stats.lateClientsCount > 4 && (
                   <button onClick={() => setFilterMode('LATE')} className="w-full px-4 py-2 text-xs font-bold text-red-600 hover:bg-red-50 flex items-center justify-center gap-1 transition-colors">
-                    Ver los {lateClientsList.length} <ChevronRight size={14} />
+                    Ver los {stats.lateClientsCount} <ChevronRight size={14} />
                   </button>
                 )}
               </div>
@@ -326,9 +415,13 @@ export const ClientList: React.FC<ClientListProps> = ({
                   <Wallet size={16} /> <span className="text-[10px] md:text-xs font-bold uppercase">Capital en la Calle</span>
                 </div>
                 <div className={`text-lg md:text-2xl font-bold transition-all ${settings.uiConfig?.privacyMode ? 'filter blur-md select-none' : ''}`}>
-                  {settings.uiConfig?.privacyMode ? '$ ••••••' : formatCurrency(stats.totalPortfolio)}
+                  {settings.uiConfig?.privacyMode ? '$ ••••••' : formatCurrency(dashboardTotals.portfolio)}
+                </div>
+                <div className="text-[10px] md:text-xs text-slate-400 mt-0.5">
+                  {stats.totalActive} clientes
+                  {dashboardTotals.recoveryRate !== null && !settings.uiConfig?.privacyMode &&
+                    ` · Castigado: ${formatCurrency(dashboardTotals.writtenOff)} · Recuperado ${dashboardTotals.recoveryRate}%`}
                 </div>
-                <div className="text-[10px] md:text-xs text-slate-400 mt-0.5">{stats.totalActive} clientes</div>
               </div>
             )}
 
@@ -339,9 +432,12 @@ export const ClientList: React.FC<ClientListProps> = ({
                   <Zap size={16} /> <span className="text-[10px] md:text-xs font-bold uppercase">Ganancia Estimada</span>
                 </div>
                 <div className={`text-lg md:text-2xl font-bold transition-all ${settings.uiConfig?.privacyMode ? 'filter blur-md select-none' : ''}`}>
-                  {settings.uiConfig?.privacyMode ? '$ ••••••' : formatCurrency(stats.totalInterestPortfolio)}
+                  {settings.uiConfig?.privacyMode ? '$ ••••••' : formatCurrency(dashboardTotals.interest)}
+                </div>
+                <div className="text-[10px] md:text-xs text-emerald-100/70 mt-0.5">
+                  Intereses generados
+                  {dashboardTotals.penalty > 0 && !settings.uiConfig?.privacyMode && ` · Mora cobrada: ${formatCurrency(dashboardTotals.penalty)}`}
                 </div>
-                <div className="text-[10px] md:text-xs text-emerald-100/70 mt-0.5">Intereses generados</div>
               </div>
             )}
 
@@ -463,6 +559,39 @@ export const ClientList: React.FC<ClientListProps> = ({
                   </div>
                 </div>
 
+                {/* Orden (lo aplica el servidor) */}
+                <div className="relative shrink-0">
+                  <ArrowUpDown size={14} className="absolute left-2.5 top-2.5 text-slate-400 pointer-events-none" />
+                  <select
+                    value={sortMode}
+                    onChange={e => setSortMode(e.target.value as ClientListSort)}
+                    className="pl-7 pr-2 py-2 bg-white border border-slate-300 text-slate-600 rounded-lg font-bold text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="RECENT">Recientes</option>
+                    <option value="NAME">Nombre</option>
+                    <option value="BALANCE">Mayor saldo</option>
+                    <option value="NEXT_PAYMENT">Próximo pago</option>
+                    <option value="LAST_ACTIVITY">Último mov.</option>
+                  </select>
+                </div>
+
+                {/* Cartera por cobrador */}
+                <div className="relative shrink-0">
+                  <UserCheck size={14} className={`absolute left-2.5 top-2.5 pointer-events-none ${assigneeFilter ? 'text-blue-600' : 'text-slate-400'}`} />
+                  <select
+                    value={assigneeFilter}
+                    onChange={e => setAssigneeFilter(e.target.value)}
+                    className={`pl-7 pr-2 py-2 border rounded-lg font-bold text-xs outline-none focus:ring-2 focus:ring-blue-500 max-w-[140px] ${assigneeFilter ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-white border-slate-300 text-slate-600'}`}
+                  >
+                    <option value="">Todos</option>
+                    {user && <option value={user.id}>Mis clientes</option>}
+                    {isAdmin && <option value="NONE">Sin asignar</option>}
+                    {isAdmin && members.filter(m => m.user_id !== user?.id).map(m => (
+                      <option key={m.user_id} value={m.user_id}>{collectorName(m.user_id)}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="hidden md:block w-px h-6 bg-slate-200"></div>
 
                 {/* Column Menu - OUTSIDE the scrollable part to fix clipping */}
@@ -482,6 +611,8 @@ export const ClientList: React.FC<ClientListProps> = ({
                         { k: 'name', l: 'Cliente' },
                         { k: 'guarantor', l: 'Fiador' },
                         { k: 'contact', l: 'Contacto' },
+                        { k: 'collector', l: 'Cobrador' },
+                        { k: 'score', l: 'Puntaje Crediticio' },
                         { k: 'last_activity', l: 'Último Movimiento' },
                         { k: 'profit', l: 'Intereses (Ganancia)' },
                         { k: 'balance', l: 'Saldo Pendiente' },
@@ -505,18 +636,46 @@ export const ClientList: React.FC<ClientListProps> = ({
             </div>
           </div>
 
+          {/* Reasignación masiva (escritorio) */}
+          {canAssign && selectedIds.size > 0 && (
+            <div className="hidden md:flex items-center gap-3 mb-2 px-4 py-2 bg-blue-50 border border-blue-200 rounded-xl text-sm animate-in fade-in">
+              <span className="font-bold text-blue-800">{selectedIds.size} seleccionado(s)</span>
+              <select
+                value={bulkCollector}
+                onChange={e => setBulkCollector(e.target.value)}
+                className="px-2 py-1.5 bg-white border border-blue-200 rounded-lg text-xs font-bold text-slate-700"
+              >
+                <option value="">Asignar a...</option>
+                <option value="NONE">Sin asignar</option>
+                {members.map(m => (
+                  <option key={m.user_id} value={m.user_id}>{collectorName(m.user_id)}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleBulkAssign}
+                disabled={!bulkCollector}
+                className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Users size={14} /> Asignar
+              </button>
+              <button onClick={() => setSelectedIds(new Set())} className="ml-auto text-xs text-blue-600 hover:underline">
+                Quitar selección
+              </button>
+            </div>
+          )}
+
           {/* 3. The Rich Table (DESKTOP ONLY) & Cards (MOBILE ONLY) */}
           <div className="flex-1 bg-transparent md:bg-white rounded-b-xl md:border border-slate-200 shadow-sm overflow-hidden flex flex-col relative z-0">
             <div className="overflow-y-auto flex-1 scrollbar-thin">
 
               {/* MOBILE CARD LIST VIEW */}
               <div className="md:hidden pb-28">
-                <PullToRefresh onRefresh={onRefresh || (async () => { })}>
+                <PullToRefresh onRefresh={handleRefresh}>
                   <div className="space-y-3 p-1">
                     {filteredClients.map(client => {
-                      const metrics = clientMetrics[client.id] || { balance: 0, totalInterest: 0, lastDate: null };
+                      const metrics = clientMetrics[client.id] || { balance: 0, totalInterest: 0, lastDate: null, isLate: false, overdueInstallments: 0, overdueAmount: 0 };
                       const balance = metrics.balance;
-                      const isLate = !!client.nextPaymentDate && client.nextPaymentDate < getToday() && balance > 0;
+                      const isLate = metrics.isLate;
                       const isWaitingFunds = (client.pendingRedirectionBalance || 0) > 0;
 
                       return (
@@ -537,6 +696,7 @@ export const ClientList: React.FC<ClientListProps> = ({
                                   {client.cardCode}
                                 </span>
                                 <h3 className="font-bold text-slate-800 text-sm">{client.name}</h3>
+                                {renderCreditBadge(client.id)}
                               </div>
                               <div className="flex flex-col items-end">
                                 <span className="text-xs font-bold text-slate-400 uppercase">Deuda</span>
@@ -550,7 +710,7 @@ export const ClientList: React.FC<ClientListProps> = ({
                               <div className="flex items-center gap-1">
                                 <CalendarCheck size={12} className="text-slate-400" />
                                 <span>{client.nextPaymentDate || 'Sin fecha'}</span>
-                                {isLate && <span className="bg-red-100 text-red-600 px-1.5 rounded-[4px] text-[10px] font-bold">MORA</span>}
+                                {isLate && <span className="bg-red-100 text-red-600 px-1.5 rounded-[4px] text-[10px] font-bold">MORA{metrics.overdueInstallments > 0 && ` · ${metrics.overdueInstallments} ${metrics.overdueInstallments === 1 ? 'cuota' : 'cuotas'} · ${formatCurrency(metrics.overdueAmount)}`}</span>}
                               </div>
                               {isWaitingFunds && (
                                 <div className="flex items-center gap-1 text-orange-600 font-bold bg-orange-50 px-2 py-0.5 rounded-full border border-orange-100">
@@ -593,10 +753,17 @@ export const ClientList: React.FC<ClientListProps> = ({
               <table className="w-full text-left border-collapse hidden md:table">
                 <thead className="bg-slate-50 sticky top-0 z-10 shadow-sm">
                   <tr>
+                    {canAssign && (
+                      <th className="p-4 border-b border-slate-200 w-10">
+                        <input type="checkbox" checked={allShownSelected} onChange={toggleAllShown} title="Seleccionar los mostrados" />
+                      </th>
+                    )}
                     {visibleColumns.card && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider w-24 text-center">Tarjeta</th>}
                     {visibleColumns.name && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider">Cliente</th>}
                     {visibleColumns.guarantor && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider">Fiador</th>}
                     {visibleColumns.contact && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider">Contacto</th>}
+                    {visibleColumns.collector && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider">Cobrador</th>}
+                    {visibleColumns.score && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider text-center">Puntaje</th>}
                     {visibleColumns.last_activity && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider">Último Mov.</th>}
                     {visibleColumns.profit && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider text-right">Rentabilidad</th>}
                     {visibleColumns.limit && <th className="p-4 border-b border-slate-200 text-[11px] font-bold text-slate-500 uppercase tracking-wider text-right">Cupo</th>}
@@ -607,9 +774,16 @@ export const ClientList: React.FC<ClientListProps> = ({
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
-                  {filteredClients.length === 0 && (
+                  {filteredClients.length === 0 && isListLoading && (
+                    <tr>
+                      <td colSpan={14} className="p-12 text-center text-slate-400">
+                        <Loader2 size={24} className="animate-spin mx-auto" />
+                      </td>
+                    </tr>
+                  )}
+                  {filteredClients.length === 0 && !isListLoading && (
                     <tr>
-                      <td colSpan={11} className="p-12 text-center text-slate-400">
+                      <td colSpan={14} className="p-12 text-center text-slate-400">
                         <div className="flex flex-col items-center gap-2">
                           <Search size={32} className="opacity-20" />
                           <span>No se encontraron resultados en esta vista.</span>
@@ -623,9 +797,9 @@ export const ClientList: React.FC<ClientListProps> = ({
                     </tr>
                   )}
                   {filteredClients.map(client => {
-                    const metrics = clientMetrics[client.id] || { balance: 0, totalInterest: 0, lastDate: null };
+                    const metrics = clientMetrics[client.id] || { balance: 0, totalInterest: 0, lastDate: null, isLate: false, overdueInstallments: 0, overdueAmount: 0 };
                     const balance = metrics.balance;
-                    const isLate = !!client.nextPaymentDate && client.nextPaymentDate < getToday() && balance > 0;
+                    const isLate = metrics.isLate;
                     const isPaid = balance <= 0 && client.status === 'ACTIVE';
                     const percentageUsed = client.loanLimit ? Math.min(100, (balance / client.loanLimit) * 100) : 0;
 
@@ -645,6 +819,12 @@ export const ClientList: React.FC<ClientListProps> = ({
                                 'border-transparent hover:bg-blue-50/30'}`}
                       >
 
+                        {canAssign && (
+                          <td className="p-4" onClick={(e) => e.stopPropagation()}>
+                            <input type="checkbox" checked={selectedIds.has(client.id)} onChange={() => toggleSelected(client.id)} />
+                          </td>
+                        )}
+
                         {visibleColumns.card && (
                           <td className="p-4 text-center">
                             <span className="inline-block px-2 py-1 bg-slate-100 rounded text-xs font-mono font-bold text-slate-700 border border-slate-300 shadow-sm">
@@ -692,6 +872,20 @@ export const ClientList: React.FC<ClientListProps> = ({
                           </td>
                         )}
 
+                        {visibleColumns.collector && (
+                          <td className="p-4">
+                            <span className={`text-xs font-semibold ${client.assignedTo ? 'text-slate-700' : 'text-slate-300 italic'}`}>
+                              {client.assignedTo === user?.id ? 'Yo' : collectorName(client.assignedTo)}
+                            </span>
+                          </td>
+                        )}
+
+                        {visibleColumns.score && (
+                          <td className="p-4 text-center">
+                            {renderCreditBadge(client.id)}
+                          </td>
+                        )}
+
                         {visibleColumns.last_activity && (
                           <td className="p-4">
                             <div className="flex items-center gap-1.5 text-xs text-slate-600">
@@ -764,6 +958,11 @@ export const ClientList: React.FC<ClientListProps> = ({
                                 <span className="text-xs text-slate-400">-</span>
                               )}
                               {isLate && <AlertTriangle size={14} className="text-red-500 animate-pulse" />}
+                              {metrics.overdueInstallments > 0 && (
+                                <span className="text-[10px] font-bold text-red-600 whitespace-nowrap">
+                                  {metrics.overdueInstallments} {metrics.overdueInstallments === 1 ? 'cuota' : 'cuotas'} · {formatCurrency(metrics.overdueAmount)}
+                                </span>
+                              )}
                             </div>
                           </td>
                         )}
@@ -845,9 +1044,16 @@ export const ClientList: React.FC<ClientListProps> = ({
                   })}
                 </tbody>
               </table>
+
+              {/* Sentinela del scroll infinito (móvil y escritorio) */}
+              {hasMore && (
+                <div ref={loadMoreRef} className="flex justify-center py-4 text-slate-400">
+                  {isLoadingMore && <Loader2 size={20} className="animate-spin" />}
+                </div>
+              )}
             </div>
             <div className="p-2 border-t border-slate-100 bg-slate-50 text-[10px] text-slate-400 text-center uppercase font-bold tracking-wider hidden md:block">
-              Mostrando {filteredClients.length} de {clients.length} clientes
+              Mostrando {filteredClients.length} de {filteredTotal} clientes
             </div>
           </div>
         </>
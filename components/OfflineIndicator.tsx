@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { CloudOff, RefreshCw, Loader2, AlertTriangle, X, Check, Trash2, Paperclip } from 'lucide-react';
+import { useOffline, SyncSummary } from '../contexts/OfflineContext';
+import { useData } from '../contexts/DataContext';
+import { QueuedPayment } from '../types';
+import { formatCurrency, getErrorMessage } from '../utils/format';
+
+interface OfflineIndicatorProps {
+    onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const STATUS_STYLES: Record<QueuedPayment['status'], { label: string; className: string }> = {
+    PENDING: { label: 'En cola', className: 'bg-sky-100 text-sky-700' },
+    SYNCING: { label: 'Enviando', className: 'bg-blue-100 text-blue-700' },
+    CONFLICT: { label: 'Conflicto', className: 'bg-amber-100 text-amber-800' },
+    ERROR: { label: 'Error', className: 'bg-red-100 text-red-700' }
+};
+
+/**
+ * Header pill for field work without signal: connection state, payments
+ * waiting in the offline queue and the actions to resolve their conflicts.
+ */
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ onAddNotification }) => {
+    const { isOnline, queue, isSyncing, syncNow, applyAnyway, discard } = useOffline();
+    const { offlineSnapshotAt } = useData();
+    const [isOpen, setIsOpen] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const issues = queue.filter(i => i.status === 'CONFLICT' || i.status === 'ERROR').length;
+    if (isOnline && queue.length === 0 && !offlineSnapshotAt) return null;
+
+    const report = (summary: SyncSummary) => {
+        if (summary.synced) onAddNotification(`${summary.synced} pago(s) sincronizado(s).`, 'success');
+        if (summary.conflicts) onAddNotification(`${summary.conflicts} pago(s) en conflicto: el cliente cambió en el servidor.`, 'info');
+        if (summary.failed) onAddNotification(`${summary.failed} pago(s) rechazado(s) por el servidor.`, 'error');
+    };
+
+    const handleSync = async () => {
+        if (!isOnline) {
+            onAddNotification('Sin conexión: los pagos se enviarán al recuperar la señal.', 'info');
+            return;
+        }
+        report(await syncNow());
+    };
+
+    const handleApply = async (item: QueuedPayment) => {
+        setBusyId(item.id);
+        try {
+            report(await applyAnyway(item.id));
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDiscard = async (item: QueuedPayment) => {
+        if (!window.confirm(`¿Descartar el pago de ${formatCurrency(item.tx.amount)} de ${item.clientName}? No se registrará en el servidor.`)) return;
+        setBusyId(item.id);
+        try {
+            await discard(item.id);
+            onAddNotification('Pago descartado.', 'info');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`px-2.5 py-1.5 rounded-full text-[10px] font-black uppercase border flex items-center gap-1.5 transition-colors ${issues > 0 ? 'bg-amber-100 text-amber-800 border-amber-200' : isOnline ? 'bg-sky-100 text-sky-700 border-sky-200' : 'bg-red-100 text-red-800 border-red-200'}`}
+                title="Pagos sin sincronizar"
+            >
+                {isSyncing ? <Loader2 size={12} className="animate-spin" /> : issues > 0 ? <AlertTriangle size={12} /> : <CloudOff size={12} />}
+                {!isOnline && <span className="hidden sm:inline">Sin conexión</span>}
+                {queue.length > 0 && <span>{queue.length} pendiente{queue.length === 1 ? '' : 's'}</span>}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-80 max-w-[90vw] bg-white rounded-xl shadow-2xl border border-slate-200 z-50 overflow-hidden">
+                    <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+                        <div>
+                            <div className="text-xs font-black text-slate-700 uppercase tracking-widest">Cola sin conexión</div>
+                            {offlineSnapshotAt && (
+                                <div className="text-[10px] text-slate-400">Datos guardados el {new Date(offlineSnapshotAt).toLocaleString('es-CO')}</div>
+                            )}
+                        </div>
+                        <button onClick={() => setIsOpen(false)} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+                            <X size={16} />
+                        </button>
+                    </div>
+
+                    <div className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+                        {queue.length === 0 && (
+                            <div className="p-6 text-center text-xs text-slate-400">No hay pagos pendientes.</div>
+                        )}
+                        {queue.map(item => {
+                            const status = STATUS_STYLES[item.status];
+                            const total = item.tx.amount + (item.tx.interestPaid || 0) + (item.penalty?.amount || 0);
+                            return (
+                                <div key={item.id} className="p-3 text-xs">
+                                    <div className="flex justify-between items-start gap-2">
+                                        <div className="min-w-0">
+                                            <div className="font-bold text-slate-800 truncate">{item.clientName}</div>
+                                            <div className="text-[10px] text-slate-400 flex items-center gap-1">
+                                                {new Date(item.queuedAt).toLocaleString('es-CO')}
+                                                {item.receipt && <Paperclip size={10} />}
+                                            </div>
+                                        </div>
+                                        <div className="text-right shrink-0">
+                                            <div className="font-black text-slate-900">{formatCurrency(total)}</div>
+                                            <span className={`inline-block mt-0.5 px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${status.className}`}>{status.label}</span>
+                                        </div>
+                                    </div>
+                                    {item.error && <p className="mt-2 text-[11px] text-slate-500 italic">{item.error}</p>}
+                                    {(item.status === 'CONFLICT' || item.status === 'ERROR') && (
+                                        <div className="flex gap-2 mt-2">
+                                            {item.status === 'CONFLICT' && (
+                                                <button
+                                                    onClick={() => handleApply(item)}
+                                                    disabled={!isOnline || busyId === item.id}
+                                                    className="flex-1 py-1.5 bg-slate-900 text-white rounded-lg font-bold flex items-center justify-center gap-1 disabled:opacity-50"
+                                                >
+                                                    {busyId === item.id ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />} Aplicar igual
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => handleDiscard(item)}
+                                                disabled={busyId === item.id}
+                                                className="flex-1 py-1.5 bg-red-50 text-red-600 rounded-lg font-bold flex items-center justify-center gap-1 disabled:opacity-50"
+                                            >
+                                                <Trash2 size={12} /> Descartar
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {queue.length > 0 && (
+                        <div className="p-3 border-t border-slate-100">
+                            <button
+                                onClick={handleSync}
+                                disabled={isSyncing}
+                                className="w-full py-2 bg-blue-600 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                {isSyncing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} Sincronizar ahora
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
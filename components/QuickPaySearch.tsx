@@ -1,13 +1,24 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Search, Zap, X, ChevronRight } from 'lucide-react';
-import { Client, Transaction } from '../types';
+import { Search, Zap, X, ChevronRight, Handshake } from 'lucide-react';
+import { Client, ClientPortfolioSummary, PaymentPromise } from '../types';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { fetchOpenPromises } from '../services/promiseService';
+
+// Las promesas incumplidas siguen a la vista dos semanas.
+const BROKEN_LOOKBACK_DAYS = 15;
+
+const shiftDate = (days: number) => {
+    const d = new Date();
+    d.setDate(d.getDate() + days);
+    return d.toISOString().split('T')[0];
+};
 
 interface QuickPaySearchProps {
     isOpen: boolean;
     onClose: () => void;
     clients: Client[];
-    clientMetrics: Record<string, { balance: number }>;
+    clientMetrics: Record<string, ClientPortfolioSummary>;
     onSelectClient: (client: Client) => void;
     formatCurrency: (val: number) => string;
 }
@@ -15,7 +26,9 @@ interface QuickPaySearchProps {
 export const QuickPaySearch: React.FC<QuickPaySearchProps> = ({
     isOpen, onClose, clients, clientMetrics, onSelectClient, formatCurrency
 }) => {
+    const { currentOrg } = useOrganization();
     const [searchTerm, setSearchTerm] = useState('');
+    const [promises, setPromises] = useState<PaymentPromise[]>([]);
     const inputRef = useRef<HTMLInputElement>(null);
 
     // Auto-focus search input when opened
@@ -26,6 +39,39 @@ export const QuickPaySearch: React.FC<QuickPaySearchProps> = ({
         }
     }, [isOpen]);
 
+    // Promesas frescas en cada apertura: un pago registrado puede haberlas cumplido.
+    useEffect(() => {
+        if (!isOpen || !currentOrg) return;
+        let mounted = true;
+        fetchOpenPromises(currentOrg.id, shiftDate(-BROKEN_LOOKBACK_DAYS))
+            .then(data => { if (mounted) setPromises(data); })
+            .catch(err => console.error('Error cargando promesas de pago:', err));
+        return () => { mounted = false; };
+    }, [isOpen, currentOrg]);
+
+    const { brokenPromises, upcomingPromises } = useMemo(() => {
+        const pendingClients = new Set(promises.filter(p => p.effectiveStatus === 'PENDING').map(p => p.clientId));
+        const limit = shiftDate(3);
+        const latestBroken = new Map<string, PaymentPromise>();
+        promises
+            .filter(p => p.effectiveStatus === 'BROKEN' && !pendingClients.has(p.clientId))
+            .forEach(p => {
+                const prev = latestBroken.get(p.clientId);
+                if (!prev || prev.promisedDate < p.promisedDate) latestBroken.set(p.clientId, p);
+            });
+        return {
+            brokenPromises: [...latestBroken.values()].sort((a, b) => a.promisedDate.localeCompare(b.promisedDate)),
+            upcomingPromises: promises.filter(p => p.effectiveStatus === 'PENDING' && p.promisedDate <= limit)
+        };
+    }, [promises]);
+
+    const selectPromiseClient = (promise: PaymentPromise) => {
+        const client = clients.find(c => c.id === promise.clientId);
+        if (!client) return;
+        onSelectClient(client);
+        onClose();
+    };
+
     // Handle Escape key
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -88,14 +134,55 @@ export const QuickPaySearch: React.FC<QuickPaySearchProps> = ({
                         <div className="space-y-4">
                             {/* SMART SUGGESTIONS - Explicitly Requested Feature */}
 
+                            {/* 0. PROMESAS (incumplidas primero: es lo que el cobrador persigue) */}
+                            {[
+                                { key: 'BROKEN', title: 'Promesas Incumplidas', list: brokenPromises, tone: 'text-red-600', dot: 'bg-red-500 animate-pulse', card: 'bg-white border-red-200 hover:border-red-400' },
+                                { key: 'UPCOMING', title: 'Promesas por Cumplir', list: upcomingPromises, tone: 'text-amber-600', dot: 'bg-amber-500', card: 'bg-white border-amber-200 hover:border-amber-400' }
+                            ].map(section => section.list.length === 0 ? null : (
+                                <div key={section.key} className="animate-in fade-in slide-in-from-left-2">
+                                    <h4 className={`text-xs font-bold uppercase mb-2 flex items-center gap-2 ${section.tone}`}>
+                                        <div className={`w-2 h-2 rounded-full ${section.dot}`}></div>
+                                        {section.title} ({section.list.length})
+                                    </h4>
+                                    <div className="grid gap-2">
+                                        {section.list.map(promise => {
+                                            const isToday = promise.promisedDate === shiftDate(0);
+                                            return (
+                                                <button
+                                                    key={promise.id}
+                                                    onClick={() => selectPromiseClient(promise)}
+                                                    className={`w-full p-3 rounded-xl border hover:shadow-md transition-all flex justify-between items-center group text-left ${section.card}`}
+                                                >
+                                                    <div className="flex items-center gap-3">
+                                                        <div className={`w-10 h-10 bg-slate-50 rounded-lg flex items-center justify-center font-mono font-bold border border-slate-100 shadow-sm ${section.tone}`}>
+                                                            {promise.cardCode || <Handshake size={16} />}
+                                                        </div>
+                                                        <div>
+                                                            <h4 className="font-bold text-slate-900">{promise.clientName}</h4>
+                                                            <div className={`text-[10px] font-bold uppercase flex items-center gap-1 ${section.tone}`}>
+                                                                {section.key === 'BROKEN'
+                                                                    ? `Prometió el ${promise.promisedDate}`
+                                                                    : isToday ? 'Promete pagar hoy' : `Promete el ${promise.promisedDate}`}
+                                                            </div>
+                                                        </div>
+                                                    </div>
+                                                    <div className="text-right">
+                                                        <div className="text-[10px] text-slate-400 uppercase font-black tracking-widest opacity-60">Prometido</div>
+                                                        <div className="text-md font-black text-slate-900">{formatCurrency(promise.amount)}</div>
+                                                    </div>
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+
                             {/* 1. OVERDUE (Vencidos) */}
                             {(() => {
-                                const today = new Date().toISOString().split('T')[0];
+                                // Mora según el resumen del servidor (cuotas vencidas sin cubrir).
                                 const overdue = clients.filter(c =>
-                                    c.status === 'ACTIVE' &&
-                                    c.nextPaymentDate &&
-                                    c.nextPaymentDate < today
-                                ).sort((a, b) => (a.nextPaymentDate || '').localeCompare(b.nextPaymentDate || ''));
+                                    c.status === 'ACTIVE' && clientMetrics[c.id]?.isLate
+                                ).sort((a, b) => (clientMetrics[b.id]?.daysOverdue || 0) - (clientMetrics[a.id]?.daysOverdue || 0));
 
                                 if (overdue.length === 0) return null;
 
@@ -107,7 +194,7 @@ export const QuickPaySearch: React.FC<QuickPaySearchProps> = ({
                                         </h4>
                                         <div className="grid gap-2">
                                             {overdue.map(client => {
-                                                const metrics = clientMetrics[client.id] || { balance: 0 };
+                                                const metrics = clientMetrics[client.id] || { balance: 0, daysOverdue: 0 };
                                                 return (
                                                     <button
                                                         key={client.id}
@@ -121,7 +208,7 @@ export const QuickPaySearch: React.FC<QuickPaySearchProps> = ({
                                                             <div>
                                                                 <h4 className="font-bold text-slate-900">{client.name}</h4>
                                                                 <div className="text-[10px] text-red-700 font-bold uppercase flex items-center gap-1">
-                                                                    Vence: {client.nextPaymentDate}
+                                                                    {metrics.daysOverdue} {metrics.daysOverdue === 1 ? 'día' : 'días'} de mora
                                                                 </div>
                                                             </div>
                                                         </div>
@@ -0,0 +1,429 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Route, MapPin, Phone, ArrowUp, ArrowDown, Loader2, RefreshCw, Lock, Check, DoorClosed, Handshake, Eye, Wallet, ListOrdered } from 'lucide-react';
+import { Client, CollectionRoute, RouteOrderMode, RouteStop, RouteStopStatus } from '../types';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import {
+    assignCollectionRoute, buildCollectionRoute, closeCollectionRoute, fetchRoutesForDate,
+    fetchRouteStops, markRouteStop, reorderRouteStops
+} from '../services/routeService';
+import { createPaymentPromise } from '../services/promiseService';
+import { isNetworkError, readSnapshot, writeSnapshot } from '../services/offlineStore';
+import { formatCurrency, formatNumberWithDots, getErrorMessage, getToday, parseCurrency } from '../utils/format';
+
+interface RouteViewProps {
+    clients: Client[];
+    onCollect: (client: Client) => void;
+    onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+interface RouteSnapshot {
+    route: CollectionRoute | null;
+    stops: RouteStop[];
+}
+
+const STOP_STATUS: Record<RouteStopStatus, { label: string; className: string }> = {
+    PENDING: { label: 'Pendiente', className: 'bg-slate-100 text-slate-500' },
+    VISITED: { label: 'Visitado', className: 'bg-blue-100 text-blue-700' },
+    PAID: { label: 'Pagó', className: 'bg-green-100 text-green-700' },
+    PROMISED: { label: 'Promesa', className: 'bg-amber-100 text-amber-800' },
+    NOT_HOME: { label: 'No estaba', className: 'bg-red-100 text-red-700' }
+};
+
+const STOP_ACTIONS: { status: RouteStopStatus; label: string; icon: React.ReactNode }[] = [
+    { status: 'VISITED', label: 'Visitado', icon: <Eye size={12} /> },
+    { status: 'PAID', label: 'Pagó', icon: <Check size={12} /> },
+    { status: 'PROMISED', label: 'Promesa', icon: <Handshake size={12} /> },
+    { status: 'NOT_HOME', label: 'No estaba', icon: <DoorClosed size={12} /> }
+];
+
+// Sin barrio al final; dentro del barrio, por nombre.
+const byNeighborhood = (a: RouteStop, b: RouteStop) =>
+    (a.neighborhood ? 0 : 1) - (b.neighborhood ? 0 : 1)
+    || (a.neighborhood || '').localeCompare(b.neighborhood || '')
+    || a.clientName.localeCompare(b.clientName);
+
+/**
+ * Daily visit list of a collector: clients due today or overdue, in the
+ * collector's order or grouped by neighborhood, with the outcome of each
+ * visit and the day's expected vs collected totals.
+ */
+export const RouteView: React.FC<RouteViewProps> = ({ clients, onCollect, onAddNotification }) => {
+    const { currentOrg, userRole, members, loadMembers } = useOrganization();
+    const { user } = useAuth();
+    const { transactions } = useData();
+    const isAdmin = userRole === 'owner' || userRole === 'admin';
+
+    const [date, setDate] = useState(getToday());
+    const [collectorId, setCollectorId] = useState<string>(user?.id || '');
+    const [route, setRoute] = useState<CollectionRoute | null>(null);
+    const [stops, setStops] = useState<RouteStop[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+    const [fromSnapshot, setFromSnapshot] = useState(false);
+
+    const snapshotKey = currentOrg ? `route:${currentOrg.id}:${collectorId}:${date}` : '';
+    const isOpen = route?.status === 'OPEN';
+
+    useEffect(() => {
+        if (isAdmin) loadMembers();
+    }, [currentOrg, isAdmin]);
+
+    useEffect(() => {
+        if (!collectorId && user) setCollectorId(user.id);
+    }, [user]);
+
+    const loadRoute = useCallback(async () => {
+        if (!currentOrg || !collectorId) return;
+        setIsLoading(true);
+        try {
+            const found = (await fetchRoutesForDate(currentOrg.id, date)).find(r => r.collectorId === collectorId) || null;
+            const routeStops = found ? await fetchRouteStops(found.id) : [];
+            setRoute(found);
+            setStops(routeStops);
+            setFromSnapshot(false);
+            writeSnapshot(snapshotKey, { route: found, stops: routeStops } as RouteSnapshot);
+        } catch (err) {
+            // Sin señal se trabaja con la última copia de la ruta.
+            const cached = isNetworkError(err) ? await readSnapshot<RouteSnapshot>(snapshotKey) : null;
+            if (cached) {
+                setRoute(cached.route);
+                setStops(cached.stops);
+                setFromSnapshot(true);
+            } else {
+                onAddNotification(`Error cargando la ruta: ${getErrorMessage(err)}`, 'error');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentOrg, collectorId, date, snapshotKey]);
+
+    // Un cobro registrado desde la ruta cambia lo cobrado de la parada.
+    useEffect(() => {
+        loadRoute();
+    }, [loadRoute, transactions.length]);
+
+    const runAction = async (action: () => Promise<void>, success?: string) => {
+        if (fromSnapshot) {
+            onAddNotification('Sin conexión: la ruta se puede consultar pero no modificar.', 'info');
+            return;
+        }
+        setIsBusy(true);
+        try {
+            await action();
+            if (success) onAddNotification(success, 'success');
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsBusy(false);
+        }
+        loadRoute();
+    };
+
+    const handleBuild = () => runAction(async () => {
+        if (!currentOrg) return;
+        await buildCollectionRoute(currentOrg.id, date, collectorId);
+    }, route ? 'Ruta actualizada con los nuevos vencimientos.' : 'Ruta del día armada.');
+
+    const persistOrder = (ordered: RouteStop[], mode: RouteOrderMode) => {
+        if (!route) return;
+        setStops(ordered.map((s, i) => ({ ...s, position: i + 1 })));
+        runAction(() => reorderRouteStops(route.id, ordered.map(s => s.id), mode));
+    };
+
+    const handleOrderMode = (mode: RouteOrderMode) => {
+        if (!route || mode === route.orderMode) return;
+        setRoute({ ...route, orderMode: mode });
+        persistOrder(mode === 'NEIGHBORHOOD' ? [...stops].sort(byNeighborhood) : stops, mode);
+    };
+
+    const handleMove = (index: number, delta: number) => {
+        const target = index + delta;
+        if (!route || target < 0 || target >= stops.length) return;
+        const next = [...stops];
+        [next[index], next[target]] = [next[target], next[index]];
+        persistOrder(next, 'SEQUENCE');
+        setRoute({ ...route, orderMode: 'SEQUENCE' });
+    };
+
+    const handleMark = (stop: RouteStop, status: RouteStopStatus) => {
+        // Volver a tocar el mismo estado lo desmarca.
+        const next = stop.status === status ? 'PENDING' : status;
+        if (next === 'PROMISED') {
+            handlePromise(stop);
+            return;
+        }
+        runAction(() => markRouteStop(stop.id, next));
+    };
+
+    // La promesa queda registrada para el cliente y la parada se marca en el mismo paso.
+    const handlePromise = (stop: RouteStop) => {
+        const pending = Math.max(stop.expectedAmount - stop.collected, 0);
+        const amountText = window.prompt('¿Cuánto promete pagar?', pending > 0 ? formatNumberWithDots(pending) : '');
+        if (amountText === null) return;
+        const nextDay = new Date(`${date}T12:00:00`);
+        nextDay.setDate(nextDay.getDate() + 1);
+        const promisedDate = window.prompt('¿Para qué fecha? (AAAA-MM-DD)', nextDay.toISOString().split('T')[0]);
+        if (!promisedDate) return;
+        runAction(() => createPaymentPromise({
+            clientId: stop.clientId,
+            amount: parseCurrency(amountText),
+            promisedDate: promisedDate.trim(),
+            source: 'ROUTE',
+            routeStopId: stop.id
+        }), 'Promesa de pago registrada.');
+    };
+
+    const handleCollect = (stop: RouteStop) => {
+        const client = clients.find(c => c.id === stop.clientId);
+        if (!client) {
+            onAddNotification('El cliente no está cargado en la cartera.', 'error');
+            return;
+        }
+        onCollect(client);
+    };
+
+    const handleAssign = (memberId: string) => {
+        if (!route || memberId === route.collectorId || fromSnapshot) return;
+        setIsBusy(true);
+        // La vista sigue a la ruta: cambiar de cobrador la recarga.
+        assignCollectionRoute(route.id, memberId)
+            .then(() => {
+                onAddNotification(`Ruta asignada a ${collectorName(memberId)}.`, 'success');
+                setCollectorId(memberId);
+            })
+            .catch(err => onAddNotification(getErrorMessage(err), 'error'))
+            .finally(() => setIsBusy(false));
+    };
+
+    const handleClose = () => {
+        if (!route) return;
+        const pending = stops.filter(s => s.effectiveStatus === 'PENDING').length;
+        const warning = pending ? `Quedan ${pending} parada(s) sin visitar. ` : '';
+        if (!window.confirm(`${warning}¿Cerrar la ruta del ${route.date}? Los totales quedarán congelados.`)) return;
+        runAction(async () => { await closeCollectionRoute(route.id); }, 'Ruta cerrada.');
+    };
+
+    const collectorName = (id: string) => {
+        if (id === user?.id) return 'Mi ruta';
+        const member = members.find(m => m.user_id === id);
+        return member?.profile?.full_name || member?.profile?.email || id.substring(0, 8);
+    };
+
+    // Resumen del día: con la ruta cerrada, los totales congelados.
+    const summary = useMemo(() => {
+        const counts = stops.reduce((acc, s) => {
+            acc[s.effectiveStatus] = (acc[s.effectiveStatus] || 0) + 1;
+            return acc;
+        }, {} as Partial<Record<RouteStopStatus, number>>);
+        const expected = route?.expectedTotal ?? stops.reduce((sum, s) => sum + s.expectedAmount, 0);
+        const collected = route?.collectedTotal ?? stops.reduce((sum, s) => sum + s.collected, 0);
+        return { counts, expected, collected, rate: expected > 0 ? Math.round((collected / expected) * 100) : 0 };
+    }, [stops, route]);
+
+    return (
+        <div className="h-full flex flex-col overflow-hidden">
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 mb-4 shrink-0 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="date"
+                        value={date}
+                        onChange={e => setDate(e.target.value || getToday())}
+                        className="px-3 py-2 border border-slate-200 rounded-lg text-sm font-bold text-slate-700"
+                    />
+                    {isAdmin && (
+                        <select
+                            value={collectorId}
+                            onChange={e => setCollectorId(e.target.value)}
+                            className="px-3 py-2 border border-slate-200 rounded-lg text-sm text-slate-700 flex-1 min-w-[140px]"
+                        >
+                            {user && <option value={user.id}>Mi ruta</option>}
+                            {members.filter(m => m.user_id !== user?.id).map(m => (
+                                <option key={m.user_id} value={m.user_id}>{collectorName(m.user_id)}</option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        onClick={handleBuild}
+                        disabled={isBusy || isLoading || (!!route && !isOpen)}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {isBusy ? <Loader2 size={16} className="animate-spin" /> : route ? <RefreshCw size={16} /> : <Route size={16} />}
+                        {route ? 'Actualizar ruta' : 'Armar ruta'}
+                    </button>
+                </div>
+
+                {route && (
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex bg-slate-100 rounded-lg p-1 text-xs font-bold">
+                            <button
+                                onClick={() => handleOrderMode('SEQUENCE')}
+                                disabled={!isOpen || isBusy}
+                                className={`px-3 py-1.5 rounded-md flex items-center gap-1 ${route.orderMode === 'SEQUENCE' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+                            >
+                                <ListOrdered size={14} /> Secuencia
+                            </button>
+                            <button
+                                onClick={() => handleOrderMode('NEIGHBORHOOD')}
+                                disabled={!isOpen || isBusy}
+                                className={`px-3 py-1.5 rounded-md flex items-center gap-1 ${route.orderMode === 'NEIGHBORHOOD' ? 'bg-white shadow text-slate-900' : 'text-slate-500'}`}
+                            >
+                                <MapPin size={14} /> Barrio
+                            </button>
+                        </div>
+                        {isAdmin && isOpen && (
+                            <label className="text-xs text-slate-500 flex items-center gap-2">
+                                Asignada a
+                                <select
+                                    value={route.collectorId}
+                                    onChange={e => handleAssign(e.target.value)}
+                                    disabled={isBusy}
+                                    className="px-2 py-1 border border-slate-200 rounded-lg text-xs text-slate-700"
+                                >
+                                    {members.map(m => (
+                                        <option key={m.user_id} value={m.user_id}>{collectorName(m.user_id)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+                        {!isOpen && (
+                            <span className="px-2 py-1 rounded-full bg-slate-900 text-white text-[10px] font-black uppercase flex items-center gap-1">
+                                <Lock size={10} /> Cerrada {route.closedAt ? new Date(route.closedAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' }) : ''}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {fromSnapshot && (
+                    <p className="text-[11px] text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+                        Sin conexión: se muestra la última copia guardada de la ruta.
+                    </p>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto pb-24 md:pb-4 space-y-4">
+                {isLoading && !route && (
+                    <div className="flex justify-center py-12"><Loader2 size={32} className="text-blue-600 animate-spin" /></div>
+                )}
+
+                {!isLoading && !route && (
+                    <div className="bg-white rounded-xl border border-dashed border-slate-300 p-8 text-center text-sm text-slate-400">
+                        No hay ruta para el {date}. "Armar ruta" junta a los clientes que vencen ese día o están en mora.
+                    </div>
+                )}
+
+                {route && (
+                    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+                        <div className="flex justify-between items-end mb-3">
+                            <div>
+                                <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Cobrado / Esperado</div>
+                                <div className="text-xl font-black text-slate-900">
+                                    {formatCurrency(summary.collected)} <span className="text-sm text-slate-400 font-bold">/ {formatCurrency(summary.expected)}</span>
+                                </div>
+                            </div>
+                            <div className={`text-2xl font-black ${summary.rate >= 100 ? 'text-green-600' : summary.rate >= 50 ? 'text-amber-600' : 'text-red-600'}`}>{summary.rate}%</div>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-3">
+                            <div className="h-full bg-green-500" style={{ width: `${Math.min(100, summary.rate)}%` }}></div>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5">
+                            {(Object.keys(STOP_STATUS) as RouteStopStatus[]).map(status => (
+                                <span key={status} className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${STOP_STATUS[status].className}`}>
+                                    {STOP_STATUS[status].label}: {summary.counts[status] || 0}
+                                </span>
+                            ))}
+                        </div>
+                        {isOpen && stops.length > 0 && (
+                            <button
+                                onClick={handleClose}
+                                disabled={isBusy}
+                                className="mt-4 w-full py-2 bg-slate-900 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <Lock size={14} /> Cerrar ruta
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {route && stops.length === 0 && (
+                    <div className="text-center text-sm text-slate-400 py-6">Ningún cliente vence ni está en mora para esta fecha.</div>
+                )}
+
+                {stops.map((stop, index) => {
+                    const status = STOP_STATUS[stop.effectiveStatus];
+                    const showNeighborhood = route?.orderMode === 'NEIGHBORHOOD' && stop.neighborhood !== stops[index - 1]?.neighborhood;
+                    return (
+                        <React.Fragment key={stop.id}>
+                            {showNeighborhood && (
+                                <div className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-1 pt-2">
+                                    <MapPin size={12} /> {stop.neighborhood || 'Sin barrio'}
+                                </div>
+                            )}
+                            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+                                <div className="flex gap-3">
+                                    <div className="flex flex-col items-center gap-1 shrink-0">
+                                        <span className="w-7 h-7 rounded-full bg-slate-900 text-white text-xs font-black flex items-center justify-center">{index + 1}</span>
+                                        {isOpen && (
+                                            <>
+                                                <button onClick={() => handleMove(index, -1)} disabled={isBusy || index === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                                                    <ArrowUp size={14} />
+                                                </button>
+                                                <button onClick={() => handleMove(index, 1)} disabled={isBusy || index === stops.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30">
+                                                    <ArrowDown size={14} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex justify-between items-start gap-2">
+                                            <div className="min-w-0">
+                                                <div className="font-bold text-slate-800 truncate">{stop.clientName}</div>
+                                                {stop.address && (
+                                                    <div className="text-xs text-slate-500 flex items-center gap-1 truncate"><MapPin size={10} className="shrink-0" /> {stop.address}</div>
+                                                )}
+                                                {stop.phone && (
+                                                    <a href={`tel:${stop.phone}`} className="text-xs text-blue-600 flex items-center gap-1"><Phone size={10} /> {stop.phone}</a>
+                                                )}
+                                            </div>
+                                            <div className="text-right shrink-0">
+                                                <div className="text-[10px] text-slate-400 font-bold uppercase">Esperado</div>
+                                                <div className="font-black text-slate-900">{formatCurrency(stop.expectedAmount)}</div>
+                                                {stop.collected > 0 && (
+                                                    <div className="text-xs font-bold text-green-600">+{formatCurrency(stop.collected)}</div>
+                                                )}
+                                                <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-[9px] font-black uppercase ${status.className}`}>{status.label}</span>
+                                            </div>
+                                        </div>
+                                        {stop.note && <p className="mt-2 text-[11px] text-slate-500 italic">"{stop.note}"</p>}
+                                        {isOpen && (
+                                            <div className="flex flex-wrap gap-1.5 mt-3">
+                                                <button
+                                                    onClick={() => handleCollect(stop)}
+                                                    disabled={isBusy}
+                                                    className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-[11px] font-bold flex items-center gap-1 disabled:opacity-50"
+                                                >
+                                                    <Wallet size={12} /> Cobrar
+                                                </button>
+                                                {STOP_ACTIONS.map(action => (
+                                                    <button
+                                                        key={action.status}
+                                                        onClick={() => handleMark(stop, action.status)}
+                                                        disabled={isBusy}
+                                                        className={`px-2.5 py-1.5 rounded-lg text-[11px] font-bold flex items-center gap-1 border disabled:opacity-50 ${stop.status === action.status ? STOP_STATUS[action.status].className + ' border-transparent' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                                                    >
+                                                        {action.icon} {action.label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { Settings, Save, Zap, Megaphone, Check, Bot, Terminal, Copy, Trash2, CreditCard, Shield, Activity, User, Filter, Search } from 'lucide-react';
-import { AppSettings, AppLog } from '../types';
+import { Settings, Save, Zap, Megaphone, Check, Bot, Terminal, Copy, Trash2, CreditCard, Shield, Activity, User, Filter, Search, AlertTriangle, Coins, Scale } from 'lucide-react';
+import { AppSettings, AppLog, PenaltyPolicy, LendingPolicy } from '../types';
 import { UserManagement } from './settings/UserManagement';
+import { PeriodClose } from './settings/PeriodClose';
+import { IntegrityCheck } from './settings/IntegrityCheck';
+import { CollectorDashboard } from './settings/CollectorDashboard';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { useAuth } from '../contexts/AuthContext';
+import { CURRENCIES, DEFAULT_CURRENCY } from '../utils/format';
 
 // Helper component for debounced input — defined at module level to avoid recreation on each render
 const DebouncedInput: React.FC<{
@@ -115,10 +119,10 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
    onClearLogs,
    onAddNotification
 }) => {
-   const { userRole, can, loadMembers } = useOrganization();
+   const { userRole, can, loadMembers, currentOrg, updateOrganizationCurrency } = useOrganization();
    const { user, updateProfile } = useAuth();
    const [tempBusinessName, setTempBusinessName] = useState(settings.companyName);
-   const [activeTab, setActiveTab] = useState<'GENERAL' | 'TEAM' | 'VIEW' | 'AUDIT'>('GENERAL');
+   const [activeTab, setActiveTab] = useState<'GENERAL' | 'TEAM' | 'VIEW' | 'PERIODS' | 'INTEGRITY' | 'AUDIT'>('GENERAL');
 
    // Filtering for logs
    const [logFilter, setLogFilter] = useState('');
@@ -132,6 +136,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       onUpdateSettings({ ...settings, companyName: tempBusinessName });
    };
 
+   const handleCurrencyChange = async (currency: string) => {
+      const result = await updateOrganizationCurrency(currency);
+      if (result.success) onAddNotification(`Moneda actualizada a ${currency}`, 'success');
+      else onAddNotification(result.error || 'No se pudo cambiar la moneda', 'error');
+   };
+
    const copyLogs = () => {
       const text = systemLogs.map(l => `[${l.timestamp}] [${l.level}] ${l.message} ${l.details || ''}`).join('\n');
       navigator.clipboard.writeText(text);
@@ -164,6 +174,33 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       });
    };
 
+   const updatePenaltyPolicy = (updates: Partial<PenaltyPolicy>) => {
+      const currentPolicy: PenaltyPolicy = settings.penaltyPolicy || {
+         enabled: false,
+         rateType: 'MONTHLY',
+         rate: 0,
+         graceDays: 0
+      };
+
+      onUpdateSettings({
+         ...settings,
+         penaltyPolicy: {
+            ...currentPolicy,
+            ...updates
+         }
+      });
+   };
+
+   const updateLendingPolicy = (updates: Partial<LendingPolicy>) => {
+      onUpdateSettings({
+         ...settings,
+         lendingPolicy: {
+            ...settings.lendingPolicy,
+            ...updates
+         }
+      });
+   };
+
    return (
       <div className="w-full max-w-[1600px] mx-auto animate-in fade-in slide-in-from-bottom-4 duration-500 overflow-y-auto h-full px-4 sm:px-6">
          <div className="mb-4 md:mb-6 flex flex-col md:flex-row justify-between items-start md:items-center gap-2 md:gap-4">
@@ -200,6 +237,24 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                </button>
             )}
 
+            {canManageSettings && (
+               <button
+                  onClick={() => setActiveTab('PERIODS')}
+                  className={`pb-3 text-sm font-bold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'PERIODS' ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                  Cierres Contables
+               </button>
+            )}
+
+            {userRole === 'owner' && (
+               <button
+                  onClick={() => setActiveTab('INTEGRITY')}
+                  className={`pb-3 text-sm font-bold border-b-2 transition-colors whitespace-nowrap ${activeTab === 'INTEGRITY' ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+               >
+                  Integridad
+               </button>
+            )}
+
             {canViewAudit && (
                <button
                   onClick={() => setActiveTab('AUDIT')}
@@ -214,8 +269,27 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
             {/* TEAM TAB */}
             {activeTab === 'TEAM' && canManageTeam && (
-               <div className="animate-in fade-in slide-in-from-left-4">
+               <div className="animate-in fade-in slide-in-from-left-4 space-y-6">
                   <UserManagement />
+                  {(userRole === 'owner' || userRole === 'admin') && (
+                     <div className="max-w-3xl">
+                        <CollectorDashboard onAddNotification={onAddNotification} />
+                     </div>
+                  )}
+               </div>
+            )}
+
+            {/* PERIODS TAB */}
+            {activeTab === 'PERIODS' && canManageSettings && (
+               <div className="animate-in fade-in slide-in-from-left-4 max-w-3xl">
+                  <PeriodClose onAddNotification={onAddNotification} />
+               </div>
+            )}
+
+            {/* INTEGRITY TAB */}
+            {activeTab === 'INTEGRITY' && userRole === 'owner' && (
+               <div className="animate-in fade-in slide-in-from-left-4 max-w-3xl">
+                  <IntegrityCheck onAddNotification={onAddNotification} />
                </div>
             )}
 
@@ -268,6 +342,19 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                                        onChange={e => onUpdateSettings({ ...settings, maxCardLimit: parseInt(e.target.value) || 500 })}
                                     />
                                  </div>
+                                 <div>
+                                    <label className="block text-sm font-bold text-slate-500 uppercase mb-1 flex items-center gap-2">
+                                       <Coins size={14} /> Moneda
+                                    </label>
+                                    <p className="text-xs text-slate-400 mb-2">Moneda de la cartera y los reportes. Solo se puede cambiar antes del primer movimiento.</p>
+                                    <select
+                                       className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold"
+                                       value={currentOrg?.currency || DEFAULT_CURRENCY}
+                                       onChange={e => handleCurrencyChange(e.target.value)}
+                                    >
+                                       {Object.entries(CURRENCIES).map(([code, c]) => <option key={code} value={code}>{code} · {c.label}</option>)}
+                                    </select>
+                                 </div>
                               </div>
                            </div>
                         ) : (
@@ -277,6 +364,130 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                         )}
                      </div>
 
+                     {/* PENALTY POLICY (Admin Only) */}
+                     {canManageSettings && (
+                        <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border border-slate-200">
+                           <div className="flex items-center justify-between gap-3 mb-4 border-b border-slate-100 pb-4">
+                              <div className="flex items-center gap-3">
+                                 <div className="bg-red-100 p-2 rounded-lg"><AlertTriangle size={18} className="text-red-600" /></div>
+                                 <div>
+                                    <h3 className="font-bold text-base md:text-lg text-slate-800">Intereses de Mora</h3>
+                                    <p className="text-xs text-slate-500">Se causan sobre cada cuota vencida y se cobran aparte del interés corriente.</p>
+                                 </div>
+                              </div>
+                              <label className="relative inline-flex items-center cursor-pointer shrink-0">
+                                 <input
+                                    type="checkbox"
+                                    className="sr-only peer"
+                                    checked={settings.penaltyPolicy?.enabled || false}
+                                    onChange={e => updatePenaltyPolicy({ enabled: e.target.checked })}
+                                 />
+                                 <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-red-600"></div>
+                              </label>
+                           </div>
+
+                           {settings.penaltyPolicy?.enabled && (
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                 <div>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Tasa de Mora (%)</label>
+                                    <div className="flex gap-2">
+                                       <input
+                                          type="number"
+                                          min={0}
+                                          step="0.01"
+                                          className="flex-1 border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                                          value={settings.penaltyPolicy.rate}
+                                          onChange={e => updatePenaltyPolicy({ rate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                       />
+                                       <select
+                                          className="border border-slate-300 bg-white text-slate-900 p-3 rounded-lg outline-none text-sm font-bold"
+                                          value={settings.penaltyPolicy.rateType}
+                                          onChange={e => updatePenaltyPolicy({ rateType: e.target.value as PenaltyPolicy['rateType'] })}
+                                       >
+                                          <option value="DAILY">Diaria</option>
+                                          <option value="MONTHLY">Mensual</option>
+                                       </select>
+                                    </div>
+                                 </div>
+                                 <div>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Días de Gracia</label>
+                                    <input
+                                       type="number"
+                                       min={0}
+                                       className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                                       value={settings.penaltyPolicy.graceDays}
+                                       onChange={e => updatePenaltyPolicy({ graceDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                                    />
+                                 </div>
+                                 <div>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Tope por Cuota (%)</label>
+                                    <input
+                                       type="number"
+                                       min={0}
+                                       step="0.01"
+                                       className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                                       placeholder="Sin tope"
+                                       value={settings.penaltyPolicy.capPercent ?? ''}
+                                       onChange={e => updatePenaltyPolicy({ capPercent: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    />
+                                    <p className="text-xs text-slate-400 mt-1">Máximo de mora como % del valor vencido de cada cuota.</p>
+                                 </div>
+                              </div>
+                           )}
+                        </div>
+                     )}
+
+                     {/* LENDING LIMITS (Admin Only) */}
+                     {canManageSettings && (
+                        <div className="bg-white p-4 md:p-6 rounded-xl shadow-sm border border-slate-200">
+                           <div className="flex items-center gap-3 mb-4 border-b border-slate-100 pb-4">
+                              <div className="bg-amber-100 p-2 rounded-lg"><Scale size={18} className="text-amber-600" /></div>
+                              <div>
+                                 <h3 className="font-bold text-base md:text-lg text-slate-800">Límites de Préstamo</h3>
+                                 <p className="text-xs text-slate-500">Se validan en el servidor con cada desembolso. Solo el propietario puede autorizar excepciones.</p>
+                              </div>
+                           </div>
+                           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div>
+                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Deuda Máxima por Cliente</label>
+                                 <input
+                                    type="number"
+                                    min={0}
+                                    className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                                    placeholder="Sin límite"
+                                    value={settings.lendingPolicy?.maxPerClient ?? ''}
+                                    onChange={e => updateLendingPolicy({ maxPerClient: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                                 />
+                                 <p className="text-xs text-slate-400 mt-1">Aplica además del cupo propio de cada cliente.</p>
+                              </div>
+                              <div>
+                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Deuda Máxima por Grupo</label>
+                                 <input
+                                    type="number"
+                                    min={0}
+                                    className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                                    placeholder="Sin límite"
+                                    value={settings.lendingPolicy?.groupLimit ?? ''}
+                                    onChange={e => updateLendingPolicy({ groupLimit: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                                 />
+                                 <p className="text-xs text-slate-400 mt-1">Suma de lo que deben los clientes relacionados.</p>
+                              </div>
+                              <div>
+                                 <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Agrupar por</label>
+                                 <select
+                                    className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-lg outline-none text-sm font-bold"
+                                    value={settings.lendingPolicy?.groupBy || 'BOTH'}
+                                    onChange={e => updateLendingPolicy({ groupBy: e.target.value as LendingPolicy['groupBy'] })}
+                                 >
+                                    <option value="BOTH">Fiador y referidos</option>
+                                    <option value="GUARANTOR">Mismo fiador</option>
+                                    <option value="REFERRER">Quien refiere y sus referidos</option>
+                                 </select>
+                              </div>
+                           </div>
+                        </div>
+                     )}
+
                      {/* AUTOMATION SETTINGS (Admin Only) */}
                      {canManageSettings && (
                         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 relative overflow-hidden">
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Menu, Folder, Landmark, Settings, Keyboard, Wifi, Building2, Plus, ChevronDown, ChevronLeft } from 'lucide-react';
+import { Menu, Folder, Landmark, Route, Settings, Keyboard, Wifi, Building2, Plus, ChevronDown, ChevronLeft } from 'lucide-react';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { useAuth } from '../contexts/AuthContext';
 import { UserRole } from '../types';
@@ -139,6 +139,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, setIsOpen, currentView
                </button>
             )}
 
+            <button
+               onClick={() => onChangeView('ROUTE')}
+               className={`w-full text-left p-3 rounded-lg flex items-center gap-3 transition-colors ${currentView === 'ROUTE' ? 'bg-blue-600 text-white shadow-lg' : 'hover:bg-slate-800 text-slate-400'}`}
+            >
+               <Route size={20} />
+               {isOpen && <span className="font-semibold text-sm">Ruta del día</span>}
+            </button>
+
             <div className="w-full h-px bg-slate-700 my-2 opacity-50"></div>
 
             <button
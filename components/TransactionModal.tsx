@@ -1,12 +1,16 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { Client, TransactionType, BankAccount, Transaction, TransactionFormInput } from '../types';
-import { X, ArrowRightLeft, DollarSign, Calendar, Search, Landmark, AlertTriangle, TrendingUp, Paperclip, Loader2, Image as ImageIcon, Check } from 'lucide-react';
-import { calculateLoanProjection, calculateNextPaymentDate } from '../services/loanUtils';
-import { formatNumberWithDots, parseCurrency, formatCurrency, formatCurrencyMasked } from '../utils/format';
+import { Client, TransactionType, BankAccount, Transaction, TransactionFormInput, CreditScore, LendingViolation, Loan } from '../types';
+import { X, ArrowRightLeft, DollarSign, Calendar, Search, Landmark, AlertTriangle, TrendingUp, Paperclip, Loader2, Image as ImageIcon, Check, Gauge, ShieldAlert, Layers } from 'lucide-react';
+import { calculateLoanProjection, calculateNextPaymentDate, getOutstandingLateFees } from '../services/loanUtils';
+import { formatNumberWithDots, parseCurrency, formatCurrency, formatCurrencyMasked, getToday } from '../utils/format';
 import { useData } from '../contexts/DataContext';
 import { compressImage } from '../utils/imageUtils';
 import { getReceiptSignedUrl } from '../utils/receipts';
+import { CREDIT_BAND_LABELS, fetchClientCreditScore } from '../services/creditScoreService';
+import { checkLendingLimits, describeLendingViolation } from '../services/lendingService';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { defaultLoanIdFor, fetchClientLoans } from '../services/loanService';
 
 interface TransactionModalProps {
    isOpen: boolean;
@@ -24,6 +28,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
    isOpen, onClose, onSubmit, activeClient, allClients, bankAccounts, initialMode = 'PAYMENT', editingTransaction, clientTransactions = []
 }) => {
    const { settings } = useData();
+   const { userRole } = useOrganization();
    const hideMoney = settings?.uiConfig?.privacyMode === true;
    const [tab, setTab] = useState<'ENTRY' | 'EXIT'>('ENTRY');
    const [sourceType, setSourceType] = useState<'TREASURY' | 'REDIRECTION'>('TREASURY');
@@ -42,6 +47,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
 
    const [amount, setAmount] = useState<string>('');
    const [interest, setInterest] = useState<string>('');
+   const [penalty, setPenalty] = useState<string>('');
    const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
    const [nextPaymentDate, setNextPaymentDate] = useState<string>('');
    const [notes, setNotes] = useState('');
@@ -56,44 +62,70 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
    const [isTargetSearchFocused, setIsTargetSearchFocused] = useState(false);
    const [selectedBankId, setSelectedBankId] = useState<string>('');
 
+   // Puntaje y cupo sugerido al prestar o refinanciar
+   const [credit, setCredit] = useState<CreditScore | null>(null);
+   const [applySuggestedLimit, setApplySuggestedLimit] = useState(false);
+
+   // Cupos que el préstamo superaría (el servidor los vuelve a validar al guardar)
+   const [limitViolations, setLimitViolations] = useState<LendingViolation[]>([]);
+   const [overrideReason, setOverrideReason] = useState('');
+
+   // Préstamos del cliente: el pago va a uno de ellos; al prestar se abre uno
+   // nuevo o se refinancia uno activo. '' = préstamo nuevo.
+   const [loans, setLoans] = useState<Loan[]>([]);
+   const [selectedLoanId, setSelectedLoanId] = useState('');
+
    // --- DERIVED DATA ---
+   const activeLoans = useMemo(() => loans.filter(l => l.status === 'ACTIVE'), [loans]);
+   const selectedLoan = useMemo(() => loans.find(l => l.id === selectedLoanId), [loans, selectedLoanId]);
+
    const currentDebt = useMemo(() => {
+      if (loans.length > 0) return selectedLoan?.balance || 0;
       if (clientTransactions.length === 0) return 0;
       return clientTransactions[clientTransactions.length - 1].balanceAfter;
-   }, [clientTransactions]);
+   }, [clientTransactions, loans, selectedLoan]);
+
+   const isRefinance = tab === 'EXIT' && (loans.length > 0 ? !!selectedLoan : currentDebt > 0);
 
-   const isRefinance = currentDebt > 0 && tab === 'EXIT';
+   // Mora causada y aún no cobrada según la política de la organización.
+   const lateFeesDue = useMemo(
+      () => getOutstandingLateFees(activeClient?.paymentSchedule, settings?.penaltyPolicy, clientTransactions, getToday()),
+      [activeClient, settings?.penaltyPolicy, clientTransactions]
+   );
+   const canChargePenalty = !editingTransaction && tab === 'ENTRY' && !isRedirectionEntry && !!settings?.penaltyPolicy?.enabled;
 
    const entryCalc = useMemo(() => {
       if (!activeClient || tab !== 'ENTRY') return { capital: 0, interest: 0, total: 0 };
+      // Condiciones del préstamo elegido; sin préstamos, las del cliente.
+      const terms = selectedLoan || activeClient;
 
-      const rate = (activeClient.interestRate || 0) / 100;
+      const rate = (terms.interestRate || 0) / 100;
       let freqDiv = 1;
-      if (activeClient.paymentFrequency === 'BIWEEKLY') freqDiv = 2;
-      if (activeClient.paymentFrequency === 'WEEKLY') freqDiv = 4;
-      if (activeClient.paymentFrequency === 'DAILY') freqDiv = 30;
+      if (terms.paymentFrequency === 'BIWEEKLY') freqDiv = 2;
+      if (terms.paymentFrequency === 'WEEKLY') freqDiv = 4;
+      if (terms.paymentFrequency === 'DAILY') freqDiv = 30;
 
       const periodicRate = rate / freqDiv;
 
       let calculatedInterest: number;
-      if (activeClient.interestType === 'DIMINISHING') {
+      if (terms.interestType === 'DIMINISHING') {
          // Interés sobre saldo: varía según el capital pendiente
          calculatedInterest = Math.round(currentDebt * periodicRate);
       } else {
          // Interés FIJO: plano por cuota, constante aunque baje el saldo
-         const inst = activeClient.installmentsCount || 0;
-         const term = activeClient.loanTermMonths || 0;
-         const monthlyRate = (activeClient.interestRate || 0) / 100;
+         const inst = terms.installmentsCount || 0;
+         const term = terms.loanTermMonths || 0;
+         const monthlyRate = (terms.interestRate || 0) / 100;
          let flatInterest = 0;
          if (inst > 0 && (1 + monthlyRate * term) > 0) {
-            const principal = (activeClient.installmentAmount || 0) * inst / (1 + monthlyRate * term);
+            const principal = (terms.installmentAmount || 0) * inst / (1 + monthlyRate * term);
             flatInterest = Math.round((principal * monthlyRate * term) / inst);
          }
          // Fallback si no hay datos suficientes para calcular el interés plano
          calculatedInterest = (inst > 0 && flatInterest > 0) ? flatInterest : Math.round(currentDebt * periodicRate);
       }
 
-      const quota = activeClient.installmentAmount || 0;
+      const quota = terms.installmentAmount || 0;
       const calculatedCapital = quota > 0 ? Math.max(0, Math.min(currentDebt, quota - calculatedInterest)) : 0;
 
       return {
@@ -101,7 +133,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
          interest: calculatedInterest,
          total: calculatedCapital + calculatedInterest,
       };
-   }, [activeClient, currentDebt, tab]);
+   }, [activeClient, selectedLoan, currentDebt, tab]);
 
    const exitSimulation = useMemo(() => {
       const newMoney = parseCurrency(amount);
@@ -201,12 +233,63 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
 
             // Próximo pago por defecto: un período según la frecuencia del cliente
             // (antes era today+30 fijo, incorrecto para diario/semanal/quincenal).
+            // Con plan de cuotas se deja vacío: lo define la imputación del pago.
             const today = new Date().toISOString().split('T')[0];
-            setNextPaymentDate(calculateNextPaymentDate(today, activeClient.paymentFrequency || 'MONTHLY'));
+            setNextPaymentDate(activeClient.paymentSchedule?.length
+               ? ''
+               : calculateNextPaymentDate(today, activeClient.paymentFrequency || 'MONTHLY'));
          }
       }
    }, [isOpen, bankAccounts, initialMode, activeClient, editingTransaction]);
 
+   useEffect(() => {
+      if (isOpen && !editingTransaction) setPenalty(lateFeesDue > 0 ? lateFeesDue.toString() : '');
+   }, [isOpen, editingTransaction, lateFeesDue]);
+
+   useEffect(() => {
+      setLoans([]);
+      if (!isOpen || !activeClient) return;
+      let mounted = true;
+      fetchClientLoans(activeClient.id)
+         .then(data => { if (mounted) setLoans(data); })
+         .catch(err => console.error('Error cargando préstamos:', err));
+      return () => { mounted = false; };
+   }, [isOpen, activeClient?.id]);
+
+   // Pagos: el préstamo con la cuota más atrasada. Al prestar: refinanciar el
+   // último activo; el usuario puede cambiarlo por un préstamo nuevo.
+   useEffect(() => {
+      if (!isOpen) return;
+      if (editingTransaction) {
+         setSelectedLoanId(editingTransaction.loanId || '');
+      } else if (tab === 'ENTRY') {
+         const preferred = defaultLoanIdFor(activeClient?.paymentSchedule);
+         setSelectedLoanId(activeLoans.some(l => l.id === preferred) ? preferred! : (activeLoans[0]?.id || ''));
+      } else {
+         setSelectedLoanId(activeLoans[activeLoans.length - 1]?.id || '');
+      }
+   }, [isOpen, tab, editingTransaction, activeLoans, activeClient?.paymentSchedule]);
+
+   // Al refinanciar, el simulador parte de las condiciones de ese préstamo.
+   useEffect(() => {
+      if (!isOpen || editingTransaction || tab !== 'EXIT' || !selectedLoan) return;
+      if (selectedLoan.interestRate !== undefined) setSimRate(selectedLoan.interestRate.toString());
+      if (selectedLoan.loanTermMonths) setSimTerm(selectedLoan.loanTermMonths.toString());
+      if (selectedLoan.paymentFrequency) setSimFreq(selectedLoan.paymentFrequency);
+      if (selectedLoan.interestType) setSimType(selectedLoan.interestType);
+   }, [isOpen, editingTransaction, tab, selectedLoan]);
+
+   useEffect(() => {
+      setCredit(null);
+      setApplySuggestedLimit(false);
+      if (!isOpen || editingTransaction || tab !== 'EXIT' || !activeClient) return;
+      let mounted = true;
+      fetchClientCreditScore(activeClient.id)
+         .then(data => { if (mounted) setCredit(data); })
+         .catch(err => console.error('Error calculando puntaje crediticio:', err));
+      return () => { mounted = false; };
+   }, [isOpen, editingTransaction, tab, activeClient?.id]);
+
    useEffect(() => {
       if (isOpen && !editingTransaction && tab === 'ENTRY' && paymentMode === 'QUOTA' && entryCalc.total > 0) {
          setAmount(entryCalc.capital.toString());
@@ -248,9 +331,57 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
 
    const parsedAmount = parseCurrency(amount);
    const parsedInterest = parseCurrency(interest);
+   const parsedPenalty = canChargePenalty ? parseCurrency(penalty) : 0;
 
    const insufficientFunds = !editingTransaction && (tab === 'EXIT') && sourceType === 'TREASURY' && selectedBank && selectedBank.balance < parsedAmount;
 
+   const isOwner = userRole === 'owner';
+   const isEditingLoan = !!editingTransaction && !editingTransaction.voided &&
+      (editingTransaction.type === TransactionType.DISBURSEMENT || editingTransaction.type === TransactionType.REFINANCE);
+   // Quien recibe el préstamo: el cliente activo, o el destino de una redirección.
+   const limitClientId = tab === 'EXIT' ? activeClient?.id : (tab === 'ENTRY' && isRedirectionEntry ? targetClientId : undefined);
+   const overLimit = !!limitClientId && limitViolations.length > 0;
+   const limitBlocked = overLimit && (!isOwner || overrideReason.trim().length < 5);
+
+   useEffect(() => {
+      setLimitViolations([]);
+      if (!isOpen || !limitClientId || parsedAmount <= 0) return;
+      if (editingTransaction && !isEditingLoan) return;
+      let mounted = true;
+      const timer = setTimeout(() => {
+         checkLendingLimits(limitClientId, parsedAmount, isEditingLoan ? editingTransaction!.amount : 0)
+            .then(data => { if (mounted) setLimitViolations(data); })
+            .catch(err => console.error('Error validando cupos:', err));
+      }, 400);
+      return () => { mounted = false; clearTimeout(timer); };
+   }, [isOpen, limitClientId, parsedAmount, editingTransaction, isEditingLoan]);
+
+   useEffect(() => {
+      if (isOpen) setOverrideReason('');
+   }, [isOpen]);
+
+   const limitWarning = overLimit && (
+      <div className="bg-red-50 p-3 rounded-xl border border-red-200 space-y-2">
+         <div className="text-xs font-bold text-red-700 uppercase flex items-center gap-1">
+            <ShieldAlert size={14} /> Supera los límites de préstamo
+         </div>
+         <ul className="text-[11px] text-red-700 space-y-0.5">
+            {limitViolations.map((v, i) => <li key={i}>{describeLendingViolation(v)}</li>)}
+         </ul>
+         {isOwner ? (
+            <textarea
+               value={overrideReason}
+               onChange={e => setOverrideReason(e.target.value)}
+               rows={2}
+               placeholder="Motivo de la excepción (queda en la auditoría)"
+               className="w-full p-2 border border-red-200 rounded-lg bg-white text-slate-900 text-sm outline-none focus:ring-2 focus:ring-red-400"
+            />
+         ) : (
+            <div className="text-[11px] font-bold text-red-600">Solo el propietario puede autorizar un préstamo por encima del cupo.</div>
+         )}
+      </div>
+   );
+
    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
          const file = e.target.files[0];
@@ -272,6 +403,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
       e.preventDefault();
       if (isProcessing) return;
       if (insufficientFunds) return;
+      if (limitBlocked) return;
       // VALIDATION
       if (!parsedAmount && !parsedInterest) return;
       if (tab === 'ENTRY' && isRedirectionEntry && !targetClientId) {
@@ -299,6 +431,9 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
          if (activeClient.pendingRedirectionBalance && activeClient.pendingRedirectionBalance > 0) {
             clientUpdates.pendingRedirectionBalance = 0;
          }
+         if (applySuggestedLimit && credit?.suggestedLimit) {
+            clientUpdates.loanLimit = credit.suggestedLimit;
+         }
       }
 
       const isRedirection = (tab === 'ENTRY' && isRedirectionEntry) || (tab === 'EXIT' && sourceType === 'REDIRECTION');
@@ -310,6 +445,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
             type: getTransactionType() as TransactionType,
             amount: parsedAmount || 0,
             interest: parsedInterest || 0,
+            penalty: parsedPenalty || undefined,
             date,
             nextPaymentDate,
             notes,
@@ -317,6 +453,8 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
             bankAccountId: bankIdToSend,
             newCardCode: (tab === 'EXIT') ? newCardCode : undefined,
             receiptUrl: existingReceiptUrl,
+            limitOverrideReason: overLimit ? overrideReason.trim() : undefined,
+            loanId: selectedLoanId || undefined,
             ...clientUpdates
          }, receiptFile);
          if (ok) onClose();
@@ -373,6 +511,26 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
 
             <form onSubmit={handleSubmit} className="p-4 md:p-6 space-y-5 overflow-y-auto bg-slate-50 flex-1 scrollbar-thin">
 
+               {!editingTransaction && activeLoans.length > 0 && (tab === 'EXIT' || activeLoans.length > 1) && (
+                  <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+                     <label className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+                        <Layers size={14} /> {tab === 'EXIT' ? 'Préstamo' : 'Abonar al préstamo'}
+                     </label>
+                     <select
+                        value={selectedLoanId}
+                        onChange={e => setSelectedLoanId(e.target.value)}
+                        className="w-full p-2 border border-slate-300 rounded bg-slate-50 font-medium text-slate-900 text-sm outline-none focus:ring-1 focus:ring-blue-500"
+                     >
+                        {tab === 'EXIT' && <option value="">Nuevo préstamo</option>}
+                        {activeLoans.map(l => (
+                           <option key={l.id} value={l.id}>
+                              {tab === 'EXIT' ? 'Refinanciar ' : ''}{l.label} - (Saldo: {formatCurrencyMasked(l.balance, hideMoney)})
+                           </option>
+                        ))}
+                     </select>
+                  </div>
+               )}
+
                {tab === 'EXIT' && (
                   <div className="space-y-6">
                      <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
@@ -435,6 +593,40 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                         )}
                      </div>
 
+                     {credit && !editingTransaction && (
+                        <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-2">
+                           <div className="flex justify-between items-center gap-2">
+                              <span className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1">
+                                 <Gauge size={14} /> Puntaje Crediticio
+                              </span>
+                              <span className="text-sm font-black text-slate-800">
+                                 {credit.score !== null && credit.band ? `${credit.score} · ${CREDIT_BAND_LABELS[credit.band]}` : 'Sin historial suficiente'}
+                              </span>
+                           </div>
+                           {credit.suggestedLimit ? (
+                              <>
+                                 <div className="flex justify-between text-xs text-slate-500">
+                                    <span>Cupo sugerido: <b className="text-slate-800">{formatCurrencyMasked(credit.suggestedLimit, hideMoney)}</b></span>
+                                    <span>Actual: {activeClient.loanLimit ? formatCurrencyMasked(activeClient.loanLimit, hideMoney) : 'sin cupo'}</span>
+                                 </div>
+                                 {exitSimulation.totalNewDebt > credit.suggestedLimit && (
+                                    <div className="text-[11px] font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 flex items-center gap-1">
+                                       <AlertTriangle size={12} /> La deuda resultante supera el cupo sugerido.
+                                    </div>
+                                 )}
+                                 {credit.suggestedLimit !== activeClient.loanLimit && (
+                                    <label className="flex items-center gap-2 text-xs font-bold text-blue-700 cursor-pointer">
+                                       <input type="checkbox" checked={applySuggestedLimit} onChange={e => setApplySuggestedLimit(e.target.checked)} />
+                                       Actualizar el cupo del cliente al sugerido
+                                    </label>
+                                 )}
+                              </>
+                           ) : (
+                              <div className="text-[11px] text-slate-400">Sin préstamos previos: no hay base para sugerir cupo.</div>
+                           )}
+                        </div>
+                     )}
+
                      <div>
                         <label className="text-xs font-bold text-blue-700 uppercase block mb-1">
                            {isRefinance ? 'Monto Adicional a Prestar' : 'Monto a Prestar'}
@@ -452,6 +644,8 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                         </div>
                      </div>
 
+                     {limitWarning}
+
                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 bg-slate-50 p-3 rounded-lg border border-slate-200">
                         <div>
                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Tasa %</label>
@@ -569,6 +763,8 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                         )}
                      </div>
 
+                     {isRedirectionEntry && limitWarning}
+
                      <div className="bg-white p-3 rounded-xl border border-slate-200 space-y-3">
                         <div className="grid grid-cols-2 gap-4">
                            <div className="space-y-1">
@@ -590,6 +786,21 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                               />
                            </div>
                         </div>
+                        {canChargePenalty && (
+                           <div className="space-y-1">
+                              <label className="text-[10px] font-bold uppercase text-red-500 flex justify-between">
+                                 <span>Intereses de Mora</span>
+                                 {lateFeesDue > 0 && <span className="normal-case">Causada: {formatCurrency(lateFeesDue)}</span>}
+                              </label>
+                              <input
+                                 type="text"
+                                 value={formatNumberWithDots(penalty)}
+                                 onChange={e => setPenalty(e.target.value)}
+                                 placeholder="0"
+                                 className="w-full p-2 border border-red-200 bg-red-50/40 text-slate-900 rounded font-bold outline-none focus:ring-2 focus:ring-red-500"
+                              />
+                           </div>
+                        )}
                      </div>
                   </div>
                )}
@@ -613,6 +824,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                      <label className="text-xs font-bold text-slate-500 uppercase">Próximo Pago</label>
                      <input
                         type="date"
+                        title={activeClient.paymentSchedule?.length ? 'Vacío = según el plan de cuotas' : undefined}
                         value={nextPaymentDate}
                         onChange={e => setNextPaymentDate(e.target.value)}
                         className="w-full p-2 border border-slate-300 bg-white text-slate-900 rounded-lg outline-none font-medium text-sm"
@@ -657,7 +869,7 @@ export const TransactionModal: React.FC<TransactionModalProps> = ({
                </button>
                <button
                   onClick={handleSubmit}
-                  disabled={isProcessing || isCompressing || (tab === 'EXIT' && insufficientFunds) || (tab === 'ENTRY' && isRedirectionEntry && !targetClientId)}
+                  disabled={isProcessing || isCompressing || (tab === 'EXIT' && insufficientFunds) || limitBlocked || (tab === 'ENTRY' && isRedirectionEntry && !targetClientId)}
                   className={`flex-1 py-3 text-white font-bold rounded-lg shadow-lg flex items-center justify-center gap-2
                  ${tab === 'ENTRY' ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'}
                  disabled:opacity-50 disabled:cursor-not-allowed`}
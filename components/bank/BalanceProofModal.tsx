@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { BalanceProof, BankAccount } from '../../types';
+import { Scale, X, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { formatCurrency, getErrorMessage } from '../../utils/format';
+import { fetchBalanceProof } from '../../services/bankService';
+
+interface BalanceProofModalProps {
+   account: BankAccount;
+   onDismiss: () => void;
+   onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// Prueba de saldo: apertura + cada movimiento vigente contra el saldo guardado.
+export const BalanceProofModal: React.FC<BalanceProofModalProps> = ({ account, onDismiss, onAddNotification }) => {
+   const [proof, setProof] = useState<BalanceProof | null>(null);
+   const [isLoading, setIsLoading] = useState(true);
+
+   useEffect(() => {
+      let mounted = true;
+      fetchBalanceProof(account.id)
+         .then(result => { if (mounted) setProof(result); })
+         .catch(err => onAddNotification(getErrorMessage(err), 'error'))
+         .finally(() => { if (mounted) setIsLoading(false); });
+      return () => { mounted = false; };
+   }, [account.id]);
+
+   const fmt = (val: number) => formatCurrency(val, account.currency);
+   const hasDrift = !!proof && Math.abs(proof.drift) >= 0.01;
+   const journalDrift = !!proof && Math.abs(proof.stored - proof.journal) >= 0.01;
+
+   return (
+      <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
+         <div
+            className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl w-full max-w-2xl h-[92vh] md:h-[80vh] flex flex-col overflow-hidden animate-in slide-in-from-bottom duration-300 md:animate-none"
+            style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+         >
+            <div className="bg-slate-900 text-white p-4 flex justify-between items-center shrink-0">
+               <div>
+                  <h3 className="font-bold flex items-center gap-2">
+                     <Scale size={18} /> Prueba de Saldo
+                  </h3>
+                  <p className="text-xs text-slate-400">{account.name}</p>
+               </div>
+               <button onClick={onDismiss} className="hover:bg-slate-800 p-1 rounded"><X size={20} /></button>
+            </div>
+
+            {isLoading || !proof ? (
+               <div className="flex justify-center py-10">
+                  {isLoading ? <Loader2 className="animate-spin text-slate-400" /> : <span className="text-xs text-slate-400 font-bold uppercase">Sin datos</span>}
+               </div>
+            ) : (
+               <>
+                  <div className="p-4 border-b border-slate-100 space-y-2 text-sm shrink-0">
+                     <div className="flex justify-between"><span className="text-slate-500">Saldo de apertura</span><span className="font-bold text-slate-800">{fmt(proof.opening)}</span></div>
+                     <div className="flex justify-between"><span className="text-slate-500">Movimientos ({proof.rows.length})</span><span className="font-bold text-slate-800">{proof.movements >= 0 ? '+' : ''}{fmt(proof.movements)}</span></div>
+                     <div className="flex justify-between border-t border-slate-200 pt-2"><span className="font-bold text-slate-700">Saldo recalculado</span><span className="font-black text-slate-900">{fmt(proof.recomputed)}</span></div>
+                     <div className="flex justify-between"><span className="text-slate-500">Saldo registrado</span><span className="font-bold text-slate-800">{fmt(proof.stored)}</span></div>
+                     <div className={`flex items-center gap-2 p-3 rounded-xl text-xs font-bold ${hasDrift ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                        {hasDrift
+                           ? <><AlertTriangle size={14} /> Descuadre de {fmt(proof.drift)} entre el saldo registrado y el recalculado</>
+                           : <><CheckCircle2 size={14} /> El saldo registrado coincide con la apertura más los movimientos</>}
+                     </div>
+                     {journalDrift && (
+                        <p className="text-[10px] text-amber-600 font-bold">El libro diario muestra {fmt(proof.journal)} para esta cuenta.</p>
+                     )}
+                  </div>
+
+                  <div className="flex-1 overflow-y-auto bg-slate-50">
+                     <table className="w-full text-xs">
+                        <thead className="sticky top-0 bg-slate-100">
+                           <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                              <th className="text-left px-4 py-2">Fecha</th>
+                              <th className="text-left px-4 py-2">Movimiento</th>
+                              <th className="text-right px-4 py-2">Efecto</th>
+                              <th className="text-right px-4 py-2">Saldo</th>
+                           </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 bg-white">
+                           {proof.rows.map(row => (
+                              <tr key={row.transactionId}>
+                                 <td className="px-4 py-2 font-mono text-slate-500 whitespace-nowrap">{row.date}</td>
+                                 <td className="px-4 py-2">
+                                    <div className="font-bold text-slate-700">{row.type}</div>
+                                    {row.notes && <div className="text-[10px] text-slate-400 italic truncate max-w-[220px]">{row.notes}</div>}
+                                 </td>
+                                 <td className={`px-4 py-2 text-right font-bold ${row.effect < 0 ? 'text-red-500' : 'text-green-600'}`}>{row.effect >= 0 ? '+' : ''}{fmt(row.effect)}</td>
+                                 <td className="px-4 py-2 text-right font-black text-slate-800">{fmt(row.running)}</td>
+                              </tr>
+                           ))}
+                        </tbody>
+                     </table>
+                  </div>
+               </>
+            )}
+         </div>
+      </div>
+   );
+};
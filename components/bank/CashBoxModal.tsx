@@ -0,0 +1,126 @@
+
+import React, { useState } from 'react';
+import { BankAccount, CashSession } from '../../types';
+import { Wallet, X, Loader2, Lock, Unlock, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { formatCurrency, formatNumberWithDots, parseCurrency } from '../../utils/format';
+
+interface CashBoxModalProps {
+   account: BankAccount;
+   session?: CashSession; // Sesión de hoy (abierta o ya cerrada)
+   isLoading: boolean;
+   onOpen: () => void;
+   onClose: (counted: number, explanation: string) => void;
+   onDismiss: () => void;
+}
+
+export const CashBoxModal: React.FC<CashBoxModalProps> = ({ account, session, isLoading, onOpen, onClose, onDismiss }) => {
+   const [counted, setCounted] = useState('');
+   const [explanation, setExplanation] = useState('');
+
+   const expected = session ? session.openingBalance + session.inflow - session.outflow : 0;
+   const difference = counted === '' ? 0 : parseCurrency(counted) - expected;
+   const needsExplanation = counted !== '' && Math.abs(difference) >= 0.01;
+
+   const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (isLoading || counted === '' || (needsExplanation && !explanation.trim())) return;
+      onClose(parseCurrency(counted), explanation.trim());
+   };
+
+   return (
+      <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4">
+         <div
+            className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl w-full max-w-sm p-6 overflow-hidden animate-in slide-in-from-bottom duration-300 md:animate-none"
+            style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+         >
+            {/* MOBILE DRAG HANDLE */}
+            <div className="md:hidden flex justify-center pb-4 opacity-30">
+               <div className="w-10 h-1 bg-slate-400 rounded-full"></div>
+            </div>
+            <div className="flex justify-between items-start mb-4">
+               <div>
+                  <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+                     <Wallet className="text-green-600" /> Arqueo de Caja
+                  </h3>
+                  <p className="text-xs text-slate-500">{account.name}{session ? ` · ${session.date}` : ''}</p>
+               </div>
+               <button onClick={onDismiss} className="text-slate-400 hover:bg-slate-100 p-1 rounded"><X size={20} /></button>
+            </div>
+
+            {!session ? (
+               <div className="space-y-4">
+                  <p className="text-sm text-slate-600">La caja no se ha abierto hoy. Al abrirla se toma como saldo inicial el cierre del libro al día anterior.</p>
+                  <button
+                     onClick={onOpen}
+                     disabled={isLoading}
+                     className="w-full py-4 rounded-2xl font-black text-white bg-green-600 hover:bg-green-700 shadow-lg transition-transform active:scale-95 flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                     {isLoading ? <Loader2 size={18} className="animate-spin" /> : <Unlock size={18} />} Abrir Caja
+                  </button>
+               </div>
+            ) : (
+               <div className="space-y-4">
+                  <div className="bg-slate-50 rounded-2xl border border-slate-200 p-4 space-y-2 text-sm">
+                     <div className="flex justify-between"><span className="text-slate-500">Saldo de apertura</span><span className="font-bold text-slate-800">{formatCurrency(session.openingBalance)}</span></div>
+                     <div className="flex justify-between"><span className="text-slate-500">Entradas del día</span><span className="font-bold text-green-600">+{formatCurrency(session.inflow)}</span></div>
+                     <div className="flex justify-between"><span className="text-slate-500">Salidas del día</span><span className="font-bold text-red-500">-{formatCurrency(session.outflow)}</span></div>
+                     <div className="flex justify-between border-t border-slate-200 pt-2"><span className="font-bold text-slate-700">Esperado</span><span className="font-black text-slate-900">{formatCurrency(session.expectedBalance ?? expected)}</span></div>
+                  </div>
+
+                  {session.status === 'CLOSED' ? (
+                     <div className="space-y-2 text-sm">
+                        <div className="flex justify-between"><span className="text-slate-500">Contado</span><span className="font-bold text-slate-800">{formatCurrency(session.countedAmount || 0)}</span></div>
+                        <div className="flex justify-between"><span className="text-slate-500">Diferencia</span><span className={`font-black ${(session.difference || 0) < 0 ? 'text-red-600' : (session.difference || 0) > 0 ? 'text-amber-600' : 'text-green-600'}`}>{formatCurrency(session.difference || 0)}</span></div>
+                        {session.explanation && <p className="text-xs text-slate-500 italic">"{session.explanation}"</p>}
+                        <div className="flex items-center gap-2 text-[10px] text-slate-400 font-mono pt-2 break-all">
+                           <ShieldCheck size={14} className="text-green-600 shrink-0" /> {session.signature}
+                        </div>
+                     </div>
+                  ) : (
+                     <form onSubmit={handleSubmit} className="space-y-4">
+                        <div>
+                           <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Efectivo contado</label>
+                           <div className="relative">
+                              <span className="absolute left-3 top-3.5 text-slate-400 font-black text-lg">$</span>
+                              <input
+                                 autoFocus
+                                 required
+                                 type="text"
+                                 inputMode="decimal"
+                                 className="w-full border border-slate-300 bg-white text-slate-900 p-3 pl-8 rounded-2xl text-xl font-black outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all"
+                                 value={formatNumberWithDots(counted)}
+                                 onChange={e => setCounted(e.target.value.replace(/\D/g, ''))}
+                              />
+                           </div>
+                        </div>
+
+                        {needsExplanation && (
+                           <div>
+                              <div className={`text-xs font-black flex items-center gap-1 mb-1 ${difference < 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                                 <AlertTriangle size={14} /> {difference < 0 ? 'Faltante' : 'Sobrante'} de {formatCurrency(Math.abs(difference))}
+                              </div>
+                              <textarea
+                                 required
+                                 className="w-full border border-slate-300 bg-white text-slate-900 p-3 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 transition-all min-h-[80px]"
+                                 placeholder="Explique la diferencia..."
+                                 value={explanation}
+                                 onChange={e => setExplanation(e.target.value)}
+                              />
+                           </div>
+                        )}
+
+                        <button
+                           type="submit"
+                           disabled={isLoading || counted === '' || (needsExplanation && !explanation.trim())}
+                           className="w-full py-4 rounded-2xl font-black text-white bg-slate-900 hover:bg-black shadow-lg transition-transform active:scale-95 flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                           {isLoading ? <Loader2 size={18} className="animate-spin" /> : <Lock size={18} />} Cerrar Caja
+                        </button>
+                     </form>
+                  )}
+               </div>
+            )}
+         </div>
+      </div>
+   );
+};
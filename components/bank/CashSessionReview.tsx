@@ -0,0 +1,91 @@
+
+import React, { useMemo, useState } from 'react';
+import { BankAccount, CashSession, OrganizationMember } from '../../types';
+import { ClipboardCheck, ShieldCheck, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatCurrency } from '../../utils/format';
+
+interface CashSessionReviewProps {
+   sessions: CashSession[];
+   accounts: BankAccount[];
+   members: OrganizationMember[];
+}
+
+// Resumen de arqueos por cobrador (propietario/admin; RLS ya filtra al resto).
+export const CashSessionReview: React.FC<CashSessionReviewProps> = ({ sessions, accounts, members }) => {
+   const [expandedCollector, setExpandedCollector] = useState<string | null>(null);
+
+   const byCollector = useMemo(() => {
+      const groups = new Map<string, CashSession[]>();
+      sessions.filter(s => s.status === 'CLOSED').forEach(s => {
+         groups.set(s.collectorId, [...(groups.get(s.collectorId) || []), s]);
+      });
+      return Array.from(groups.entries()).map(([collectorId, list]) => ({
+         collectorId,
+         sessions: list,
+         shortage: list.reduce((sum, s) => sum + Math.min(0, s.difference || 0), 0),
+         surplus: list.reduce((sum, s) => sum + Math.max(0, s.difference || 0), 0)
+      })).sort((a, b) => a.shortage - b.shortage);
+   }, [sessions]);
+
+   const collectorName = (id: string) => {
+      const member = members.find(m => m.user_id === id);
+      return member?.profile?.full_name || member?.profile?.email || id.substring(0, 8);
+   };
+
+   if (byCollector.length === 0) return null;
+
+   return (
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden mb-8">
+         <div className="p-4 border-b border-slate-100">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+               <ClipboardCheck size={18} className="text-slate-500" /> Arqueos por Cobrador
+            </h3>
+         </div>
+         <div className="divide-y divide-slate-100">
+            {byCollector.map(group => (
+               <div key={group.collectorId}>
+                  <button
+                     onClick={() => setExpandedCollector(expandedCollector === group.collectorId ? null : group.collectorId)}
+                     className="w-full flex justify-between items-center p-4 hover:bg-slate-50 transition-colors text-left"
+                  >
+                     <div>
+                        <div className="font-bold text-slate-800">{collectorName(group.collectorId)}</div>
+                        <div className="text-[10px] text-slate-400 font-bold uppercase">{group.sessions.length} arqueos</div>
+                     </div>
+                     <div className="flex items-center gap-4">
+                        <div className="text-right text-xs">
+                           <div className={`font-black ${group.shortage < 0 ? 'text-red-600' : 'text-slate-400'}`}>Faltantes {formatCurrency(group.shortage)}</div>
+                           <div className={`font-bold ${group.surplus > 0 ? 'text-amber-600' : 'text-slate-400'}`}>Sobrantes {formatCurrency(group.surplus)}</div>
+                        </div>
+                        {expandedCollector === group.collectorId ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+                     </div>
+                  </button>
+
+                  {expandedCollector === group.collectorId && (
+                     <div className="bg-slate-50 divide-y divide-slate-200">
+                        {group.sessions.map(s => (
+                           <div key={s.id} className="px-4 py-3 text-xs">
+                              <div className="flex justify-between items-center">
+                                 <div>
+                                    <span className="font-mono font-black text-slate-600">{s.date}</span>
+                                    <span className="text-slate-400 ml-2">{accounts.find(a => a.id === s.bankAccountId)?.name || 'Caja'}</span>
+                                 </div>
+                                 <div className="text-right">
+                                    <span className="text-slate-500">Esperado {formatCurrency(s.expectedBalance || 0)} · Contado {formatCurrency(s.countedAmount || 0)} · </span>
+                                    <span className={`font-black ${(s.difference || 0) < 0 ? 'text-red-600' : (s.difference || 0) > 0 ? 'text-amber-600' : 'text-green-600'}`}>{formatCurrency(s.difference || 0)}</span>
+                                 </div>
+                              </div>
+                              {s.explanation && <p className="text-slate-500 italic mt-1">"{s.explanation}"</p>}
+                              <div className="flex items-center gap-1 text-[10px] text-slate-300 font-mono mt-1 truncate" title={s.signature || ''}>
+                                 <ShieldCheck size={10} className="shrink-0" /> {s.signature?.substring(0, 16)}…
+                              </div>
+                           </div>
+                        ))}
+                     </div>
+                  )}
+               </div>
+            ))}
+         </div>
+      </div>
+   );
+};
@@ -0,0 +1,376 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { BankAccount, BankStatementLine, StatementMapping, StatementParseResult, Transaction, TransactionType } from '../../types';
+import { FileSpreadsheet, X, Upload, Loader2, Link2, Unlink, Plus, EyeOff, RefreshCw, Save, Settings2 } from 'lucide-react';
+import { STATEMENT_PRESETS, parseCsvStatement, parseOfxStatement, isOfxFile } from '../../services/statementParser';
+import { fetchStatementLines, importStatement, autoMatchStatement, resolveStatementLine, saveStatementMapping, StatementLineAction } from '../../services/bankStatementService';
+import { fetchBankTransactions } from '../../services/bankService';
+import { formatCurrency, getErrorMessage } from '../../utils/format';
+
+interface StatementReconciliationProps {
+   account: BankAccount;
+   onDismiss: () => void;
+   onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+   onAudit: (message: string, details?: string) => void;
+}
+
+const STATUS_STYLES: Record<BankStatementLine['status'], { label: string; className: string }> = {
+   UNMATCHED: { label: 'Pendiente', className: 'bg-amber-100 text-amber-700' },
+   MATCHED: { label: 'Conciliada', className: 'bg-green-100 text-green-700' },
+   CREATED: { label: 'Creada', className: 'bg-blue-100 text-blue-700' },
+   IGNORED: { label: 'Ignorada', className: 'bg-slate-100 text-slate-500' }
+};
+
+// Efecto del movimiento en la cuenta, con el mismo signo que el extracto.
+const bankEffect = (t: Transaction) => {
+   if ([TransactionType.DISBURSEMENT, TransactionType.REFINANCE].includes(t.type as TransactionType)
+      || ['BANK_WITHDRAWAL', 'BANK_TRANSFER_OUT', 'BANK_FEE'].includes(t.type)) return -t.amount;
+   return t.amount + (t.interestPaid || 0);
+};
+
+const shiftDate = (date: string, days: number) => {
+   const d = new Date(`${date}T00:00:00`);
+   d.setDate(d.getDate() + days);
+   return d.toISOString().split('T')[0];
+};
+
+const MAPPING_FIELDS: { key: keyof StatementMapping; label: string }[] = [
+   { key: 'dateColumn', label: 'Fecha' },
+   { key: 'descriptionColumn', label: 'Descripción' },
+   { key: 'referenceColumn', label: 'Referencia' },
+   { key: 'amountColumn', label: 'Valor (con signo)' },
+   { key: 'debitColumn', label: 'Débito' },
+   { key: 'creditColumn', label: 'Crédito' }
+];
+
+export const StatementReconciliation: React.FC<StatementReconciliationProps> = ({ account, onDismiss, onAddNotification, onAudit }) => {
+   const [mapping, setMapping] = useState<StatementMapping>(account.statementMapping || STATEMENT_PRESETS.BANCOLOMBIA.mapping);
+   const [showMapping, setShowMapping] = useState(false);
+   const [pending, setPending] = useState<{ fileName: string; format: 'CSV' | 'OFX'; text: string } | null>(null);
+   const [lines, setLines] = useState<BankStatementLine[]>([]);
+   const [candidates, setCandidates] = useState<Transaction[]>([]);
+   const [selectedTx, setSelectedTx] = useState<Record<string, string>>({});
+   const [isLoading, setIsLoading] = useState(true);
+   const [busyLineId, setBusyLineId] = useState<string | null>(null);
+   const [isImporting, setIsImporting] = useState(false);
+
+   const parsed: StatementParseResult = useMemo(() => {
+      if (!pending) return { lines: [], errors: [] };
+      return pending.format === 'OFX' ? parseOfxStatement(pending.text) : parseCsvStatement(pending.text, mapping);
+   }, [pending, mapping]);
+   const parsedPreview = parsed.lines;
+
+   const previewRange = useMemo(() => {
+      if (parsedPreview.length === 0) return null;
+      const dates = parsedPreview.map(l => l.date).sort();
+      return [dates[0], dates[dates.length - 1]];
+   }, [parsedPreview]);
+
+   const loadLines = async () => {
+      try {
+         const data = await fetchStatementLines(account.id);
+         setLines(data);
+         if (data.length > 0) {
+            const dates = data.map(l => l.date).sort();
+            setCandidates(await fetchBankTransactions(account.id, shiftDate(dates[0], -7), shiftDate(dates[dates.length - 1], 7)));
+         }
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      } finally {
+         setIsLoading(false);
+      }
+   };
+
+   useEffect(() => { loadLines(); }, [account.id]);
+
+   const matchedTxIds = useMemo(() => new Set(lines.map(l => l.transactionId).filter(Boolean)), [lines]);
+
+   // Candidatos de una línea pendiente: mismo sentido, ordenados por monto y fecha más cercanos.
+   const candidatesFor = (line: BankStatementLine) => candidates
+      .filter(t => !t.voided && t.type !== TransactionType.REVERSAL && !matchedTxIds.has(t.id) && Math.sign(bankEffect(t)) === Math.sign(line.amount))
+      .sort((a, b) =>
+         Math.abs(bankEffect(a) - line.amount) - Math.abs(bankEffect(b) - line.amount)
+         || Math.abs(new Date(a.date).getTime() - new Date(line.date).getTime()) - Math.abs(new Date(b.date).getTime() - new Date(line.date).getTime()))
+      .slice(0, 20);
+
+   const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const text = await file.text();
+      setPending({ fileName: file.name, format: isOfxFile(file.name, text) ? 'OFX' : 'CSV', text });
+      e.target.value = '';
+   };
+
+   const handleImport = async () => {
+      // Con filas ilegibles no se importa nada: casi siempre es el formato de fecha del mapeo.
+      if (!pending || parsedPreview.length === 0 || parsed.errors.length > 0 || isImporting) return;
+      setIsImporting(true);
+      try {
+         const result = await importStatement(account.id, pending.fileName, pending.format, parsedPreview);
+         onAudit(`Extracto importado: ${account.name}`, `${pending.fileName} · ${result.inserted} líneas nuevas, ${result.matched} conciliadas, ${result.duplicates} repetidas`);
+         onAddNotification(`${result.inserted} líneas importadas · ${result.matched} conciliadas automáticamente${result.duplicates ? ` · ${result.duplicates} ya existían` : ''}`, 'success');
+         setPending(null);
+         await loadLines();
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      } finally {
+         setIsImporting(false);
+      }
+   };
+
+   const handleSaveMapping = async () => {
+      try {
+         await saveStatementMapping(account.id, mapping);
+         onAddNotification('Mapeo de columnas guardado para esta cuenta', 'success');
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      }
+   };
+
+   const handleAutoMatch = async () => {
+      setIsLoading(true);
+      try {
+         const matched = await autoMatchStatement(account.id);
+         onAddNotification(`${matched} líneas conciliadas`, 'info');
+         await loadLines();
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+         setIsLoading(false);
+      }
+   };
+
+   const handleResolve = async (line: BankStatementLine, action: StatementLineAction) => {
+      if (busyLineId) return;
+      const txId = action === 'MATCH' ? (selectedTx[line.id] || candidatesFor(line)[0]?.id) : undefined;
+      if (action === 'MATCH' && !txId) return;
+
+      setBusyLineId(line.id);
+      try {
+         const { line: updated, transaction } = await resolveStatementLine(line.id, action, txId);
+         setLines(prev => prev.map(l => l.id === updated.id ? updated : l));
+         if (transaction) setCandidates(prev => [transaction, ...prev]);
+         if (action !== 'UNMATCH') onAudit(`Extracto ${action === 'CREATE' ? 'registrado como movimiento' : action === 'IGNORE' ? 'ignorado' : 'conciliado'}: ${account.name}`, `${line.date} · ${formatCurrency(line.amount, account.currency)} · ${line.description}`);
+      } catch (err) {
+         onAddNotification(getErrorMessage(err), 'error');
+      } finally {
+         setBusyLineId(null);
+      }
+   };
+
+   const counts = lines.reduce((acc, l) => ({ ...acc, [l.status]: (acc[l.status] || 0) + 1 }), {} as Record<string, number>);
+
+   return (
+      <div className="fixed inset-0 z-50 flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm p-0 md:p-4 animate-in fade-in duration-200">
+         <div
+            className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl w-full max-w-4xl h-[92vh] md:h-[85vh] flex flex-col overflow-hidden animate-in slide-in-from-bottom duration-300 md:animate-none"
+            style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+         >
+            <div className="bg-slate-900 text-white p-4 flex justify-between items-center shrink-0">
+               <div>
+                  <h3 className="font-bold flex items-center gap-2">
+                     <FileSpreadsheet size={18} /> Conciliación Bancaria
+                  </h3>
+                  <p className="text-xs text-slate-400">{account.name}</p>
+               </div>
+               <button onClick={onDismiss} className="hover:bg-slate-800 p-1 rounded"><X size={20} /></button>
+            </div>
+
+            {/* IMPORT */}
+            <div className="p-4 border-b border-slate-200 space-y-3 shrink-0">
+               <div className="flex flex-wrap gap-2 items-center">
+                  <select
+                     className="border border-slate-300 bg-white text-slate-900 p-2 rounded-lg text-sm font-bold"
+                     value={mapping.preset || ''}
+                     onChange={e => STATEMENT_PRESETS[e.target.value] && setMapping(STATEMENT_PRESETS[e.target.value].mapping)}
+                  >
+                     {!mapping.preset && <option value="">Personalizado</option>}
+                     {Object.entries(STATEMENT_PRESETS).map(([key, p]) => <option key={key} value={key}>{p.label}</option>)}
+                  </select>
+                  <button onClick={() => setShowMapping(!showMapping)} className="text-xs font-bold text-slate-600 hover:bg-slate-100 px-3 py-2 rounded-lg flex items-center gap-1">
+                     <Settings2 size={14} /> Columnas
+                  </button>
+                  <label className="bg-blue-600 text-white hover:bg-blue-700 px-4 py-2 rounded-lg text-xs font-black flex items-center gap-2 cursor-pointer">
+                     <Upload size={14} /> Cargar CSV / OFX
+                     <input type="file" accept=".csv,.txt,.ofx,.qfx" className="hidden" onChange={handleFile} />
+                  </label>
+               </div>
+
+               {showMapping && (
+                  <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-3">
+                     <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        <div>
+                           <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Separador</label>
+                           <select className="w-full border border-slate-300 bg-white p-2 rounded text-sm" value={mapping.delimiter} onChange={e => setMapping({ ...mapping, preset: undefined, delimiter: e.target.value })}>
+                              <option value=",">Coma (,)</option>
+                              <option value=";">Punto y coma (;)</option>
+                              <option value={'\t'}>Tabulador</option>
+                           </select>
+                        </div>
+                        <div>
+                           <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Formato fecha</label>
+                           <select className="w-full border border-slate-300 bg-white p-2 rounded text-sm" value={mapping.dateFormat} onChange={e => setMapping({ ...mapping, preset: undefined, dateFormat: e.target.value as StatementMapping['dateFormat'] })}>
+                              {['DD/MM/YYYY', 'YYYY-MM-DD', 'YYYY/MM/DD', 'YYYYMMDD'].map(f => <option key={f} value={f}>{f}</option>)}
+                           </select>
+                        </div>
+                        <div>
+                           <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Decimales</label>
+                           <select className="w-full border border-slate-300 bg-white p-2 rounded text-sm" value={mapping.decimalSeparator} onChange={e => setMapping({ ...mapping, preset: undefined, decimalSeparator: e.target.value as '.' | ',' })}>
+                              <option value=".">1,250.50</option>
+                              <option value=",">1.250,50</option>
+                           </select>
+                        </div>
+                        <label className="flex items-center gap-2 text-xs font-bold text-slate-600 mt-5">
+                           <input type="checkbox" checked={mapping.hasHeader} onChange={e => setMapping({ ...mapping, preset: undefined, hasHeader: e.target.checked })} /> Primera fila es encabezado
+                        </label>
+                     </div>
+                     <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                        {MAPPING_FIELDS.map(f => (
+                           <div key={f.key}>
+                              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{f.label}</label>
+                              <input
+                                 type="number"
+                                 min={1}
+                                 placeholder="—"
+                                 className="w-full border border-slate-300 bg-white p-2 rounded text-sm font-mono"
+                                 value={typeof mapping[f.key] === 'number' ? (mapping[f.key] as number) + 1 : ''}
+                                 onChange={e => setMapping({ ...mapping, preset: undefined, [f.key]: e.target.value === '' ? null : Number(e.target.value) - 1 })}
+                              />
+                           </div>
+                        ))}
+                     </div>
+                     <p className="text-[10px] text-slate-400">Columnas numeradas desde 1. Use "Valor" si el banco trae un solo monto con signo, o "Débito"/"Crédito" si los separa.</p>
+                     <button onClick={handleSaveMapping} className="text-xs font-bold text-blue-600 hover:bg-blue-50 px-3 py-1.5 rounded-lg flex items-center gap-1">
+                        <Save size={14} /> Guardar mapeo para esta cuenta
+                     </button>
+                  </div>
+               )}
+
+               {pending && (
+                  <div className="flex flex-wrap justify-between items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg p-3">
+                     <div className="text-xs text-blue-800">
+                        <span className="font-black">{pending.fileName}</span> ({pending.format}) · {parsedPreview.length} líneas válidas
+                        {previewRange && ` · ${previewRange[0]} a ${previewRange[1]}`}
+                     </div>
+                     <div className="flex gap-2">
+                        <button onClick={() => setPending(null)} className="text-xs font-bold text-slate-500 px-3 py-2 rounded-lg hover:bg-white">Cancelar</button>
+                        <button
+                           onClick={handleImport}
+                           disabled={isImporting || parsedPreview.length === 0 || parsed.errors.length > 0}
+                           className="bg-slate-900 text-white px-4 py-2 rounded-lg text-xs font-black flex items-center gap-2 disabled:opacity-50"
+                        >
+                           {isImporting ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} Importar
+                        </button>
+                     </div>
+                     {parsed.errors.length > 0 && (
+                        <div className="w-full text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-2 space-y-0.5">
+                           <p className="font-black">{parsed.errors.length} filas con errores · revise el formato de fecha en "Columnas"</p>
+                           {parsed.errors.slice(0, 5).map(err => (
+                              <p key={err.row}>{pending.format === 'OFX' ? 'Movimiento' : 'Fila'} {err.row}: {err.message}</p>
+                           ))}
+                           {parsed.errors.length > 5 && <p>… y {parsed.errors.length - 5} más</p>}
+                        </div>
+                     )}
+                  </div>
+               )}
+            </div>
+
+            {/* SUMMARY */}
+            <div className="px-4 py-2 flex flex-wrap justify-between items-center gap-2 bg-slate-50 border-b border-slate-200 shrink-0">
+               <div className="flex flex-wrap gap-2">
+                  {(Object.keys(STATUS_STYLES) as BankStatementLine['status'][]).map(status => (
+                     <span key={status} className={`text-[10px] font-black uppercase px-2 py-1 rounded-full ${STATUS_STYLES[status].className}`}>
+                        {STATUS_STYLES[status].label}: {counts[status] || 0}
+                     </span>
+                  ))}
+               </div>
+               <button onClick={handleAutoMatch} disabled={isLoading || !counts.UNMATCHED} className="text-xs font-bold text-slate-600 hover:bg-white px-3 py-1.5 rounded-lg flex items-center gap-1 disabled:opacity-40">
+                  <RefreshCw size={14} /> Reintentar cruce automático
+               </button>
+            </div>
+
+            {/* LINES */}
+            <div className="flex-1 overflow-y-auto">
+               {isLoading ? (
+                  <div className="flex justify-center py-10"><Loader2 className="animate-spin text-slate-400" /></div>
+               ) : lines.length === 0 ? (
+                  <div className="text-center text-slate-400 py-10 font-bold uppercase tracking-widest text-xs">Sin extractos importados.</div>
+               ) : (
+                  <div className="divide-y divide-slate-100">
+                     {lines.map(line => {
+                        const linked = line.transactionId ? candidates.find(t => t.id === line.transactionId) : undefined;
+                        const options = line.status === 'UNMATCHED' ? candidatesFor(line) : [];
+                        const isBusy = busyLineId === line.id;
+                        return (
+                           <div key={line.id} className={`p-4 ${line.status === 'IGNORED' ? 'opacity-60' : ''}`}>
+                              <div className="flex justify-between items-start gap-3">
+                                 <div className="min-w-0">
+                                    <div className="flex items-center gap-2">
+                                       <span className="text-[10px] font-black text-slate-400 font-mono">{line.date}</span>
+                                       <span className={`text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${STATUS_STYLES[line.status].className}`}>
+                                          {STATUS_STYLES[line.status].label}{line.autoMatched ? ' · auto' : ''}
+                                       </span>
+                                    </div>
+                                    <div className="text-sm font-bold text-slate-700 truncate">{line.description || '—'}</div>
+                                    {line.reference && <div className="text-[10px] text-slate-400 font-mono">Ref. {line.reference}</div>}
+                                 </div>
+                                 <div className={`font-black text-sm shrink-0 ${line.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                                    {line.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(line.amount), account.currency)}
+                                 </div>
+                              </div>
+
+                              {(line.status === 'MATCHED' || line.status === 'CREATED') && (
+                                 <div className="mt-2 flex justify-between items-center text-xs bg-slate-50 rounded-lg px-3 py-2">
+                                    <span className="text-slate-500 flex items-center gap-1 truncate">
+                                       <Link2 size={12} /> {linked ? `${linked.date} · ${linked.type} · ${formatCurrency(Math.abs(bankEffect(linked)), account.currency)}${linked.notes ? ` · ${linked.notes}` : ''}` : `#${line.transactionId?.substring(0, 8)}`}
+                                    </span>
+                                    {line.status === 'MATCHED' && (
+                                       <button onClick={() => handleResolve(line, 'UNMATCH')} disabled={isBusy} className="text-slate-400 hover:text-red-500 font-bold flex items-center gap-1 shrink-0 ml-2">
+                                          <Unlink size={12} /> Desvincular
+                                       </button>
+                                    )}
+                                 </div>
+                              )}
+
+                              {line.status === 'IGNORED' && (
+                                 <button onClick={() => handleResolve(line, 'UNMATCH')} disabled={isBusy} className="mt-2 text-xs text-slate-400 hover:text-slate-600 font-bold">
+                                    Restaurar
+                                 </button>
+                              )}
+
+                              {line.status === 'UNMATCHED' && (
+                                 <div className="mt-2 flex flex-col md:flex-row gap-2">
+                                    <select
+                                       className="flex-1 border border-slate-300 bg-white p-2 rounded-lg text-xs"
+                                       value={selectedTx[line.id] || options[0]?.id || ''}
+                                       onChange={e => setSelectedTx(prev => ({ ...prev, [line.id]: e.target.value }))}
+                                    >
+                                       {options.length === 0 && <option value="">Sin movimientos candidatos</option>}
+                                       {options.map(t => (
+                                          <option key={t.id} value={t.id}>
+                                             {t.date} · {t.type} · {formatCurrency(Math.abs(bankEffect(t)), account.currency)}{t.notes ? ` · ${t.notes}` : ''}
+                                          </option>
+                                       ))}
+                                    </select>
+                                    <div className="flex gap-2">
+                                       <button onClick={() => handleResolve(line, 'MATCH')} disabled={isBusy || options.length === 0} className="bg-green-600 text-white px-3 py-2 rounded-lg text-xs font-black flex items-center gap-1 disabled:opacity-40">
+                                          {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Link2 size={12} />} Conciliar
+                                       </button>
+                                       <button onClick={() => handleResolve(line, 'CREATE')} disabled={isBusy} className="bg-blue-50 text-blue-700 hover:bg-blue-100 px-3 py-2 rounded-lg text-xs font-black flex items-center gap-1">
+                                          <Plus size={12} /> Crear movimiento
+                                       </button>
+                                       <button onClick={() => handleResolve(line, 'IGNORE')} disabled={isBusy} className="bg-slate-100 text-slate-500 hover:bg-slate-200 px-3 py-2 rounded-lg text-xs font-black flex items-center gap-1">
+                                          <EyeOff size={12} /> Ignorar
+                                       </button>
+                                    </div>
+                                 </div>
+                              )}
+                           </div>
+                        );
+                     })}
+                  </div>
+               )}
+            </div>
+         </div>
+      </div>
+   );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loan, LoanTerms, LoanTermsVersion, ScheduledInstallment } from '../../types';
+import { Layers, Loader2, Repeat, History, ChevronDown } from 'lucide-react';
+import { formatCurrency, getToday } from '../../utils/format';
+import { getCurrentInstallment, summarizeArrears } from '../../services/loanUtils';
+import { fetchClientLoans, fetchLoanTermsHistory, loanScheduleOf } from '../../services/loanService';
+import { RestructureLoanInput } from '../../services/transactionService';
+import { PaymentSchedule } from './PaymentSchedule';
+import { RestructureLoanModal } from './RestructureLoanModal';
+
+interface ClientLoansProps {
+    clientId: string;
+    schedule?: ScheduledInstallment[]; // Client's merged schedule, already allocated
+    reloadKey: number; // Changes when the client's transactions change
+    onRestructure?: (input: RestructureLoanInput) => Promise<boolean>;
+}
+
+const FREQUENCY_LABELS: Record<string, string> = {
+    DAILY: 'Diario',
+    WEEKLY: 'Semanal',
+    BIWEEKLY: 'Quincenal',
+    MONTHLY: 'Mensual',
+};
+
+const describeTerms = (terms: LoanTerms) => [
+    terms.interestRate !== undefined ? `${terms.interestRate}% ${terms.interestType === 'DIMINISHING' ? 'sobre saldo' : 'fijo'}` : null,
+    terms.loanTermMonths ? `${terms.loanTermMonths} ${terms.loanTermMonths === 1 ? 'mes' : 'meses'}` : null,
+    terms.paymentFrequency ? FREQUENCY_LABELS[terms.paymentFrequency] : null,
+    terms.installmentAmount ? `cuota ${formatCurrency(terms.installmentAmount)}` : null,
+].filter(Boolean).join(' · ');
+
+const LoanTermsHistory: React.FC<{ loanId: string; reloadKey: number }> = ({ loanId, reloadKey }) => {
+    const [versions, setVersions] = useState<LoanTermsVersion[] | null>(null);
+
+    useEffect(() => {
+        let mounted = true;
+        fetchLoanTermsHistory(loanId)
+            .then(data => { if (mounted) setVersions(data); })
+            .catch(err => console.error('Error cargando historial de condiciones:', err));
+        return () => { mounted = false; };
+    }, [loanId, reloadKey]);
+
+    if (!versions) return <Loader2 size={14} className="animate-spin text-slate-400" />;
+
+    return (
+        <div className="space-y-2">
+            {versions.map(v => (
+                <div key={v.id} className="text-[11px] bg-slate-50 border border-slate-200 rounded-lg p-2 space-y-0.5">
+                    <div className="flex justify-between font-bold text-slate-700">
+                        <span>Reestructuración {v.version}</span>
+                        <span className="text-slate-400">{v.effectiveDate}</span>
+                    </div>
+                    <div className="text-slate-500">Antes: {describeTerms(v.previousTerms) || 'sin condiciones'}</div>
+                    <div className="text-slate-700">Después: {describeTerms(v.newTerms)}</div>
+                    <div className="text-slate-500">
+                        Saldo {formatCurrency(v.balance)} · interés vencido {formatCurrency(v.accruedInterest)}
+                        {v.interestWrittenOff > 0 && <> · condonado {formatCurrency(v.interestWrittenOff)}</>}
+                        {v.capitalizedInterest > 0 && <> · capitalizado {formatCurrency(v.capitalizedInterest)}</>}
+                    </div>
+                    <div className="text-slate-400 italic">{v.reason}</div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const LoanCard: React.FC<{
+    loan: Loan;
+    schedule: ScheduledInstallment[];
+    reloadKey: number;
+    onRestructure?: (input: RestructureLoanInput) => Promise<boolean>;
+}> = ({ loan, schedule, reloadKey, onRestructure }) => {
+    const [isRestructuring, setIsRestructuring] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const arrears = useMemo(() => summarizeArrears(schedule, getToday()), [schedule]);
+    const currentInstallment = useMemo(
+        () => getCurrentInstallment(schedule, loan.nextPaymentDate || getToday()),
+        [schedule, loan.nextPaymentDate]
+    );
+    const isActive = loan.status === 'ACTIVE';
+    const paidPct = loan.principal > 0 ? Math.min(100, Math.max(0, (1 - loan.balance / loan.principal) * 100)) : 0;
+
+    const terms = describeTerms(loan);
+
+    return (
+        <div className={`py-4 first:pt-0 last:pb-0 space-y-3 ${isActive ? '' : 'opacity-60'}`}>
+            <div className="flex justify-between items-start gap-3">
+                <div>
+                    <div className="flex items-center gap-2">
+                        <span className="font-bold text-slate-800">{loan.label}</span>
+                        {isActive ? (
+                            <span className="text-[10px] font-bold text-green-600 bg-green-50 px-1.5 py-0.5 rounded border border-green-100">ACTIVO</span>
+                        ) : loan.status === 'WRITTEN_OFF' ? (
+                            <span className="text-[10px] font-bold text-red-600 bg-red-50 px-1.5 py-0.5 rounded border border-red-100">CASTIGADO</span>
+                        ) : (
+                            <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded border border-slate-200">PAGADO</span>
+                        )}
+                        {loan.restructureCount > 0 && (
+                            <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded border border-indigo-100">
+                                REESTRUCTURADO{loan.restructureCount > 1 ? ` ×${loan.restructureCount}` : ''}
+                            </span>
+                        )}
+                    </div>
+                    <div className="text-[11px] text-slate-500 mt-0.5">
+                        {loan.startDate && <>Desde {loan.startDate}{terms ? ' · ' : ''}</>}{terms}
+                    </div>
+                </div>
+                <div className="text-right shrink-0">
+                    <div className="font-black text-slate-800">{formatCurrency(loan.balance)}</div>
+                    <div className="text-[10px] text-slate-400">de {formatCurrency(loan.principal)} prestado</div>
+                </div>
+            </div>
+            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full rounded-full bg-blue-500" style={{ width: `${paidPct}%` }}></div>
+            </div>
+            {isActive && schedule.length > 0 && (
+                <PaymentSchedule
+                    schedule={schedule}
+                    currentInstallment={currentInstallment}
+                    overdueCount={arrears.overdueCount}
+                    overdueAmount={arrears.overdueAmount}
+                />
+            )}
+            {(loan.restructureCount > 0 || (onRestructure && isActive && loan.balance > 0)) && (
+                <div className="flex justify-between items-center gap-2">
+                    {loan.restructureCount > 0 ? (
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className="text-xs font-bold text-slate-500 hover:text-slate-700 flex items-center gap-1"
+                        >
+                            <History size={14} /> Historial de condiciones
+                            <ChevronDown size={14} className={`transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+                        </button>
+                    ) : <span />}
+                    {onRestructure && isActive && loan.balance > 0 && (
+                        <button
+                            onClick={() => setIsRestructuring(true)}
+                            className="text-xs font-bold text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg border border-indigo-200 flex items-center gap-1"
+                        >
+                            <Repeat size={14} /> Reestructurar
+                        </button>
+                    )}
+                </div>
+            )}
+            {showHistory && <LoanTermsHistory loanId={loan.id} reloadKey={reloadKey} />}
+            {isRestructuring && onRestructure && (
+                <RestructureLoanModal
+                    loan={loan}
+                    schedule={schedule}
+                    onClose={() => setIsRestructuring(false)}
+                    onSubmit={onRestructure}
+                />
+            )}
+        </div>
+    );
+};
+
+export const ClientLoans: React.FC<ClientLoansProps> = ({ clientId, schedule, reloadKey, onRestructure }) => {
+    const [loans, setLoans] = useState<Loan[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let mounted = true;
+        setIsLoading(true);
+        fetchClientLoans(clientId)
+            .then(data => { if (mounted) setLoans(data); })
+            .catch(err => console.error('Error cargando préstamos:', err))
+            .finally(() => { if (mounted) setIsLoading(false); });
+        return () => { mounted = false; };
+    }, [clientId, reloadKey, schedule]);
+
+    if (!isLoading && loans.length === 0) return null;
+
+    const activeLoans = loans.filter(l => l.status === 'ACTIVE');
+    const totalBalance = activeLoans.reduce((sum, l) => sum + l.balance, 0);
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                <h3 className="font-bold text-slate-700 flex items-center gap-2">
+                    <Layers size={18} className="text-slate-400" /> Préstamos
+                </h3>
+                {isLoading ? (
+                    <Loader2 size={16} className="animate-spin text-slate-400" />
+                ) : (
+                    <div className="text-right">
+                        <div className="font-black text-slate-800">{formatCurrency(totalBalance)}</div>
+                        <div className="text-[10px] text-slate-400">
+                            {activeLoans.length} {activeLoans.length === 1 ? 'activo' : 'activos'} de {loans.length}
+                        </div>
+                    </div>
+                )}
+            </div>
+            <div className="p-4 divide-y divide-slate-100">
+                {/* Activos primero; los pagados y castigados quedan como historial */}
+                {[...activeLoans, ...loans.filter(l => l.status !== 'ACTIVE')].map(loan => (
+                    <LoanCard
+                        key={loan.id}
+                        loan={loan}
+                        schedule={loan.status === 'ACTIVE' ? loanScheduleOf(schedule, loan.id) : loan.paymentSchedule}
+                        reloadKey={reloadKey}
+                        onRestructure={onRestructure}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,19 @@
 
 import React, { useMemo, useState } from 'react';
-import { Transaction, TransactionType, Client } from '../../types';
+import { Transaction, TransactionType, Client, ScheduledInstallment } from '../../types';
 import { TrendingUp, ArrowUpRight, Wallet, Calendar, CheckCircle, Filter, ChevronDown } from 'lucide-react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell, ReferenceLine } from 'recharts';
 import { formatCurrency, formatNumberWithDots } from '../../utils/format';
 import { EditableField } from '../ui/EditableField';
 import { CreditCard } from 'lucide-react';
+import { isEffectiveTransaction } from '../../services/loanUtils';
 
 interface ClientStatsProps {
   client: Client;
   transactions: Transaction[];
   currentBalance: number;
   isLate: boolean;
+  currentInstallment?: ScheduledInstallment | null;
   onUpdateLimit: (val: number) => void;
   onCloseCredit: () => void;
 }
@@ -22,7 +24,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
       const data = payload[0].payload;
       const isPayment = data.changeAmount < 0; // In debt logic, payment reduces balance (negative change in delta, but we show as positive action)
       // Actually, let's look at the transaction type derived in data preparation
-      const isPositiveAction = [TransactionType.PAYMENT_CAPITAL, TransactionType.PAYMENT_INTEREST, TransactionType.REDIRECT_OUT].includes(data.type);
+      const isPositiveAction = [TransactionType.PAYMENT_CAPITAL, TransactionType.PAYMENT_INTEREST, TransactionType.PAYMENT_PENALTY, TransactionType.REDIRECT_OUT].includes(data.type);
       
       return (
          <div className="bg-slate-900 text-white text-xs p-3 rounded-xl shadow-2xl border border-slate-700 min-w-[200px]">
@@ -59,14 +61,16 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 };
 
 export const ClientStats: React.FC<ClientStatsProps> = ({ 
-  client, transactions, currentBalance, isLate, onUpdateLimit, onCloseCredit 
+  client, transactions, currentBalance, isLate, currentInstallment, onUpdateLimit, onCloseCredit 
 }) => {
   const [timeRange, setTimeRange] = useState<'1M' | '3M' | '6M' | '1Y' | 'ALL'>('ALL');
   
   // --- Data Prep ---
-  const totalInterest = transactions.reduce((sum, t) => sum + t.interestPaid, 0);
-  const totalCapitalPaid = transactions.reduce((sum, t) => sum + t.capitalPaid, 0);
-  const totalDisbursed = transactions
+  // Los movimientos anulados y sus reversiones no suman en los totales.
+  const effectiveTxs = transactions.filter(isEffectiveTransaction);
+  const totalInterest = effectiveTxs.reduce((sum, t) => sum + t.interestPaid, 0);
+  const totalCapitalPaid = effectiveTxs.reduce((sum, t) => sum + t.capitalPaid, 0);
+  const totalDisbursed = effectiveTxs
     .filter(t => t.type === TransactionType.DISBURSEMENT || t.type === TransactionType.REFINANCE || t.type === TransactionType.REDIRECT_IN)
     .reduce((sum, t) => sum + t.amount, 0);
 
@@ -108,8 +112,13 @@ export const ClientStats: React.FC<ClientStatsProps> = ({
        let typeLabel = 'Movimiento';
        if (t.type === TransactionType.PAYMENT_CAPITAL) typeLabel = 'Abono';
        if (t.type === TransactionType.PAYMENT_INTEREST) typeLabel = 'Int.';
+       if (t.type === TransactionType.PAYMENT_PENALTY) typeLabel = 'Mora';
        if (t.type === TransactionType.DISBURSEMENT) typeLabel = 'Préstamo';
        if (t.type === TransactionType.REFINANCE) typeLabel = 'Refin.';
+       if (t.type === TransactionType.REVERSAL) typeLabel = 'Reversión';
+       if (t.type === TransactionType.RESTRUCTURE) typeLabel = 'Reestruct.';
+       if (t.type === TransactionType.WRITE_OFF) typeLabel = 'Castigo';
+       if (t.type === TransactionType.RECOVERY) typeLabel = 'Recuperación';
 
        return {
         name: t.date.substring(5), // MM-DD for axis
@@ -155,6 +164,12 @@ export const ClientStats: React.FC<ClientStatsProps> = ({
                     {client.nextPaymentDate || 'N/A'}
                     {isLate && <span className="text-[10px] bg-red-200 text-red-800 px-2 py-0.5 rounded-full">MORA</span>}
                  </div>
+                 {currentInstallment && (
+                    <div className="mt-1 text-xs text-slate-500">
+                       <span className="font-bold text-slate-700">Cuota {currentInstallment.number} de {client.paymentSchedule?.length}</span>
+                       {' · '}{formatCurrency(currentInstallment.principal)} capital + {formatCurrency(currentInstallment.interest)} interés
+                    </div>
+                 )}
                  <div className="absolute top-0 right-0 p-3 opacity-5">
                     <Calendar size={60} />
                  </div>
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { CreditScore, CreditScoreBand } from '../../types';
+import { Gauge, ChevronDown, Loader2 } from 'lucide-react';
+import { formatCurrency } from '../../utils/format';
+import { CREDIT_BAND_LABELS, fetchClientCreditScore } from '../../services/creditScoreService';
+
+interface CreditScoreCardProps {
+    clientId: string;
+    loanLimit?: number;
+    reloadKey: number; // Changes when the client's transactions change
+    onApplyLimit?: (limit: number) => void;
+}
+
+export const CREDIT_BAND_STYLES: Record<CreditScoreBand, string> = {
+    A: 'text-green-700 bg-green-50 border-green-200',
+    B: 'text-blue-700 bg-blue-50 border-blue-200',
+    C: 'text-amber-700 bg-amber-50 border-amber-200',
+    D: 'text-red-700 bg-red-50 border-red-200',
+};
+
+export const CreditScoreCard: React.FC<CreditScoreCardProps> = ({ clientId, loanLimit, reloadKey, onApplyLimit }) => {
+    const [credit, setCredit] = useState<CreditScore | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    useEffect(() => {
+        let mounted = true;
+        setIsLoading(true);
+        fetchClientCreditScore(clientId)
+            .then(data => { if (mounted) setCredit(data); })
+            .catch(err => console.error('Error calculando puntaje crediticio:', err))
+            .finally(() => { if (mounted) setIsLoading(false); });
+        return () => { mounted = false; };
+    }, [clientId, reloadKey]);
+
+    if (!isLoading && !credit) return null;
+
+    const canApply = !!onApplyLimit && !!credit?.suggestedLimit && credit.suggestedLimit !== loanLimit;
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center text-left"
+            >
+                <h3 className="font-bold text-slate-700 flex items-center gap-2">
+                    <Gauge size={18} className="text-slate-400" /> Puntaje Crediticio
+                </h3>
+                <div className="flex items-center gap-3">
+                    {isLoading ? (
+                        <Loader2 size={16} className="animate-spin text-slate-400" />
+                    ) : credit?.score !== null && credit?.band ? (
+                        <span className={`text-xs font-black px-2 py-0.5 rounded-full border ${CREDIT_BAND_STYLES[credit.band]}`}>
+                            {credit.score} · {CREDIT_BAND_LABELS[credit.band]}
+                        </span>
+                    ) : (
+                        <span className="text-xs font-bold text-slate-400">Sin historial suficiente</span>
+                    )}
+                    <ChevronDown size={18} className={`text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                </div>
+            </button>
+
+            {isExpanded && credit && (
+                <div className="p-4 space-y-3">
+                    {credit.factors.map(f => (
+                        <div key={f.key}>
+                            <div className="flex justify-between text-xs">
+                                <span className="font-bold text-slate-600">{f.label}</span>
+                                <span className="text-slate-500">{f.detail}</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                                {f.score !== null && (
+                                    <div
+                                        className={`h-full rounded-full ${f.score >= 0.8 ? 'bg-green-500' : f.score >= 0.5 ? 'bg-amber-500' : 'bg-red-500'}`}
+                                        style={{ width: `${Math.max(4, f.score * 100)}%` }}
+                                    ></div>
+                                )}
+                            </div>
+                            <div className="text-[10px] text-slate-400 mt-0.5">
+                                {f.score === null ? 'Sin datos: no cuenta en el puntaje' : `Pesa ${f.weight} de 100 puntos`}
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="pt-3 border-t border-slate-100 flex justify-between items-center gap-3">
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Cupo sugerido</div>
+                            <div className="font-black text-slate-800">
+                                {credit.suggestedLimit ? formatCurrency(credit.suggestedLimit) : <span className="text-slate-400 font-medium text-sm">Sin base para sugerir</span>}
+                            </div>
+                            <div className="text-[10px] text-slate-400">Según la mayor deuda que ha manejado y su puntaje</div>
+                        </div>
+                        {canApply && (
+                            <button
+                                onClick={() => onApplyLimit!(credit.suggestedLimit!)}
+                                className="text-xs font-bold text-blue-600 hover:bg-blue-50 px-3 py-2 rounded-lg border border-blue-200 shrink-0"
+                            >
+                                Usar como cupo
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
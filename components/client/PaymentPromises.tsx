@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClientPromiseStats, PaymentPromise, PaymentPromiseStatus } from '../../types';
+import { Handshake, Plus, X, Loader2 } from 'lucide-react';
+import { formatCurrency, formatNumberWithDots, getErrorMessage, getToday, parseCurrency } from '../../utils/format';
+import {
+    cancelPaymentPromise, createPaymentPromise, fetchClientPromises, fetchClientPromiseStats, promiseKeepRate
+} from '../../services/promiseService';
+import { useData } from '../../contexts/DataContext';
+
+interface PaymentPromisesProps {
+    clientId: string;
+    clientName: string;
+    suggestedAmount: number;
+    canCreate: boolean;
+    canCancel: (promise: PaymentPromise) => boolean;
+    reloadKey: number; // Changes when a payment is registered
+    onAddNotification?: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const STATUS_STYLES: Record<PaymentPromiseStatus, { label: string, className: string }> = {
+    PENDING: { label: 'Pendiente', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+    KEPT: { label: 'Cumplida', className: 'bg-green-100 text-green-700 border-green-200' },
+    BROKEN: { label: 'Incumplida', className: 'bg-red-100 text-red-700 border-red-200' },
+    CANCELLED: { label: 'Cancelada', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+const SOURCE_LABELS: Record<PaymentPromise['source'], string> = {
+    MANUAL: 'Ficha',
+    ROUTE: 'Ruta',
+    AI: 'Asistente',
+};
+
+export const PaymentPromises: React.FC<PaymentPromisesProps> = ({
+    clientId, clientName, suggestedAmount, canCreate, canCancel, reloadKey, onAddNotification
+}) => {
+    const { addLog } = useData();
+    const [promises, setPromises] = useState<PaymentPromise[]>([]);
+    const [stats, setStats] = useState<ClientPromiseStats | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(getToday());
+    const [note, setNote] = useState('');
+
+    const notify = (msg: string, type: 'success' | 'error' | 'info') => {
+        if (onAddNotification) onAddNotification(msg, type);
+    };
+
+    const load = useCallback(async () => {
+        try {
+            const [list, summary] = await Promise.all([fetchClientPromises(clientId), fetchClientPromiseStats(clientId)]);
+            setPromises(list);
+            setStats(summary);
+        } catch (err) {
+            console.error('Error cargando promesas de pago:', err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [clientId]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        load();
+    }, [load, reloadKey]);
+
+    const openForm = () => {
+        setAmount(suggestedAmount > 0 ? formatNumberWithDots(suggestedAmount) : '');
+        setDate(getToday());
+        setNote('');
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async () => {
+        const value = parseCurrency(amount);
+        if (value <= 0 || !date) return;
+        setIsSaving(true);
+        try {
+            await createPaymentPromise({ clientId, amount: value, promisedDate: date, note });
+            addLog('CREATE', 'CLIENT', `Promesa de pago de ${clientName}`, `${formatCurrency(value)} para el ${date}`);
+            notify('Promesa de pago registrada.', 'success');
+            setIsFormOpen(false);
+            load();
+        } catch (err) {
+            notify(getErrorMessage(err), 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancel = async (promise: PaymentPromise) => {
+        if (!window.confirm(`¿Cancelar la promesa de ${formatCurrency(promise.amount)} del ${promise.promisedDate}?`)) return;
+        setIsSaving(true);
+        try {
+            await cancelPaymentPromise(promise.id);
+            addLog('UPDATE', 'CLIENT', `Promesa de pago de ${clientName} cancelada`, `${formatCurrency(promise.amount)} para el ${promise.promisedDate}`);
+            load();
+        } catch (err) {
+            notify(getErrorMessage(err), 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const keepRate = promiseKeepRate(stats);
+    if (!isLoading && promises.length === 0 && !canCreate) return null;
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center gap-3">
+                <h3 className="font-bold text-slate-700 flex items-center gap-2">
+                    <Handshake size={18} className="text-slate-400" /> Promesas de Pago
+                </h3>
+                <div className="flex items-center gap-3">
+                    {keepRate !== null && stats && (
+                        <span
+                            className={`text-xs font-bold px-2 py-0.5 rounded-full border ${keepRate >= 80 ? 'text-green-700 bg-green-50 border-green-100' : keepRate >= 50 ? 'text-amber-700 bg-amber-50 border-amber-100' : 'text-red-600 bg-red-50 border-red-100'}`}
+                            title={`${stats.kept} cumplidas, ${stats.broken} incumplidas`}
+                        >
+                            Cumple {keepRate}%
+                        </span>
+                    )}
+                    {canCreate && !isFormOpen && (
+                        <button
+                            onClick={openForm}
+                            className="text-xs font-bold text-blue-600 hover:bg-blue-50 px-2 py-1 rounded-lg flex items-center gap-1"
+                        >
+                            <Plus size={14} /> Registrar
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {isFormOpen && (
+                <div className="p-4 border-b border-slate-100 grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Monto prometido</label>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            value={amount}
+                            onChange={e => setAmount(formatNumberWithDots(e.target.value))}
+                            className="w-full p-2 border border-slate-200 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Fecha</label>
+                        <input
+                            type="date"
+                            value={date}
+                            min={getToday()}
+                            onChange={e => setDate(e.target.value)}
+                            className="w-full p-2 border border-slate-200 rounded-lg text-sm font-mono outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder="Nota (opcional)"
+                        className="col-span-2 p-2 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="col-span-2 flex justify-end gap-2">
+                        <button onClick={() => setIsFormOpen(false)} className="px-3 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">
+                            Cancelar
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving || parseCurrency(amount) <= 0 || !date}
+                            className="px-3 py-2 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50 flex items-center gap-1"
+                        >
+                            {isSaving && <Loader2 size={12} className="animate-spin" />} Guardar promesa
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-6"><Loader2 className="animate-spin text-slate-400" size={20} /></div>
+            ) : promises.length === 0 ? (
+                <div className="text-center text-slate-400 py-6 text-xs font-bold uppercase tracking-widest">Sin promesas registradas</div>
+            ) : (
+                <div className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+                    {promises.map(p => (
+                        <div key={p.id} className="px-6 py-3 flex justify-between items-center gap-3 text-sm">
+                            <div className="min-w-0">
+                                <div className="font-bold text-slate-800">
+                                    {formatCurrency(p.amount)} <span className="text-slate-400 font-medium">para el</span> <span className="font-mono">{p.promisedDate}</span>
+                                </div>
+                                <div className="text-[10px] text-slate-400 font-bold uppercase truncate">
+                                    {SOURCE_LABELS[p.source]} · {p.createdAt.substring(0, 10)}{p.note ? ` · ${p.note}` : ''}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${STATUS_STYLES[p.effectiveStatus].className}`}>
+                                    {STATUS_STYLES[p.effectiveStatus].label}
+                                </span>
+                                {p.status === 'PENDING' && canCancel(p) && (
+                                    <button
+                                        onClick={() => handleCancel(p)}
+                                        disabled={isSaving}
+                                        className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-50"
+                                        title="Cancelar promesa"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+
+import React, { useState } from 'react';
+import { ScheduledInstallment } from '../../types';
+import { ListOrdered, ChevronDown } from 'lucide-react';
+import { formatCurrency, getToday } from '../../utils/format';
+import { getInstallmentStatus, InstallmentStatus } from '../../services/loanUtils';
+
+interface PaymentScheduleProps {
+    schedule: ScheduledInstallment[];
+    currentInstallment: ScheduledInstallment | null;
+    overdueCount: number;
+    overdueAmount: number;
+}
+
+const STATUS_STYLES: Record<InstallmentStatus, { label: string, className: string }> = {
+    PAID: { label: 'Pagada', className: 'bg-green-100 text-green-700 border-green-200' },
+    PARTIAL: { label: 'Parcial', className: 'bg-amber-100 text-amber-700 border-amber-200' },
+    OVERDUE: { label: 'Vencida', className: 'bg-red-100 text-red-700 border-red-200' },
+    PENDING: { label: 'Pendiente', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+export const PaymentSchedule: React.FC<PaymentScheduleProps> = ({ schedule, currentInstallment, overdueCount, overdueAmount }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (schedule.length === 0) return null;
+
+    const totalInterest = schedule.reduce((sum, i) => sum + i.interest, 0);
+    const totalPayment = schedule.reduce((sum, i) => sum + i.payment, 0);
+    const totalPaid = schedule.reduce((sum, i) => sum + (i.paidAmount || 0), 0);
+    const today = getToday();
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full px-6 py-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center text-left"
+            >
+                <h3 className="font-bold text-slate-700 flex items-center gap-2">
+                    <ListOrdered size={18} className="text-slate-400" /> Plan de Pagos
+                </h3>
+                <div className="flex items-center gap-3">
+                    {overdueCount > 0 && (
+                        <span className="text-xs font-bold text-red-600 bg-red-50 px-2 py-0.5 rounded-full border border-red-100">
+                            {overdueCount} {overdueCount === 1 ? 'vencida' : 'vencidas'} · {formatCurrency(overdueAmount)}
+                        </span>
+                    )}
+                    {currentInstallment && (
+                        <span className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full border border-blue-100">
+                            Cuota {currentInstallment.number} de {schedule.length}
+                        </span>
+                    )}
+                    <ChevronDown size={18} className={`text-slate-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                </div>
+            </button>
+
+            {isExpanded && (
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-[10px] uppercase font-bold text-slate-400 tracking-wider sticky top-0">
+                            <tr>
+                                <th className="px-4 py-2 text-left">#</th>
+                                <th className="px-4 py-2 text-left">Vence</th>
+                                <th className="px-4 py-2 text-right">Capital</th>
+                                <th className="px-4 py-2 text-right">Interés</th>
+                                <th className="px-4 py-2 text-right">Cuota</th>
+                                <th className="px-4 py-2 text-right">Abonado</th>
+                                <th className="px-4 py-2 text-right">Saldo</th>
+                                <th className="px-4 py-2 text-center">Estado</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                            {schedule.map(row => {
+                                const isCurrent = currentInstallment?.number === row.number;
+                                const status = STATUS_STYLES[getInstallmentStatus(row, today)];
+                                return (
+                                    <tr key={row.number} className={isCurrent ? 'bg-blue-50 font-bold' : ''}>
+                                        <td className="px-4 py-2 font-mono text-slate-500">{row.number}</td>
+                                        <td className="px-4 py-2 text-slate-700">{row.dueDate}</td>
+                                        <td className="px-4 py-2 text-right text-green-700">{formatCurrency(row.principal)}</td>
+                                        <td className="px-4 py-2 text-right text-amber-700">{formatCurrency(row.interest)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-900">{formatCurrency(row.payment)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-700">{formatCurrency(row.paidAmount || 0)}</td>
+                                        <td className="px-4 py-2 text-right text-slate-500">{formatCurrency(row.balance)}</td>
+                                        <td className="px-4 py-2 text-center">
+                                            <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border ${status.className}`}>{status.label}</span>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                        <tfoot className="bg-slate-50 text-xs font-bold text-slate-600">
+                            <tr>
+                                <td className="px-4 py-2" colSpan={3}>Totales</td>
+                                <td className="px-4 py-2 text-right text-amber-700">{formatCurrency(totalInterest)}</td>
+                                <td className="px-4 py-2 text-right text-slate-900">{formatCurrency(totalPayment)}</td>
+                                <td className="px-4 py-2 text-right text-slate-700">{formatCurrency(totalPaid)}</td>
+                                <td className="px-4 py-2" colSpan={2}></td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
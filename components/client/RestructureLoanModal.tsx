@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loan, ScheduledInstallment } from '../../types';
+import { Repeat, Loader2 } from 'lucide-react';
+import { formatCurrency, formatNumberWithDots, getToday, parseCurrency } from '../../utils/format';
+import { capitalizeInterest, generateAmortizationSchedule, getAccruedInterest } from '../../services/loanUtils';
+import { RestructureLoanInput } from '../../services/transactionService';
+
+interface RestructureLoanModalProps {
+    loan: Loan;
+    schedule: ScheduledInstallment[]; // Loan schedule with payments allocated
+    onClose: () => void;
+    onSubmit: (input: RestructureLoanInput) => Promise<boolean>;
+}
+
+export const RestructureLoanModal: React.FC<RestructureLoanModalProps> = ({ loan, schedule, onClose, onSubmit }) => {
+    const [date, setDate] = useState(getToday());
+    const [rate, setRate] = useState(loan.interestRate !== undefined ? loan.interestRate.toString() : '10');
+    const [term, setTerm] = useState(loan.loanTermMonths ? loan.loanTermMonths.toString() : '1');
+    const [frequency, setFrequency] = useState<NonNullable<Loan['paymentFrequency']>>(loan.paymentFrequency || 'MONTHLY');
+    const [interestType, setInterestType] = useState<NonNullable<Loan['interestType']>>(loan.interestType || 'FIXED');
+    const [writeOff, setWriteOff] = useState('');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const accrued = useMemo(() => Math.round(getAccruedInterest(schedule, date)), [schedule, date]);
+    const writeOffAmount = Math.min(parseCurrency(writeOff), accrued);
+    const capitalized = accrued - writeOffAmount;
+
+    // Si cambia la fecha, el interés vencido puede bajar por debajo de lo condonado.
+    useEffect(() => {
+        if (parseCurrency(writeOff) > accrued) setWriteOff(accrued ? accrued.toString() : '');
+    }, [accrued]);
+
+    const newSchedule = useMemo(() => capitalizeInterest(generateAmortizationSchedule({
+        initialAmount: String(Math.round(loan.balance)),
+        interestRate: rate,
+        loanTermMonths: term,
+        paymentFrequency: frequency,
+        interestType
+    }, date), capitalized), [loan.balance, rate, term, frequency, interestType, date, capitalized]);
+
+    const totalToPay = newSchedule.reduce((sum, i) => sum + i.payment, 0);
+    const canSave = newSchedule.length > 0 && reason.trim().length >= 5 && !!date && !isSaving;
+
+    const handleSubmit = async () => {
+        if (!canSave) return;
+        setIsSaving(true);
+        try {
+            const ok = await onSubmit({
+                loanId: loan.id,
+                date,
+                terms: {
+                    interestRate: parseFloat(rate) || 0,
+                    interestType,
+                    paymentFrequency: frequency,
+                    loanTermMonths: parseFloat(term) || 1,
+                    installmentsCount: newSchedule.length,
+                    installmentAmount: newSchedule[0]?.payment
+                },
+                schedule: newSchedule,
+                interestWriteOff: writeOffAmount,
+                reason: reason.trim()
+            });
+            if (ok) onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-4 animate-in fade-in duration-200"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white rounded-t-[32px] md:rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto animate-in slide-in-from-bottom md:zoom-in-95 duration-300"
+                style={{ paddingBottom: 'var(--safe-area-bottom)' }}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="bg-indigo-50 p-5 border-b border-indigo-100">
+                    <h3 className="text-lg font-black text-slate-900 flex items-center gap-2">
+                        <Repeat size={20} className="text-indigo-600" /> Reestructurar {loan.label}
+                    </h3>
+                    <p className="text-xs text-slate-600 mt-1 font-medium">
+                        El saldo y el interés vencido pasan a un plan nuevo. Las condiciones actuales quedan en el historial.
+                    </p>
+                </div>
+
+                <div className="p-4 space-y-4">
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                        <div className="bg-slate-50 rounded-lg p-3 border border-slate-200">
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Saldo de capital</div>
+                            <div className="font-black text-slate-800">{formatCurrency(loan.balance)}</div>
+                        </div>
+                        <div className="bg-slate-50 rounded-lg p-3 border border-slate-200">
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Interés vencido</div>
+                            <div className="font-black text-slate-800">{formatCurrency(accrued)}</div>
+                        </div>
+                    </div>
+
+                    {accrued > 0 && (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs font-bold text-slate-500 uppercase">Condonar interés</label>
+                                <button
+                                    type="button"
+                                    onClick={() => setWriteOff(accrued.toString())}
+                                    className="text-[11px] font-bold text-indigo-600 hover:underline"
+                                >
+                                    Condonar todo
+                                </button>
+                            </div>
+                            <input
+                                type="text"
+                                placeholder="0"
+                                value={formatNumberWithDots(writeOff)}
+                                onChange={e => setWriteOff(e.target.value)}
+                                className="w-full p-2 border border-slate-300 rounded-lg bg-white text-slate-900 font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                            <div className="text-[11px] text-slate-500 mt-1">
+                                Se capitaliza {formatCurrency(capitalized)}, repartido en las cuotas nuevas.
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3 bg-slate-50 p-3 rounded-lg border border-slate-200">
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Tasa %</label>
+                            <input
+                                type="number"
+                                value={rate}
+                                onChange={e => setRate(e.target.value)}
+                                className="w-full p-1.5 border border-slate-300 rounded bg-white text-slate-900 text-center font-bold text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Plazo (Meses)</label>
+                            <input
+                                type="number"
+                                value={term}
+                                onChange={e => setTerm(e.target.value)}
+                                className="w-full p-1.5 border border-slate-300 rounded bg-white text-slate-900 text-center font-bold text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Frecuencia</label>
+                            <select
+                                value={frequency}
+                                onChange={e => setFrequency(e.target.value as any)}
+                                className="w-full p-1.5 border border-slate-300 rounded bg-white text-slate-900 font-bold text-sm"
+                            >
+                                <option value="DAILY">Diario</option>
+                                <option value="WEEKLY">Semanal</option>
+                                <option value="BIWEEKLY">Quincenal</option>
+                                <option value="MONTHLY">Mensual</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Interés</label>
+                            <select
+                                value={interestType}
+                                onChange={e => setInterestType(e.target.value as any)}
+                                className="w-full p-1.5 border border-slate-300 rounded bg-white text-slate-900 font-bold text-sm"
+                            >
+                                <option value="FIXED">Fijo</option>
+                                <option value="DIMINISHING">Sobre saldo</option>
+                            </select>
+                        </div>
+                        <div className="col-span-2">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase block mb-1">Fecha de la reestructuración</label>
+                            <input
+                                type="date"
+                                value={date}
+                                onChange={e => setDate(e.target.value)}
+                                className="w-full p-1.5 border border-slate-300 rounded bg-white text-slate-900 font-bold text-sm"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 flex justify-between text-sm">
+                        <div>
+                            <div className="text-[10px] font-bold text-indigo-400 uppercase">Cuota nueva</div>
+                            <div className="font-black text-indigo-900">
+                                {newSchedule.length > 0 ? `${newSchedule.length} × ${formatCurrency(newSchedule[0].payment)}` : '—'}
+                            </div>
+                        </div>
+                        <div className="text-right">
+                            <div className="text-[10px] font-bold text-indigo-400 uppercase">Total a pagar</div>
+                            <div className="font-black text-indigo-900">{formatCurrency(totalToPay)}</div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="text-xs font-bold text-slate-500 uppercase">Motivo (obligatorio)</label>
+                        <textarea
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                            rows={2}
+                            placeholder="Ej: Perdió el empleo; se amplía el plazo"
+                            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <button
+                            onClick={onClose}
+                            className="flex-1 py-3 bg-slate-100 text-slate-700 font-black rounded-2xl hover:bg-slate-200 transition-colors order-2 sm:order-1"
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            disabled={!canSave}
+                            onClick={handleSubmit}
+                            className="flex-1 py-3 bg-indigo-600 text-white font-black rounded-2xl hover:bg-indigo-700 transition-colors shadow-lg order-1 sm:order-2 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                        >
+                            {isSaving && <Loader2 size={16} className="animate-spin" />} Reestructurar
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -4,7 +4,8 @@ import { Transaction, TransactionType, Client } from '../../types';
 import {
     Clock, DollarSign, ArrowUpRight, ArrowDownLeft, TrendingUp,
     ArrowRightLeft, User, CheckCircle, Paperclip, Pencil, Trash2,
-    X, FileText, Calendar, CreditCard, Hash, Image as ImageIcon, ExternalLink
+    X, FileText, Calendar, CreditCard, Hash, Image as ImageIcon, ExternalLink, AlertTriangle, RotateCcw, Ban, CloudOff, Repeat,
+    BanknoteX, HandCoins
 } from 'lucide-react';
 import { formatCurrency } from '../../utils/format';
 import { ReceiptImage } from '../ui/ReceiptImage';
@@ -15,10 +16,11 @@ interface TransactionHistoryProps {
     onViewReceipt: (url: string) => void;
     onEditTransaction?: (tx: Transaction) => void;
     onDeleteTransaction?: (tx: Transaction) => void;
+    onReverseTransaction?: (tx: Transaction) => void;
 }
 
 export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
-    transactions, allClients, onViewReceipt, onEditTransaction, onDeleteTransaction
+    transactions, allClients, onViewReceipt, onEditTransaction, onDeleteTransaction, onReverseTransaction
 }) => {
     const [selectedTx, setSelectedTx] = useState<Transaction | null>(null);
 
@@ -28,6 +30,26 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
         return found ? found.name : 'Desconocido';
     };
 
+    // Anulados y contra-asientos se muestran tachados: quedan como rastro, no suman.
+    const isVoidedEntry = (t: Transaction) => !!t.voided || t.type === TransactionType.REVERSAL;
+    // Pagos en cola offline: aún no existen en el servidor, no admiten acciones.
+    // La reestructuración se corrige con otra, no editando ni reversando; el
+    // castigo no se deshace.
+    const isLocked = (t: Transaction) => isVoidedEntry(t) || !!t.pendingSync
+        || t.type === TransactionType.RESTRUCTURE || t.type === TransactionType.WRITE_OFF;
+    // Pagos (con su mora y la contraparte de una redirección) y recuperaciones
+    // se registran en una sola RPC: si quedaron mal se reversan y se cargan de nuevo.
+    const isPaymentEntry = (t: Transaction) => [
+        TransactionType.PAYMENT_CAPITAL,
+        TransactionType.PAYMENT_INTEREST,
+        TransactionType.PAYMENT_PENALTY,
+        TransactionType.REDIRECT_OUT,
+        TransactionType.REDIRECT_IN,
+        TransactionType.SETTLEMENT,
+        TransactionType.RECOVERY,
+    ].includes(t.type as TransactionType);
+    const isEditable = (t: Transaction) => !isLocked(t) && !isPaymentEntry(t);
+
     // Helper to determine visual styles based on transaction type
     const getTxStyles = (type: string) => {
         switch (type) {
@@ -43,6 +65,16 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                 return { icon: <ArrowRightLeft size={20} />, color: 'text-purple-600', bg: 'bg-purple-50', border: 'border-purple-200', label: 'Redirección (Pago)', isIncome: true };
             case TransactionType.REDIRECT_IN:
                 return { icon: <ArrowRightLeft size={20} />, color: 'text-orange-600', bg: 'bg-orange-50', border: 'border-orange-200', label: 'Redirección (Cobro)', isIncome: false };
+            case TransactionType.PAYMENT_PENALTY:
+                return { icon: <AlertTriangle size={20} />, color: 'text-rose-600', bg: 'bg-rose-50', border: 'border-rose-200', label: 'Intereses de Mora', isIncome: true };
+            case TransactionType.REVERSAL:
+                return { icon: <RotateCcw size={20} />, color: 'text-slate-500', bg: 'bg-slate-100', border: 'border-slate-200', label: 'Reversión', isIncome: false };
+            case TransactionType.RESTRUCTURE:
+                return { icon: <Repeat size={20} />, color: 'text-indigo-600', bg: 'bg-indigo-50', border: 'border-indigo-200', label: 'Reestructuración', isIncome: false };
+            case TransactionType.WRITE_OFF:
+                return { icon: <BanknoteX size={20} />, color: 'text-red-700', bg: 'bg-red-50', border: 'border-red-200', label: 'Castigo de Cartera', isIncome: false };
+            case TransactionType.RECOVERY:
+                return { icon: <HandCoins size={20} />, color: 'text-emerald-600', bg: 'bg-emerald-50', border: 'border-emerald-200', label: 'Recuperación', isIncome: true };
             case TransactionType.SETTLEMENT:
                 return { icon: <CheckCircle size={20} />, color: 'text-slate-600', bg: 'bg-slate-100', border: 'border-slate-200', label: 'Cierre', isIncome: false };
             default:
@@ -75,12 +107,13 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                             {[...transactions].reverse().map((t) => {
                                 const styles = getTxStyles(t.type);
                                 const totalAmount = t.amount + (t.interestPaid || 0);
+                                const voided = isVoidedEntry(t);
 
                                 return (
                                     <tr
                                         key={t.id}
                                         onClick={() => setSelectedTx(t)}
-                                        className="hover:bg-slate-50 transition-colors group cursor-pointer active:bg-slate-100"
+                                        className={`hover:bg-slate-50 transition-colors group cursor-pointer active:bg-slate-100 ${voided ? 'opacity-60' : ''}`}
                                     >
                                         <td className="px-6 py-4">
                                             <div className="flex items-start gap-3">
@@ -88,7 +121,11 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                                     {React.cloneElement(styles.icon as React.ReactElement<any>, { size: 16 })}
                                                 </div>
                                                 <div>
-                                                    <div className={`text-sm font-bold ${styles.color}`}>{styles.label}</div>
+                                                    <div className={`text-sm font-bold ${styles.color} ${voided ? 'line-through' : ''}`}>
+                                                        {styles.label}
+                                                        {t.voided && <span className="ml-2 inline-block text-[10px] font-black uppercase px-1.5 py-0.5 rounded bg-red-100 text-red-700 border border-red-200">Anulada</span>}
+                                                        {t.pendingSync && <span className="ml-2 inline-flex items-center gap-1 text-[10px] font-black uppercase px-1.5 py-0.5 rounded bg-sky-100 text-sky-700 border border-sky-200"><CloudOff size={10} /> Pendiente</span>}
+                                                    </div>
                                                     <div className="text-xs text-slate-400 font-mono mb-1">{t.date}</div>
 
                                                     {/* Description / Notes */}
@@ -110,7 +147,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                             </div>
                                         </td>
                                         <td className="px-6 py-4 text-right">
-                                            <div className={`text-sm font-bold ${styles.isIncome ? 'text-green-600' : 'text-red-600'}`}>
+                                            <div className={`text-sm font-bold ${styles.isIncome ? 'text-green-600' : 'text-red-600'} ${voided ? 'line-through' : ''}`}>
                                                 {styles.isIncome ? '+' : '-'}{formatCurrency(totalAmount)}
                                             </div>
                                             {/* Breakdown */}
@@ -129,7 +166,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                         <td className="px-6 py-4 text-right">
                                             <div className="flex justify-end gap-2 opacity-100 transition-opacity">
                                                 {/* RECEIPT BUTTON */}
-                                                {t.receiptUrl && (
+                                                {t.receiptUrl && !t.pendingSync && (
                                                     <button
                                                         onClick={(e) => { e.stopPropagation(); onViewReceipt(t.receiptUrl!); }}
                                                         className="p-1.5 text-slate-500 hover:bg-slate-100 rounded border border-slate-200 transition-colors bg-white shadow-sm"
@@ -139,7 +176,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                                     </button>
                                                 )}
 
-                                                {onEditTransaction && (
+                                                {onEditTransaction && isEditable(t) && (
                                                     <button
                                                         onClick={(e) => { e.stopPropagation(); onEditTransaction(t); }}
                                                         className="p-1.5 text-blue-500 hover:bg-blue-50 rounded"
@@ -148,7 +185,17 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                                         <Pencil size={14} />
                                                     </button>
                                                 )}
-                                                {onDeleteTransaction && (
+                                                {onReverseTransaction && !isLocked(t) && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={(e) => { e.stopPropagation(); onReverseTransaction(t); }}
+                                                        className="p-1.5 text-amber-600 hover:bg-amber-50 rounded cursor-pointer"
+                                                        title="Reversar Transacción"
+                                                    >
+                                                        <RotateCcw size={14} />
+                                                    </button>
+                                                )}
+                                                {onDeleteTransaction && !t.pendingSync && (
                                                     <button
                                                         type="button"
                                                         onClick={(e) => {
@@ -156,7 +203,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                                             onDeleteTransaction(t);
                                                         }}
                                                         className="p-1.5 text-red-500 hover:bg-red-50 rounded cursor-pointer"
-                                                        title="Eliminar Transacción"
+                                                        title="Purgar Transacción (Propietario)"
                                                     >
                                                         <Trash2 size={14} />
                                                     </button>
@@ -175,25 +222,28 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                     {[...transactions].reverse().map((t) => {
                         const styles = getTxStyles(t.type);
                         const totalAmount = t.amount + (t.interestPaid || 0);
+                        const voided = isVoidedEntry(t);
 
                         return (
                             <div
                                 key={t.id}
                                 onClick={() => setSelectedTx(t)}
-                                className="p-4 flex justify-between items-center active:bg-slate-50 transition-colors"
+                                className={`p-4 flex justify-between items-center active:bg-slate-50 transition-colors ${voided ? 'opacity-60' : ''}`}
                             >
                                 <div className="flex items-center gap-3">
                                     <div className={`p-3 rounded-xl ${styles.bg} ${styles.color} shadow-sm`}>
                                         {React.cloneElement(styles.icon as React.ReactElement<any>, { size: 18 })}
                                     </div>
                                     <div>
-                                        <div className="text-sm font-black text-slate-800">{styles.label}</div>
+                                        <div className={`text-sm font-black text-slate-800 ${voided ? 'line-through' : ''}`}>{styles.label}</div>
+                                        {t.voided && <div className="text-[10px] font-black text-red-600 uppercase">Anulada</div>}
+                                        {t.pendingSync && <div className="text-[10px] font-black text-sky-600 uppercase flex items-center gap-1"><CloudOff size={10} /> Pendiente de sincronizar</div>}
                                         <div className="text-[10px] text-slate-400 font-bold uppercase tracking-tight">{t.date}</div>
                                         {t.notes && <div className="text-[10px] text-slate-500 italic truncate max-w-[120px]">"{t.notes}"</div>}
                                     </div>
                                 </div>
                                 <div className="text-right">
-                                    <div className={`text-base font-black ${styles.isIncome ? 'text-green-600' : 'text-red-400'}`}>
+                                    <div className={`text-base font-black ${styles.isIncome ? 'text-green-600' : 'text-red-400'} ${voided ? 'line-through' : ''}`}>
                                         {styles.isIncome ? '+' : '-'}{formatCurrency(totalAmount)}
                                     </div>
                                     <div className="text-[10px] font-mono font-bold text-slate-400 mt-0.5">
@@ -275,6 +325,17 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                 </div>
                             </div>
 
+                            {/* VOID REASON */}
+                            {selectedTx.voided && (
+                                <div className="bg-red-50 border border-red-100 rounded-xl p-4 flex gap-3">
+                                    <Ban size={18} className="text-red-500 shrink-0 mt-0.5" />
+                                    <div>
+                                        <div className="text-xs font-bold text-red-700 uppercase mb-1">Movimiento Anulado</div>
+                                        <p className="text-sm text-red-900 italic">"{selectedTx.voidReason || 'Sin motivo registrado'}"</p>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* NOTES */}
                             {selectedTx.notes && (
                                 <div className="bg-blue-50 border border-blue-100 rounded-xl p-4 flex gap-3">
@@ -286,8 +347,19 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                 </div>
                             )}
 
+                            {/* PENDING OFFLINE */}
+                            {selectedTx.pendingSync && (
+                                <div className="bg-sky-50 border border-sky-100 rounded-xl p-4 flex gap-3">
+                                    <CloudOff size={18} className="text-sky-500 shrink-0 mt-0.5" />
+                                    <div>
+                                        <div className="text-xs font-bold text-sky-700 uppercase mb-1">Pendiente de sincronizar</div>
+                                        <p className="text-sm text-sky-900">Registrado sin conexión. El saldo es provisional hasta que el pago llegue al servidor{selectedTx.receiptUrl ? ' junto con su soporte' : ''}.</p>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* RECEIPT PREVIEW - CLICK TO OPEN FULLSCREEN */}
-                            {selectedTx.receiptUrl ? (
+                            {selectedTx.receiptUrl && !selectedTx.pendingSync ? (
                                 <div
                                     className="group relative rounded-xl overflow-hidden border border-slate-200 bg-slate-100 cursor-zoom-in h-48 flex items-center justify-center shrink-0"
                                     onClick={() => {
@@ -311,7 +383,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                             ) : (
                                 <div className="border border-dashed border-slate-200 rounded-xl p-4 flex flex-col items-center justify-center text-slate-300 gap-2 h-24 shrink-0">
                                     <ImageIcon size={24} />
-                                    <span className="text-xs font-medium">Sin soporte adjunto</span>
+                                    <span className="text-xs font-medium">{selectedTx.receiptUrl ? 'Soporte en cola de subida' : 'Sin soporte adjunto'}</span>
                                 </div>
                             )}
 
@@ -326,7 +398,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
 
                         {/* MOBILE ACTIONS */}
                         <div className="md:hidden p-4 bg-white border-t border-slate-100 flex gap-3 shrink-0">
-                            {onEditTransaction && (
+                            {onEditTransaction && isEditable(selectedTx) && (
                                 <button
                                     onClick={(e) => { e.stopPropagation(); onEditTransaction(selectedTx); setSelectedTx(null); }}
                                     className="flex-1 py-4 bg-blue-50 text-blue-700 font-black rounded-2xl flex items-center justify-center gap-2"
@@ -334,15 +406,23 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                                     <Pencil size={20} /> Editar
                                 </button>
                             )}
-                            {onDeleteTransaction && (
+                            {onReverseTransaction && !isLocked(selectedTx) && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onReverseTransaction(selectedTx); setSelectedTx(null); }}
+                                    className="flex-1 py-4 bg-amber-50 text-amber-700 font-black rounded-2xl flex items-center justify-center gap-2"
+                                >
+                                    <RotateCcw size={20} /> Reversar
+                                </button>
+                            )}
+                            {onDeleteTransaction && !selectedTx.pendingSync && (
                                 <button
                                     onClick={(e) => { e.stopPropagation(); onDeleteTransaction(selectedTx); setSelectedTx(null); }}
                                     className="flex-1 py-4 bg-red-50 text-red-600 font-black rounded-2xl flex items-center justify-center gap-2"
                                 >
-                                    <Trash2 size={20} /> Eliminar
+                                    <Trash2 size={20} /> Purgar
                                 </button>
                             )}
-                            {!onEditTransaction && !onDeleteTransaction && (
+                            {((!onEditTransaction && !onDeleteTransaction && !onReverseTransaction) || selectedTx.pendingSync) && (
                                 <button
                                     onClick={() => setSelectedTx(null)}
                                     className="flex-1 py-4 bg-slate-100 text-slate-600 font-black rounded-2xl"
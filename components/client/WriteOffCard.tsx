@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { BankAccount, Transaction, TransactionType, WriteOff } from '../../types';
+import { BanknoteX, HandCoins, Loader2, Plus } from 'lucide-react';
+import { formatCurrency, formatNumberWithDots, getToday, parseCurrency } from '../../utils/format';
+import { fetchClientWriteOffs } from '../../services/loanService';
+import { RecordRecoveryInput } from '../../services/transactionService';
+import { useOrganization } from '../../contexts/OrganizationContext';
+
+interface WriteOffCardProps {
+    clientId: string;
+    transactions: Transaction[];
+    bankAccounts: BankAccount[];
+    reloadKey: number; // Changes when the client's transactions change
+    onRecordRecovery?: (input: RecordRecoveryInput) => Promise<boolean>;
+}
+
+export const WriteOffCard: React.FC<WriteOffCardProps> = ({ clientId, transactions, bankAccounts, reloadKey, onRecordRecovery }) => {
+    const { members } = useOrganization();
+    const [writeOffs, setWriteOffs] = useState<WriteOff[] | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(getToday());
+    const [bankId, setBankId] = useState('');
+
+    useEffect(() => {
+        let mounted = true;
+        fetchClientWriteOffs(clientId)
+            .then(data => { if (mounted) setWriteOffs(data); })
+            .catch(err => console.error('Error cargando castigos:', err));
+        return () => { mounted = false; };
+    }, [clientId, reloadKey]);
+
+    const approverName = (id?: string | null) => {
+        if (!id) return 'Sin registrar';
+        const member = members.find(m => m.user_id === id);
+        return member?.profile?.full_name || member?.profile?.email || id.substring(0, 8);
+    };
+
+    const writtenOff = (writeOffs || []).reduce((sum, w) => sum + w.amount, 0);
+    const recovered = transactions
+        .filter(t => t.type === TransactionType.RECOVERY && !t.voided)
+        .reduce((sum, t) => sum + t.amount, 0);
+    const pending = Math.max(0, writtenOff - recovered);
+    const recoveryPct = writtenOff > 0 ? Math.min(100, (recovered / writtenOff) * 100) : 0;
+
+    const openForm = () => {
+        setAmount('');
+        setDate(getToday());
+        setBankId(bankAccounts.length > 0 ? bankAccounts[0].id : '');
+        setIsFormOpen(true);
+    };
+
+    const value = parseCurrency(amount);
+    const canSave = value > 0 && value <= pending && !!bankId && !!date && !isSaving;
+
+    const handleSave = async () => {
+        if (!canSave || !onRecordRecovery) return;
+        setIsSaving(true);
+        try {
+            const ok = await onRecordRecovery({ clientId, amount: value, date, bankAccountId: bankId });
+            if (ok) setIsFormOpen(false);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-xl border border-red-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-red-100 bg-red-50 flex justify-between items-center gap-3">
+                <h3 className="font-bold text-red-900 flex items-center gap-2">
+                    <BanknoteX size={18} className="text-red-400" /> Cartera Castigada
+                </h3>
+                {onRecordRecovery && pending > 0 && !isFormOpen && (
+                    <button
+                        onClick={openForm}
+                        className="text-xs font-bold text-emerald-700 hover:bg-emerald-50 px-2 py-1 rounded-lg flex items-center gap-1"
+                    >
+                        <Plus size={14} /> Registrar recuperación
+                    </button>
+                )}
+            </div>
+
+            {!writeOffs ? (
+                <div className="flex justify-center py-6"><Loader2 className="animate-spin text-slate-400" size={20} /></div>
+            ) : (
+                <div className="p-4 space-y-4">
+                    <div className="grid grid-cols-3 gap-3 text-sm">
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Castigado</div>
+                            <div className="font-black text-red-700">{formatCurrency(writtenOff)}</div>
+                        </div>
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Recuperado</div>
+                            <div className="font-black text-emerald-700">{formatCurrency(recovered)}</div>
+                        </div>
+                        <div>
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Por recuperar</div>
+                            <div className="font-black text-slate-800">{formatCurrency(pending)}</div>
+                        </div>
+                    </div>
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full rounded-full bg-emerald-500" style={{ width: `${recoveryPct}%` }}></div>
+                    </div>
+
+                    {isFormOpen && (
+                        <div className="grid grid-cols-2 gap-3 bg-emerald-50/50 border border-emerald-100 rounded-lg p-3">
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase">Monto recibido</label>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    value={amount}
+                                    onChange={e => setAmount(formatNumberWithDots(e.target.value))}
+                                    className="w-full p-2 border border-slate-200 rounded-lg bg-white text-sm font-bold outline-none focus:ring-2 focus:ring-emerald-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] font-bold text-slate-400 uppercase">Fecha</label>
+                                <input
+                                    type="date"
+                                    value={date}
+                                    onChange={e => setDate(e.target.value)}
+                                    className="w-full p-2 border border-slate-200 rounded-lg bg-white text-sm font-mono outline-none focus:ring-2 focus:ring-emerald-500"
+                                />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="text-[10px] font-bold text-slate-400 uppercase">Cuenta de destino</label>
+                                <select
+                                    value={bankId}
+                                    onChange={e => setBankId(e.target.value)}
+                                    className="w-full p-2 border border-slate-200 rounded-lg bg-white text-sm font-medium text-slate-900"
+                                >
+                                    {bankAccounts.length > 0 ? (
+                                        bankAccounts.map(b => <option key={b.id} value={b.id}>{b.name}</option>)
+                                    ) : (
+                                        <option value="">-- No hay cuentas creadas --</option>
+                                    )}
+                                </select>
+                            </div>
+                            {value > pending && (
+                                <div className="col-span-2 text-[11px] font-bold text-red-600">
+                                    Supera lo pendiente por recuperar ({formatCurrency(pending)}).
+                                </div>
+                            )}
+                            <div className="col-span-2 flex justify-end gap-2">
+                                <button onClick={() => setIsFormOpen(false)} className="px-3 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-lg">
+                                    Cancelar
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={!canSave}
+                                    className="px-3 py-2 text-xs font-bold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-50 flex items-center gap-1"
+                                >
+                                    {isSaving ? <Loader2 size={12} className="animate-spin" /> : <HandCoins size={12} />} Registrar
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        {writeOffs.map(w => (
+                            <div key={w.id} className="text-[11px] bg-slate-50 border border-slate-200 rounded-lg p-2 space-y-0.5">
+                                <div className="flex justify-between font-bold text-slate-700">
+                                    <span>Castigo por {formatCurrency(w.amount)}</span>
+                                    <span className="text-slate-400">{w.date}</span>
+                                </div>
+                                <div className="text-slate-500">
+                                    Aprobó: {approverName(w.approvedBy)}
+                                    {w.loans.length > 1 && <> · {w.loans.map(l => `${l.label || 'Préstamo'} ${formatCurrency(l.amount)}`).join(', ')}</>}
+                                </div>
+                                <div className="text-slate-400 italic">{w.reason}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
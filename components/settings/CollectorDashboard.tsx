@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useData } from '../../contexts/DataContext';
+import { CollectorPerformance } from '../../types';
+import { UserCheck, EyeOff, Loader2, Route, AlertTriangle } from 'lucide-react';
+import { fetchCollectorPerformance } from '../../services/collectorService';
+import { formatCurrency, getErrorMessage, getToday } from '../../utils/format';
+
+interface CollectorDashboardProps {
+    onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const monthStart = () => `${getToday().substring(0, 8)}01`;
+
+/**
+ * Portfolio, arrears and collections per collector, plus the switch that
+ * limits members to their own clients (owner/admin).
+ */
+export const CollectorDashboard: React.FC<CollectorDashboardProps> = ({ onAddNotification }) => {
+    const { currentOrg, members, loadMembers, updateClientVisibility } = useOrganization();
+    const { addLog } = useData();
+
+    const [from, setFrom] = useState(monthStart());
+    const [to, setTo] = useState(getToday());
+    const [rows, setRows] = useState<CollectorPerformance[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const restricted = !!currentOrg?.restrict_client_visibility;
+
+    useEffect(() => {
+        loadMembers();
+    }, [currentOrg]);
+
+    useEffect(() => {
+        let mounted = true;
+        const load = async () => {
+            if (!currentOrg || !from || !to) return;
+            setIsLoading(true);
+            try {
+                const data = await fetchCollectorPerformance(currentOrg.id, from, to);
+                if (mounted) setRows(data);
+            } catch (err) {
+                console.error('Error cargando desempeño por cobrador:', err);
+            } finally {
+                if (mounted) setIsLoading(false);
+            }
+        };
+        load();
+        return () => { mounted = false; };
+    }, [currentOrg, from, to]);
+
+    const collectorName = (id: string | null) => {
+        if (!id) return 'Sin asignar';
+        const member = members.find(m => m.user_id === id);
+        return member?.profile?.full_name || member?.profile?.email || id.substring(0, 8);
+    };
+
+    const handleToggleVisibility = async () => {
+        const next = !restricted;
+        if (next && !window.confirm('Los operadores dejarán de ver los clientes que no tengan asignados (y sus movimientos). ¿Activar?')) return;
+        setIsSaving(true);
+        try {
+            const result = await updateClientVisibility(next);
+            if (!result.success) throw new Error(result.error);
+            addLog('UPDATE', 'SETTINGS', next ? 'Visibilidad de cartera restringida por cobrador' : 'Visibilidad de cartera abierta a todo el equipo', undefined, 'WARNING');
+            onAddNotification(next ? 'Cada operador verá solo sus clientes.' : 'Todo el equipo ve la cartera completa.', 'success');
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+                        <EyeOff size={20} className="text-slate-500" /> Cartera Privada por Cobrador
+                    </h3>
+                    <p className="text-xs text-slate-500">
+                        Activo: cada operador solo ve los clientes que tiene asignados. Propietario y administradores siguen viendo todo.
+                    </p>
+                </div>
+                <button
+                    onClick={handleToggleVisibility}
+                    disabled={isSaving}
+                    className={`w-12 h-6 rounded-full transition-colors relative shrink-0 disabled:opacity-50 ${restricted ? 'bg-blue-600' : 'bg-slate-300'}`}
+                    title={restricted ? 'Desactivar' : 'Activar'}
+                >
+                    <span className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow transition-all ${restricted ? 'left-6' : 'left-0.5'}`}></span>
+                </button>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <div className="p-4 border-b border-slate-100 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                        <UserCheck size={18} className="text-slate-500" /> Desempeño por Cobrador
+                    </h3>
+                    <div className="flex items-center gap-2 text-xs">
+                        <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} className="border border-slate-300 rounded-lg px-2 py-1.5 font-mono" />
+                        <span className="text-slate-400">a</span>
+                        <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)} className="border border-slate-300 rounded-lg px-2 py-1.5 font-mono" />
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-10"><Loader2 className="animate-spin text-slate-400" /></div>
+                ) : rows.length === 0 ? (
+                    <div className="text-center text-slate-400 py-10 font-bold uppercase tracking-widest text-xs">Sin clientes ni cobros en el período.</div>
+                ) : (
+                    <div className="divide-y divide-slate-100">
+                        {rows.map(r => {
+                            const lateRate = r.activeClients > 0 ? Math.round((r.lateClients / r.activeClients) * 100) : 0;
+                            const routeRate = r.routeExpected > 0 ? Math.round((r.routeCollected / r.routeExpected) * 100) : null;
+                            return (
+                                <div key={r.collectorId || 'NONE'} className="p-4">
+                                    <div className="flex justify-between items-start gap-4">
+                                        <div>
+                                            <div className={`font-bold ${r.collectorId ? 'text-slate-800' : 'text-slate-400 italic'}`}>{collectorName(r.collectorId)}</div>
+                                            <div className="text-[10px] text-slate-400 font-bold uppercase">{r.activeClients} activos de {r.clients} clientes</div>
+                                        </div>
+                                        <div className="text-right">
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase">Cobrado</div>
+                                            <div className="font-black text-green-600">{formatCurrency(r.collected)}</div>
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase">Cartera</div>
+                                            <div className="font-black text-slate-700">{formatCurrency(r.portfolio)}</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-1"><AlertTriangle size={10} /> Mora</div>
+                                            <div className={`font-black ${lateRate > 20 ? 'text-red-600' : 'text-amber-600'}`}>
+                                                {r.lateClients} ({lateRate}%) · {formatCurrency(r.overdueAmount)}
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-1"><Route size={10} /> Rutas</div>
+                                            {r.routes > 0 ? (
+                                                <div className="font-black text-slate-700">
+                                                    {routeRate}% de {formatCurrency(r.routeExpected)}
+                                                    {r.unvisited > 0 && <span className="block text-[10px] font-bold text-red-500">{r.unvisited} sin visitar</span>}
+                                                </div>
+                                            ) : (
+                                                <div className="text-slate-300 italic">Sin rutas</div>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
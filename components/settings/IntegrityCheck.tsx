@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useData } from '../../contexts/DataContext';
+import { DriftReport } from '../../types';
+import { ShieldCheck, Loader2, AlertTriangle, CheckCircle2, Wrench, User, Landmark } from 'lucide-react';
+import { fetchDriftReport, repairDrift } from '../../services/integrityService';
+import { formatCurrency, getErrorMessage } from '../../utils/format';
+
+interface IntegrityCheckProps {
+    onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+export const IntegrityCheck: React.FC<IntegrityCheckProps> = ({ onAddNotification }) => {
+    const { currentOrg, userRole } = useOrganization();
+    const { bankAccounts, refreshData } = useData();
+
+    const [report, setReport] = useState<DriftReport | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRepairing, setIsRepairing] = useState(false);
+
+    const isOwner = userRole === 'owner';
+    const issues = report ? report.clients.length + report.banks.length : 0;
+    const bankCurrency = (id: string) => bankAccounts.find(b => b.id === id)?.currency;
+
+    const handleCheck = async () => {
+        if (!currentOrg || !isOwner || isLoading) return;
+        setIsLoading(true);
+        try {
+            setReport(await fetchDriftReport(currentOrg.id));
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleRepair = async () => {
+        if (!currentOrg || !isOwner || !report || isRepairing) return;
+        if (!window.confirm(`¿Reparar ${issues} descuadre(s)? Se recalcularán los saldos de los clientes afectados y se registrarán asientos de ajuste con fecha de hoy.`)) return;
+
+        setIsRepairing(true);
+        try {
+            const after = await repairDrift(currentOrg.id);
+            setReport(after);
+            await refreshData();
+            const remaining = after.clients.length + after.banks.length;
+            onAddNotification(remaining === 0 ? 'Saldos reparados' : `Quedan ${remaining} descuadre(s) sin resolver`, remaining === 0 ? 'success' : 'info');
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsRepairing(false);
+        }
+    };
+
+    if (!isOwner) {
+        return (
+            <div className="bg-slate-50 text-slate-400 py-3 rounded-xl text-[10px] font-bold flex items-center justify-center gap-2 border border-slate-100 italic">
+                <ShieldCheck size={12} /> Solo el Propietario puede revisar la integridad de saldos
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <ShieldCheck size={20} className="text-slate-500" /> Integridad de Saldos
+                </h3>
+                <p className="text-xs text-slate-500 mb-4">
+                    Recalcula el saldo de cada cliente y de cada cuenta desde los movimientos y los compara con los saldos guardados.
+                    {report && ` Última revisión: ${new Date(report.checkedAt).toLocaleString('es-CO')}.`}
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                        onClick={handleCheck}
+                        disabled={isLoading || isRepairing}
+                        className="bg-slate-900 text-white px-5 py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-black transition-colors disabled:opacity-50"
+                    >
+                        {isLoading ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />} Verificar Saldos
+                    </button>
+                    {report && issues > 0 && (
+                        <button
+                            onClick={handleRepair}
+                            disabled={isLoading || isRepairing}
+                            className="bg-amber-500 text-white px-5 py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-amber-600 transition-colors disabled:opacity-50"
+                        >
+                            {isRepairing ? <Loader2 size={16} className="animate-spin" /> : <Wrench size={16} />} Reparar Todo
+                        </button>
+                    )}
+                </div>
+
+                {report && (
+                    <div className={`mt-4 flex items-center gap-2 p-3 rounded-xl text-xs font-bold ${issues > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                        {issues > 0
+                            ? <><AlertTriangle size={14} /> {report.clients.length} cliente(s) y {report.banks.length} cuenta(s) con descuadre</>
+                            : <><CheckCircle2 size={14} /> Todos los saldos coinciden con sus movimientos</>}
+                    </div>
+                )}
+            </div>
+
+            {report && report.clients.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                    <div className="px-4 py-3 border-b border-slate-100 text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                        <User size={14} /> Clientes
+                    </div>
+                    <div className="divide-y divide-slate-100">
+                        {report.clients.map(c => (
+                            <div key={c.clientId} className="p-4">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="font-bold text-slate-800">{c.clientName}</div>
+                                    <div className="text-right text-xs">
+                                        <div className="text-slate-400">Guardado <span className="font-bold text-slate-700">{formatCurrency(c.stored)}</span></div>
+                                        <div className="text-slate-400">Recalculado <span className="font-black text-slate-900">{formatCurrency(c.expected)}</span></div>
+                                    </div>
+                                </div>
+                                <div className="text-[10px] text-slate-400 font-bold uppercase mt-2 mb-1">
+                                    {c.mismatches} movimiento(s) con saldo distinto{c.mismatches > c.transactions.length ? ` (primeros ${c.transactions.length})` : ''}
+                                </div>
+                                <div className="space-y-1">
+                                    {c.transactions.map(t => (
+                                        <div key={t.transactionId} className="flex justify-between text-xs bg-slate-50 rounded-lg px-2 py-1">
+                                            <span className="font-mono text-slate-500">{t.date} · <span className="font-bold text-slate-700">{t.type}</span> {formatCurrency(t.amount)}</span>
+                                            <span className="text-slate-500">{formatCurrency(t.stored)} → <span className="font-bold text-slate-800">{formatCurrency(t.expected)}</span></span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {report && report.banks.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                    <div className="px-4 py-3 border-b border-slate-100 text-xs font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                        <Landmark size={14} /> Cuentas
+                    </div>
+                    <div className="divide-y divide-slate-100">
+                        {report.banks.map(b => {
+                            const fmt = (val: number) => formatCurrency(val, bankCurrency(b.bankAccountId));
+                            return (
+                                <div key={b.bankAccountId} className="p-4">
+                                    <div className="font-bold text-slate-800 mb-2">{b.name}</div>
+                                    <div className="grid grid-cols-3 gap-2 text-xs">
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase">Guardado</div>
+                                            <div className="font-black text-slate-700">{fmt(b.stored)}</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase">Diario</div>
+                                            <div className="font-black text-slate-700">{fmt(b.journal)}</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase">Recalculado</div>
+                                            <div className="font-black text-slate-900">{fmt(b.recomputed)}</div>
+                                        </div>
+                                    </div>
+                                    {b.transactions.length > 0 && (
+                                        <div className="space-y-1 mt-3">
+                                            {b.transactions.map(t => (
+                                                <div key={t.transactionId} className="flex justify-between text-xs bg-slate-50 rounded-lg px-2 py-1">
+                                                    <span className="font-mono text-slate-500">{t.date || 's/f'} · <span className="font-bold text-slate-700">{t.type}</span>{t.amount != null && ` ${fmt(t.amount)}`}</span>
+                                                    <span className={`font-bold ${t.gap < 0 ? 'text-red-500' : 'text-green-600'}`}>{t.gap >= 0 ? '+' : ''}{fmt(t.gap)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
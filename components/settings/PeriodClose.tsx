@@ -0,0 +1,189 @@
+
+import React, { useEffect, useState } from 'react';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import { useData } from '../../contexts/DataContext';
+import { AccountingPeriod } from '../../types';
+import { CalendarCheck, Lock, Unlock, Loader2, Landmark } from 'lucide-react';
+import { fetchClosedPeriods, closePeriod, reopenPeriod } from '../../services/periodService';
+import { formatCurrency, getErrorMessage } from '../../utils/format';
+
+interface PeriodCloseProps {
+    onAddNotification: (msg: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const shiftMonth = (period: string, months: number) => {
+    const [y, m] = period.split('-').map(Number);
+    const d = new Date(y, m - 1 + months, 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const currentMonth = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const PeriodClose: React.FC<PeriodCloseProps> = ({ onAddNotification }) => {
+    const { currentOrg, userRole } = useOrganization();
+    const { addLog } = useData();
+
+    const [periods, setPeriods] = useState<AccountingPeriod[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isActionLoading, setIsActionLoading] = useState(false);
+    const [periodToClose, setPeriodToClose] = useState(shiftMonth(currentMonth(), -1));
+
+    const isOwner = userRole === 'owner';
+    const lastClosed = periods[0]?.period;
+    const maxClosable = shiftMonth(currentMonth(), -1);
+
+    useEffect(() => {
+        let mounted = true;
+        const load = async () => {
+            if (!currentOrg) return;
+            setIsLoading(true);
+            try {
+                const data = await fetchClosedPeriods(currentOrg.id);
+                if (!mounted) return;
+                setPeriods(data);
+                // Tras un cierre, el único mes admitido es el siguiente.
+                if (data[0]) setPeriodToClose(shiftMonth(data[0].period, 1));
+            } catch (err) {
+                console.error('Error cargando cierres:', err);
+            } finally {
+                if (mounted) setIsLoading(false);
+            }
+        };
+        load();
+        return () => { mounted = false; };
+    }, [currentOrg]);
+
+    const handleClose = async () => {
+        if (!currentOrg || !isOwner || isActionLoading) return;
+        if (!window.confirm(`¿Cerrar el período ${periodToClose}? No se podrán registrar, editar ni eliminar movimientos con fecha de ese mes o anteriores.`)) return;
+
+        setIsActionLoading(true);
+        try {
+            const closed = await closePeriod(currentOrg.id, periodToClose);
+            setPeriods(prev => [closed, ...prev]);
+            setPeriodToClose(shiftMonth(closed.period, 1));
+            addLog('UPDATE', 'SETTINGS', `Período contable cerrado: ${closed.period}`, `Cartera: ${formatCurrency(closed.portfolioTotal)}`, 'WARNING');
+            onAddNotification(`Período ${closed.period} cerrado`, 'success');
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsActionLoading(false);
+        }
+    };
+
+    const handleReopen = async (period: string) => {
+        if (!currentOrg || !isOwner || isActionLoading) return;
+        if (!window.confirm(`¿Reabrir el período ${period}? Se descarta la foto de cierre.`)) return;
+
+        setIsActionLoading(true);
+        try {
+            await reopenPeriod(currentOrg.id, period);
+            setPeriods(prev => prev.filter(p => p.period !== period));
+            setPeriodToClose(period);
+            addLog('UPDATE', 'SETTINGS', `Período contable reabierto: ${period}`, undefined, 'WARNING');
+            onAddNotification(`Período ${period} reabierto`, 'info');
+        } catch (err) {
+            onAddNotification(getErrorMessage(err), 'error');
+        } finally {
+            setIsActionLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+                    <CalendarCheck size={20} className="text-slate-500" /> Cierre de Mes
+                </h3>
+                <p className="text-xs text-slate-500 mb-4">
+                    {lastClosed
+                        ? `Cerrado hasta ${lastClosed}. Las correcciones de meses cerrados se registran como ajuste en el período abierto.`
+                        : 'Aún no hay períodos cerrados.'}
+                </p>
+
+                {isOwner ? (
+                    <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+                        <div>
+                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Período</label>
+                            <input
+                                type="month"
+                                className="border border-slate-300 bg-white text-slate-900 p-3 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm disabled:bg-slate-100"
+                                value={periodToClose}
+                                max={maxClosable}
+                                disabled={!!lastClosed}
+                                onChange={e => setPeriodToClose(e.target.value)}
+                            />
+                        </div>
+                        <button
+                            onClick={handleClose}
+                            disabled={isActionLoading || !periodToClose || periodToClose > maxClosable}
+                            className="bg-slate-900 text-white px-5 py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 hover:bg-black transition-colors disabled:opacity-50"
+                        >
+                            {isActionLoading ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />} Cerrar Período
+                        </button>
+                    </div>
+                ) : (
+                    <div className="bg-slate-50 text-slate-400 py-3 rounded-xl text-[10px] font-bold flex items-center justify-center gap-2 border border-slate-100 italic">
+                        <Lock size={12} /> Solo el Propietario puede cerrar períodos
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                {isLoading ? (
+                    <div className="flex justify-center py-10"><Loader2 className="animate-spin text-slate-400" /></div>
+                ) : periods.length === 0 ? (
+                    <div className="text-center text-slate-400 py-10 font-bold uppercase tracking-widest text-xs">Sin cierres registrados.</div>
+                ) : (
+                    <div className="divide-y divide-slate-100">
+                        {periods.map(p => (
+                            <div key={p.id} className="p-4">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div>
+                                        <div className="font-black text-slate-800 font-mono">{p.period}</div>
+                                        <div className="text-[10px] text-slate-400 font-bold uppercase">Cerrado el {new Date(p.closedAt).toLocaleString('es-CO')}</div>
+                                    </div>
+                                    {isOwner && p.period === lastClosed && (
+                                        <button
+                                            onClick={() => handleReopen(p.period)}
+                                            disabled={isActionLoading}
+                                            className="text-xs font-bold text-amber-600 hover:bg-amber-50 px-3 py-1.5 rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50"
+                                        >
+                                            <Unlock size={14} /> Reabrir
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+                                    <div>
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">Cartera</div>
+                                        <div className="font-black text-slate-700">{formatCurrency(p.portfolioTotal)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">Intereses</div>
+                                        <div className="font-black text-green-600">{formatCurrency(p.interestIncome)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">Mora</div>
+                                        <div className="font-black text-amber-600">{formatCurrency(p.penaltyIncome)}</div>
+                                    </div>
+                                </div>
+                                {p.bankBalances.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-3">
+                                        {p.bankBalances.map(b => (
+                                            <span key={b.id} className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 flex items-center gap-1">
+                                                <Landmark size={10} /> {b.name}: {formatCurrency(b.balance)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -2,22 +2,27 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import {
-    Client, Transaction, BankAccount, AppSettings, AppLog
+    Client, Transaction, BankAccount, AppSettings, AppLog, LedgerAccountBalance, ClientPortfolioSummary
 } from '../types';
 import { useAuth } from './AuthContext';
 import { useOrganization } from './OrganizationContext';
 import { createLog } from '../services/auditService';
+import { fetchClientSummaries } from '../services/clientListService';
+import { isNetworkError, readSnapshot, writeSnapshot } from '../services/offlineStore';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 interface DataContextType {
     clients: Client[];
     transactions: Transaction[];
     bankAccounts: BankAccount[];
+    ledgerBalances: LedgerAccountBalance[];
+    clientSummaries: Record<string, ClientPortfolioSummary>; // client_portfolio, by client id
     settings: AppSettings;
     systemLogs: AppLog[];
 
     loading: boolean;
     error: string | null;
+    offlineSnapshotAt: number | null; // Data shown comes from the local copy (no connection) saved at this time
 
     // Actions
     refreshData: () => Promise<void>;
@@ -36,6 +41,15 @@ interface DataContextType {
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
+// Copia de la organización en IndexedDB para abrir la app sin señal.
+interface OrgSnapshot {
+    savedAt: number;
+    clients: Client[];
+    transactions: Transaction[];
+    bankAccounts: BankAccount[];
+    clientSummaries: Record<string, ClientPortfolioSummary>;
+}
+
 export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { user } = useAuth();
     const { currentOrg } = useOrganization();
@@ -43,17 +57,25 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [clients, setClients] = useState<Client[]>([]);
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+    const [ledgerBalances, setLedgerBalances] = useState<LedgerAccountBalance[]>([]);
+    const [clientSummaries, setClientSummaries] = useState<Record<string, ClientPortfolioSummary>>({});
     const [settings, setSettings] = useState<AppSettings | null>(null);
     const [systemLogs, setSystemLogs] = useState<AppLog[]>([]);
 
     const [loading, setLoading] = useState(true);
     const [historyLoading, setHistoryLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [offlineSnapshotAt, setOfflineSnapshotAt] = useState<number | null>(null);
 
     // Refs for loadClientHistory (avoids stale closure deps)
     const transactionsRef = useRef(transactions);
     useEffect(() => { transactionsRef.current = transactions; }, [transactions]);
     const loadedClients = useRef(new Set<string>());
+    // Debounce del refresco contable (un pago postea varios asientos seguidos)
+    const ledgerRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Clientes cuyo resumen cambió (realtime), pendientes de releer en bloque
+    const pendingSummaryIds = useRef(new Set<string>());
+    const summaryRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     // --- PHASE 1: Local Cache Init ---
     useEffect(() => {
@@ -75,6 +97,56 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSystemLogs(prev => [newLog, ...prev].slice(0, 50)); // Keep local buffer small
     }, [user, currentOrg]);
 
+    // --- LIBRO DIARIO: saldos por cuenta (vista ledger_account_balances) ---
+    const fetchLedgerBalances = useCallback(async () => {
+        if (!currentOrg) return;
+        const { data, error } = await supabase
+            .from('ledger_account_balances')
+            .select('*')
+            .eq('organization_id', currentOrg.id)
+            .order('code', { ascending: true });
+        if (error) {
+            // 42P01: la migración del libro diario aún no está aplicada.
+            if (error.code !== '42P01') console.warn("Could not fetch ledger balances:", error);
+            return;
+        }
+        setLedgerBalances((data || []).map((a: any) => ({
+            ...a,
+            debit: Number(a.debit) || 0,
+            credit: Number(a.credit) || 0,
+            balance: Number(a.balance) || 0
+        })));
+    }, [currentOrg]);
+
+    // --- RESUMEN DE CARTERA por cliente (tabla client_portfolio vía client_list) ---
+    const fetchSummaries = useCallback(async (clientIds?: string[]) => {
+        if (!currentOrg) return;
+        try {
+            const data = await fetchClientSummaries(currentOrg.id, clientIds);
+            setClientSummaries(prev => clientIds ? { ...prev, ...data } : data);
+        } catch (err: any) {
+            // 42P01: la migración del resumen aún no está aplicada.
+            if (err?.code !== '42P01') console.warn("Could not fetch client summaries:", err);
+        }
+    }, [currentOrg]);
+
+    // --- CLIENTES: todos, en bloques de 1000 (PostgREST corta cada respuesta).
+    // La lista pagina en el servidor; aquí se necesita el universo completo
+    // para la ficha, el cobro rápido y los referidos.
+    const fetchAllClients = useCallback(async (orgId: string) => {
+        const all: Client[] = [];
+        for (let from = 0; ; from += 1000) {
+            const { data, error } = await supabase.from('clients').select('*')
+                .eq('organization_id', orgId)
+                .order('createdAt', { ascending: false })
+                .order('id', { ascending: true })
+                .range(from, from + 999);
+            if (error) return { data: null, error };
+            all.push(...(data || []));
+            if (!data || data.length < 1000) return { data: all, error: null };
+        }
+    }, []);
+
     // --- FETCHER ---
     const fetchData = useCallback(async () => {
         if (!currentOrg) {
@@ -89,11 +161,11 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
             const [settingsRes, clientsRes, txRes, banksRes, logsRes] = await Promise.all([
                 // SEGURIDAD: nunca traemos las columnas de keys (ai_api_key/api_key) al cliente.
-                supabase.from('settings').select('id, organization_id, company_name, default_interest_rate, use_openai, n8n_webhook_url, max_card_limit, ui_config, ai_provider, ai_agent_name, ai_system_prompt').eq('organization_id', currentOrg.id).limit(1).maybeSingle(),
-                supabase.from('clients').select('*').eq('organization_id', currentOrg.id).order('createdAt', { ascending: false }).limit(2000),
+                supabase.from('settings').select('id, organization_id, company_name, default_interest_rate, use_openai, n8n_webhook_url, max_card_limit, penalty_policy, lending_policy, ui_config, ai_provider, ai_agent_name, ai_system_prompt').eq('organization_id', currentOrg.id).limit(1).maybeSingle(),
+                fetchAllClients(currentOrg.id),
                 // Phase 2: Optimization - Vertical Slicing. Only select summary columns.
                 supabase.from('transactions')
-                    .select('id, organization_id, clientId, balanceAfter, interestPaid, date, type')
+                    .select('id, organization_id, clientId, amount, balanceAfter, interestPaid, date, type, voided, created_at')
                     .eq('organization_id', currentOrg.id)
                     .order('date', { ascending: false })
                     .limit(2000),
@@ -121,6 +193,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
                     useOpenAI: s.use_openai || s.useOpenAI || false,
                     n8nWebhookUrl: s.n8n_webhook_url || s.n8nWebhookUrl,
                     maxCardLimit: s.max_card_limit || s.maxCardLimit || 500,
+                    penaltyPolicy: s.penalty_policy || undefined,
+                    lendingPolicy: s.lending_policy || undefined,
                     // UI Config
                     uiConfig: s.ui_config || s.uiConfig || {
                         privacyMode: false,
@@ -154,8 +228,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setClients(clientsRes.data || []);
             setTransactions(txRes.data || []);
             setBankAccounts(banksRes.data || []);
+            await Promise.all([fetchLedgerBalances(), fetchSummaries()]);
             if (txRes.data?.length === 2000) console.warn('[DataContext] Límite de 2000 alcanzado; faltan filas (pendiente: paginación)');
-            if (clientsRes.data?.length === 2000) console.warn('[DataContext] Límite de 2000 alcanzado; faltan filas (pendiente: paginación)');
             if (logsRes.data) {
                 // Map DB logs to AppLog
                 const mappedLogs: AppLog[] = logsRes.data.map((l: any) => ({
@@ -172,13 +246,41 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 setSystemLogs(mappedLogs);
             }
 
+            setOfflineSnapshotAt(null);
         } catch (err: any) {
-            console.error("[DataContext] Error loading data:", err);
-            setError(err.message || 'Error cargando datos');
+            // Sin señal: se trabaja con la última copia guardada en el dispositivo.
+            const snapshot = isNetworkError(err) ? await readSnapshot<OrgSnapshot>(`org:${currentOrg.id}`) : null;
+            if (snapshot) {
+                console.warn(`[DataContext] Sin conexión; usando copia local del ${new Date(snapshot.savedAt).toLocaleString()}`);
+                setClients(snapshot.clients);
+                setTransactions(snapshot.transactions);
+                setBankAccounts(snapshot.bankAccounts);
+                setClientSummaries(snapshot.clientSummaries);
+                setOfflineSnapshotAt(snapshot.savedAt);
+            } else {
+                console.error("[DataContext] Error loading data:", err);
+                setError(err.message || 'Error cargando datos');
+            }
         } finally {
             setLoading(false);
         }
-    }, [currentOrg]);
+    }, [currentOrg, fetchLedgerBalances, fetchSummaries, fetchAllClients]);
+
+    // --- COPIA OFFLINE: lo último que llegó del servidor (incluido realtime) ---
+    useEffect(() => {
+        if (!currentOrg || loading || offlineSnapshotAt || error) return;
+        const timer = setTimeout(() => {
+            const snapshot: OrgSnapshot = {
+                savedAt: Date.now(),
+                clients,
+                transactions: transactions.filter(t => !t.pendingSync),
+                bankAccounts,
+                clientSummaries
+            };
+            writeSnapshot(`org:${currentOrg.id}`, snapshot);
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [currentOrg, loading, offlineSnapshotAt, error, clients, transactions, bankAccounts, clientSummaries]);
 
     // --- REALTIME SUBSCRIPTION ---
     useEffect(() => {
@@ -238,6 +340,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
                                 useOpenAI: s.use_openai || s.useOpenAI || false,
                                 n8nWebhookUrl: s.n8n_webhook_url || s.n8nWebhookUrl,
                                 maxCardLimit: s.max_card_limit || s.maxCardLimit || 500,
+                                penaltyPolicy: s.penalty_policy || undefined,
+                                lendingPolicy: s.lending_policy || undefined,
                                 // UI Config
                                 uiConfig: s.ui_config || s.uiConfig || {
                                     privacyMode: false,
@@ -269,6 +373,32 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
                         }
                     }
                 )
+                // Cada asiento nuevo cambia los saldos contables: se releen de la vista.
+                .on(
+                    'postgres_changes',
+                    { event: 'INSERT', schema: 'public', table: 'journal_entries', filter: `organization_id=eq.${currentOrg.id}` },
+                    () => {
+                        if (ledgerRefreshTimer.current) clearTimeout(ledgerRefreshTimer.current);
+                        ledgerRefreshTimer.current = setTimeout(() => { fetchLedgerBalances(); }, 500);
+                    }
+                )
+                // El resumen lo mantienen triggers; un recálculo cambia varias
+                // filas seguidas, así que se agrupan antes de releerlas.
+                .on(
+                    'postgres_changes',
+                    { event: '*', schema: 'public', table: 'client_portfolio', filter: `organization_id=eq.${currentOrg.id}` },
+                    (payload) => {
+                        const id = (payload.new as any)?.client_id || (payload.old as any)?.client_id;
+                        if (!id) return;
+                        pendingSummaryIds.current.add(id);
+                        if (summaryRefreshTimer.current) clearTimeout(summaryRefreshTimer.current);
+                        summaryRefreshTimer.current = setTimeout(() => {
+                            const ids = Array.from(pendingSummaryIds.current);
+                            pendingSummaryIds.current.clear();
+                            fetchSummaries(ids);
+                        }, 500);
+                    }
+                )
                 // --- NEW: AUDIT LOGS REALTIME ---
                 .on(
                     'postgres_changes',
@@ -300,8 +430,10 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         return () => {
             if (channel) supabase.removeChannel(channel);
+            if (ledgerRefreshTimer.current) clearTimeout(ledgerRefreshTimer.current);
+            if (summaryRefreshTimer.current) clearTimeout(summaryRefreshTimer.current);
         };
-    }, [currentOrg]);
+    }, [currentOrg, fetchLedgerBalances, fetchSummaries]);
 
 
     useEffect(() => {
@@ -332,10 +464,18 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 loadedClients.current.add(clientId);
                 // Merge without clearing first — no wallet flicker
                 setTransactions(prev => prev.filter(t => t.clientId !== clientId).concat(detailed));
+                writeSnapshot(`history:${clientId}`, detailed);
                 return detailed;
             }
             return [];
         } catch (err: any) {
+            // Sin señal: historial guardado la última vez que se abrió la ficha.
+            // No se marca como cargado para releerlo al volver la conexión.
+            const cached = isNetworkError(err) ? await readSnapshot<Transaction[]>(`history:${clientId}`) : null;
+            if (cached) {
+                setTransactions(prev => prev.filter(t => t.clientId !== clientId || t.pendingSync).concat(cached));
+                return cached;
+            }
             console.error("Error loading client history:", err);
             return [];
         } finally {
@@ -361,10 +501,13 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
             clients,
             transactions,
             bankAccounts,
+            ledgerBalances,
+            clientSummaries,
             settings: safeSettings,
             systemLogs,
             loading,
             error,
+            offlineSnapshotAt,
             refreshData: fetchData,
             addLog,
             // Expose Setters
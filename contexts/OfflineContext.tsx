@@ -0,0 +1,217 @@
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { QueuedPayment, Transaction } from '../types';
+import { useOrganization } from './OrganizationContext';
+import { useData } from './DataContext';
+import { deleteQueuedPayment, isNetworkError, listQueuedPayments, putQueuedPayment } from '../services/offlineStore';
+import { carryOverSyncedPayment, rebaseQueuedPayment, syncQueuedPayment } from '../services/offlineSyncService';
+import { RegisterPaymentResult } from '../services/transactionService';
+import { formatCurrency, getErrorMessage } from '../utils/format';
+
+export interface SyncSummary {
+    synced: number;
+    conflicts: number;
+    failed: number;
+}
+
+interface OfflineContextType {
+    isOnline: boolean;
+    queue: QueuedPayment[];
+    isSyncing: boolean;
+
+    enqueuePayment: (item: QueuedPayment) => Promise<void>;
+    syncNow: () => Promise<SyncSummary>;
+    applyAnyway: (id: string) => Promise<SyncSummary>;
+    discard: (id: string) => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+const queuedTransactions = (item: QueuedPayment): Transaction[] =>
+    [item.tx, item.penalty, item.redirect].filter((t): t is Transaction => !!t);
+
+/**
+ * Payments registered without connection. The queue lives in IndexedDB (it
+ * survives closing the app); its movements are shown as pending until the
+ * sync replays them on the server, in the order they were taken.
+ */
+export const OfflineProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const { currentOrg } = useOrganization();
+    const { transactions, setTransactions, setClients, setBankAccounts, addLog, offlineSnapshotAt, refreshData } = useData();
+
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+    const [queue, setQueue] = useState<QueuedPayment[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    // La sincronización lee la cola entre awaits: el ref va siempre al día.
+    const queueRef = useRef(queue);
+    const syncing = useRef(false);
+
+    const replaceQueue = useCallback((next: QueuedPayment[]) => {
+        queueRef.current = next;
+        setQueue(next);
+    }, []);
+
+    const saveItem = useCallback(async (item: QueuedPayment) => {
+        const prev = queueRef.current;
+        replaceQueue(prev.some(i => i.id === item.id) ? prev.map(i => i.id === item.id ? item : i) : [...prev, item]);
+        await putQueuedPayment(item);
+    }, [replaceQueue]);
+
+    const dropItem = useCallback(async (id: string) => {
+        replaceQueue(queueRef.current.filter(i => i.id !== id));
+        await deleteQueuedPayment(id);
+    }, [replaceQueue]);
+
+    // Los pagos en cola se muestran aunque una recarga traiga el libro del servidor.
+    useEffect(() => {
+        const present = new Set(transactions.map(t => t.id));
+        const missing = queue.flatMap(queuedTransactions).filter(t => !present.has(t.id));
+        if (missing.length) setTransactions(prev => [...prev, ...missing.map(t => ({ ...t, pendingSync: true }))]);
+    }, [transactions, queue]);
+
+    const enqueuePayment = useCallback(async (item: QueuedPayment) => {
+        await saveItem(item);
+    }, [saveItem]);
+
+    // Mismo fusionado que un pago en línea; sin resultado, el pago ya estaba en el servidor.
+    const applyResult = (item: QueuedPayment, result: RegisterPaymentResult | null) => {
+        const ids = new Set(queuedTransactions(item).map(t => t.id));
+        if (!result) {
+            setTransactions(prev => prev.map(t => ids.has(t.id) ? { ...t, pendingSync: false } : t));
+            return;
+        }
+        const touched = new Set([item.clientId, ...(result.targetClient ? [result.targetClient.id] : [])]);
+        setTransactions(prev => [
+            ...prev.filter(t => !touched.has(t.clientId)),
+            ...result.transactions,
+            ...result.targetTransactions
+        ]);
+        setClients(prev => prev.map(c => {
+            if (c.id === result.client.id) return result.client;
+            if (result.targetClient && c.id === result.targetClient.id) return result.targetClient;
+            return c;
+        }));
+        if (item.tx.bankAccountId && result.bankBalance !== null) {
+            setBankAccounts(prev => prev.map(b => b.id === item.tx.bankAccountId ? { ...b, balance: result.bankBalance as number } : b));
+        }
+    };
+
+    const runSync = useCallback(async (only?: string): Promise<SyncSummary> => {
+        const summary: SyncSummary = { synced: 0, conflicts: 0, failed: 0 };
+        if (syncing.current || !navigator.onLine) return summary;
+        syncing.current = true;
+        setIsSyncing(true);
+
+        try {
+            const pending = queueRef.current.filter(i => only ? i.id === only : (i.status === 'PENDING' || i.status === 'ERROR'));
+            for (const { id } of pending) {
+                // La versión vigente: un pago anterior del cliente pudo haberla rebasado.
+                const queued = queueRef.current.find(i => i.id === id);
+                if (!queued) continue;
+                const item: QueuedPayment = { ...queued, status: 'SYNCING', error: undefined };
+                await saveItem(item);
+                try {
+                    const outcome = await syncQueuedPayment(item);
+                    if (outcome.status === 'CONFLICT') {
+                        summary.conflicts++;
+                        await saveItem({ ...item, status: 'CONFLICT', error: outcome.reason });
+                        continue;
+                    }
+                    applyResult(item, outcome.result);
+                    await dropItem(item.id);
+                    summary.synced++;
+                    // Los pagos siguientes de esos clientes parten del estado que dejó este.
+                    const touched = [item.clientId, item.redirect?.clientId];
+                    for (const next of queueRef.current.filter(i => touched.includes(i.clientId))) {
+                        await saveItem(carryOverSyncedPayment(next, item, outcome.result));
+                    }
+                    addLog('CREATE', 'TRANSACTION', `Pago sincronizado: ${formatCurrency(item.tx.amount)}`,
+                        `Cliente: ${item.clientName} | Tipo: ${item.tx.type} | Registrado sin conexión: ${new Date(item.queuedAt).toLocaleString('es-CO')}`);
+                } catch (err) {
+                    if (isNetworkError(err)) {
+                        // Se cayó la señal: el resto espera al próximo intento.
+                        await saveItem({ ...item, status: 'PENDING' });
+                        break;
+                    }
+                    summary.failed++;
+                    await saveItem({ ...item, status: 'ERROR', error: getErrorMessage(err) });
+                }
+            }
+        } finally {
+            syncing.current = false;
+            setIsSyncing(false);
+        }
+        return summary;
+    }, [saveItem, dropItem, addLog]);
+
+    const syncNow = useCallback(() => runSync(), [runSync]);
+
+    const applyAnyway = useCallback(async (id: string) => {
+        const item = queueRef.current.find(i => i.id === id);
+        if (!item) return { synced: 0, conflicts: 0, failed: 0 };
+        await saveItem(await rebaseQueuedPayment(item));
+        return runSync(id);
+    }, [saveItem, runSync]);
+
+    const discard = useCallback(async (id: string) => {
+        const item = queueRef.current.find(i => i.id === id);
+        if (!item) return;
+        const ids = new Set(queuedTransactions(item).map(t => t.id));
+        await dropItem(id);
+        setTransactions(prev => prev.filter(t => !ids.has(t.id)));
+        setClients(prev => prev.map(c => c.id === item.clientId ? { ...c, ...item.baseClientFields } : c));
+        addLog('DELETE', 'TRANSACTION', `Pago sin conexión descartado: ${formatCurrency(item.tx.amount)}`,
+            `Cliente: ${item.clientName} | Tipo: ${item.tx.type}${item.error ? ` | ${item.error}` : ''}`, 'WARNING');
+    }, [dropItem, addLog]);
+
+    // Conectividad: al volver la señal se vacía la cola y, si lo que se ve es
+    // la copia local, se recargan los datos del servidor.
+    useEffect(() => {
+        const goOnline = () => {
+            setIsOnline(true);
+            runSync().finally(() => { if (offlineSnapshotAt) refreshData(); });
+        };
+        const goOffline = () => setIsOnline(false);
+        window.addEventListener('online', goOnline);
+        window.addEventListener('offline', goOffline);
+        return () => {
+            window.removeEventListener('online', goOnline);
+            window.removeEventListener('offline', goOffline);
+        };
+    }, [runSync, offlineSnapshotAt, refreshData]);
+
+    // Cola de la organización activa; si quedó de una sesión anterior y ya hay
+    // señal, se envía. Un SYNCING guardado quedó cortado al cerrar la app:
+    // vuelve a PENDING (el reintento detecta si ya había llegado).
+    useEffect(() => {
+        if (!currentOrg) { replaceQueue([]); return; }
+        let mounted = true;
+        listQueuedPayments(currentOrg.id)
+            .then(items => {
+                if (!mounted) return;
+                const restored = items.map(i => i.status === 'SYNCING' ? { ...i, status: 'PENDING' as const } : i);
+                replaceQueue(restored);
+                if (navigator.onLine && restored.some(i => i.status === 'PENDING')) runSync();
+            })
+            .catch(err => console.error('[offline] No se pudo leer la cola:', err));
+        return () => { mounted = false; };
+    }, [currentOrg]);
+
+    const value = useMemo(() => ({
+        isOnline, queue, isSyncing, enqueuePayment, syncNow, applyAnyway, discard
+    }), [isOnline, queue, isSyncing, enqueuePayment, syncNow, applyAnyway, discard]);
+
+    return (
+        <OfflineContext.Provider value={value}>
+            {children}
+        </OfflineContext.Provider>
+    );
+};
+
+export const useOffline = () => {
+    const context = useContext(OfflineContext);
+    if (context === undefined) {
+        throw new Error('useOffline must be used within an OfflineProvider');
+    }
+    return context;
+};
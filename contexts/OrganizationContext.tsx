@@ -3,8 +3,9 @@ import { supabase } from '../lib/supabaseClient';
 import { useAuth } from './AuthContext';
 import { Organization, OrganizationMember, OrganizationInvitation, UserRole } from '../types';
 import { fetchMemberPermissions, MemberPermission } from '../services/permissionService';
-import { getErrorMessage } from '../utils/format';
+import { getErrorMessage, setActiveCurrency } from '../utils/format';
 import { hasPermission, Permission } from '../utils/permissions';
+import { isNetworkError } from '../services/offlineStore';
 
 interface OrganizationContextType {
   organizations: Organization[];
@@ -16,6 +17,8 @@ interface OrganizationContextType {
   isLoading: boolean;
   can: (permissionSlug: string) => boolean;
   createOrganization: (name: string) => Promise<{ success: boolean; error?: string }>;
+  updateOrganizationCurrency: (currency: string) => Promise<{ success: boolean; error?: string }>;
+  updateClientVisibility: (restricted: boolean) => Promise<{ success: boolean; error?: string }>;
   switchOrganization: (orgId: string) => void;
   refreshOrganizations: () => Promise<void>;
 
@@ -39,6 +42,10 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
   const [permissions, setPermissions] = useState<MemberPermission[] | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // La moneda de la organización activa rige formatCurrency/parseCurrency. Se fija
+  // durante el render (no en un efecto) para que los hijos ya pinten con ella.
+  setActiveCurrency(currentOrg?.currency);
+
   // 1. Check for Pending Invitations on Login (token-only + RPC atómica)
   const checkAndClaimInvitations = async () => {
     if (!user || !user.email) return;
@@ -133,6 +140,7 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
       if (orgError) throw orgError;
 
       setOrganizations(orgs || []);
+      localStorage.setItem(`prestaFlow_orgsCache_${user.id}`, JSON.stringify(orgs || []));
 
       // Logic to preserve selection or select default
       if (!currentOrg) {
@@ -149,6 +157,16 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
 
     } catch (error) {
       console.error('Error loading organizations:', error);
+      // Sin señal: organizaciones de la última sesión, para operar con la copia local.
+      const cached = localStorage.getItem(`prestaFlow_orgsCache_${user.id}`);
+      if (cached && organizations.length === 0) {
+        const orgs: Organization[] = JSON.parse(cached);
+        setOrganizations(orgs);
+        if (!currentOrg) {
+          const storedOrgId = localStorage.getItem('prestaFlow_currentOrgId');
+          setCurrentOrg(orgs.find(o => o.id === storedOrgId) || orgs[0] || null);
+        }
+      }
     } finally {
       // Always ensure loading is false at the end, even if it was a background refresh 
       // (safety net, though isBackgroundRefresh avoids the set(true))
@@ -187,7 +205,8 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
         return;
       }
 
-      const { data } = await supabase
+      const roleCacheKey = `prestaFlow_roleCache_${currentOrg.id}_${user.id}`;
+      const { data, error } = await supabase
         .from('organization_members')
         .select('id, role')
         .eq('organization_id', currentOrg.id)
@@ -196,8 +215,13 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
 
       if (data) {
         setUserRole(data.role as UserRole);
+        localStorage.setItem(roleCacheKey, data.role);
         const perms = await fetchMemberPermissions(data.id);
         setPermissions(perms);
+      } else if (error && isNetworkError(error) && localStorage.getItem(roleCacheKey)) {
+        // Sin señal: rol de la última sesión (los permisos finos se releen al reconectar).
+        setUserRole(localStorage.getItem(roleCacheKey) as UserRole);
+        setPermissions(null);
       } else {
         setUserRole(null);
         setPermissions(null);
@@ -453,10 +477,38 @@ export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  // El servidor rechaza el cambio si la organización ya tiene movimientos.
+  const updateOrganizationCurrency = async (currency: string) => {
+    if (!currentOrg) return { success: false, error: 'No hay organización activa.' };
+    try {
+      const { data, error } = await supabase.from('organizations').update({ currency }).eq('id', currentOrg.id).select().single();
+      if (error) throw error;
+      setCurrentOrg(data);
+      setOrganizations(prev => prev.map(o => o.id === data.id ? data : o));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  };
+
+  // Con la visibilidad restringida, RLS deja a cada operador solo con sus clientes.
+  const updateClientVisibility = async (restricted: boolean) => {
+    if (!currentOrg) return { success: false, error: 'No hay organización activa.' };
+    try {
+      const { data, error } = await supabase.from('organizations').update({ restrict_client_visibility: restricted }).eq('id', currentOrg.id).select().single();
+      if (error) throw error;
+      setCurrentOrg(data);
+      setOrganizations(prev => prev.map(o => o.id === data.id ? data : o));
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+  };
+
   return (
     <OrganizationContext.Provider value={{
       organizations, currentOrg, members, invitations, userRole, permissions, isLoading,
-      can, createOrganization, switchOrganization, refreshOrganizations: () => fetchOrganizations(true),
+      can, createOrganization, updateOrganizationCurrency, updateClientVisibility, switchOrganization, refreshOrganizations: () => fetchOrganizations(true),
       loadMembers, inviteMember, revokeInvitation, updateMemberRole, removeMember
     }}>
       {children}
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ClientListItem, ClientListStats } from '../types';
+import { useOrganization } from '../contexts/OrganizationContext';
+import { useData } from '../contexts/DataContext';
+import { CLIENT_PAGE_SIZE, ClientListQuery, buildLocalClientList, buildLocalListStats, fetchClientPage, fetchClientListStats } from '../services/clientListService';
+import { isNetworkError } from '../services/offlineStore';
+
+const EMPTY_STATS: ClientListStats = { total: 0, active: 0, dueToday: 0, late: 0, waiting: 0, portfolio: 0, interest: 0, penalty: 0, writtenOff: 0, recovered: 0 };
+
+/**
+ * Server-side paginated client list with infinite scroll. Resets to the first
+ * page when the query changes and reloads the pages already shown whenever
+ * clients or their portfolio summaries change (realtime). Without connection
+ * the list is rebuilt from the local copy held by DataContext.
+ */
+export const useClientList = (query: ClientListQuery) => {
+    const { currentOrg } = useOrganization();
+    const { clients, clientSummaries } = useData();
+
+    const [rows, setRows] = useState<ClientListItem[]>([]);
+    const [total, setTotal] = useState(0);
+    const [stats, setStats] = useState<ClientListStats>(EMPTY_STATS);
+    const [dueToday, setDueToday] = useState<ClientListItem[]>([]);
+    const [late, setLate] = useState<ClientListItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Evita que una respuesta vieja (búsqueda anterior) pise la actual.
+    const requestId = useRef(0);
+    const loadedCount = useRef(0);
+    const isFirstSync = useRef(true);
+
+    // Sin señal: lista completa a partir de clientes y resúmenes ya cargados
+    // (por ref, para que un cambio de datos no reinicie la paginación).
+    const localData = useRef({ clients, clientSummaries });
+    localData.current = { clients, clientSummaries };
+    const localList = (q: ClientListQuery) => buildLocalClientList(localData.current.clients, localData.current.clientSummaries, q);
+
+    // El tablero sigue al filtro de cobrador ("Mis clientes").
+    const loadSummary = useCallback(async () => {
+        if (!currentOrg) return;
+        const assignedTo = query.assignedTo;
+        if (!navigator.onLine) {
+            setStats(buildLocalListStats(localList({ search: '', filter: 'ALL', sort: 'NAME', assignedTo })));
+            setDueToday(localList({ search: '', filter: 'TODAY', sort: 'NAME', assignedTo }).slice(0, 4));
+            setLate(localList({ search: '', filter: 'LATE', sort: 'NEXT_PAYMENT', assignedTo }).slice(0, 4));
+            return;
+        }
+        const [statsRes, todayRes, lateRes] = await Promise.all([
+            fetchClientListStats(currentOrg.id, assignedTo),
+            fetchClientPage(currentOrg.id, { search: '', filter: 'TODAY', sort: 'NAME', assignedTo }, 0, 4),
+            fetchClientPage(currentOrg.id, { search: '', filter: 'LATE', sort: 'NEXT_PAYMENT', assignedTo }, 0, 4)
+        ]);
+        setStats(statsRes);
+        setDueToday(todayRes.rows);
+        setLate(lateRes.rows);
+    }, [currentOrg, query.assignedTo]);
+
+    const loadRange = useCallback(async (count: number) => {
+        if (!currentOrg) return;
+        const id = ++requestId.current;
+        try {
+            const page = await fetchClientPage(currentOrg.id, query, 0, Math.max(count, CLIENT_PAGE_SIZE));
+            if (id !== requestId.current) return;
+            setRows(page.rows);
+            setTotal(page.total);
+            loadedCount.current = page.rows.length;
+            setError(null);
+        } catch (err: any) {
+            if (id !== requestId.current) return;
+            if (isNetworkError(err)) {
+                const local = localList(query);
+                setRows(local);
+                setTotal(local.length);
+                loadedCount.current = local.length;
+                setError(null);
+            } else {
+                setError(err.message || 'Error cargando clientes');
+            }
+        }
+    }, [currentOrg, query.search, query.filter, query.sort, query.assignedTo]);
+
+    // Cambio de búsqueda, filtro u orden: vuelve a la primera página.
+    useEffect(() => {
+        let mounted = true;
+        setIsLoading(true);
+        loadRange(CLIENT_PAGE_SIZE).finally(() => { if (mounted) setIsLoading(false); });
+        return () => { mounted = false; };
+    }, [loadRange]);
+
+    useEffect(() => {
+        loadSummary().catch(err => console.error('Error cargando resumen de clientes:', err));
+    }, [loadSummary]);
+
+    // Cambios de datos: recarga lo ya mostrado sin perder el scroll.
+    useEffect(() => {
+        if (isFirstSync.current) { isFirstSync.current = false; return; }
+        const timer = setTimeout(() => {
+            loadRange(loadedCount.current);
+            loadSummary().catch(err => console.error('Error cargando resumen de clientes:', err));
+        }, 600);
+        return () => clearTimeout(timer);
+    }, [clients, clientSummaries]);
+
+    const hasMore = rows.length < total;
+
+    const loadMore = useCallback(async () => {
+        if (!currentOrg || isLoading || isLoadingMore || !hasMore) return;
+        const id = requestId.current;
+        setIsLoadingMore(true);
+        try {
+            const page = await fetchClientPage(currentOrg.id, query, rows.length);
+            if (id !== requestId.current) return;
+            setRows(prev => {
+                const seen = new Set(prev.map(r => r.id));
+                const next = [...prev, ...page.rows.filter(r => !seen.has(r.id))];
+                loadedCount.current = next.length;
+                return next;
+            });
+            setTotal(page.total);
+        } catch (err: any) {
+            setError(err.message || 'Error cargando clientes');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [currentOrg, query.search, query.filter, query.sort, query.assignedTo, rows.length, isLoading, isLoadingMore, hasMore]);
+
+    const refresh = useCallback(async () => {
+        await Promise.all([loadRange(loadedCount.current), loadSummary()]);
+    }, [loadRange, loadSummary]);
+
+    return { rows, total, stats, dueToday, late, isLoading, isLoadingMore, hasMore, error, loadMore, refresh };
+};
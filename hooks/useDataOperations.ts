@@ -1,13 +1,19 @@
 
 import { useState } from 'react';
 import { supabase } from '../lib/supabaseClient';
-import { Client, Transaction, BankAccount, TransactionType, TransactionFormInput, AppLog } from '../types';
-import { recalculateClientTransactions } from '../services/transactionService';
-import { calculateNextPaymentDate } from '../services/loanUtils';
-import { generateId, getToday, getErrorMessage } from '../utils/format';
+import { Client, Transaction, BankAccount, TransactionType, TransactionFormInput, AppLog, QueuedPayment, QueuedReceipt } from '../types';
+import { recalculateClientTransactions, recordRecovery as recordRecoveryRpc, RecordRecoveryInput, registerPayment, restructureLoan as restructureLoanRpc, RestructureLoanInput, reverseTransaction as reverseTransactionRpc, transferBetweenAccounts, reverseTransfer, writeOffClient as writeOffClientRpc, WriteOffClientInput } from '../services/transactionService';
+import { updateBankAccount as updateBankAccountRow, setBankAccountArchived } from '../services/bankService';
+import { assignClients as assignClientsRpc } from '../services/collectorService';
+import { authorizeLendingOverride } from '../services/lendingService';
+import { defaultLoanIdFor, fetchClientLoans, LoanTermsUpdate, loanScheduleOf, mergeLoanSchedule, updateLoan } from '../services/loanService';
+import { calculateNextPaymentDate, generateAmortizationSchedule, allocatePaymentsToSchedule, summarizeArrears } from '../services/loanUtils';
+import { generateId, getToday, getErrorMessage, formatCurrency } from '../utils/format';
 import { useOrganization } from '../contexts/OrganizationContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
+import { useOffline } from '../contexts/OfflineContext';
+import { isNetworkError } from '../services/offlineStore';
 import { hasPermission } from '../utils/permissions';
 
 export const useDataOperations = (addNotification: (msg: string, type: 'success' | 'error' | 'info') => void) => {
@@ -22,6 +28,7 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
     const [isOperationLoading, setIsOperationLoading] = useState(false);
     const { currentOrg, userRole } = useOrganization();
     const { user } = useAuth();
+    const { enqueuePayment } = useOffline();
 
     const getOrgId = () => {
         if (!currentOrg) return null;
@@ -47,41 +54,32 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         addLog(action, entity, message, details, level);
     };
 
-    // --- HELPER: Bank Updates ---
-    const updateBankBalance = async (bankId: string, amountChange: number, allowNegative = false) => {
+    // --- HELPER: Bank Balances ---
+    // El saldo lo deriva el libro diario: el trigger de posteo sobre
+    // `transactions` mueve la caja dentro de la misma transacción de la BD.
+    // Aquí solo se valida en cliente (el trigger lo revalida) y se lee el
+    // saldo autoritativo después de escribir.
+    const assertSufficientFunds = (bankId: string | undefined, amount: number) => {
         const bank = bankAccounts.find(b => b.id === bankId);
-        if (!bank) return;
-
-        const optimistic = bank.balance + amountChange;
-
-        // Guard rápido en cliente (la RPC vuelve a validarlo server-side).
-        if (!allowNegative && optimistic < 0) {
+        if (bank && bank.balance - amount < 0) {
             throw new Error("Fondos insuficientes en la cuenta para esta operación.");
         }
+    };
 
-        // Optimistic Update UI
-        setBankAccounts(prev => prev.map(b => b.id === bankId ? { ...b, balance: optimistic } : b));
-
-        // Production Sync ATÓMICO: la RPC hace `balance = balance + delta` en la BD
-        // (evita perder movimientos concurrentes) y devuelve el saldo autoritativo.
-        const { data, error } = await supabase.rpc('bump_bank_balance', {
-            p_bank_id: bankId,
-            p_delta: amountChange,
-            p_allow_negative: allowNegative,
-        });
+    const refreshBankBalances = async (bankIds: (string | undefined)[]) => {
+        const ids = [...new Set(bankIds.filter((id): id is string => !!id))];
+        if (ids.length === 0) return;
 
+        const { data, error } = await supabase.from('bank_accounts').select('id, balance').in('id', ids);
         if (error) {
             console.error("Error sync banco:", error);
-            const msg = getErrorMessage(error);
-            recordAudit('SYSTEM', 'BANK', "Fallo de integridad bancaria", msg, 'ERROR');
-            setBankAccounts(prev => prev.map(b => b.id === bankId ? { ...b, balance: bank.balance } : b));
-            throw error;
-        }
-
-        // Corrige el optimista con el saldo real devuelto por la BD.
-        if (typeof data === 'number') {
-            setBankAccounts(prev => prev.map(b => b.id === bankId ? { ...b, balance: data } : b));
+            recordAudit('SYSTEM', 'BANK', "No se pudo leer el saldo bancario", getErrorMessage(error), 'WARNING');
+            return;
         }
+        setBankAccounts(prev => prev.map(b => {
+            const row = data?.find(r => r.id === b.id);
+            return row ? { ...b, balance: Number(row.balance) || 0 } : b;
+        }));
     };
 
     // --- HELPER: Patch puntual de campos de un cliente (optimista + DB) ---
@@ -100,23 +98,68 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
-    // --- HELPER: File Upload ---
-    const uploadReceipt = async (file: File): Promise<string | null> => {
+    const patchLoanFields = async (loanId: string, fields: LoanTermsUpdate) => {
         try {
-            const orgId = getOrgId() || 'public';
-            const fileExt = file.name.split('.').pop()?.toLowerCase() || '';
-            const validExts = ['jpg', 'jpeg', 'png', 'pdf', 'webp'];
+            await updateLoan(loanId, fields);
+        } catch (error) {
+            console.error("Error actualizando préstamo:", error);
+            recordAudit('SYSTEM', 'CLIENT', "No se pudo actualizar el préstamo", getErrorMessage(error), 'WARNING');
+        }
+    };
 
-            if (!validExts.includes(fileExt)) {
-                throw new Error("Archivo no permitido. Solo imágenes o PDF.");
-            }
+    // Tras tocar sus préstamos, el plan unido del cliente lo rehace un trigger.
+    const reloadClient = async (clientId: string) => {
+        const { data, error } = await supabase.from('clients').select('*').eq('id', clientId).maybeSingle();
+        if (error || !data) return;
+        setClients(prev => prev.map(c => c.id === clientId ? { ...c, ...(data as Client) } : c));
+    };
 
-            if (file.size > 5 * 1024 * 1024) {
-                throw new Error("El archivo excede el límite de 5MB.");
-            }
+    // --- HELPER: Imputación de pagos al plan de cuotas ---
+    // Reimputa todo el historial (no solo el último pago) para que ediciones y
+    // borrados también corrijan las cuotas. El próximo vencimiento pasa a ser
+    // la cuota pendiente más antigua, salvo que el usuario haya fijado una fecha.
+    // Con varios préstamos, cada plan se imputa con los movimientos del suyo.
+    const syncInstallments = async (client: Client, clientTxs: Transaction[], manualNextDate?: string) => {
+        if (!client.paymentSchedule || client.paymentSchedule.length === 0) return;
+        const loanIds = [...new Set(client.paymentSchedule.map(i => i.loanId).filter(Boolean))] as string[];
+        if (loanIds.length === 0) {
+            const paymentSchedule = allocatePaymentsToSchedule(client.paymentSchedule, clientTxs);
+            const { nextDue } = summarizeArrears(paymentSchedule, getToday());
+            const nextPaymentDate = manualNextDate || nextDue?.dueDate || client.nextPaymentDate;
+            await patchClientFields(client.id, { paymentSchedule, nextPaymentDate });
+            return;
+        }
+        for (const loanId of loanIds) {
+            const paymentSchedule = allocatePaymentsToSchedule(loanScheduleOf(client.paymentSchedule, loanId), clientTxs.filter(t => t.loanId === loanId));
+            const { nextDue } = summarizeArrears(paymentSchedule, getToday());
+            await patchLoanFields(loanId, { paymentSchedule, nextPaymentDate: nextDue?.dueDate });
+        }
+        await reloadClient(client.id);
+    };
+
+    // --- HELPER: File Upload ---
+    // Valida el archivo y decide su ruta en el bucket. Sin señal, la ruta ya
+    // queda en el movimiento y la foto se sube al sincronizar.
+    const receiptPathFor = (file: File): string => {
+        const orgId = getOrgId() || 'public';
+        const fileExt = file.name.split('.').pop()?.toLowerCase() || '';
+        const validExts = ['jpg', 'jpeg', 'png', 'pdf', 'webp'];
+
+        if (!validExts.includes(fileExt)) {
+            throw new Error("Archivo no permitido. Solo imágenes o PDF.");
+        }
 
-            const year = new Date().getFullYear();
-            const fileName = `${orgId}/${year}/${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+        if (file.size > 5 * 1024 * 1024) {
+            throw new Error("El archivo excede el límite de 5MB.");
+        }
+
+        const year = new Date().getFullYear();
+        return `${orgId}/${year}/${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+    };
+
+    const uploadReceipt = async (file: File): Promise<string | null> => {
+        try {
+            const fileName = receiptPathFor(file);
 
             const { error: uploadError } = await supabase.storage.from('receipts').upload(fileName, file, {
                 cacheControl: '3600',
@@ -134,6 +177,55 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
+    // --- HELPER: Pago sin señal ---
+    // Va a la cola offline y se ve al instante como pendiente: saldo proyectado
+    // en el movimiento y plan/fecha del cliente ya avanzados.
+    const createdAtOf = (t: Transaction) => t.createdAt || Date.parse((t as any).created_at || '') || 0;
+    const lastBalanceOf = (clientId: string) => {
+        const ledger = transactions
+            .filter(t => t.clientId === clientId)
+            .sort((a, b) => a.date.localeCompare(b.date) || createdAtOf(a) - createdAtOf(b));
+        return ledger[ledger.length - 1]?.balanceAfter || 0;
+    };
+
+    const queueOfflinePayment = async (
+        client: Client,
+        input: Pick<QueuedPayment, 'tx' | 'penalty' | 'redirect' | 'clientFields'>,
+        receipt: QueuedReceipt | null
+    ) => {
+        const known = transactions.filter(t => t.clientId === client.id && !t.pendingSync);
+        await enqueuePayment({
+            id: input.tx.id,
+            organizationId: getOrgId() as string,
+            clientId: client.id,
+            clientName: client.name,
+            queuedAt: Date.now(),
+            ...input,
+            baseLastCreatedAt: Math.max(0, ...known.map(createdAtOf)),
+            baseClientFields: { paymentSchedule: client.paymentSchedule, nextPaymentDate: client.nextPaymentDate },
+            receipt,
+            status: 'PENDING'
+        });
+
+        const reducesDebt = [TransactionType.PAYMENT_CAPITAL, TransactionType.REDIRECT_OUT, TransactionType.SETTLEMENT].includes(input.tx.type as TransactionType);
+        const balanceAfter = lastBalanceOf(client.id) - (reducesDebt ? input.tx.amount : 0);
+        const pending: Transaction[] = [
+            { ...input.tx, balanceAfter, pendingSync: true },
+            ...(input.penalty ? [{ ...input.penalty, balanceAfter, pendingSync: true }] : []),
+            ...(input.redirect ? [{ ...input.redirect, balanceAfter: lastBalanceOf(input.redirect.clientId as string) + input.redirect.amount, pendingSync: true }] : [])
+        ];
+        setTransactions(prev => [...prev.filter(t => !pending.some(p => p.id === t.id)), ...pending]);
+        if (Object.keys(input.clientFields).length) {
+            // Los campos son del préstamo del pago: se reflejan dentro del plan unido.
+            let fields = input.clientFields;
+            if (input.tx.loanId && fields.paymentSchedule) {
+                const paymentSchedule = mergeLoanSchedule(client.paymentSchedule, input.tx.loanId, fields.paymentSchedule);
+                fields = { paymentSchedule, nextPaymentDate: summarizeArrears(paymentSchedule, getToday()).nextDue?.dueDate || fields.nextPaymentDate };
+            }
+            setClients(prev => prev.map(c => c.id === client.id ? { ...c, ...fields } : c));
+        }
+    };
+
     // ============================================================================
     // GESTIÓN DE CLIENTES
     // ============================================================================
@@ -204,6 +296,8 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         const clientWithOrg = { ...newClient, organization_id: orgId || undefined };
 
         try {
+            if (initialTransaction?.bankAccountId) assertSufficientFunds(initialTransaction.bankAccountId, initialTransaction.amount);
+
             const { collateral, createdAt, ...clientPayload } = clientWithOrg as any;
             const { error: clientError } = await supabase.from('clients').insert(clientPayload);
             if (clientError) throw clientError;
@@ -217,9 +311,7 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
                 const { error: txError } = await supabase.from('transactions').insert(txWithOrg);
                 if (txError) throw txError;
 
-                if (initialTransaction.bankAccountId) {
-                    await updateBankBalance(initialTransaction.bankAccountId, -initialTransaction.amount);
-                }
+                await refreshBankBalances([initialTransaction.bankAccountId]);
             }
 
             recordAudit('CREATE', 'CLIENT', `Nuevo cliente registrado: ${newClient.name}`);
@@ -233,10 +325,39 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
+    // Reasignación de cartera (propietario/admin). `collectorName` solo va al log.
+    const assignClients = async (clientIds: string[], collectorId: string | null, collectorName: string) => {
+        if (!validateConfig()) return false;
+        if (userRole !== 'owner' && userRole !== 'admin') {
+            addNotification("Solo el propietario o un administrador puede reasignar clientes.", 'error');
+            return false;
+        }
+        if (clientIds.length === 0) return false;
+
+        setIsOperationLoading(true);
+        try {
+            const changed = await assignClientsRpc(currentOrg!.id, clientIds, collectorId);
+            const ids = new Set(clientIds);
+            setClients(prev => prev.map(c => ids.has(c.id) ? { ...c, assignedTo: collectorId } : c));
+            const names = clients.filter(c => ids.has(c.id)).map(c => c.name);
+            recordAudit('UPDATE', 'CLIENT', `${changed} cliente(s) asignado(s) a ${collectorName}`,
+                `Clientes: ${names.slice(0, 20).join(', ')}${names.length > 20 ? ` y ${names.length - 20} más` : ''}`);
+            addNotification(`${changed} cliente(s) asignado(s) a ${collectorName}.`, 'success');
+            return true;
+        } catch (e: any) {
+            addNotification(`Error al asignar: ${getErrorMessage(e)}`, 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    // Purga física: solo el propietario. La corrección normal es reverseTransaction,
+    // que deja rastro del movimiento original.
     const deleteTransaction = async (txToDelete: Transaction) => {
         if (!validateConfig()) return false;
-        if (!hasPermission(userRole, 'delete_transactions')) {
-            addNotification("Solo Propietarios pueden eliminar transacciones.", 'error');
+        if (userRole !== 'owner') {
+            addNotification("Solo el Propietario puede purgar transacciones. Use la reversión.", 'error');
             return false;
         }
 
@@ -245,20 +366,21 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
             const { error } = await supabase.from('transactions').delete().eq('id', txToDelete.id);
             if (error) throw error;
 
-            if (txToDelete.bankAccountId) {
-                const isOutgoing = [TransactionType.DISBURSEMENT, TransactionType.REFINANCE].includes(txToDelete.type as TransactionType);
-                const reversalAmount = isOutgoing ? txToDelete.amount : -(txToDelete.amount + (txToDelete.interestPaid || 0));
-                // Reversión: se permite saldo negativo para no bloquear el borrado.
-                await updateBankBalance(txToDelete.bankAccountId, reversalAmount, true);
-            }
+            // La purga postea el asiento inverso en el diario (salvo anulados/REVERSAL,
+            // que ya no tienen efecto neto en caja); aquí solo leemos el saldo.
+            await refreshBankBalances([txToDelete.bankAccountId]);
 
-            const remainingTxs = transactions.filter(t => t.id !== txToDelete.id);
-            await recalculateClientTransactions(txToDelete.clientId, remainingTxs);
+            // Saldos recalculados en el servidor sobre el libro real (ver RPC).
+            const owner = clients.find(c => c.id === txToDelete.clientId);
+            if (owner) {
+                const recalculatedTxs = await recalculateClientTransactions(owner.id);
+                await syncInstallments(owner, recalculatedTxs);
+            }
 
-            const amountFmt = new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP' }).format(txToDelete.amount);
-            recordAudit('DELETE', 'TRANSACTION', `Transacción eliminada: ${amountFmt}`, `Tipo: ${txToDelete.type} | ID: ${txToDelete.id}`);
+            const amountFmt = formatCurrency(txToDelete.amount);
+            recordAudit('DELETE', 'TRANSACTION', `Transacción purgada: ${amountFmt}`, `Tipo: ${txToDelete.type} | ID: ${txToDelete.id}`, 'WARNING');
 
-            addNotification("Transacción eliminada.", 'success');
+            addNotification("Transacción purgada.", 'success');
             return true;
         } catch (error: any) {
             addNotification("Error eliminando: " + getErrorMessage(error), 'error');
@@ -268,6 +390,137 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
+    const reverseTransaction = async (txToReverse: Transaction, reason: string) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'delete_transactions')) {
+            addNotification("No tiene permiso para reversar transacciones.", 'error');
+            return false;
+        }
+        if (!reason.trim()) {
+            addNotification("Debe indicar el motivo de la reversión.", 'error');
+            return false;
+        }
+        if (txToReverse.voided || txToReverse.type === TransactionType.REVERSAL) {
+            addNotification("Este movimiento ya fue reversado.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const result = await reverseTransactionRpc(txToReverse.id, reason.trim());
+
+            // Fusionar los libros de los clientes afectados y los saldos de caja.
+            const touched = new Set(result.transactions.map(t => t.clientId));
+            setTransactions(prev => [...prev.filter(t => !touched.has(t.clientId)), ...result.transactions]);
+            setBankAccounts(prev => prev.map(b => {
+                const updated = result.banks.find(x => x.id === b.id);
+                return updated ? { ...b, balance: updated.balance } : b;
+            }));
+
+            // Reimputar el plan de cuotas sin el pago anulado.
+            for (const clientId of touched) {
+                const owner = clients.find(c => c.id === clientId);
+                if (owner) await syncInstallments(owner, result.transactions.filter(t => t.clientId === clientId));
+            }
+
+            const amountFmt = formatCurrency(txToReverse.amount + (txToReverse.interestPaid || 0));
+            recordAudit('UPDATE', 'TRANSACTION', `Transacción reversada: ${amountFmt}`, `Tipo: ${txToReverse.type} | ID: ${txToReverse.id} | Motivo: ${reason.trim()}`, 'WARNING');
+
+            addNotification("Transacción reversada.", 'success');
+            return true;
+        } catch (error: any) {
+            addNotification("Error reversando: " + getErrorMessage(error), 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    // Reestructuración: el servidor deja el movimiento, la versión anterior de
+    // las condiciones y la auditoría; aquí solo se fusiona el resultado.
+    const restructureLoan = async (input: RestructureLoanInput) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'create_transactions')) {
+            addNotification("No tiene permiso para reestructurar préstamos.", 'error');
+            return false;
+        }
+        if (input.reason.trim().length < 5) {
+            addNotification("Indique el motivo de la reestructuración.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const result = await restructureLoanRpc({ ...input, reason: input.reason.trim() });
+            setTransactions(prev => [...prev.filter(t => t.clientId !== result.client.id), ...result.transactions]);
+            setClients(prev => prev.map(c => c.id === result.client.id ? result.client : c));
+            addNotification(`Préstamo reestructurado (versión ${result.version.version}).`, 'success');
+            return true;
+        } catch (error: any) {
+            addNotification("Error reestructurando: " + getErrorMessage(error), 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    // Castigo de cartera (propietario/admin): el servidor deja un WRITE_OFF por
+    // préstamo, el registro con el aprobador y el cliente en BAD_DEBT.
+    const writeOffClient = async (input: WriteOffClientInput) => {
+        if (!validateConfig()) return false;
+        if (userRole !== 'owner' && userRole !== 'admin') {
+            addNotification("Solo el propietario o un administrador puede castigar cartera.", 'error');
+            return false;
+        }
+        if (input.reason.trim().length < 5) {
+            addNotification("Indique el motivo del castigo.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const result = await writeOffClientRpc({ ...input, reason: input.reason.trim() });
+            setTransactions(prev => [...prev.filter(t => t.clientId !== result.client.id), ...result.transactions]);
+            setClients(prev => prev.map(c => c.id === result.client.id ? result.client : c));
+            addNotification(`Cartera castigada: ${formatCurrency(result.writeOff.amount)}.`, 'success');
+            return true;
+        } catch (error: any) {
+            addNotification("Error castigando cartera: " + getErrorMessage(error), 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    // Pago de un cliente castigado: ingreso por recuperación, no toca el saldo.
+    const recordRecovery = async (input: RecordRecoveryInput) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'create_transactions')) {
+            addNotification("No tiene permiso para registrar recuperaciones.", 'error');
+            return false;
+        }
+        if (!Number.isFinite(input.amount) || input.amount <= 0) {
+            addNotification("El monto debe ser un número positivo.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const result = await recordRecoveryRpc(input);
+            setTransactions(prev => [...prev.filter(t => t.clientId !== input.clientId), ...result.transactions]);
+            if (result.bankBalance !== null) {
+                setBankAccounts(prev => prev.map(b => b.id === input.bankAccountId ? { ...b, balance: result.bankBalance as number } : b));
+            }
+            addNotification(`Recuperación registrada: ${formatCurrency(input.amount)}.`, 'success');
+            return true;
+        } catch (error: any) {
+            addNotification("Error registrando la recuperación: " + getErrorMessage(error), 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
     const saveTransaction = async (data: TransactionFormInput, activeClient: Client, editingTransaction: Transaction | null, receiptFile?: File | null) => {
         if (!validateConfig()) return false;
 
@@ -286,17 +539,80 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
             addNotification("El interés no puede ser negativo.", 'error');
             return false;
         }
+        if (editingTransaction && (editingTransaction.voided || editingTransaction.type === TransactionType.REVERSAL)) {
+            addNotification("Un movimiento reversado no se puede editar.", 'error');
+            return false;
+        }
+        const penaltyNum = Number(data.penalty) || 0;
+        if (!Number.isFinite(penaltyNum) || penaltyNum < 0) {
+            addNotification("La mora no puede ser negativa.", 'error');
+            return false;
+        }
+        // Un pago se guarda con register_payment: movimiento, mora, caja, saldos y
+        // plan en una sola transacción. Editarlo por upsert volvería a esos pasos
+        // sueltos, así que un pago mal cargado se reversa y se registra de nuevo.
+        const RPC_PAYMENT_TYPES: TransactionType[] = [
+            TransactionType.PAYMENT_CAPITAL,
+            TransactionType.PAYMENT_INTEREST,
+            TransactionType.PAYMENT_PENALTY,
+            TransactionType.REDIRECT_OUT,
+            TransactionType.REDIRECT_IN,
+            TransactionType.SETTLEMENT,
+        ];
+        if (editingTransaction && RPC_PAYMENT_TYPES.includes(editingTransaction.type as TransactionType)) {
+            addNotification("Los pagos no se editan: reverse el movimiento y registre el pago correcto.", 'error');
+            return false;
+        }
+
+        // FIX #3: avanzar la fecha de próximo pago del cliente. Antes nunca se
+        // persistía → tras el primer vencimiento todo cliente activo quedaba en
+        // "mora" permanente y se rompían filtros de cobro/notificaciones.
+        const SCHEDULED_TYPES: TransactionType[] = [
+            TransactionType.PAYMENT_CAPITAL,
+            TransactionType.PAYMENT_INTEREST,
+            TransactionType.DISBURSEMENT,
+            TransactionType.REFINANCE,
+        ];
+        // Tipos de PAGO recurrente: al registrarlos, la cuota se considera cubierta
+        // y el próximo vencimiento debe avanzar una frecuencia (semanal/diario/etc).
+        const PAYMENT_TYPES: TransactionType[] = [
+            TransactionType.PAYMENT_CAPITAL,
+            TransactionType.PAYMENT_INTEREST,
+        ];
+        // Pagos que se imputan cuota a cuota cuando el cliente tiene plan.
+        const INSTALLMENT_TYPES: TransactionType[] = [
+            ...PAYMENT_TYPES,
+            TransactionType.REDIRECT_OUT,
+            TransactionType.SETTLEMENT,
+        ];
+
+        // Sin señal solo se cobran cuotas nuevas (quedan en cola); lo demás
+        // necesita al servidor para validar caja y recalcular el plan.
+        const offline = !navigator.onLine;
+        if (offline && (editingTransaction || !INSTALLMENT_TYPES.includes(data.type))) {
+            addNotification("Sin conexión: solo se pueden registrar pagos. Intente de nuevo al recuperar la señal.", 'error');
+            return false;
+        }
 
         setIsOperationLoading(true);
 
         try {
             let finalReceiptUrl = data.receiptUrl;
-            if (receiptFile) {
+            let queuedReceipt: QueuedReceipt | null = null;
+            if (receiptFile && offline) {
+                finalReceiptUrl = receiptPathFor(receiptFile);
+                queuedReceipt = { path: finalReceiptUrl, contentType: receiptFile.type, data: receiptFile };
+            } else if (receiptFile) {
                 const uploadedUrl = await uploadReceipt(receiptFile);
                 if (uploadedUrl) finalReceiptUrl = uploadedUrl;
             }
 
             const txId = editingTransaction ? editingTransaction.id : generateId();
+            // Préstamo del movimiento: el elegido en el formulario o, para pagos,
+            // el de la cuota más atrasada. Un desembolso abre uno nuevo en el servidor.
+            const loanId = editingTransaction
+                ? editingTransaction.loanId
+                : data.type === TransactionType.DISBURSEMENT ? undefined : (data.loanId || defaultLoanIdFor(activeClient.paymentSchedule));
             const transactionData: Transaction = {
                 id: txId,
                 organization_id: getOrgId() || undefined,
@@ -313,61 +629,151 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
                 // Enlace a la contraparte cuando este cliente redirige un pago a otro.
                 relatedClientId: (data.type === TransactionType.REDIRECT_OUT) ? data.targetClientId : (editingTransaction?.relatedClientId),
                 relatedTransactionId: editingTransaction?.relatedTransactionId,
+                loanId,
                 createdAt: editingTransaction?.createdAt || Date.now()
             };
 
+            // Mora cobrada junto con el pago: movimiento propio (PAYMENT_PENALTY)
+            // para que no se mezcle con el interés corriente en los reportes.
+            const penaltyTx: Transaction | null = (!editingTransaction && penaltyNum > 0) ? {
+                id: generateId(),
+                organization_id: getOrgId() || undefined,
+                clientId: activeClient.id,
+                date: data.date,
+                type: TransactionType.PAYMENT_PENALTY,
+                amount: penaltyNum,
+                interestPaid: 0,
+                capitalPaid: 0,
+                balanceAfter: 0,
+                notes: 'Intereses de mora',
+                bankAccountId: data.bankAccountId,
+                relatedTransactionId: txId,
+                loanId,
+                createdAt: Date.now() + 1,
+            } : null;
+
+            const isNewLoan = data.type === TransactionType.DISBURSEMENT || data.type === TransactionType.REFINANCE;
+            const loanSchedule = loanId ? loanScheduleOf(activeClient.paymentSchedule, loanId) : [];
+            const hasSchedule = loanId ? loanSchedule.length > 0 : !!activeClient.paymentSchedule?.length;
+
+            // Pago NUEVO: una sola RPC aplica movimiento, mora, caja, saldos, plan
+            // de cuotas y contraparte de redirección en la misma transacción de BD.
+            if (!editingTransaction && INSTALLMENT_TYPES.includes(data.type)) {
+                const clientFields: Partial<Client> = {};
+                if (hasSchedule) {
+                    // Imputación sobre el libro local + el pago nuevo (mismo orden que el servidor).
+                    // Con préstamos, solo su plan y sus movimientos: el servidor lo guarda en el préstamo.
+                    const ledger = [
+                        ...transactions
+                            .filter(t => t.clientId === activeClient.id && (!loanId || t.loanId === loanId))
+                            .sort((a, b) => a.date.localeCompare(b.date) || (a.createdAt || 0) - (b.createdAt || 0)),
+                        transactionData,
+                        ...(penaltyTx ? [penaltyTx] : []),
+                    ];
+                    const paymentSchedule = allocatePaymentsToSchedule(loanId ? loanSchedule : activeClient.paymentSchedule!, ledger);
+                    const { nextDue } = summarizeArrears(paymentSchedule, getToday());
+                    clientFields.paymentSchedule = paymentSchedule;
+                    clientFields.nextPaymentDate = data.nextPaymentDate || nextDue?.dueDate || activeClient.nextPaymentDate;
+                } else if (SCHEDULED_TYPES.includes(data.type)) {
+                    // 1) Si el usuario fijó la fecha a mano en el formulario, esa manda.
+                    // 2) Si no, se calcula desde la fecha del pago según la frecuencia.
+                    let nextDate = data.nextPaymentDate;
+                    if (!nextDate && activeClient.paymentFrequency) {
+                        nextDate = calculateNextPaymentDate(data.date || getToday(), activeClient.paymentFrequency);
+                    }
+                    if (nextDate && nextDate !== activeClient.nextPaymentDate) clientFields.nextPaymentDate = nextDate;
+                }
+
+                // FIX #2: registrar la contraparte de una redirección. El cliente activo
+                // PAGA (REDIRECT_OUT, reduce su deuda) y el dinero va a OTRO cliente,
+                // cuya deuda debe AUMENTAR (REDIRECT_IN) y su saldo en espera debe
+                // bajar. Antes solo se guardaba el lado del pagador → el dinero
+                // desaparecía de los libros del receptor.
+                const target = (data.type === TransactionType.REDIRECT_OUT && data.targetClientId)
+                    ? clients.find(c => c.id === data.targetClientId)
+                    : undefined;
+                const inboundTx: Transaction | null = target ? {
+                    id: generateId(),
+                    organization_id: getOrgId() || undefined,
+                    clientId: target.id,
+                    date: data.date,
+                    type: TransactionType.REDIRECT_IN,
+                    amount: Number(data.amount),
+                    interestPaid: 0,
+                    capitalPaid: 0,
+                    balanceAfter: 0,
+                    notes: `Redirección recibida de ${activeClient.name}`,
+                    relatedClientId: activeClient.id,
+                    relatedTransactionId: txId,
+                    createdAt: Date.now(),
+                } : null;
+
+                // La redirección también cuenta contra el cupo de quien la recibe.
+                if (inboundTx && data.limitOverrideReason && !offline) {
+                    await authorizeLendingOverride(inboundTx.clientId, inboundTx.amount, data.limitOverrideReason);
+                }
+
+                const input = { tx: transactionData, penalty: penaltyTx, clientFields, redirect: inboundTx };
+                const result = offline ? null : await registerPayment(input).catch(err => {
+                    if (isNetworkError(err)) return null;
+                    throw err;
+                });
+
+                if (!result) {
+                    await queueOfflinePayment(activeClient, input, queuedReceipt);
+                    const amountFmt = formatCurrency(data.amount);
+                    recordAudit('CREATE', 'TRANSACTION', `Pago en cola (sin conexión): ${amountFmt}`, `Cliente: ${activeClient.name} | Tipo: ${data.type}`, 'INFO');
+                    addNotification("Sin conexión: el pago quedó pendiente y se enviará al volver la señal.", 'info');
+                    return true;
+                }
+
+                // Fusionar el resultado autoritativo del servidor en el estado local.
+                const touched = new Set([activeClient.id, ...(result.targetClient ? [result.targetClient.id] : [])]);
+                setTransactions(prev => [
+                    ...prev.filter(t => !touched.has(t.clientId)),
+                    ...result.transactions,
+                    ...result.targetTransactions,
+                ]);
+                setClients(prev => prev.map(c => {
+                    if (c.id === result.client.id) return result.client;
+                    if (result.targetClient && c.id === result.targetClient.id) return result.targetClient;
+                    return c;
+                }));
+                if (data.bankAccountId && result.bankBalance !== null) {
+                    setBankAccounts(prev => prev.map(b => b.id === data.bankAccountId ? { ...b, balance: result.bankBalance as number } : b));
+                }
+
+                const amountFmt = formatCurrency(data.amount);
+                recordAudit('CREATE', 'TRANSACTION', `Nueva Transacción: ${amountFmt}`, `Cliente: ${activeClient.name} | Tipo: ${data.type}${penaltyTx ? ` | Mora: ${penaltyNum}` : ''}`);
+
+                addNotification("Transacción procesada.", 'success');
+                return true;
+            }
+
+            if (!editingTransaction && isNewLoan) assertSufficientFunds(data.bankAccountId, Number(data.amount));
+
+            // Préstamo sobre el cupo: el propietario lo autoriza (queda en audit_logs)
+            // y el trigger de transactions consume la autorización al guardar.
+            if (isNewLoan && data.limitOverrideReason) {
+                const replaced = editingTransaction && !editingTransaction.voided ? Number(editingTransaction.amount) || 0 : 0;
+                await authorizeLendingOverride(activeClient.id, Number(data.amount), data.limitOverrideReason, replaced);
+            }
+
             const { createdAt: txCreated, ...safeTxPayload } = transactionData as any;
             const dbPayload = { ...safeTxPayload, created_at: new Date(txCreated).toISOString() };
 
+            // FIX #1: al EDITAR, el trigger del diario postea el contra-asiento del
+            // estado anterior y el asiento nuevo, así que la caja no duplica el delta.
             const { error } = await supabase.from('transactions').upsert(dbPayload);
             if (error) throw error;
 
-            const isOutgoingType = (t: TransactionType | 'BANK_DEPOSIT' | 'BANK_WITHDRAWAL') =>
-                [TransactionType.DISBURSEMENT, TransactionType.REFINANCE].includes(t as TransactionType);
-
-            if (editingTransaction) {
-                // FIX #1: al EDITAR, la fila se reemplaza vía upsert pero el efecto
-                // bancario del monto ANTERIOR seguía aplicado → la caja duplicaba el
-                // delta. Revertimos el viejo y aplicamos el nuevo, AGREGANDO por
-                // cuenta: si es la misma cuenta, un solo update (updateBankBalance lee
-                // el saldo del estado en memoria, que no se refresca entre llamadas).
-                const deltas: Record<string, number> = {};
-                if (editingTransaction.bankAccountId) {
-                    const oldReversal = isOutgoingType(editingTransaction.type)
-                        ? editingTransaction.amount
-                        : -(editingTransaction.amount + (editingTransaction.interestPaid || 0));
-                    deltas[editingTransaction.bankAccountId] = (deltas[editingTransaction.bankAccountId] || 0) + oldReversal;
-                }
-                if (data.bankAccountId) {
-                    const newVal = isOutgoingType(data.type) ? -data.amount : data.amount + (data.interest || 0);
-                    deltas[data.bankAccountId] = (deltas[data.bankAccountId] || 0) + newVal;
-                }
-                for (const [bankId, delta] of Object.entries(deltas)) {
-                    if (delta !== 0) await updateBankBalance(bankId, delta, true);
-                }
-            } else if (data.bankAccountId) {
-                const newVal = isOutgoingType(data.type) ? -data.amount : data.amount + (data.interest || 0);
-                await updateBankBalance(data.bankAccountId, newVal);
-            }
+            await refreshBankBalances([editingTransaction?.bankAccountId, data.bankAccountId]);
+
+            const recalculatedTxs = await recalculateClientTransactions(activeClient.id);
 
-            await recalculateClientTransactions(activeClient.id, [...transactions, transactionData]);
-
-            // FIX #3: avanzar la fecha de próximo pago del cliente. Antes nunca se
-            // persistía → tras el primer vencimiento todo cliente activo quedaba en
-            // "mora" permanente y se rompían filtros de cobro/notificaciones.
-            const SCHEDULED_TYPES: TransactionType[] = [
-                TransactionType.PAYMENT_CAPITAL,
-                TransactionType.PAYMENT_INTEREST,
-                TransactionType.DISBURSEMENT,
-                TransactionType.REFINANCE,
-            ];
-            // Tipos de PAGO recurrente: al registrarlos, la cuota se considera cubierta
-            // y el próximo vencimiento debe avanzar una frecuencia (semanal/diario/etc).
-            const PAYMENT_TYPES: TransactionType[] = [
-                TransactionType.PAYMENT_CAPITAL,
-                TransactionType.PAYMENT_INTEREST,
-            ];
-            if (!editingTransaction && SCHEDULED_TYPES.includes(data.type)) {
+            if (hasSchedule && !isNewLoan && (INSTALLMENT_TYPES.includes(data.type) || editingTransaction)) {
+                await syncInstallments(activeClient, recalculatedTxs, editingTransaction ? undefined : data.nextPaymentDate);
+            } else if (!editingTransaction && SCHEDULED_TYPES.includes(data.type)) {
                 // 1) Si el usuario fijó la fecha a mano en el formulario, esa manda.
                 let nextDate = data.nextPaymentDate;
                 // 2) Si no, y es un pago de cuota, la calculamos automáticamente
@@ -380,44 +786,49 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
                 }
             }
 
-            // FIX #2: registrar la contraparte de una redirección. El cliente activo
-            // PAGA (REDIRECT_OUT, ya guardado, reduce su deuda) y el dinero va a OTRO
-            // cliente, cuya deuda debe AUMENTAR (REDIRECT_IN) y su saldo en espera
-            // debe bajar. Antes solo se guardaba el lado del pagador → el dinero
-            // desaparecía de los libros del receptor.
-            if (!editingTransaction && data.type === TransactionType.REDIRECT_OUT && data.targetClientId) {
-                const target = clients.find(c => c.id === data.targetClientId);
-                if (target) {
-                    const inboundTx: Transaction = {
-                        id: generateId(),
-                        organization_id: getOrgId() || undefined,
-                        clientId: target.id,
-                        date: data.date,
-                        type: TransactionType.REDIRECT_IN,
-                        amount: Number(data.amount),
-                        interestPaid: 0,
-                        capitalPaid: 0,
-                        balanceAfter: 0,
-                        notes: `Redirección recibida de ${activeClient.name}`,
-                        relatedClientId: activeClient.id,
-                        relatedTransactionId: txId,
-                        createdAt: Date.now(),
-                    };
-                    const { createdAt: inCreated, ...safeIn } = inboundTx as any;
-                    const { error: inErr } = await supabase.from('transactions').insert({ ...safeIn, created_at: new Date(inCreated).toISOString() });
-                    if (inErr) throw inErr;
-
-                    // Recalcular saldos del cliente receptor incluyendo la entrada.
-                    await recalculateClientTransactions(target.id, [...transactions, transactionData, inboundTx]);
-
-                    // Bajar el saldo en espera de redirección del receptor.
-                    const remainingPending = Math.max(0, (target.pendingRedirectionBalance || 0) - Number(data.amount));
-                    await patchClientFields(target.id, { pendingRedirectionBalance: remainingPending });
+            // Nuevo crédito (desembolso o refinanciación): persistir las condiciones
+            // del simulador y regenerar el plan de pagos sobre la deuda resultante.
+            // En refinanciación el capital es el saldo total tras el movimiento.
+            // Con préstamos, el capital es el saldo del préstamo y el plan se guarda
+            // en él; el cliente conserva las condiciones como sugerencia para el próximo.
+            if (!editingTransaction && isNewLoan && data.paymentFrequency && data.interestType) {
+                const savedLoanId = recalculatedTxs.find(t => t.id === txId)?.loanId;
+                const loan = savedLoanId ? (await fetchClientLoans(activeClient.id)).find(l => l.id === savedLoanId) : undefined;
+                const principal = loan
+                    ? loan.balance
+                    : data.type === TransactionType.REFINANCE
+                        ? (recalculatedTxs[recalculatedTxs.length - 1]?.balanceAfter || Number(data.amount))
+                        : Number(data.amount);
+                const paymentSchedule = generateAmortizationSchedule({
+                    initialAmount: String(Math.round(principal)),
+                    interestRate: String(data.interestRate ?? 0),
+                    loanTermMonths: String(data.loanTermMonths ?? 1),
+                    paymentFrequency: data.paymentFrequency,
+                    interestType: data.interestType
+                }, data.date);
+                const terms = {
+                    interestRate: data.interestRate,
+                    loanTermMonths: data.loanTermMonths,
+                    paymentFrequency: data.paymentFrequency,
+                    interestType: data.interestType,
+                };
+                const plan = {
+                    installmentAmount: data.installmentAmount,
+                    installmentsCount: data.installmentsCount,
+                    paymentSchedule,
+                    nextPaymentDate: data.nextPaymentDate || paymentSchedule[0]?.dueDate || activeClient.nextPaymentDate,
+                };
+                if (loan) {
+                    await patchLoanFields(loan.id, { ...terms, ...plan });
+                    await patchClientFields(activeClient.id, { ...terms, ...(data.loanLimit ? { loanLimit: data.loanLimit } : {}) });
+                    await reloadClient(activeClient.id);
+                } else {
+                    await patchClientFields(activeClient.id, { ...terms, ...plan, ...(data.loanLimit ? { loanLimit: data.loanLimit } : {}) });
                 }
             }
 
             const actionType = editingTransaction ? 'UPDATE' : 'CREATE';
-            const amountFmt = new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP' }).format(data.amount);
+            const amountFmt = formatCurrency(data.amount);
             recordAudit(actionType, 'TRANSACTION', `${actionType === 'CREATE' ? 'Nueva' : 'Edición'} Transacción: ${amountFmt}`, `Cliente: ${activeClient.name} | Tipo: ${data.type}`);
 
             addNotification("Transacción procesada.", 'success');
@@ -430,7 +841,7 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
-    const createBankMovement = async (accountId: string, amount: number, type: 'DEPOSIT' | 'WITHDRAWAL', note: string, receiptFile?: File | null) => {
+    const createBankMovement = async (accountId: string, amount: number, type: 'DEPOSIT' | 'WITHDRAWAL', note: string, receiptFile?: File | null, exchangeRate?: number) => {
         if (!validateConfig()) return false;
 
         const amountNum = Number(amount);
@@ -445,8 +856,7 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
             let receiptPath: string | undefined;
             if (receiptFile) { const uploaded = await uploadReceipt(receiptFile); if (uploaded) receiptPath = uploaded; }
 
-            const movementType = type === 'DEPOSIT' ? 1 : -1;
-            await updateBankBalance(accountId, amount * movementType);
+            if (type === 'WITHDRAWAL') assertSufficientFunds(accountId, amount);
 
             const tx: Transaction = {
                 id: generateId(),
@@ -464,14 +874,20 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
                 balanceAfter: 0,
                 notes: note,
                 bankAccountId: accountId,
+                // Solo cuenta en cuentas de otra moneda; el servidor la normaliza a 1 en las demás.
+                exchangeRate: exchangeRate && exchangeRate > 0 ? exchangeRate : 1,
                 receiptUrl: receiptPath,
                 createdAt: Date.now()
             };
 
+            // El movimiento postea su asiento (Caja contra Capital) y el diario mueve el saldo.
             const { createdAt: txCreated, ...safeTx } = tx as any;
-            await supabase.from('transactions').insert({ ...safeTx, created_at: new Date(txCreated).toISOString() });
+            const { error } = await supabase.from('transactions').insert({ ...safeTx, created_at: new Date(txCreated).toISOString() });
+            if (error) throw error;
+            await refreshBankBalances([accountId]);
 
-            const amountFmt = new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP' }).format(amount);
+            const account = bankAccounts.find(b => b.id === accountId);
+            const amountFmt = formatCurrency(amount, account?.currency);
             recordAudit('CREATE', 'BANK', `Movimiento Bancario: ${amountFmt}`, `Cuenta: ${accountId} | Nota: ${note}`);
 
             addNotification("Movimiento registrado.", 'success');
@@ -484,13 +900,176 @@ export const useDataOperations = (addNotification: (msg: string, type: 'success'
         }
     };
 
+    const createBankTransfer = async (fromAccountId: string, toAccountId: string, amount: number, fee: number, note: string, rate?: number) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'manage_banks')) {
+            addNotification("No tiene permiso para mover fondos entre cuentas.", 'error');
+            return false;
+        }
+
+        const amountNum = Number(amount);
+        const feeNum = Number(fee) || 0;
+        if (!Number.isFinite(amountNum) || amountNum <= 0 || amountNum > 1_000_000_000_000 || feeNum < 0) {
+            addNotification("El monto de la transferencia debe ser un número positivo válido.", 'error');
+            return false;
+        }
+        if (fromAccountId === toAccountId) {
+            addNotification("Elija dos cuentas distintas.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            assertSufficientFunds(fromAccountId, amountNum + feeNum);
+
+            // Ambas patas (y la comisión) en una sola transacción de la BD: si algo
+            // falla no queda una salida sin su entrada.
+            const result = await transferBetweenAccounts(fromAccountId, toAccountId, amountNum, feeNum, note.trim(), rate);
+
+            setTransactions(prev => {
+                const ids = new Set(result.transactions.map(t => t.id));
+                return [...prev.filter(t => !ids.has(t.id)), ...result.transactions];
+            });
+            setBankAccounts(prev => prev.map(b => {
+                const updated = result.banks.find(x => x.id === b.id);
+                return updated ? { ...b, balance: updated.balance } : b;
+            }));
+
+            const fromAccount = bankAccounts.find(b => b.id === fromAccountId);
+            const fmt = (v: number) => formatCurrency(v, fromAccount?.currency);
+            const fromName = fromAccount?.name || fromAccountId;
+            const toName = bankAccounts.find(b => b.id === toAccountId)?.name || toAccountId;
+            const received = result.transactions.find(t => t.type === 'BANK_TRANSFER_IN');
+            const rateNote = rate && received ? ` | Tasa: ${rate} (recibe ${formatCurrency(received.amount, bankAccounts.find(b => b.id === toAccountId)?.currency)})` : '';
+            recordAudit('CREATE', 'BANK', `Transferencia: ${fmt(amountNum)}`, `${fromName} → ${toName}${rateNote}${feeNum > 0 ? ` | Comisión: ${fmt(feeNum)}` : ''}${note.trim() ? ` | Nota: ${note.trim()}` : ''}`);
+
+            addNotification("Transferencia registrada.", 'success');
+            return true;
+        } catch (e: any) {
+            addNotification(`Error: ${getErrorMessage(e)}`, 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    const reverseBankTransfer = async (leg: Transaction, reason: string) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'manage_banks')) {
+            addNotification("No tiene permiso para mover fondos entre cuentas.", 'error');
+            return false;
+        }
+        if (!reason.trim()) {
+            addNotification("Debe indicar el motivo de la reversión.", 'error');
+            return false;
+        }
+        if (leg.voided) {
+            addNotification("Esta transferencia ya fue reversada.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const result = await reverseTransfer(leg.id, reason.trim());
+
+            setTransactions(prev => {
+                const ids = new Set(result.transactions.map(t => t.id));
+                return [...prev.filter(t => !ids.has(t.id)), ...result.transactions];
+            });
+            setBankAccounts(prev => prev.map(b => {
+                const updated = result.banks.find(x => x.id === b.id);
+                return updated ? { ...b, balance: updated.balance } : b;
+            }));
+
+            const amountFmt = formatCurrency(leg.amount, bankAccounts.find(b => b.id === leg.bankAccountId)?.currency);
+            recordAudit('UPDATE', 'BANK', `Transferencia reversada: ${amountFmt}`, `ID: ${leg.id} | Motivo: ${reason.trim()}`, 'WARNING');
+
+            addNotification("Transferencia reversada.", 'success');
+            return true;
+        } catch (e: any) {
+            addNotification("Error reversando: " + getErrorMessage(e), 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    const updateBankAccount = async (account: BankAccount, fields: { name: string; accountNumber: string }) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'manage_banks')) {
+            addNotification("No tiene permiso para modificar cuentas.", 'error');
+            return false;
+        }
+        const name = fields.name.trim();
+        const accountNumber = fields.accountNumber.trim();
+        if (!name) {
+            addNotification("La cuenta debe tener un nombre.", 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const updated = await updateBankAccountRow(account.id, { name, accountNumber });
+            setBankAccounts(prev => prev.map(b => b.id === updated.id ? { ...b, ...updated } : b));
+
+            const changes = [
+                name !== account.name ? `Nombre: ${account.name} → ${name}` : '',
+                accountNumber !== (account.accountNumber || '') ? `Número: ${account.accountNumber || '—'} → ${accountNumber || '—'}` : ''
+            ].filter(Boolean).join(' | ');
+            recordAudit('UPDATE', 'BANK', `Cuenta editada: ${name}`, changes || 'Sin cambios');
+
+            addNotification("Cuenta actualizada.", 'success');
+            return true;
+        } catch (e: any) {
+            addNotification(`Error: ${getErrorMessage(e)}`, 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
+    const archiveBankAccount = async (account: BankAccount, archived: boolean) => {
+        if (!validateConfig()) return false;
+        if (!hasPermission(userRole, 'manage_banks')) {
+            addNotification("No tiene permiso para archivar cuentas.", 'error');
+            return false;
+        }
+        if (archived && account.balance !== 0) {
+            addNotification(`Solo se puede archivar una cuenta en cero (saldo ${formatCurrency(account.balance, account.currency)}).`, 'error');
+            return false;
+        }
+
+        setIsOperationLoading(true);
+        try {
+            const updated = await setBankAccountArchived(account.id, archived);
+            setBankAccounts(prev => prev.map(b => b.id === updated.id ? { ...b, ...updated } : b));
+            recordAudit('UPDATE', 'BANK', `${archived ? 'Cuenta archivada' : 'Cuenta restaurada'}: ${account.name}`, `Cuenta: ${account.id}`);
+            addNotification(archived ? "Cuenta archivada." : "Cuenta restaurada.", 'success');
+            return true;
+        } catch (e: any) {
+            addNotification(`Error: ${getErrorMessage(e)}`, 'error');
+            return false;
+        } finally {
+            setIsOperationLoading(false);
+        }
+    };
+
     return {
         deleteClient,
         updateClient,
         createClient,
+        assignClients,
         deleteTransaction,
+        reverseTransaction,
+        restructureLoan,
+        writeOffClient,
+        recordRecovery,
         saveTransaction,
         createBankMovement,
+        createBankTransfer,
+        reverseBankTransfer,
+        updateBankAccount,
+        archiveBankAccount,
         isOperationLoading,
         uploadReceipt,
         recordAudit
@@ -7,6 +7,7 @@ import { AuthProvider } from './contexts/AuthContext';
 import { OrganizationProvider } from './contexts/OrganizationContext';
 
 import { DataProvider } from './contexts/DataContext';
+import { OfflineProvider } from './contexts/OfflineContext';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 const rootElement = document.getElementById('root');
@@ -21,7 +22,9 @@ root.render(
       <AuthProvider>
         <OrganizationProvider>
           <DataProvider>
-            <App />
+            <OfflineProvider>
+              <App />
+            </OfflineProvider>
           </DataProvider>
         </OrganizationProvider>
       </AuthProvider>
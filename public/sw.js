@@ -1,5 +1,5 @@
 
-const CACHE_NAME = 'presta-flow-v4';
+const CACHE_NAME = 'presta-flow-v5';
 const ASSETS = [
     '/',
     '/index.html',
@@ -43,9 +43,19 @@ self.addEventListener('fetch', (event) => {
     if (url.origin !== self.location.origin) return;
 
     if (event.request.mode === 'navigate') {
-        // Network-first para navegación/HTML
+        // Network-first para navegación/HTML. La copia de '/' se renueva en cada
+        // carga con señal: sin ella, la app se abre offline con los chunks del
+        // último deploy visto (los datos salen de IndexedDB).
         event.respondWith(
-            fetch(event.request).catch(() => caches.match('/').then(r => r || caches.match('/index.html')))
+            fetch(event.request)
+                .then((response) => {
+                    if (response && response.ok) {
+                        const copy = response.clone();
+                        caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+                    }
+                    return response;
+                })
+                .catch(() => caches.match('/').then(r => r || caches.match('/index.html')))
         );
         return;
     }
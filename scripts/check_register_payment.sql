@@ -0,0 +1,155 @@
+-- ============================================================================
+-- Verificación de regresión de public.register_payment. Llama a la RPC con el
+-- mismo JSON que arma el front (services/transactionService.ts → toDbRow): sin
+-- las columnas que el navegador no conoce, como "voided". Antes la RPC copiaba
+-- el JSON con jsonb_populate_record y esas columnas llegaban en NULL, violando
+-- su not null aunque tuvieran default.
+--
+-- Uso (como dueño de la base, p. ej. desde el SQL Editor o psql):
+--   \i scripts/check_register_payment.sql
+-- Cubre un pago con mora y una redirección hacia un cliente sin préstamos.
+-- Todo corre dentro de una transacción que termina en ROLLBACK: no deja datos.
+-- Si algo falla se lanza una excepción con el prefijo "FALLO:".
+-- ============================================================================
+begin;
+
+-- Sesión de un usuario autenticado (auth.uid()).
+select set_config('request.jwt.claim.sub', '00000000-0000-4000-8000-00000000c0de', true),
+       set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-8000-00000000c0de","role":"authenticated"}', true);
+
+insert into auth.users (id, email) values ('00000000-0000-4000-8000-00000000c0de', 'check-register-payment@example.invalid');
+insert into public.organizations (id, name, owner_id)
+values ('00000000-0000-4000-8000-0000000000a1', 'Verificación register_payment', '00000000-0000-4000-8000-00000000c0de');
+insert into public.organization_members (organization_id, user_id, role)
+values ('00000000-0000-4000-8000-0000000000a1', '00000000-0000-4000-8000-00000000c0de', 'owner')
+on conflict do nothing;
+insert into public.bank_accounts (id, organization_id, name, balance, "isCash")
+values ('00000000-0000-4000-8000-0000000000b1', '00000000-0000-4000-8000-0000000000a1', 'Caja', 1000000, true);
+insert into public.clients (id, organization_id, name)
+values ('00000000-0000-4000-8000-0000000000c1', '00000000-0000-4000-8000-0000000000a1', 'Cliente de prueba'),
+       ('00000000-0000-4000-8000-0000000000c2', '00000000-0000-4000-8000-0000000000a1', 'Receptor sin préstamos');
+insert into public.transactions (id, organization_id, "clientId", date, type, amount, "bankAccountId")
+values ('00000000-0000-4000-8000-0000000000d1', '00000000-0000-4000-8000-0000000000a1',
+        '00000000-0000-4000-8000-0000000000c1', '2026-01-01', 'DISBURSEMENT', 500000,
+        '00000000-0000-4000-8000-0000000000b1');
+select public.recalculate_client_balances('00000000-0000-4000-8000-0000000000c1');
+
+select set_config('check.bank_before', b.balance::text, true)
+  from public.bank_accounts b where b.id = '00000000-0000-4000-8000-0000000000b1';
+
+set local role authenticated;
+
+select public.register_payment(
+  '{
+    "id": "00000000-0000-4000-8000-0000000000e1",
+    "organization_id": "00000000-0000-4000-8000-0000000000a1",
+    "clientId": "00000000-0000-4000-8000-0000000000c1",
+    "date": "2026-01-15",
+    "type": "PAYMENT_CAPITAL",
+    "amount": 100000,
+    "interestPaid": 20000,
+    "capitalPaid": 100000,
+    "balanceAfter": 0,
+    "notes": "",
+    "bankAccountId": "00000000-0000-4000-8000-0000000000b1",
+    "created_at": "2026-01-15T12:00:00.000Z"
+  }'::jsonb,
+  '{
+    "id": "00000000-0000-4000-8000-0000000000e2",
+    "organization_id": "00000000-0000-4000-8000-0000000000a1",
+    "clientId": "00000000-0000-4000-8000-0000000000c1",
+    "date": "2026-01-15",
+    "type": "PAYMENT_PENALTY",
+    "amount": 5000,
+    "interestPaid": 0,
+    "capitalPaid": 0,
+    "balanceAfter": 0,
+    "notes": "Intereses de mora",
+    "bankAccountId": "00000000-0000-4000-8000-0000000000b1",
+    "relatedTransactionId": "00000000-0000-4000-8000-0000000000e1",
+    "created_at": "2026-01-15T12:00:00.001Z"
+  }'::jsonb,
+  '{}'::jsonb,
+  null
+);
+
+-- Redirección hacia un cliente sin préstamos: el REDIRECT_IN le abre uno.
+select public.register_payment(
+  '{
+    "id": "00000000-0000-4000-8000-0000000000e3",
+    "organization_id": "00000000-0000-4000-8000-0000000000a1",
+    "clientId": "00000000-0000-4000-8000-0000000000c1",
+    "date": "2026-01-20",
+    "type": "REDIRECT_OUT",
+    "amount": 50000,
+    "interestPaid": 0,
+    "capitalPaid": 50000,
+    "balanceAfter": 0,
+    "notes": "",
+    "relatedClientId": "00000000-0000-4000-8000-0000000000c2",
+    "created_at": "2026-01-20T12:00:00.000Z"
+  }'::jsonb,
+  null,
+  '{}'::jsonb,
+  '{
+    "id": "00000000-0000-4000-8000-0000000000e4",
+    "organization_id": "00000000-0000-4000-8000-0000000000a1",
+    "clientId": "00000000-0000-4000-8000-0000000000c2",
+    "date": "2026-01-20",
+    "type": "REDIRECT_IN",
+    "amount": 50000,
+    "interestPaid": 0,
+    "capitalPaid": 0,
+    "balanceAfter": 0,
+    "notes": "Redirección recibida de Cliente de prueba",
+    "relatedClientId": "00000000-0000-4000-8000-0000000000c1",
+    "relatedTransactionId": "00000000-0000-4000-8000-0000000000e3",
+    "created_at": "2026-01-20T12:00:00.000Z"
+  }'::jsonb
+);
+
+reset role;
+
+do $$
+declare
+  v_tx public.transactions;
+  v_penalty public.transactions;
+  v_bank numeric;
+  v_inbound public.transactions;
+  v_loans_balance numeric;
+begin
+  select * into v_tx from public.transactions t where t.id::text = '00000000-0000-4000-8000-0000000000e1';
+  select * into v_penalty from public.transactions t where t.id::text = '00000000-0000-4000-8000-0000000000e2';
+  select b.balance into v_bank from public.bank_accounts b where b.id = '00000000-0000-4000-8000-0000000000b1';
+
+  if v_tx.id is null or v_penalty.id is null then
+    raise exception 'FALLO: la RPC no insertó el pago y su mora';
+  end if;
+  if v_tx.voided is distinct from false or v_penalty.voided is distinct from false then
+    raise exception 'FALLO: "voided" debe tomar su default (false)';
+  end if;
+  if v_tx."balanceAfter" <> 400000 then
+    raise exception 'FALLO: saldo del cliente tras el pago = % (esperado 400000)', v_tx."balanceAfter";
+  end if;
+  if v_bank - current_setting('check.bank_before')::numeric <> 125000 then
+    raise exception 'FALLO: la caja subió % (esperado 125000)', v_bank - current_setting('check.bank_before')::numeric;
+  end if;
+
+  select * into v_inbound from public.transactions t where t.id::text = '00000000-0000-4000-8000-0000000000e4';
+  if v_inbound.id is null or v_inbound.voided is distinct from false or v_inbound."balanceAfter" <> 50000 then
+    raise exception 'FALLO: el REDIRECT_IN del receptor no quedó con saldo 50000';
+  end if;
+
+  -- Con préstamos, la suma de los del receptor debe cuadrar con su saldo.
+  if to_regclass('public.loans') is not null then
+    execute 'select sum(l.balance) from public.loans l where l.client_id::text = $1'
+       into v_loans_balance using v_inbound."clientId";
+    if v_loans_balance is distinct from v_inbound."balanceAfter" then
+      raise exception 'FALLO: préstamos del receptor suman % (saldo %)', v_loans_balance, v_inbound."balanceAfter";
+    end if;
+  end if;
+
+  raise notice 'OK: register_payment acepta el payload del front';
+end $$;
+
+rollback;
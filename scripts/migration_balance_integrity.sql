@@ -0,0 +1,361 @@
+-- ============================================================================
+-- Verificación de integridad de saldos. El "balanceAfter" de cada movimiento
+-- y el saldo de cada cuenta son valores guardados: un script manual, una
+-- edición fuera de la app o un fallo a medias los puede dejar descuadrados sin
+-- que nadie lo note hasta el arqueo.
+--
+--   * balance_drift_report: recalcula desde los movimientos crudos el saldo
+--     corrido de cada cliente y el saldo de cada cuenta (apertura + asientos
+--     esperados) y lista las diferencias con los movimientos que las causan.
+--   * repair_balance_drift: reparación de un clic (solo propietario). Recalcula
+--     los clientes descuadrados, postea un asiento de ajuste por cada
+--     movimiento cuyo asiento no coincide con el esperado y deja constancia en
+--     audit_logs.
+--   * run_balance_integrity_check: pensada para pg_cron; revisa todas las
+--     organizaciones y escribe el resumen en audit_logs sin tocar datos.
+-- ============================================================================
+
+-- Asiento que debería tener hoy un movimiento: el suyo según su estado actual
+-- o, para una reversión, el inverso del original. Los anulados conservan su
+-- asiento porque la reversión lo compensa.
+create or replace function private.expected_transaction_lines(t public.transactions)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_origin public.transactions;
+begin
+  if t.type = 'REVERSAL' then
+    select o.* into v_origin from public.transactions o where o.id::text = t."relatedTransactionId";
+    if v_origin.id is null then return '[]'::jsonb; end if;
+    return private.transaction_lines(v_origin, true);
+  end if;
+  return private.transaction_lines(t, false);
+end $$;
+
+-- Diferencia por cuenta contable entre el asiento esperado de un movimiento y
+-- lo que el diario tiene posteado bajo su id. Un id sin movimiento (purgado a
+-- medias) espera cero.
+create or replace function private.transaction_journal_gap(p_org uuid, p_tx_id text)
+returns table (account_id uuid, debit numeric, credit numeric, amount_currency numeric)
+language sql
+security definer set search_path = ''
+as $$
+  with expected as (
+    select (l->>'account_id')::uuid as account_id,
+           coalesce((l->>'debit')::numeric, 0) - coalesce((l->>'credit')::numeric, 0) as net,
+           (l->>'amount_currency')::numeric as amount_currency
+      from public.transactions t,
+           jsonb_array_elements(private.expected_transaction_lines(t)) l
+     where t.id::text = p_tx_id and t.organization_id = p_org
+  ), posted as (
+    select jl.account_id, jl.debit - jl.credit as net, jl.amount_currency
+      from public.journal_lines jl
+      join public.journal_entries e on e.id = jl.entry_id
+     where e.organization_id = p_org
+       and e.source = 'TRANSACTION'
+       and e.transaction_id = p_tx_id
+  ), gap as (
+    select x.account_id,
+           round(sum(x.net), 2) as net,
+           round(sum(x.amount_currency), 2) as amount_currency
+      from (
+        select account_id, net, amount_currency from expected
+        union all
+        select account_id, -net, -amount_currency from posted
+      ) x
+     group by x.account_id
+  )
+  select g.account_id,
+         greatest(g.net, 0),
+         greatest(-g.net, 0),
+         g.amount_currency
+    from gap g
+   where g.net <> 0 or coalesce(g.amount_currency, 0) <> 0;
+$$;
+
+-- Ids (movimientos vivos o referencias huérfanas del diario) con asiento
+-- distinto del esperado.
+create or replace function private.journal_mismatches(p_org uuid)
+returns table (transaction_id text)
+language sql
+security definer set search_path = ''
+as $$
+  select ids.id
+    from (
+      select t.id::text as id from public.transactions t where t.organization_id = p_org
+      union
+      select e.transaction_id from public.journal_entries e
+       where e.organization_id = p_org and e.source = 'TRANSACTION' and e.transaction_id is not null
+    ) ids
+   where exists (select 1 from private.transaction_journal_gap(p_org, ids.id));
+$$;
+
+create or replace function private.balance_drift_report(p_org uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_clients jsonb;
+  v_banks jsonb := '[]'::jsonb;
+  v_bank record;
+  v_ledger uuid;
+  v_opening numeric;
+  v_journal numeric;
+  v_recomputed numeric;
+  v_rows jsonb;
+begin
+  -- Clientes: saldo corrido guardado contra el recalculado con las mismas
+  -- reglas que recalculate_client_balances.
+  with calc as (
+    select tx.id, tx."clientId" as client_id, tx.date, tx.type, tx.amount, tx.created_at,
+           coalesce(tx."balanceAfter", 0) as stored,
+           round(sum(
+             case
+               when tx.voided then 0
+               when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+               when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+               else 0
+             end
+           ) over (partition by tx."clientId" order by tx.date, tx.created_at, tx.id
+                   rows between unbounded preceding and current row), 2) as running,
+           row_number() over (partition by tx."clientId" order by tx.date desc, tx.created_at desc, tx.id desc) as from_end
+      from public.transactions tx
+     where tx.organization_id = p_org
+       and coalesce(tx."clientId", '') <> ''
+  ), norm as (
+    select c.*, case when abs(c.running) < 0.01 then 0 else c.running end as expected
+      from calc c
+  ), bad as (
+    select n.*, row_number() over (partition by n.client_id order by n.date, n.created_at, n.id) as rn,
+           count(*) over (partition by n.client_id) as total
+      from norm n
+     where abs(n.stored - n.expected) >= 0.01
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'client_id', s.client_id,
+           'client_name', cl.name,
+           'stored', s.stored,
+           'expected', s.expected,
+           'mismatches', s.total,
+           'transactions', s.rows
+         ) order by cl.name), '[]'::jsonb)
+    into v_clients
+    from (
+      select b.client_id,
+             max(b.total) as total,
+             (select n.stored from norm n where n.client_id = b.client_id and n.from_end = 1) as stored,
+             (select n.expected from norm n where n.client_id = b.client_id and n.from_end = 1) as expected,
+             jsonb_agg(jsonb_build_object(
+               'transaction_id', b.id, 'date', b.date, 'type', b.type, 'amount', b.amount,
+               'stored', b.stored, 'expected', b.expected
+             ) order by b.rn) filter (where b.rn <= 20) as rows
+        from bad b
+       group by b.client_id
+    ) s
+    left join public.clients cl on cl.id::text = s.client_id;
+
+  -- Cuentas: saldo guardado, saldo del diario y apertura + asientos esperados.
+  for v_bank in
+    select b.id::text as id, b.name, coalesce(b.balance, 0) as stored
+      from public.bank_accounts b
+     where b.organization_id = p_org
+     order by b.name
+  loop
+    v_ledger := private.bank_ledger_account(p_org, v_bank.id);
+
+    select coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)) filter (where e.source = 'OPENING'), 0),
+           coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0)
+      into v_opening, v_journal
+      from public.journal_lines jl
+      join public.journal_entries e on e.id = jl.entry_id
+     where jl.account_id = v_ledger;
+
+    select v_opening + coalesce(sum(coalesce((l->>'amount_currency')::numeric, (l->>'debit')::numeric - (l->>'credit')::numeric)), 0)
+      into v_recomputed
+      from public.transactions t,
+           jsonb_array_elements(private.expected_transaction_lines(t)) l
+     where t.organization_id = p_org
+       and (l->>'account_id')::uuid = v_ledger;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+             'transaction_id', m.transaction_id,
+             'date', t.date,
+             'type', coalesce(t.type, 'HUÉRFANO'),
+             'amount', t.amount,
+             'gap', coalesce(g.amount_currency, g.debit - g.credit)
+           ) order by t.date nulls first, m.transaction_id), '[]'::jsonb)
+      into v_rows
+      from private.journal_mismatches(p_org) m
+      join private.transaction_journal_gap(p_org, m.transaction_id) g on g.account_id = v_ledger
+      left join public.transactions t on t.id::text = m.transaction_id;
+
+    if abs(v_bank.stored - v_recomputed) >= 0.01
+       or abs(v_bank.stored - v_journal) >= 0.01
+       or jsonb_array_length(v_rows) > 0 then
+      v_banks := v_banks || jsonb_build_object(
+        'bank_account_id', v_bank.id,
+        'name', v_bank.name,
+        'stored', v_bank.stored,
+        'journal', v_journal,
+        'recomputed', v_recomputed,
+        'drift', v_bank.stored - v_recomputed,
+        'transactions', v_rows
+      );
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'organization_id', p_org,
+    'checked_at', now(),
+    'clients', v_clients,
+    'banks', v_banks
+  );
+end $$;
+
+create or replace function public.balance_drift_report(p_org uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if not private.is_org_owner(p_org) then
+    raise exception 'Solo el propietario puede revisar la integridad de saldos';
+  end if;
+  return private.balance_drift_report(p_org);
+end $$;
+
+revoke all on function public.balance_drift_report(uuid) from public, anon;
+grant execute on function public.balance_drift_report(uuid) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Reparación
+-- ----------------------------------------------------------------------------
+create or replace function public.repair_balance_drift(p_org uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_before jsonb;
+  v_client jsonb;
+  v_tx text;
+  v_lines jsonb;
+  v_clients int := 0;
+  v_entries int := 0;
+  v_banks int;
+  v_after jsonb;
+begin
+  if not private.is_org_owner(p_org) then
+    raise exception 'Solo el propietario puede reparar saldos';
+  end if;
+
+  v_before := private.balance_drift_report(p_org);
+
+  for v_client in select * from jsonb_array_elements(v_before->'clients') loop
+    perform public.recalculate_client_balances(v_client->>'client_id');
+    v_clients := v_clients + 1;
+  end loop;
+
+  -- Un asiento de ajuste por movimiento, fechado hoy para no tocar períodos
+  -- cerrados; queda ligado al movimiento y el diario vuelve a cuadrar con él.
+  for v_tx in select m.transaction_id from private.journal_mismatches(p_org) m loop
+    select jsonb_agg(jsonb_build_object(
+             'account_id', g.account_id, 'debit', g.debit, 'credit', g.credit,
+             'amount_currency', g.amount_currency))
+      into v_lines
+      from private.transaction_journal_gap(p_org, v_tx) g;
+
+    if private.post_entry(p_org, 'TRANSACTION', v_tx, to_char(current_date, 'YYYY-MM-DD'),
+                          'Ajuste de integridad', v_lines) is not null then
+      v_entries := v_entries + 1;
+    end if;
+  end loop;
+
+  -- Caché de saldos: bank_accounts.balance vuelve a ser el saldo del diario.
+  perform set_config('prestaflow.ledger_sync', 'on', true);
+  with synced as (
+    update public.bank_accounts b
+       set balance = j.total
+      from (
+        select a.bank_account_id, coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0) as total
+          from public.ledger_accounts a
+          left join public.journal_lines jl on jl.account_id = a.id
+         where a.organization_id = p_org and a.bank_account_id is not null
+         group by a.bank_account_id
+      ) j
+     where b.organization_id = p_org
+       and b.id::text = j.bank_account_id
+       and coalesce(b.balance, 0) <> j.total
+    returning b.id
+  )
+  select count(*) into v_banks from synced;
+  perform set_config('prestaflow.ledger_sync', 'off', true);
+
+  v_after := private.balance_drift_report(p_org);
+
+  insert into public.audit_logs (organization_id, level, message, action, entity, details)
+  values (
+    p_org,
+    case when jsonb_array_length(v_after->'clients') + jsonb_array_length(v_after->'banks') = 0 then 'SUCCESS' else 'WARNING' end,
+    format('Reparación de saldos: %s clientes recalculados, %s asientos de ajuste, %s cuentas sincronizadas',
+           v_clients, v_entries, v_banks),
+    'UPDATE', 'SYSTEM',
+    format('Antes: %s clientes y %s cuentas con descuadre. Después: %s clientes y %s cuentas.',
+           jsonb_array_length(v_before->'clients'), jsonb_array_length(v_before->'banks'),
+           jsonb_array_length(v_after->'clients'), jsonb_array_length(v_after->'banks'))
+  );
+
+  return v_after;
+end $$;
+
+revoke all on function public.repair_balance_drift(uuid) from public, anon;
+grant execute on function public.repair_balance_drift(uuid) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Revisión programada (solo lectura; deja el resumen en audit_logs)
+-- ----------------------------------------------------------------------------
+create or replace function public.run_balance_integrity_check()
+returns integer
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_report jsonb;
+  v_clients int;
+  v_banks int;
+  v_flagged int := 0;
+begin
+  for v_org in select o.id from public.organizations o loop
+    v_report := private.balance_drift_report(v_org);
+    v_clients := jsonb_array_length(v_report->'clients');
+    v_banks := jsonb_array_length(v_report->'banks');
+
+    insert into public.audit_logs (organization_id, level, message, actor, action, entity, details)
+    values (
+      v_org,
+      case when v_clients + v_banks = 0 then 'INFO' else 'WARNING' end,
+      case when v_clients + v_banks = 0
+           then 'Verificación de integridad: sin descuadres'
+           else format('Verificación de integridad: %s clientes y %s cuentas con descuadre', v_clients, v_banks)
+      end,
+      'Sistema', 'SYSTEM', 'SYSTEM',
+      nullif(concat_ws('; ',
+        (select string_agg(c->>'client_name', ', ') from jsonb_array_elements(v_report->'clients') c),
+        (select string_agg(b->>'name', ', ') from jsonb_array_elements(v_report->'banks') b)
+      ), '')
+    );
+
+    if v_clients + v_banks > 0 then v_flagged := v_flagged + 1; end if;
+  end loop;
+  return v_flagged;
+end $$;
+
+revoke all on function public.run_balance_integrity_check() from public, anon, authenticated;
+grant execute on function public.run_balance_integrity_check() to service_role;
+
+-- Programación sugerida (requiere la extensión pg_cron):
+-- select cron.schedule('prestaflow-balance-integrity', '0 3 * * *',
+--                      $$select public.run_balance_integrity_check()$$);
@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Ciclo de vida de las cuentas bancarias. Una cuenta creada desde Tesorería no
+-- se podía renombrar, ni retirar cuando el banco la cerraba, ni explicar cómo
+-- se llegó a su saldo.
+--
+--   * "archivedAt": archivo lógico. La cuenta deja de ofrecerse en los
+--     selectores pero conserva su historial y su cuenta contable. Solo se
+--     archiva en cero y sin arqueo abierto; no recibe movimientos nuevos.
+--   * Renombrar/archivar exige manage_banks (la política banks_update también
+--     deja pasar a quien registra movimientos) y el nombre se replica en la
+--     cuenta contable 1110-xx.
+--   * bank_balance_proof: recalcula el saldo desde la apertura más cada
+--     movimiento vigente de la cuenta y lo compara con bank_accounts.balance
+--     y con el diario.
+-- ============================================================================
+
+alter table public.bank_accounts add column if not exists "archivedAt" timestamptz;
+
+create or replace function private.guard_bank_account_lifecycle()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if (new.name, new."accountNumber", new."archivedAt") is not distinct from (old.name, old."accountNumber", old."archivedAt") then
+    return new;
+  end if;
+  if not private.has_perm(new.organization_id, 'manage_banks') then
+    raise exception 'Acceso denegado: modificar cuentas requiere el permiso manage_banks';
+  end if;
+
+  if old."archivedAt" is null and new."archivedAt" is not null then
+    if coalesce(new.balance, 0) <> 0 then
+      raise exception 'Solo se puede archivar una cuenta en cero (saldo actual %)', new.balance;
+    end if;
+    if exists (select 1 from public.cash_sessions s where s.bank_account_id = new.id::text and s.status = 'OPEN') then
+      raise exception 'La caja tiene un arqueo abierto; ciérrelo antes de archivar';
+    end if;
+  end if;
+
+  if new.name is distinct from old.name then
+    update public.ledger_accounts set name = new.name where bank_account_id = new.id::text;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_bank_account_lifecycle on public.bank_accounts;
+create trigger trg_guard_bank_account_lifecycle
+  before update on public.bank_accounts
+  for each row execute function private.guard_bank_account_lifecycle();
+
+-- Una cuenta archivada no recibe movimientos (ni ediciones que muevan su saldo).
+create or replace function private.guard_archived_bank()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_name text;
+begin
+  if tg_op = 'UPDATE'
+     and (new.type, new.amount, new."interestPaid", new."bankAccountId")
+         is not distinct from (old.type, old.amount, old."interestPaid", old."bankAccountId") then
+    return new;
+  end if;
+
+  select b.name into v_name from public.bank_accounts b
+   where b.id::text = nullif(new."bankAccountId", '') and b."archivedAt" is not null;
+  if v_name is not null then
+    raise exception 'La cuenta % está archivada; desarchívela para registrar movimientos', v_name;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_archived_bank on public.transactions;
+create trigger trg_guard_archived_bank
+  before insert or update on public.transactions
+  for each row execute function private.guard_archived_bank();
+
+-- ----------------------------------------------------------------------------
+-- Prueba de saldo
+-- ----------------------------------------------------------------------------
+create or replace function public.bank_balance_proof(p_bank_id text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_stored numeric;
+  v_ledger uuid;
+  v_opening numeric;
+  v_journal numeric;
+  v_movements numeric;
+  v_rows jsonb;
+begin
+  select b.organization_id, coalesce(b.balance, 0) into v_org, v_stored
+    from public.bank_accounts b where b.id::text = p_bank_id;
+  if v_org is null then raise exception 'Cuenta no encontrada'; end if;
+  if not private.is_org_member(v_org) then raise exception 'Acceso denegado a la cuenta'; end if;
+
+  v_ledger := private.bank_ledger_account(v_org, p_bank_id);
+
+  select coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)) filter (where e.source = 'OPENING'), 0),
+         coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0)
+    into v_opening, v_journal
+    from public.journal_lines jl
+    join public.journal_entries e on e.id = jl.entry_id
+   where jl.account_id = v_ledger;
+
+  -- Efecto de cada movimiento vigente según su estado actual (las ediciones ya
+  -- están aplicadas; los anulados y sus reversiones se compensan y se omiten).
+  with fx as (
+    select t.id, t.date, t.type, t.notes, t.amount, t.created_at,
+           (select coalesce(sum(coalesce((l->>'amount_currency')::numeric, (l->>'debit')::numeric - (l->>'credit')::numeric)), 0)
+              from jsonb_array_elements(private.transaction_lines(t, false)) l
+             where (l->>'account_id')::uuid = v_ledger) as effect
+      from public.transactions t
+     where t."bankAccountId" = p_bank_id
+       and not t.voided
+       and t.type <> 'REVERSAL'
+  ), running as (
+    select fx.*, v_opening + sum(fx.effect) over (order by fx.date, fx.created_at, fx.id) as running
+      from fx
+  )
+  select coalesce(sum(r.effect), 0),
+         coalesce(jsonb_agg(jsonb_build_object(
+           'transaction_id', r.id, 'date', r.date, 'type', r.type, 'notes', r.notes,
+           'amount', r.amount, 'effect', r.effect, 'running', r.running
+         ) order by r.date, r.created_at, r.id), '[]'::jsonb)
+    into v_movements, v_rows
+    from running r;
+
+  return jsonb_build_object(
+    'bank_account_id', p_bank_id,
+    'opening', v_opening,
+    'movements', v_movements,
+    'recomputed', v_opening + v_movements,
+    'stored', v_stored,
+    'journal', v_journal,
+    'drift', v_stored - (v_opening + v_movements),
+    'rows', v_rows
+  );
+end $$;
+
+revoke all on function public.bank_balance_proof(text) from public, anon;
+grant execute on function public.bank_balance_proof(text) to authenticated;
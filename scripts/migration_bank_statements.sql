@@ -0,0 +1,301 @@
+-- ============================================================================
+-- Importación de extractos bancarios y conciliación automática. Hasta ahora
+-- createBankMovement solo admitía ingresos/retiros manuales y cruzar las
+-- transferencias de Bancolombia contra los pagos de clientes se hacía en una
+-- hoja de cálculo.
+--
+-- Ahora:
+--   * El navegador lee el extracto (CSV con mapeo de columnas configurable por
+--     cuenta en bank_accounts."statementMapping", u OFX) y envía las líneas ya
+--     normalizadas: { date, description, reference, amount } con amount > 0
+--     para abonos y < 0 para cargos.
+--   * import_bank_statement guarda el lote y sus líneas. Las líneas repetidas
+--     (misma cuenta, fecha, monto, referencia y descripción) se descartan, así
+--     que reimportar el mismo extracto no duplica nada.
+--   * Conciliación automática: cada línea pendiente se cruza con los
+--     movimientos de la cuenta por efecto neto en el diario (mismo monto),
+--     ventana de ±3 días y referencia (si la referencia aparece en las notas
+--     del movimiento gana). Si hay más de un candidato sin referencia, la
+--     línea queda pendiente para conciliación manual.
+--   * resolve_statement_line: MATCH (manual), UNMATCH, IGNORE o CREATE (crea
+--     el BANK_DEPOSIT/BANK_WITHDRAWAL con los datos de la línea, que postea su
+--     asiento como cualquier movimiento).
+-- ============================================================================
+
+alter table public.bank_accounts add column if not exists "statementMapping" jsonb;
+
+create table if not exists public.bank_statement_imports (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  bank_account_id text not null,
+  file_name text,
+  format text not null check (format in ('CSV','OFX')),
+  line_count int not null default 0,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.bank_statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  import_id uuid not null references public.bank_statement_imports(id) on delete cascade,
+  bank_account_id text not null,
+  date text not null,
+  description text,
+  reference text,
+  amount numeric not null,
+  fingerprint text not null,
+  status text not null default 'UNMATCHED' check (status in ('UNMATCHED','MATCHED','CREATED','IGNORED')),
+  transaction_id text,
+  matched_by uuid,
+  matched_at timestamptz,
+  auto_matched boolean not null default false,
+  unique (bank_account_id, fingerprint)
+);
+create index if not exists bank_statement_lines_bank_status_idx on public.bank_statement_lines (bank_account_id, status);
+create unique index if not exists bank_statement_lines_tx_uniq
+  on public.bank_statement_lines (transaction_id) where transaction_id is not null;
+
+alter table public.bank_statement_imports enable row level security;
+alter table public.bank_statement_lines enable row level security;
+
+-- Lectura para miembros; la escritura solo vía las RPC de abajo.
+drop policy if exists "bank_statement_imports_select" on public.bank_statement_imports;
+create policy "bank_statement_imports_select" on public.bank_statement_imports
+  for select to authenticated using (private.is_org_member(organization_id));
+drop policy if exists "bank_statement_lines_select" on public.bank_statement_lines;
+create policy "bank_statement_lines_select" on public.bank_statement_lines
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- ----------------------------------------------------------------------------
+-- Conciliación automática de una línea
+-- ----------------------------------------------------------------------------
+create or replace function private.auto_match_statement_line(p_line_id uuid)
+returns text
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_line public.bank_statement_lines;
+  v_tx text;
+  v_candidates int;
+  v_ref_hit boolean;
+begin
+  select * into v_line from public.bank_statement_lines l where l.id = p_line_id for update;
+  if v_line.status <> 'UNMATCHED' then return v_line.transaction_id; end if;
+
+  with cand as (
+    select t.id::text as tx_id,
+           abs(t.date::date - v_line.date::date) as days,
+           (coalesce(v_line.reference, '') <> ''
+             and (t.notes ilike '%' || v_line.reference || '%' or t.id::text = v_line.reference)) as ref_hit
+      from public.transactions t
+      join (
+        select e.transaction_id, sum(jl.debit - jl.credit) as net
+          from public.journal_lines jl
+          join public.journal_entries e on e.id = jl.entry_id
+          join public.ledger_accounts a on a.id = jl.account_id
+         where a.bank_account_id = v_line.bank_account_id
+           and e.source = 'TRANSACTION'
+         group by e.transaction_id
+      ) j on j.transaction_id = t.id::text
+     where t.organization_id = v_line.organization_id
+       and t."bankAccountId" = v_line.bank_account_id
+       and not t.voided
+       and t.type <> 'REVERSAL'
+       and abs(j.net - v_line.amount) < 1
+       and abs(t.date::date - v_line.date::date) <= 3
+       and not exists (select 1 from public.bank_statement_lines x where x.transaction_id = t.id::text)
+  )
+  select (select c.tx_id from cand c order by c.ref_hit desc, c.days, c.tx_id limit 1),
+         (select count(*) from cand),
+         (select bool_or(c.ref_hit) from cand)
+    into v_tx, v_candidates, v_ref_hit;
+
+  -- Sin referencia que desempate, solo se concilia si el candidato es único.
+  if v_tx is null or (v_candidates > 1 and not coalesce(v_ref_hit, false)) then
+    return null;
+  end if;
+
+  update public.bank_statement_lines
+     set status = 'MATCHED', transaction_id = v_tx, auto_matched = true,
+         matched_by = auth.uid(), matched_at = now()
+   where id = p_line_id;
+  return v_tx;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Importación
+-- ----------------------------------------------------------------------------
+create or replace function public.import_bank_statement(
+  p_bank_id text, p_file_name text, p_format text, p_lines jsonb
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_import uuid;
+  v_line jsonb;
+  v_line_id uuid;
+  v_inserted int := 0;
+  v_duplicates int := 0;
+  v_matched int := 0;
+begin
+  select b.organization_id into v_org from public.bank_accounts b where b.id::text = p_bank_id;
+  if v_org is null then raise exception 'Cuenta no encontrada'; end if;
+  if not private.has_perm(v_org, 'manage_banks') then
+    raise exception 'Acceso denegado a la cuenta';
+  end if;
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'El extracto no tiene líneas';
+  end if;
+
+  insert into public.bank_statement_imports (organization_id, bank_account_id, file_name, format, line_count)
+  values (v_org, p_bank_id, p_file_name, upper(p_format), jsonb_array_length(p_lines))
+  returning id into v_import;
+
+  for v_line in select * from jsonb_array_elements(p_lines) loop
+    if coalesce(v_line->>'date', '') !~ '^\d{4}-\d{2}-\d{2}$' or (v_line->>'amount') is null then
+      raise exception 'Línea de extracto inválida: %', v_line;
+    end if;
+
+    insert into public.bank_statement_lines (
+      organization_id, import_id, bank_account_id, date, description, reference, amount, fingerprint
+    ) values (
+      v_org, v_import, p_bank_id, v_line->>'date', nullif(btrim(v_line->>'description'), ''),
+      nullif(btrim(v_line->>'reference'), ''), (v_line->>'amount')::numeric,
+      md5(concat_ws('|', v_line->>'date', (v_line->>'amount')::numeric, btrim(v_line->>'reference'), btrim(v_line->>'description')))
+    )
+    on conflict (bank_account_id, fingerprint) do nothing
+    returning id into v_line_id;
+
+    if v_line_id is null then
+      v_duplicates := v_duplicates + 1;
+    else
+      v_inserted := v_inserted + 1;
+      if private.auto_match_statement_line(v_line_id) is not null then v_matched := v_matched + 1; end if;
+    end if;
+    v_line_id := null;
+  end loop;
+
+  return jsonb_build_object('import_id', v_import, 'inserted', v_inserted, 'duplicates', v_duplicates, 'matched', v_matched);
+end $$;
+
+-- Reintenta la conciliación automática de las líneas pendientes de una cuenta
+-- (p. ej. después de registrar los pagos que faltaban).
+create or replace function public.auto_match_bank_statement(p_bank_id text)
+returns int
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_line_id uuid;
+  v_matched int := 0;
+begin
+  select b.organization_id into v_org from public.bank_accounts b where b.id::text = p_bank_id;
+  if v_org is null then raise exception 'Cuenta no encontrada'; end if;
+  if not private.has_perm(v_org, 'manage_banks') then
+    raise exception 'Acceso denegado a la cuenta';
+  end if;
+
+  for v_line_id in
+    select l.id from public.bank_statement_lines l
+     where l.bank_account_id = p_bank_id and l.status = 'UNMATCHED'
+     order by l.date, l.id
+  loop
+    if private.auto_match_statement_line(v_line_id) is not null then v_matched := v_matched + 1; end if;
+  end loop;
+  return v_matched;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Conciliación manual
+-- ----------------------------------------------------------------------------
+create or replace function public.resolve_statement_line(p_line_id uuid, p_action text, p_tx_id text default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_line public.bank_statement_lines;
+  v_tx public.transactions;
+begin
+  select * into v_line from public.bank_statement_lines l where l.id = p_line_id for update;
+  if v_line.id is null then raise exception 'Línea de extracto no encontrada'; end if;
+  if not private.has_perm(v_line.organization_id, 'manage_banks') then
+    raise exception 'Acceso denegado a la cuenta';
+  end if;
+
+  if p_action = 'UNMATCH' then
+    if v_line.status = 'CREATED' then
+      raise exception 'El movimiento ya fue creado desde esta línea; reviértalo desde el historial';
+    end if;
+    update public.bank_statement_lines
+       set status = 'UNMATCHED', transaction_id = null, auto_matched = false, matched_by = null, matched_at = null
+     where id = p_line_id
+    returning * into v_line;
+
+  elsif v_line.status <> 'UNMATCHED' then
+    raise exception 'La línea ya fue conciliada';
+
+  elsif p_action = 'IGNORE' then
+    update public.bank_statement_lines
+       set status = 'IGNORED', matched_by = auth.uid(), matched_at = now()
+     where id = p_line_id
+    returning * into v_line;
+
+  elsif p_action = 'MATCH' then
+    select * into v_tx from public.transactions t
+     where t.id::text = p_tx_id and t.organization_id = v_line.organization_id;
+    if v_tx.id is null then raise exception 'Movimiento no encontrado'; end if;
+    if v_tx."bankAccountId" is distinct from v_line.bank_account_id then
+      raise exception 'El movimiento pertenece a otra cuenta';
+    end if;
+    if v_tx.voided or v_tx.type = 'REVERSAL' then
+      raise exception 'No se puede conciliar contra un movimiento anulado';
+    end if;
+    if exists (select 1 from public.bank_statement_lines x where x.transaction_id = p_tx_id) then
+      raise exception 'El movimiento ya está conciliado con otra línea';
+    end if;
+
+    update public.bank_statement_lines
+       set status = 'MATCHED', transaction_id = p_tx_id, auto_matched = false,
+           matched_by = auth.uid(), matched_at = now()
+     where id = p_line_id
+    returning * into v_line;
+
+  elsif p_action = 'CREATE' then
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "bankAccountId"
+    ) values (
+      v_line.organization_id, null, v_line.date,
+      case when v_line.amount >= 0 then 'BANK_DEPOSIT' else 'BANK_WITHDRAWAL' end,
+      abs(v_line.amount), 0, 0, 0,
+      left(concat_ws(' · ', 'Extracto', v_line.description, v_line.reference), 500),
+      v_line.bank_account_id
+    )
+    returning * into v_tx;
+
+    update public.bank_statement_lines
+       set status = 'CREATED', transaction_id = v_tx.id::text, auto_matched = false,
+           matched_by = auth.uid(), matched_at = now()
+     where id = p_line_id
+    returning * into v_line;
+
+  else
+    raise exception 'Acción no soportada: %', p_action;
+  end if;
+
+  return jsonb_build_object('line', to_jsonb(v_line), 'transaction', case when v_tx.id is null then null else to_jsonb(v_tx) end);
+end $$;
+
+revoke all on function public.import_bank_statement(text, text, text, jsonb) from public, anon;
+grant execute on function public.import_bank_statement(text, text, text, jsonb) to authenticated;
+revoke all on function public.auto_match_bank_statement(text) from public, anon;
+grant execute on function public.auto_match_bank_statement(text) to authenticated;
+revoke all on function public.resolve_statement_line(uuid, text, text) from public, anon;
+grant execute on function public.resolve_statement_line(uuid, text, text) to authenticated;
@@ -0,0 +1,299 @@
+-- ============================================================================
+-- Transferencias entre cuentas (banco ↔ caja). Antes pasar plata de "Caja
+-- Menor" a "Bancolombia Ahorros" eran un retiro y un ingreso sueltos, sin
+-- referencia entre sí; si el segundo fallaba, la plata desaparecía de los
+-- totales (y el diario la registraba como retiro del propietario).
+--
+-- Ahora transfer_between_accounts inserta en UNA transacción de Postgres:
+--   BANK_TRANSFER_OUT (origen)   Db Cuenta puente   / Cr Origen
+--   BANK_TRANSFER_IN  (destino)  Db Destino         / Cr Cuenta puente
+--   BANK_FEE (origen, opcional)  Db Gastos bancarios / Cr Origen
+-- Las dos patas se enlazan entre sí por "relatedTransactionId" (la comisión
+-- apunta a la salida), así el historial las muestra como un solo movimiento.
+-- La cuenta puente queda en cero cuando ambas patas están registradas.
+-- reverse_transfer anula el grupo completo (salida, entrada y comisión).
+-- ============================================================================
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_system_key_check;
+alter table public.ledger_accounts add constraint ledger_accounts_system_key_check
+  check (system_key in ('BANK','CLEARING','LOANS_RECEIVABLE','OWNER_EQUITY','INTEREST_INCOME','PENALTY_INCOME','BAD_DEBT_EXPENSE','BANK_FEE_EXPENSE'));
+
+-- Plan de cuentas: se agrega Gastos bancarios (5305) para las comisiones y la
+-- cuenta puente pasa a servir también a las transferencias.
+create or replace function private.ledger_account(p_org uuid, p_key text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_id uuid;
+begin
+  select a.id into v_id from public.ledger_accounts a
+   where a.organization_id = p_org and a.system_key = p_key;
+  if v_id is not null then return v_id; end if;
+
+  insert into public.ledger_accounts (organization_id, code, name, kind, system_key)
+  select p_org, d.code, d.name, d.kind, p_key
+    from (values
+      ('CLEARING',         '1195', 'Cuenta puente (redirecciones y transferencias)', 'ASSET'),
+      ('LOANS_RECEIVABLE', '1305', 'Cartera de créditos',           'ASSET'),
+      ('OWNER_EQUITY',     '3105', 'Capital del propietario',       'EQUITY'),
+      ('INTEREST_INCOME',  '4150', 'Ingresos por intereses',        'INCOME'),
+      ('PENALTY_INCOME',   '4155', 'Ingresos por mora',             'INCOME'),
+      ('BAD_DEBT_EXPENSE', '5199', 'Gasto por cartera castigada',   'EXPENSE'),
+      ('BANK_FEE_EXPENSE', '5305', 'Gastos bancarios',              'EXPENSE')
+    ) as d(key, code, name, kind)
+   where d.key = p_key
+  on conflict do nothing
+  returning id into v_id;
+
+  if v_id is null then
+    select a.id into v_id from public.ledger_accounts a
+     where a.organization_id = p_org and a.system_key = p_key;
+  end if;
+  if v_id is null then raise exception 'Cuenta contable desconocida: %', p_key; end if;
+  return v_id;
+end $$;
+
+update public.ledger_accounts
+   set name = 'Cuenta puente (redirecciones y transferencias)'
+ where system_key = 'CLEARING' and name = 'Cuenta puente (redirecciones)';
+
+-- Asientos de las patas de una transferencia y de la comisión.
+create or replace function private.transaction_lines(t public.transactions, p_reverse boolean default false)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := t.organization_id;
+  v_cash uuid;
+  v_amount numeric := coalesce(t.amount, 0);
+  v_interest numeric := coalesce(t."interestPaid", 0);
+  v_lines jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_out jsonb := '[]'::jsonb;
+begin
+  v_cash := case
+    when nullif(t."bankAccountId", '') is not null then private.bank_ledger_account(v_org, t."bankAccountId")
+    else private.ledger_account(v_org, 'CLEARING')
+  end;
+
+  if t.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', 0, 'credit', v_amount),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_interest));
+  elsif t.type = 'PAYMENT_INTEREST' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_amount + v_interest));
+  elsif t.type = 'PAYMENT_PENALTY' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'PENALTY_INCOME'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_DEPOSIT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_WITHDRAWAL' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_OUT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_IN' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_FEE' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'BANK_FEE_EXPENSE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  end if;
+
+  if not p_reverse then return v_lines; end if;
+
+  for v_line in select * from jsonb_array_elements(v_lines) loop
+    v_out := v_out || jsonb_build_array(jsonb_build_object(
+      'account_id', v_line->'account_id', 'debit', v_line->'credit', 'credit', v_line->'debit'));
+  end loop;
+  return v_out;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Transferencia atómica
+-- ----------------------------------------------------------------------------
+create or replace function public.transfer_between_accounts(
+  p_from_bank_id text,
+  p_to_bank_id text,
+  p_amount numeric,
+  p_fee numeric default 0,
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_to_org uuid;
+  v_from_name text;
+  v_to_name text;
+  v_out_id uuid := gen_random_uuid();
+  v_in_id uuid := gen_random_uuid();
+  v_fee numeric := coalesce(p_fee, 0);
+  v_date text := to_char(current_date, 'YYYY-MM-DD');
+  v_note text := nullif(btrim(p_note), '');
+  v_balance numeric;
+begin
+  if p_from_bank_id = p_to_bank_id then raise exception 'Elija dos cuentas distintas'; end if;
+  if p_amount is null or p_amount <= 0 then raise exception 'El monto debe ser mayor a cero'; end if;
+  if v_fee < 0 then raise exception 'La comisión no puede ser negativa'; end if;
+
+  -- Bloqueo en orden estable para no cruzarse con otra transferencia inversa.
+  perform 1 from public.bank_accounts b
+   where b.id::text in (p_from_bank_id, p_to_bank_id)
+   order by b.id
+   for update;
+
+  select b.organization_id, b.name into v_org, v_from_name from public.bank_accounts b where b.id::text = p_from_bank_id;
+  select b.organization_id, b.name into v_to_org, v_to_name from public.bank_accounts b where b.id::text = p_to_bank_id;
+  if v_org is null or v_to_org is null then raise exception 'Cuenta no encontrada'; end if;
+  if v_org <> v_to_org then raise exception 'Las cuentas pertenecen a organizaciones distintas'; end if;
+  if not private.has_perm(v_org, 'manage_banks') then
+    raise exception 'Acceso denegado a las cuentas';
+  end if;
+
+  insert into public.transactions (
+    id, organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+    "balanceAfter", notes, "relatedTransactionId", "bankAccountId"
+  ) values
+    (v_out_id, v_org, null, v_date, 'BANK_TRANSFER_OUT', p_amount, 0, 0, 0,
+     coalesce(v_note, 'Transferencia a ' || v_to_name), v_in_id::text, p_from_bank_id),
+    (v_in_id, v_org, null, v_date, 'BANK_TRANSFER_IN', p_amount, 0, 0, 0,
+     coalesce(v_note, 'Transferencia desde ' || v_from_name), v_out_id::text, p_to_bank_id);
+
+  if v_fee > 0 then
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "relatedTransactionId", "bankAccountId"
+    ) values (
+      v_org, null, v_date, 'BANK_FEE', v_fee, 0, 0, 0,
+      'Comisión transferencia a ' || v_to_name, v_out_id::text, p_from_bank_id
+    );
+  end if;
+
+  select b.balance into v_balance from public.bank_accounts b where b.id::text = p_from_bank_id;
+  if v_balance < 0 then raise exception 'Fondos insuficientes en %', v_from_name; end if;
+
+  return jsonb_build_object(
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.created_at), '[]'::jsonb)
+        from public.transactions t
+       where t.id in (v_out_id, v_in_id) or (t."relatedTransactionId" = v_out_id::text and t.type = 'BANK_FEE')
+    ),
+    'banks', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'balance', b.balance)), '[]'::jsonb)
+        from public.bank_accounts b
+       where b.id::text in (p_from_bank_id, p_to_bank_id)
+    )
+  );
+end $$;
+
+revoke all on function public.transfer_between_accounts(text, text, numeric, numeric, text) from public, anon;
+grant execute on function public.transfer_between_accounts(text, text, numeric, numeric, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Reversión de una transferencia: se anulan juntas la salida, la entrada y la
+-- comisión, cada una con su REVERSAL (el trigger de posteo devuelve la plata).
+-- reverse_transaction no sirve aquí: solo maneja movimientos de clientes y
+-- anular una sola pata dejaría la cuenta puente descuadrada.
+-- ----------------------------------------------------------------------------
+create or replace function public.reverse_transfer(p_tx_id text, p_reason text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_leg public.transactions;
+  v_org uuid;
+  v_out_id text;
+  v_row public.transactions;
+  v_reason text := nullif(btrim(p_reason), '');
+  v_ids text[] := '{}';
+  v_banks text[] := '{}';
+begin
+  if v_reason is null then raise exception 'Debe indicar el motivo de la reversión'; end if;
+
+  select * into v_leg from public.transactions t where t.id::text = p_tx_id;
+  if v_leg.id is null then raise exception 'Movimiento no encontrado'; end if;
+  v_org := v_leg.organization_id;
+
+  if not private.has_perm(v_org, 'manage_banks') then
+    raise exception 'Acceso denegado a las cuentas';
+  end if;
+
+  if v_leg.type not in ('BANK_TRANSFER_OUT', 'BANK_TRANSFER_IN', 'BANK_FEE') then
+    raise exception 'El movimiento no es parte de una transferencia';
+  end if;
+  if v_leg.voided then raise exception 'La transferencia ya fue reversada'; end if;
+
+  -- La salida identifica el grupo: la entrada y la comisión apuntan a ella.
+  v_out_id := case when v_leg.type = 'BANK_TRANSFER_OUT' then v_leg.id::text else v_leg."relatedTransactionId" end;
+  if not exists (
+    select 1 from public.transactions t
+     where t.id::text = v_out_id and t.organization_id = v_org and t.type = 'BANK_TRANSFER_OUT'
+  ) then
+    raise exception 'El movimiento no es parte de una transferencia';
+  end if;
+
+  for v_row in
+    select * from public.transactions t
+     where t.organization_id = v_org
+       and not t.voided
+       and (t.id::text = v_out_id
+            or (t.type = 'BANK_TRANSFER_IN' and t."relatedTransactionId" = v_out_id)
+            or (t.type = 'BANK_FEE' and t."relatedTransactionId" = v_out_id))
+     order by t.created_at
+     for update
+  loop
+    update public.transactions
+       set voided = true, "voidReason" = v_reason
+     where id = v_row.id;
+
+    -- Reversión: se permite saldo negativo en el destino para no bloquear la corrección.
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "relatedTransactionId", "bankAccountId"
+    ) values (
+      v_org, null, to_char(current_date, 'YYYY-MM-DD'), 'REVERSAL',
+      v_row.amount, 0, 0, 0, v_reason, v_row.id::text, v_row."bankAccountId"
+    );
+
+    v_ids := v_ids || v_row.id::text;
+    v_banks := array_append(v_banks, v_row."bankAccountId");
+  end loop;
+
+  return jsonb_build_object(
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.created_at), '[]'::jsonb)
+        from public.transactions t
+       where t.organization_id = v_org
+         and (t.id::text = any(v_ids) or (t.type = 'REVERSAL' and t."relatedTransactionId" = any(v_ids)))
+    ),
+    'banks', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'balance', b.balance)), '[]'::jsonb)
+        from public.bank_accounts b
+       where b.organization_id = v_org and b.id::text = any(v_banks)
+    )
+  );
+end $$;
+
+revoke all on function public.reverse_transfer(text, text) from public, anon;
+grant execute on function public.reverse_transfer(text, text) to authenticated;
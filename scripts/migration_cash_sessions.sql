@@ -0,0 +1,188 @@
+-- ============================================================================
+-- Arqueo diario de caja. Las cuentas "isCash" mostraban un saldo, pero el
+-- cobrador nunca abría ni cerraba formalmente su caja: los faltantes solo se
+-- notaban días después y sin responsable.
+--
+-- Ahora:
+--   * cash_sessions: una sesión por caja y día. Al abrir se fija el saldo de
+--     apertura (libro diario al cierre del día anterior).
+--   * Esperado = apertura + entradas - salidas del día en esa caja, según las
+--     líneas del diario con fecha de la sesión (cobros, desembolsos,
+--     reversiones y movimientos internos).
+--   * Al cerrar, el cobrador registra lo CONTADO; la diferencia queda grabada
+--     y, si no es cero, exige una explicación.
+--   * El cierre queda sellado: sha256 del resumen + quién y cuándo cerró. La
+--     fila ya no se modifica (sin políticas de escritura; solo estas RPC).
+--   * Vista cash_session_status: sesiones con entradas/salidas en vivo para
+--     las abiertas y las grabadas para las cerradas.
+-- Lectura: el cobrador ve sus sesiones; propietario/admin ven todas.
+-- ============================================================================
+
+create table if not exists public.cash_sessions (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  bank_account_id text not null,
+  collector_id uuid not null default auth.uid(),
+  date text not null,
+  status text not null default 'OPEN' check (status in ('OPEN','CLOSED')),
+  opening_balance numeric not null default 0,
+  opened_at timestamptz default now(),
+  expected_inflow numeric,
+  expected_outflow numeric,
+  expected_balance numeric,
+  counted_amount numeric,
+  difference numeric,
+  explanation text,
+  closed_at timestamptz,
+  signature text,
+  unique (bank_account_id, date)
+);
+create unique index if not exists cash_sessions_one_open
+  on public.cash_sessions (bank_account_id) where status = 'OPEN';
+create index if not exists cash_sessions_org_date_idx on public.cash_sessions (organization_id, date);
+
+alter table public.cash_sessions enable row level security;
+
+drop policy if exists "cash_sessions_select" on public.cash_sessions;
+create policy "cash_sessions_select" on public.cash_sessions
+  for select to authenticated using (
+    collector_id = (select auth.uid()) or private.is_org_admin(organization_id)
+  );
+
+-- Movimiento de una caja en un día según el diario (débito = entra).
+create or replace function private.cash_day_movement(p_bank_id text, p_date text)
+returns table (inflow numeric, outflow numeric)
+language sql stable
+security definer set search_path = ''
+as $$
+  select coalesce(sum(jl.debit), 0), coalesce(sum(jl.credit), 0)
+    from public.journal_lines jl
+    join public.journal_entries e on e.id = jl.entry_id
+    join public.ledger_accounts a on a.id = jl.account_id
+   where a.bank_account_id = p_bank_id
+     and e.date = p_date;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Apertura
+-- ----------------------------------------------------------------------------
+create or replace function public.open_cash_session(p_bank_id text, p_date text default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_is_cash boolean;
+  v_date text := coalesce(nullif(p_date, ''), to_char(current_date, 'YYYY-MM-DD'));
+  v_opening numeric;
+  v_row public.cash_sessions;
+begin
+  select b.organization_id, coalesce(b."isCash", false) into v_org, v_is_cash
+    from public.bank_accounts b
+   where b.id::text = p_bank_id
+   for update;
+
+  if v_org is null then raise exception 'Caja no encontrada'; end if;
+  if not private.has_perm(v_org, 'create_transactions') then
+    raise exception 'Acceso denegado a la caja';
+  end if;
+  if not v_is_cash then raise exception 'Solo las cuentas de efectivo tienen arqueo'; end if;
+
+  if exists (select 1 from public.cash_sessions s where s.bank_account_id = p_bank_id and s.status = 'OPEN') then
+    raise exception 'La caja ya tiene una sesión abierta; ciérrela primero';
+  end if;
+  if exists (select 1 from public.cash_sessions s where s.bank_account_id = p_bank_id and s.date = v_date) then
+    raise exception 'La caja ya tuvo arqueo el %', v_date;
+  end if;
+
+  select coalesce(sum(jl.debit - jl.credit), 0) into v_opening
+    from public.journal_lines jl
+    join public.journal_entries e on e.id = jl.entry_id
+    join public.ledger_accounts a on a.id = jl.account_id
+   where a.bank_account_id = p_bank_id
+     and e.date < v_date;
+
+  insert into public.cash_sessions (organization_id, bank_account_id, collector_id, date, opening_balance)
+  values (v_org, p_bank_id, auth.uid(), v_date, v_opening)
+  returning * into v_row;
+
+  return to_jsonb(v_row);
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Cierre (arqueo)
+-- ----------------------------------------------------------------------------
+create or replace function public.close_cash_session(p_session_id uuid, p_counted numeric, p_explanation text default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_session public.cash_sessions;
+  v_inflow numeric;
+  v_outflow numeric;
+  v_expected numeric;
+  v_difference numeric;
+  v_explanation text := nullif(btrim(p_explanation), '');
+  v_closed_at timestamptz := now();
+  v_row public.cash_sessions;
+begin
+  select * into v_session from public.cash_sessions s where s.id = p_session_id for update;
+  if v_session.id is null then raise exception 'Sesión de caja no encontrada'; end if;
+
+  if v_session.collector_id is distinct from auth.uid() and not private.is_org_admin(v_session.organization_id) then
+    raise exception 'Solo quien abrió la caja (o un administrador) puede cerrarla';
+  end if;
+  if v_session.status <> 'OPEN' then raise exception 'La sesión ya está cerrada'; end if;
+  if p_counted is null or p_counted < 0 then raise exception 'Indique el efectivo contado'; end if;
+
+  select m.inflow, m.outflow into v_inflow, v_outflow
+    from private.cash_day_movement(v_session.bank_account_id, v_session.date) m;
+
+  v_expected := v_session.opening_balance + v_inflow - v_outflow;
+  v_difference := round(p_counted - v_expected, 2);
+
+  if v_difference <> 0 and v_explanation is null then
+    raise exception 'Hay una diferencia de %: explique el faltante o sobrante', v_difference;
+  end if;
+
+  update public.cash_sessions s
+     set status = 'CLOSED',
+         expected_inflow = v_inflow,
+         expected_outflow = v_outflow,
+         expected_balance = v_expected,
+         counted_amount = p_counted,
+         difference = v_difference,
+         explanation = v_explanation,
+         closed_at = v_closed_at,
+         signature = encode(sha256(convert_to(jsonb_build_object(
+           'session', s.id, 'bank', s.bank_account_id, 'collector', s.collector_id,
+           'closed_by', auth.uid(), 'date', s.date, 'opening', s.opening_balance,
+           'inflow', v_inflow, 'outflow', v_outflow, 'expected', v_expected,
+           'counted', p_counted, 'difference', v_difference,
+           'explanation', v_explanation, 'closed_at', v_closed_at
+         )::text, 'UTF8')), 'hex')
+   where s.id = p_session_id
+  returning * into v_row;
+
+  return to_jsonb(v_row);
+end $$;
+
+revoke all on function public.open_cash_session(text, text) from public, anon;
+grant execute on function public.open_cash_session(text, text) to authenticated;
+revoke all on function public.close_cash_session(uuid, numeric, text) from public, anon;
+grant execute on function public.close_cash_session(uuid, numeric, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Vista de sesiones con el esperado en vivo para las abiertas
+-- ----------------------------------------------------------------------------
+create or replace view public.cash_session_status
+with (security_invoker = true) as
+select s.*,
+       case when s.status = 'OPEN' then m.inflow else s.expected_inflow end as current_inflow,
+       case when s.status = 'OPEN' then m.outflow else s.expected_outflow end as current_outflow
+  from public.cash_sessions s
+  left join lateral private.cash_day_movement(s.bank_account_id, s.date) m on s.status = 'OPEN';
+
+grant select on public.cash_session_status to authenticated;
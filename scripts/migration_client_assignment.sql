@@ -0,0 +1,415 @@
+-- ============================================================================
+-- Cartera por cobrador. Hasta ahora cada miembro veía y trabajaba todos los
+-- clientes, sin forma de medir a un cobrador ni de limitar lo que ve.
+--
+--   * clients."assignedTo": miembro responsable del cliente (null = sin
+--     asignar). Solo propietario/admin lo cambian; un cliente creado por un
+--     operador queda asignado a quien lo creó. Al salir un miembro de la
+--     organización sus clientes quedan sin asignar.
+--   * organizations.restrict_client_visibility: con el modo activo, los
+--     operadores solo ven (RLS) sus clientes y los movimientos de ellos.
+--     Propietario/admin siguen viendo todo.
+--   * assign_clients: reasignación masiva.
+--   * collector_performance: por cobrador, cartera, mora y cobros del periodo,
+--     más lo esperado/cobrado en sus rutas del día.
+--   * client_list, search_clients y client_list_stats se rehacen (la vista
+--     fija sus columnas al crearse) y aceptan filtrar por cobrador.
+--   * build_collection_route solo toma clientes del cobrador o sin asignar.
+-- ============================================================================
+
+alter table public.clients
+  add column if not exists "assignedTo" uuid references auth.users(id) on delete set null;
+alter table public.organizations
+  add column if not exists restrict_client_visibility boolean not null default false;
+
+create index if not exists idx_clients_org_assigned on public.clients(organization_id, "assignedTo");
+
+-- ----------------------------------------------------------------------------
+-- Reglas de asignación
+-- ----------------------------------------------------------------------------
+create or replace function private.guard_client_assignment()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  -- Cambios en cascada (p. ej. un miembro que sale) ya vienen validados.
+  if pg_trigger_depth() > 1 or auth.uid() is null then return new; end if;
+
+  if tg_op = 'INSERT' then
+    if not private.is_org_admin(new.organization_id) then
+      new."assignedTo" := auth.uid();
+    end if;
+  elsif new."assignedTo" is distinct from old."assignedTo" then
+    if not private.is_org_admin(new.organization_id) then
+      raise exception 'Solo el propietario o un administrador puede reasignar clientes';
+    end if;
+  else
+    return new;
+  end if;
+
+  if new."assignedTo" is not null and not exists (
+    select 1 from public.organization_members m
+     where m.organization_id = new.organization_id and m.user_id = new."assignedTo"
+  ) then
+    raise exception 'El cobrador asignado no pertenece a la organización';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_client_assignment on public.clients;
+create trigger trg_guard_client_assignment
+  before insert or update of "assignedTo" on public.clients
+  for each row execute function private.guard_client_assignment();
+
+create or replace function private.release_member_clients()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  update public.clients c
+     set "assignedTo" = null
+   where c.organization_id = old.organization_id and c."assignedTo" = old.user_id;
+  return old;
+end $$;
+
+drop trigger if exists trg_release_member_clients on public.organization_members;
+create trigger trg_release_member_clients
+  after delete on public.organization_members
+  for each row execute function private.release_member_clients();
+
+-- ----------------------------------------------------------------------------
+-- Visibilidad restringida
+-- ----------------------------------------------------------------------------
+create or replace function private.can_see_client(p_org uuid, p_assigned uuid)
+returns boolean
+language sql stable
+security definer set search_path = ''
+as $$
+  select p_assigned = auth.uid()
+      or not coalesce((select o.restrict_client_visibility from public.organizations o where o.id = p_org), false)
+      or private.is_org_admin(p_org);
+$$;
+
+-- Movimientos sin cliente (internos de banco) no se restringen.
+create or replace function private.can_see_client_tx(p_org uuid, p_client_id text)
+returns boolean
+language sql stable
+security definer set search_path = ''
+as $$
+  select coalesce(
+    (select private.can_see_client(p_org, c."assignedTo") from public.clients c where c.id::text = p_client_id),
+    true
+  );
+$$;
+
+drop policy if exists "clients_select" on public.clients;
+create policy "clients_select" on public.clients
+  for select to authenticated using (
+    private.is_org_member(organization_id) and private.can_see_client(organization_id, "assignedTo")
+  );
+
+drop policy if exists "transactions_select" on public.transactions;
+create policy "transactions_select" on public.transactions
+  for select to authenticated using (
+    private.is_org_member(organization_id) and private.can_see_client_tx(organization_id, "clientId")
+  );
+
+drop policy if exists "client_portfolio_select" on public.client_portfolio;
+create policy "client_portfolio_select" on public.client_portfolio
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+-- ----------------------------------------------------------------------------
+-- client_list con la nueva columna; filtro p_assigned: null = todos,
+-- 'NONE' = sin asignar, o el id del cobrador.
+-- ----------------------------------------------------------------------------
+drop function if exists public.search_clients(uuid, text, text);
+drop function if exists public.client_list_stats(uuid);
+drop view if exists public.client_list;
+
+create view public.client_list
+with (security_invoker = true) as
+select c.*,
+       coalesce(p.balance, 0) as balance,
+       coalesce(p.total_disbursed, 0) as "totalDisbursed",
+       coalesce(p.capital_collected, 0) as "capitalCollected",
+       coalesce(p.interest_collected, 0) as "totalInterest",
+       coalesce(p.penalty_collected, 0) as "totalPenalty",
+       p.last_tx_date as "lastTxDate",
+       p.last_payment_date as "lastPaymentDate",
+       coalesce(a.overdue_installments, 0) as "overdueInstallments",
+       coalesce(a.overdue_amount, 0) as "overdueAmount",
+       o.late as "isLate",
+       case when o.late then current_date - o.since else 0 end as "daysOverdue"
+  from public.clients c
+  left join public.client_portfolio p on p.client_id = c.id
+  left join lateral (
+    select count(*) as overdue_installments,
+           sum((i->>'payment')::numeric - coalesce((i->>'paidAmount')::numeric, 0)) as overdue_amount,
+           min(private.try_date(i->>'dueDate')) as oldest_due
+      from jsonb_array_elements(coalesce(c."paymentSchedule", '[]'::jsonb)) i
+     where coalesce((i->>'paidAmount')::numeric, 0) < (i->>'payment')::numeric
+       and private.try_date(i->>'dueDate') < current_date
+  ) a on true
+  cross join lateral (
+    select coalesce(p.balance, 0) > 0 and s.since is not null as late, s.since
+      from (
+        select case when jsonb_array_length(coalesce(c."paymentSchedule", '[]'::jsonb)) > 0
+                    then a.oldest_due
+                    when private.try_date(c."nextPaymentDate") < current_date
+                    then private.try_date(c."nextPaymentDate")
+               end as since
+      ) s
+  ) o;
+
+grant select on public.client_list to authenticated;
+
+create or replace function private.matches_assignee(p_assigned_to uuid, p_assigned text)
+returns boolean
+language sql immutable
+set search_path = ''
+as $$
+  select case
+           when coalesce(p_assigned, '') = '' then true
+           when p_assigned = 'NONE' then p_assigned_to is null
+           else p_assigned_to::text = p_assigned
+         end;
+$$;
+
+create function public.search_clients(
+  p_org uuid, p_search text default null, p_filter text default 'ALL', p_assigned text default null
+)
+returns setof public.client_list
+language sql stable
+set search_path = ''
+as $$
+  select l.*
+    from public.client_list l
+    -- Lo que escribe el usuario es texto literal: se escapan \, % y _ del like.
+    cross join lateral (
+      select '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+    ) s
+   where l.organization_id = p_org
+     and private.matches_assignee(l."assignedTo", p_assigned)
+     and (coalesce(trim(p_search), '') = ''
+          or l.name ilike s.pattern
+          or l."guarantorName" ilike s.pattern
+          or l."cardCode" like s.pattern
+          or l.cedula like s.pattern
+          or l.phone like s.pattern)
+     and case coalesce(p_filter, 'ALL')
+           when 'TODAY' then l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')
+           when 'LATE' then l.status = 'ACTIVE' and l."isLate"
+           when 'WAITING' then coalesce(l."pendingRedirectionBalance", 0) > 0
+           else true
+         end;
+$$;
+
+revoke all on function public.search_clients(uuid, text, text, text) from public, anon;
+grant execute on function public.search_clients(uuid, text, text, text) to authenticated;
+
+create function public.client_list_stats(p_org uuid, p_assigned text default null)
+returns jsonb
+language sql stable
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'total', count(*),
+    'active', count(*) filter (where l.status = 'ACTIVE'),
+    'due_today', count(*) filter (where l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')),
+    'late', count(*) filter (where l.status = 'ACTIVE' and l."isLate"),
+    'waiting', count(*) filter (where coalesce(l."pendingRedirectionBalance", 0) > 0),
+    'portfolio', coalesce(sum(l.balance) filter (where l.status = 'ACTIVE'), 0),
+    'interest', coalesce(sum(l."totalInterest") filter (where l.status = 'ACTIVE'), 0),
+    'penalty', coalesce(sum(l."totalPenalty"), 0)
+  )
+    from public.client_list l
+   where l.organization_id = p_org
+     and private.matches_assignee(l."assignedTo", p_assigned);
+$$;
+
+revoke all on function public.client_list_stats(uuid, text) from public, anon;
+grant execute on function public.client_list_stats(uuid, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Reasignación masiva (p_collector null = dejar sin asignar)
+-- ----------------------------------------------------------------------------
+create or replace function public.assign_clients(p_org uuid, p_client_ids uuid[], p_collector uuid default null)
+returns int
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_count int;
+begin
+  if not private.is_org_admin(p_org) then
+    raise exception 'Solo el propietario o un administrador puede reasignar clientes';
+  end if;
+  if p_collector is not null and not exists (
+    select 1 from public.organization_members m where m.organization_id = p_org and m.user_id = p_collector
+  ) then
+    raise exception 'El cobrador no pertenece a la organización';
+  end if;
+
+  update public.clients c
+     set "assignedTo" = p_collector
+   where c.organization_id = p_org
+     and c.id = any(p_client_ids)
+     and c."assignedTo" is distinct from p_collector;
+  get diagnostics v_count = row_count;
+  return v_count;
+end $$;
+
+revoke all on function public.assign_clients(uuid, uuid[], uuid) from public, anon;
+grant execute on function public.assign_clients(uuid, uuid[], uuid) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Desempeño por cobrador entre dos fechas (YYYY-MM-DD). Una fila por
+-- cobrador con cartera asignada, cobros o rutas; collector_id null = sin asignar.
+-- ----------------------------------------------------------------------------
+create or replace function public.collector_performance(p_org uuid, p_from text, p_to text)
+returns jsonb
+language plpgsql stable
+security definer set search_path = ''
+as $$
+declare v_rows jsonb;
+begin
+  if not private.is_org_admin(p_org) then
+    raise exception 'Solo el propietario o un administrador ve el desempeño por cobrador';
+  end if;
+
+  with portfolio as (
+    select l."assignedTo" as collector_id,
+           count(*) as clients,
+           count(*) filter (where l.status = 'ACTIVE' and l.balance > 0) as active_clients,
+           coalesce(sum(l.balance) filter (where l.status = 'ACTIVE'), 0) as portfolio,
+           count(*) filter (where l.status = 'ACTIVE' and l."isLate") as late_clients,
+           coalesce(sum(l."overdueAmount") filter (where l.status = 'ACTIVE' and l."isLate"), 0) as overdue_amount
+      from public.client_list l
+     where l.organization_id = p_org
+     group by l."assignedTo"
+  ), collected as (
+    select c."assignedTo" as collector_id,
+           sum(t.amount + coalesce(t."interestPaid", 0)) as collected
+      from public.transactions t
+      join public.clients c on c.id::text = t."clientId"
+     where t.organization_id = p_org
+       and t.date between p_from and p_to
+       and not coalesce(t.voided, false)
+       and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'PAYMENT_PENALTY', 'REDIRECT_OUT', 'SETTLEMENT')
+     group by c."assignedTo"
+  ), routes as (
+    select v.collector_id,
+           count(distinct v.route_id) as routes,
+           sum(v.expected_amount) as route_expected,
+           sum(v.collected) as route_collected,
+           count(*) filter (where v.effective_status = 'PENDING') as unvisited
+      from public.collection_route_stop_status v
+     where v.organization_id = p_org
+       and v.date between p_from and p_to
+     group by v.collector_id
+  ), collectors as (
+    select collector_id from portfolio
+    union select collector_id from collected
+    union select collector_id from routes
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'collector_id', k.collector_id,
+           'clients', coalesce(p.clients, 0),
+           'active_clients', coalesce(p.active_clients, 0),
+           'portfolio', coalesce(p.portfolio, 0),
+           'late_clients', coalesce(p.late_clients, 0),
+           'overdue_amount', coalesce(p.overdue_amount, 0),
+           'collected', coalesce(x.collected, 0),
+           'routes', coalesce(r.routes, 0),
+           'route_expected', coalesce(r.route_expected, 0),
+           'route_collected', coalesce(r.route_collected, 0),
+           'unvisited', coalesce(r.unvisited, 0)
+         ) order by coalesce(p.portfolio, 0) desc), '[]'::jsonb)
+    into v_rows
+    from collectors k
+    left join portfolio p on p.collector_id is not distinct from k.collector_id
+    left join collected x on x.collector_id is not distinct from k.collector_id
+    left join routes r on r.collector_id is not distinct from k.collector_id;
+
+  return v_rows;
+end $$;
+
+revoke all on function public.collector_performance(uuid, text, text) from public, anon;
+grant execute on function public.collector_performance(uuid, text, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Ruta del día: solo clientes del cobrador; los sin asignar, mientras la
+-- organización no restrinja la visibilidad.
+-- ----------------------------------------------------------------------------
+create or replace function public.build_collection_route(p_org uuid, p_date text default null, p_collector uuid default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_date text := coalesce(nullif(p_date, ''), to_char(current_date, 'YYYY-MM-DD'));
+  v_collector uuid := coalesce(p_collector, auth.uid());
+  v_restricted boolean;
+  v_route public.collection_routes;
+  v_last int;
+begin
+  if v_collector = auth.uid() then
+    if not private.has_perm(p_org, 'create_transactions') then
+      raise exception 'Acceso denegado a las rutas de cobro';
+    end if;
+  elsif not private.is_org_admin(p_org) then
+    raise exception 'Solo un administrador puede armar la ruta de otro miembro';
+  end if;
+  if not exists (select 1 from public.organization_members m where m.organization_id = p_org and m.user_id = v_collector) then
+    raise exception 'El cobrador no pertenece a la organización';
+  end if;
+  select o.restrict_client_visibility into v_restricted from public.organizations o where o.id = p_org;
+
+  insert into public.collection_routes (organization_id, date, collector_id)
+  values (p_org, v_date, v_collector)
+  on conflict (organization_id, collector_id, date) do nothing;
+
+  select * into v_route from public.collection_routes r
+   where r.organization_id = p_org and r.collector_id = v_collector and r.date = v_date
+   for update;
+  if v_route.status <> 'OPEN' then raise exception 'La ruta del % ya está cerrada', v_date; end if;
+
+  select coalesce(max(s.position), 0) into v_last from public.collection_route_stops s where s.route_id = v_route.id;
+
+  insert into public.collection_route_stops (route_id, organization_id, client_id, position, neighborhood, expected_amount)
+  select v_route.id, p_org, l.id,
+         v_last + row_number() over (order by prev.position nulls last, private.neighborhood_from_address(l.address) nulls last, l.name),
+         private.neighborhood_from_address(l.address),
+         case when jsonb_array_length(coalesce(l."paymentSchedule", '[]'::jsonb)) > 0
+              then coalesce((select sum(greatest((i->>'payment')::numeric - coalesce((i->>'paidAmount')::numeric, 0), 0))
+                               from jsonb_array_elements(l."paymentSchedule") i
+                              where i->>'dueDate' <= v_date), 0)
+              else least(coalesce(l."installmentAmount", l.balance), l.balance)
+         end
+    from public.client_list l
+    left join lateral (
+      select s.position
+        from public.collection_route_stops s
+        join public.collection_routes r on r.id = s.route_id
+       where r.collector_id = v_collector and r.organization_id = p_org
+         and s.client_id = l.id and r.date < v_date
+       order by r.date desc
+       limit 1
+    ) prev on true
+   where l.organization_id = p_org
+     and l.status = 'ACTIVE'
+     and l.balance > 0
+     and (l."nextPaymentDate" <= v_date or l."isLate")
+     and (l."assignedTo" = v_collector or (l."assignedTo" is null and not coalesce(v_restricted, false)))
+     and not exists (
+       select 1 from public.collection_route_stops s
+         join public.collection_routes r on r.id = s.route_id
+        where r.organization_id = p_org and r.date = v_date and s.client_id = l.id
+     );
+
+  return to_jsonb(v_route);
+end $$;
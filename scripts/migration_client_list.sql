@@ -0,0 +1,112 @@
+-- ============================================================================
+-- Lista de clientes paginada en el servidor. DataContext descargaba hasta 2000
+-- clientes y la lista calculaba saldo, intereses y mora recorriendo todas las
+-- transacciones en el navegador; pasado ese tope los clientes desaparecían de
+-- la vista sin aviso.
+--
+--   * client_balances: agregados por cliente (saldo vigente, intereses, mora
+--     cobrada, último movimiento) calculados desde transactions.
+--   * client_list: clients + agregados + atraso del plan de pagos. Es lo que
+--     lee la lista, página a página (security_invoker → aplica RLS).
+--   * search_clients: búsqueda de texto y filtros ALL/TODAY/LATE/WAITING; el
+--     orden y el rango los pone PostgREST.
+--   * client_list_stats: totales del tablero en una sola llamada.
+-- ============================================================================
+
+create index if not exists idx_tx_client_order
+  on public.transactions("clientId", date, created_at, id);
+
+create or replace view public.client_balances
+with (security_invoker = true) as
+select t."clientId" as client_id,
+       t.organization_id,
+       coalesce((array_agg(t."balanceAfter" order by t.date desc, t.created_at desc, t.id desc))[1], 0) as balance,
+       coalesce(sum(t."interestPaid") filter (where not t.voided and t.type <> 'REVERSAL'), 0) as total_interest,
+       coalesce(sum(t.amount) filter (where not t.voided and t.type = 'PAYMENT_PENALTY'), 0) as total_penalty,
+       max(t.date) as last_tx_date
+  from public.transactions t
+ where coalesce(t."clientId", '') not in ('', 'BANK_INTERNAL')
+ group by t."clientId", t.organization_id;
+
+grant select on public.client_balances to authenticated;
+
+-- Mora con las reglas de summarizeArrears: con plan, cuotas vencidas sin
+-- cubrir (un abono parcial no deja al día); sin plan, la fecha de próximo pago.
+create or replace view public.client_list
+with (security_invoker = true) as
+select c.*,
+       coalesce(b.balance, 0) as balance,
+       coalesce(b.total_interest, 0) as "totalInterest",
+       coalesce(b.total_penalty, 0) as "totalPenalty",
+       b.last_tx_date as "lastTxDate",
+       coalesce(a.overdue_installments, 0) as "overdueInstallments",
+       coalesce(a.overdue_amount, 0) as "overdueAmount",
+       (coalesce(b.balance, 0) > 0 and
+        case when jsonb_array_length(coalesce(c."paymentSchedule", '[]'::jsonb)) > 0
+             then coalesce(a.overdue_installments, 0) > 0
+             else c."nextPaymentDate" is not null and c."nextPaymentDate" < to_char(current_date, 'YYYY-MM-DD')
+        end) as "isLate"
+  from public.clients c
+  left join public.client_balances b on b.client_id = c.id::text
+  left join lateral (
+    select count(*) as overdue_installments,
+           sum((i->>'payment')::numeric - coalesce((i->>'paidAmount')::numeric, 0)) as overdue_amount
+      from jsonb_array_elements(coalesce(c."paymentSchedule", '[]'::jsonb)) i
+     where coalesce((i->>'paidAmount')::numeric, 0) < (i->>'payment')::numeric
+       and i->>'dueDate' < to_char(current_date, 'YYYY-MM-DD')
+  ) a on true;
+
+grant select on public.client_list to authenticated;
+
+create or replace function public.search_clients(
+  p_org uuid, p_search text default null, p_filter text default 'ALL'
+)
+returns setof public.client_list
+language sql stable
+set search_path = ''
+as $$
+  select l.*
+    from public.client_list l
+    -- Lo que escribe el usuario es texto literal: se escapan \, % y _ del like.
+    cross join lateral (
+      select '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+    ) s
+   where l.organization_id = p_org
+     and (coalesce(trim(p_search), '') = ''
+          or l.name ilike s.pattern
+          or l."guarantorName" ilike s.pattern
+          or l."cardCode" like s.pattern
+          or l.cedula like s.pattern
+          or l.phone like s.pattern)
+     and case coalesce(p_filter, 'ALL')
+           when 'TODAY' then l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')
+           when 'LATE' then l.status = 'ACTIVE' and l."isLate"
+           when 'WAITING' then coalesce(l."pendingRedirectionBalance", 0) > 0
+           else true
+         end;
+$$;
+
+revoke all on function public.search_clients(uuid, text, text) from public, anon;
+grant execute on function public.search_clients(uuid, text, text) to authenticated;
+
+create or replace function public.client_list_stats(p_org uuid)
+returns jsonb
+language sql stable
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'total', count(*),
+    'active', count(*) filter (where l.status = 'ACTIVE'),
+    'due_today', count(*) filter (where l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')),
+    'late', count(*) filter (where l.status = 'ACTIVE' and l."isLate"),
+    'waiting', count(*) filter (where coalesce(l."pendingRedirectionBalance", 0) > 0),
+    'portfolio', coalesce(sum(l.balance) filter (where l.status = 'ACTIVE'), 0),
+    'interest', coalesce(sum(l."totalInterest") filter (where l.status = 'ACTIVE'), 0),
+    'penalty', coalesce(sum(l."totalPenalty"), 0)
+  )
+    from public.client_list l
+   where l.organization_id = p_org;
+$$;
+
+revoke all on function public.client_list_stats(uuid) from public, anon;
+grant execute on function public.client_list_stats(uuid) to authenticated;
@@ -0,0 +1,247 @@
+-- ============================================================================
+-- Resumen de cartera por cliente, mantenido por triggers. La vista
+-- client_balances agregaba todas las transacciones del negocio en cada página
+-- de la lista, y App/QuickPaySearch repetían el cálculo en el navegador.
+--
+--   * client_portfolio: una fila por cliente con saldo vigente, total
+--     desembolsado, capital, interés y mora cobrados, último movimiento y
+--     último pago. La actualizan triggers por sentencia sobre transactions
+--     (un recálculo de saldos toca muchas filas y refresca cada cliente una vez).
+--   * client_list se rehace sobre la tabla y suma "daysOverdue" (depende de la
+--     fecha de hoy, por eso no se guarda).
+-- ============================================================================
+
+create table if not exists public.client_portfolio (
+  client_id uuid primary key references public.clients(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  balance numeric not null default 0,
+  total_disbursed numeric not null default 0,
+  capital_collected numeric not null default 0,
+  interest_collected numeric not null default 0,
+  penalty_collected numeric not null default 0,
+  last_tx_date text,
+  last_payment_date text,
+  updated_at timestamptz default now()
+);
+
+create index if not exists idx_client_portfolio_org on public.client_portfolio(organization_id);
+
+alter table public.client_portfolio enable row level security;
+
+drop policy if exists "client_portfolio_select" on public.client_portfolio;
+create policy "client_portfolio_select" on public.client_portfolio
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- Solo los triggers escriben; la app lee.
+revoke insert, update, delete on public.client_portfolio from anon, authenticated;
+grant select on public.client_portfolio to authenticated;
+
+-- Realtime: la app escucha esta tabla en lugar de recalcular saldos.
+do $$
+begin
+  alter publication supabase_realtime add table public.client_portfolio;
+exception when undefined_object or duplicate_object then null;
+end $$;
+
+create or replace function private.refresh_client_portfolio(p_client_ids text[])
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  insert into public.client_portfolio as p (
+    client_id, organization_id, balance, total_disbursed, capital_collected,
+    interest_collected, penalty_collected, last_tx_date, last_payment_date, updated_at
+  )
+  select c.id, c.organization_id,
+         coalesce(a.balance, 0), coalesce(a.total_disbursed, 0), coalesce(a.capital_collected, 0),
+         coalesce(a.interest_collected, 0), coalesce(a.penalty_collected, 0),
+         a.last_tx_date, a.last_payment_date, now()
+    from public.clients c
+    left join lateral (
+      select (array_agg(t."balanceAfter" order by t.date desc, t.created_at desc, t.id desc))[1] as balance,
+             sum(t.amount) filter (where not t.voided and t.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN')) as total_disbursed,
+             sum(t.amount) filter (where not t.voided and t.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT')) as capital_collected,
+             sum(t."interestPaid") filter (where not t.voided and t.type <> 'REVERSAL') as interest_collected,
+             sum(t.amount) filter (where not t.voided and t.type = 'PAYMENT_PENALTY') as penalty_collected,
+             max(t.date) as last_tx_date,
+             max(t.date) filter (where not t.voided and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'PAYMENT_PENALTY', 'REDIRECT_OUT', 'SETTLEMENT')) as last_payment_date
+        from public.transactions t
+       where t."clientId" = c.id::text
+    ) a on true
+   where c.id::text = any(p_client_ids)
+  on conflict (client_id) do update
+     set balance = excluded.balance,
+         total_disbursed = excluded.total_disbursed,
+         capital_collected = excluded.capital_collected,
+         interest_collected = excluded.interest_collected,
+         penalty_collected = excluded.penalty_collected,
+         last_tx_date = excluded.last_tx_date,
+         last_payment_date = excluded.last_payment_date,
+         updated_at = excluded.updated_at
+   where (p.balance, p.total_disbursed, p.capital_collected, p.interest_collected,
+          p.penalty_collected, p.last_tx_date, p.last_payment_date)
+         is distinct from
+         (excluded.balance, excluded.total_disbursed, excluded.capital_collected, excluded.interest_collected,
+          excluded.penalty_collected, excluded.last_tx_date, excluded.last_payment_date);
+end $$;
+
+-- Un trigger por evento: las tablas de transición no admiten INSERT OR UPDATE.
+create or replace function private.sync_client_portfolio()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_ids text[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct n."clientId") into v_ids from new_rows n;
+  elsif tg_op = 'DELETE' then
+    select array_agg(distinct o."clientId") into v_ids from old_rows o;
+  else
+    select array_agg(distinct x.id) into v_ids
+      from (select n."clientId" as id from new_rows n
+            union select o."clientId" from old_rows o) x;
+  end if;
+
+  if v_ids is not null then
+    perform private.refresh_client_portfolio(v_ids);
+  end if;
+  return null;
+end $$;
+
+drop trigger if exists trg_client_portfolio_insert on public.transactions;
+create trigger trg_client_portfolio_insert
+  after insert on public.transactions
+  referencing new table as new_rows
+  for each statement execute function private.sync_client_portfolio();
+
+drop trigger if exists trg_client_portfolio_update on public.transactions;
+create trigger trg_client_portfolio_update
+  after update on public.transactions
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function private.sync_client_portfolio();
+
+drop trigger if exists trg_client_portfolio_delete on public.transactions;
+create trigger trg_client_portfolio_delete
+  after delete on public.transactions
+  referencing old table as old_rows
+  for each statement execute function private.sync_client_portfolio();
+
+-- Carga inicial.
+select private.refresh_client_portfolio(array_agg(c.id::text)) from public.clients c;
+
+-- ----------------------------------------------------------------------------
+-- client_list sobre el resumen (reemplaza a client_balances)
+-- ----------------------------------------------------------------------------
+drop function if exists public.search_clients(uuid, text, text);
+drop function if exists public.client_list_stats(uuid);
+drop view if exists public.client_list;
+drop view if exists public.client_balances;
+
+-- Fecha de un campo de texto "YYYY-MM-DD", o null si no es un día válido:
+-- "nextPaymentDate" y los "dueDate" del plan los escribe el navegador y un
+-- valor roto no debe tumbar la lista entera con un error de cast.
+create or replace function private.try_date(p_value text)
+returns date
+language plpgsql immutable
+set search_path = ''
+as $$
+begin
+  if p_value !~ '^\d{4}-\d{2}-\d{2}$' then return null; end if;
+  return p_value::date;
+exception when datetime_field_overflow or invalid_datetime_format then
+  return null;
+end $$;
+
+create view public.client_list
+with (security_invoker = true) as
+select c.*,
+       coalesce(p.balance, 0) as balance,
+       coalesce(p.total_disbursed, 0) as "totalDisbursed",
+       coalesce(p.capital_collected, 0) as "capitalCollected",
+       coalesce(p.interest_collected, 0) as "totalInterest",
+       coalesce(p.penalty_collected, 0) as "totalPenalty",
+       p.last_tx_date as "lastTxDate",
+       p.last_payment_date as "lastPaymentDate",
+       coalesce(a.overdue_installments, 0) as "overdueInstallments",
+       coalesce(a.overdue_amount, 0) as "overdueAmount",
+       o.late as "isLate",
+       case when o.late then current_date - o.since else 0 end as "daysOverdue"
+  from public.clients c
+  left join public.client_portfolio p on p.client_id = c.id
+  left join lateral (
+    select count(*) as overdue_installments,
+           sum((i->>'payment')::numeric - coalesce((i->>'paidAmount')::numeric, 0)) as overdue_amount,
+           min(private.try_date(i->>'dueDate')) as oldest_due
+      from jsonb_array_elements(coalesce(c."paymentSchedule", '[]'::jsonb)) i
+     where coalesce((i->>'paidAmount')::numeric, 0) < (i->>'payment')::numeric
+       and private.try_date(i->>'dueDate') < current_date
+  ) a on true
+  -- Mora con las reglas de summarizeArrears: con plan, la cuota vencida más
+  -- antigua sin cubrir; sin plan, la fecha de próximo pago.
+  cross join lateral (
+    select coalesce(p.balance, 0) > 0 and s.since is not null as late, s.since
+      from (
+        select case when jsonb_array_length(coalesce(c."paymentSchedule", '[]'::jsonb)) > 0
+                    then a.oldest_due
+                    when private.try_date(c."nextPaymentDate") < current_date
+                    then private.try_date(c."nextPaymentDate")
+               end as since
+      ) s
+  ) o;
+
+grant select on public.client_list to authenticated;
+
+create function public.search_clients(
+  p_org uuid, p_search text default null, p_filter text default 'ALL'
+)
+returns setof public.client_list
+language sql stable
+set search_path = ''
+as $$
+  select l.*
+    from public.client_list l
+    -- Lo que escribe el usuario es texto literal: se escapan \, % y _ del like.
+    cross join lateral (
+      select '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+    ) s
+   where l.organization_id = p_org
+     and (coalesce(trim(p_search), '') = ''
+          or l.name ilike s.pattern
+          or l."guarantorName" ilike s.pattern
+          or l."cardCode" like s.pattern
+          or l.cedula like s.pattern
+          or l.phone like s.pattern)
+     and case coalesce(p_filter, 'ALL')
+           when 'TODAY' then l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')
+           when 'LATE' then l.status = 'ACTIVE' and l."isLate"
+           when 'WAITING' then coalesce(l."pendingRedirectionBalance", 0) > 0
+           else true
+         end;
+$$;
+
+revoke all on function public.search_clients(uuid, text, text) from public, anon;
+grant execute on function public.search_clients(uuid, text, text) to authenticated;
+
+create function public.client_list_stats(p_org uuid)
+returns jsonb
+language sql stable
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'total', count(*),
+    'active', count(*) filter (where l.status = 'ACTIVE'),
+    'due_today', count(*) filter (where l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')),
+    'late', count(*) filter (where l.status = 'ACTIVE' and l."isLate"),
+    'waiting', count(*) filter (where coalesce(l."pendingRedirectionBalance", 0) > 0),
+    'portfolio', coalesce(sum(l.balance) filter (where l.status = 'ACTIVE'), 0),
+    'interest', coalesce(sum(l."totalInterest") filter (where l.status = 'ACTIVE'), 0),
+    'penalty', coalesce(sum(l."totalPenalty"), 0)
+  )
+    from public.client_list l
+   where l.organization_id = p_org;
+$$;
+
+revoke all on function public.client_list_stats(uuid) from public, anon;
+grant execute on function public.client_list_stats(uuid) to authenticated;
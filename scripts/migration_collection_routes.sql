@@ -0,0 +1,294 @@
+-- ============================================================================
+-- Ruta del día. QuickPaySearch lista vencidos y próximos, pero el cobrador
+-- armaba el recorrido de memoria y no quedaba rastro de las visitas.
+--
+--   * collection_routes: una ruta por cobrador y día, asignada a un miembro.
+--     Propietario/admin arman o reasignan la de cualquiera; un cobrador, la suya.
+--   * collection_route_stops: clientes que vencen ese día o están en mora, con
+--     el cobro esperado (cuotas sin cubrir hasta la fecha), el barrio deducido
+--     de la dirección y el resultado de la visita: visitado, pagó, promesa o
+--     no estaba.
+--   * Orden: la secuencia que el cobrador dejó la última vez para esos
+--     clientes; los que nunca estuvieron en su ruta entran agrupados por barrio.
+--   * collection_route_stop_status: paradas con lo cobrado en vivo (pagos del
+--     cliente con fecha de la ruta). Al cerrar se congelan los totales.
+-- Escritura solo por estas RPC. Lectura: el cobrador ve sus rutas;
+-- propietario/admin, todas.
+-- ============================================================================
+
+create table if not exists public.collection_routes (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  date text not null,
+  collector_id uuid not null,
+  order_mode text not null default 'SEQUENCE' check (order_mode in ('SEQUENCE','NEIGHBORHOOD')),
+  status text not null default 'OPEN' check (status in ('OPEN','CLOSED')),
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  expected_total numeric,
+  collected_total numeric,
+  closed_at timestamptz,
+  unique (organization_id, collector_id, date)
+);
+create index if not exists collection_routes_org_date_idx on public.collection_routes (organization_id, date);
+
+create table if not exists public.collection_route_stops (
+  id uuid primary key default gen_random_uuid(),
+  route_id uuid not null references public.collection_routes(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  position int not null,
+  neighborhood text,
+  expected_amount numeric not null default 0,
+  status text not null default 'PENDING' check (status in ('PENDING','VISITED','PAID','PROMISED','NOT_HOME')),
+  note text,
+  visited_at timestamptz,
+  unique (route_id, client_id)
+);
+create index if not exists collection_route_stops_client_idx on public.collection_route_stops (client_id);
+
+alter table public.collection_routes enable row level security;
+alter table public.collection_route_stops enable row level security;
+
+drop policy if exists "collection_routes_select" on public.collection_routes;
+create policy "collection_routes_select" on public.collection_routes
+  for select to authenticated using (
+    collector_id = (select auth.uid()) or private.is_org_admin(organization_id)
+  );
+
+drop policy if exists "collection_route_stops_select" on public.collection_route_stops;
+create policy "collection_route_stops_select" on public.collection_route_stops
+  for select to authenticated using (
+    exists (select 1 from public.collection_routes r
+             where r.id = route_id
+               and (r.collector_id = (select auth.uid()) or private.is_org_admin(r.organization_id)))
+  );
+
+-- Barrio a partir de la dirección libre: "Barrio X", "B/ X" o "Br. X"; si no
+-- aparece, el último tramo después de una coma.
+create or replace function private.neighborhood_from_address(p_address text)
+returns text
+language sql immutable
+set search_path = ''
+as $$
+  select nullif(initcap(lower(btrim(coalesce(
+    (regexp_match(p_address, '(?:barrio|b/|br\.)\s*([^,#-]+)', 'i'))[1],
+    case when position(',' in coalesce(p_address, '')) > 0 then regexp_replace(p_address, '^.*,', '') end
+  )))), '');
+$$;
+
+-- Ruta abierta bloqueada para escribir, con el control de acceso común.
+create or replace function private.lock_open_route(p_route_id uuid)
+returns public.collection_routes
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_route public.collection_routes;
+begin
+  select * into v_route from public.collection_routes r where r.id = p_route_id for update;
+  if v_route.id is null then raise exception 'Ruta no encontrada'; end if;
+  if v_route.collector_id is distinct from auth.uid() and not private.is_org_admin(v_route.organization_id) then
+    raise exception 'Solo el cobrador asignado (o un administrador) puede modificar la ruta';
+  end if;
+  if v_route.status <> 'OPEN' then raise exception 'La ruta ya está cerrada'; end if;
+  return v_route;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Paradas con lo cobrado en vivo. Una parada sin marcar con cobro ese día
+-- se muestra como pagada.
+-- ----------------------------------------------------------------------------
+create or replace view public.collection_route_stop_status
+with (security_invoker = true) as
+select s.*,
+       r.date,
+       r.collector_id,
+       c.name as client_name,
+       c.address,
+       c.phone,
+       c."cardCode" as card_code,
+       coalesce(p.collected, 0) as collected,
+       case when s.status = 'PENDING' and coalesce(p.collected, 0) > 0 then 'PAID' else s.status end as effective_status
+  from public.collection_route_stops s
+  join public.collection_routes r on r.id = s.route_id
+  join public.clients c on c.id = s.client_id
+  left join lateral (
+    select sum(t.amount + coalesce(t."interestPaid", 0)) as collected
+      from public.transactions t
+     where t."clientId" = s.client_id::text
+       and t.date = r.date
+       and not coalesce(t.voided, false)
+       and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'PAYMENT_PENALTY', 'REDIRECT_OUT', 'SETTLEMENT')
+  ) p on true;
+
+grant select on public.collection_route_stop_status to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Armar (o completar) la ruta de un cobrador para un día
+-- ----------------------------------------------------------------------------
+create or replace function public.build_collection_route(p_org uuid, p_date text default null, p_collector uuid default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_date text := coalesce(nullif(p_date, ''), to_char(current_date, 'YYYY-MM-DD'));
+  v_collector uuid := coalesce(p_collector, auth.uid());
+  v_route public.collection_routes;
+  v_last int;
+begin
+  if v_collector = auth.uid() then
+    if not private.has_perm(p_org, 'create_transactions') then
+      raise exception 'Acceso denegado a las rutas de cobro';
+    end if;
+  elsif not private.is_org_admin(p_org) then
+    raise exception 'Solo un administrador puede armar la ruta de otro miembro';
+  end if;
+  if not exists (select 1 from public.organization_members m where m.organization_id = p_org and m.user_id = v_collector) then
+    raise exception 'El cobrador no pertenece a la organización';
+  end if;
+
+  insert into public.collection_routes (organization_id, date, collector_id)
+  values (p_org, v_date, v_collector)
+  on conflict (organization_id, collector_id, date) do nothing;
+
+  select * into v_route from public.collection_routes r
+   where r.organization_id = p_org and r.collector_id = v_collector and r.date = v_date
+   for update;
+  if v_route.status <> 'OPEN' then raise exception 'La ruta del % ya está cerrada', v_date; end if;
+
+  select coalesce(max(s.position), 0) into v_last from public.collection_route_stops s where s.route_id = v_route.id;
+
+  -- Vencen ese día o antes, o están en mora; un cliente va en una sola ruta por día.
+  insert into public.collection_route_stops (route_id, organization_id, client_id, position, neighborhood, expected_amount)
+  select v_route.id, p_org, l.id,
+         v_last + row_number() over (order by prev.position nulls last, private.neighborhood_from_address(l.address) nulls last, l.name),
+         private.neighborhood_from_address(l.address),
+         case when jsonb_array_length(coalesce(l."paymentSchedule", '[]'::jsonb)) > 0
+              then coalesce((select sum(greatest((i->>'payment')::numeric - coalesce((i->>'paidAmount')::numeric, 0), 0))
+                               from jsonb_array_elements(l."paymentSchedule") i
+                              where i->>'dueDate' <= v_date), 0)
+              else least(coalesce(l."installmentAmount", l.balance), l.balance)
+         end
+    from public.client_list l
+    left join lateral (
+      select s.position
+        from public.collection_route_stops s
+        join public.collection_routes r on r.id = s.route_id
+       where r.collector_id = v_collector and r.organization_id = p_org
+         and s.client_id = l.id and r.date < v_date
+       order by r.date desc
+       limit 1
+    ) prev on true
+   where l.organization_id = p_org
+     and l.status = 'ACTIVE'
+     and l.balance > 0
+     and (l."nextPaymentDate" <= v_date or l."isLate")
+     and not exists (
+       select 1 from public.collection_route_stops s
+         join public.collection_routes r on r.id = s.route_id
+        where r.organization_id = p_org and r.date = v_date and s.client_id = l.id
+     );
+
+  return to_jsonb(v_route);
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Orden, visitas, asignación y cierre
+-- ----------------------------------------------------------------------------
+create or replace function public.reorder_route_stops(p_route_id uuid, p_stop_ids uuid[], p_mode text default 'SEQUENCE')
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_route public.collection_routes := private.lock_open_route(p_route_id);
+begin
+  if p_mode not in ('SEQUENCE', 'NEIGHBORHOOD') then raise exception 'Orden no válido: %', p_mode; end if;
+
+  update public.collection_route_stops s
+     set position = array_position(p_stop_ids, s.id)
+   where s.route_id = v_route.id and s.id = any(p_stop_ids);
+
+  update public.collection_routes r set order_mode = p_mode where r.id = v_route.id;
+end $$;
+
+create or replace function public.mark_route_stop(p_stop_id uuid, p_status text, p_note text default null)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_route_id uuid;
+  v_row public.collection_route_stops;
+begin
+  select s.route_id into v_route_id from public.collection_route_stops s where s.id = p_stop_id;
+  if v_route_id is null then raise exception 'Parada no encontrada'; end if;
+  perform private.lock_open_route(v_route_id);
+  if p_status not in ('PENDING', 'VISITED', 'PAID', 'PROMISED', 'NOT_HOME') then
+    raise exception 'Estado de visita no válido: %', p_status;
+  end if;
+
+  update public.collection_route_stops s
+     set status = p_status,
+         note = coalesce(nullif(btrim(p_note), ''), s.note),
+         visited_at = case when p_status = 'PENDING' then null else now() end
+   where s.id = p_stop_id
+  returning * into v_row;
+
+  return to_jsonb(v_row);
+end $$;
+
+create or replace function public.assign_collection_route(p_route_id uuid, p_collector uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_route public.collection_routes := private.lock_open_route(p_route_id);
+begin
+  if not private.is_org_admin(v_route.organization_id) then
+    raise exception 'Solo un administrador puede reasignar rutas';
+  end if;
+  if not exists (select 1 from public.organization_members m where m.organization_id = v_route.organization_id and m.user_id = p_collector) then
+    raise exception 'El cobrador no pertenece a la organización';
+  end if;
+  if exists (select 1 from public.collection_routes r
+              where r.organization_id = v_route.organization_id and r.collector_id = p_collector
+                and r.date = v_route.date and r.id <> v_route.id) then
+    raise exception 'Ese miembro ya tiene ruta el %', v_route.date;
+  end if;
+
+  update public.collection_routes r set collector_id = p_collector where r.id = v_route.id
+  returning * into v_route;
+  return to_jsonb(v_route);
+end $$;
+
+create or replace function public.close_collection_route(p_route_id uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_route public.collection_routes := private.lock_open_route(p_route_id);
+begin
+  update public.collection_routes r
+     set status = 'CLOSED',
+         closed_at = now(),
+         (expected_total, collected_total) = (
+           select coalesce(sum(v.expected_amount), 0), coalesce(sum(v.collected), 0)
+             from public.collection_route_stop_status v
+            where v.route_id = r.id
+         )
+   where r.id = v_route.id
+  returning * into v_route;
+  return to_jsonb(v_route);
+end $$;
+
+revoke all on function public.build_collection_route(uuid, text, uuid) from public, anon;
+grant execute on function public.build_collection_route(uuid, text, uuid) to authenticated;
+revoke all on function public.reorder_route_stops(uuid, uuid[], text) from public, anon;
+grant execute on function public.reorder_route_stops(uuid, uuid[], text) to authenticated;
+revoke all on function public.mark_route_stop(uuid, text, text) from public, anon;
+grant execute on function public.mark_route_stop(uuid, text, text) to authenticated;
+revoke all on function public.assign_collection_route(uuid, uuid) from public, anon;
+grant execute on function public.assign_collection_route(uuid, uuid) to authenticated;
+revoke all on function public.close_collection_route(uuid) from public, anon;
+grant execute on function public.close_collection_route(uuid) to authenticated;
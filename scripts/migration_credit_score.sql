@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Factores del puntaje crediticio. Refinanciaciones y cupos se decidían a ojo;
+-- esta vista reúne, por cliente, lo que el historial dice de él. El puntaje
+-- (0-100), su explicación y el cupo sugerido se calculan en la app
+-- (services/creditScoreService.ts) a partir de estas columnas.
+--
+--   * Cuotas del plan vigente ya vencidas: cuántas se cubrieron a tiempo y el
+--     promedio de días de atraso (las aún sin cubrir cuentan hasta hoy).
+--   * Promesas de pago cumplidas e incumplidas (payment_promise_status).
+--   * Préstamos y refinanciaciones (últimos 12 meses) y la mayor deuda que
+--     llegó a tener tras un desembolso, base del cupo sugerido.
+--   * Antigüedad: desde el primer movimiento o el inicio del crédito.
+--   * Referidos: cuántos trajo y cuántos terminaron en BAD_DEBT.
+-- security_invoker: cada quien ve los factores de los clientes que puede ver.
+-- ============================================================================
+
+create or replace view public.client_credit_factors
+with (security_invoker = true) as
+select c.id as client_id,
+       c.organization_id,
+       coalesce(i.due_installments, 0) as due_installments,
+       coalesce(i.on_time_installments, 0) as on_time_installments,
+       i.avg_days_late,
+       coalesce(pr.kept, 0) as kept_promises,
+       coalesce(pr.broken, 0) as broken_promises,
+       coalesce(t.loans, 0) as loans,
+       coalesce(t.refinances_12m, 0) as refinances_12m,
+       coalesce(t.max_exposure, 0) as max_exposure,
+       current_date - to_date(s.since, 'YYYY-MM-DD') as tenure_days,
+       coalesce(r.referrals, 0) as referrals,
+       coalesce(r.bad_debt_referrals, 0) as bad_debt_referrals
+  from public.clients c
+  left join lateral (
+    select count(*) as due_installments,
+           count(*) filter (where x.paid and x.paid_date <= x.due_date) as on_time_installments,
+           round(avg(greatest(
+             case when x.paid and x.paid_date is not null then to_date(x.paid_date, 'YYYY-MM-DD') else current_date end
+             - to_date(x.due_date, 'YYYY-MM-DD'), 0)), 1) as avg_days_late
+      from (
+        select e->>'dueDate' as due_date,
+               e->>'paidDate' as paid_date,
+               coalesce((e->>'paidAmount')::numeric, 0) >= (e->>'payment')::numeric as paid
+          from jsonb_array_elements(coalesce(c."paymentSchedule", '[]'::jsonb)) e
+         where e->>'dueDate' ~ '^\d{4}-\d{2}-\d{2}$'
+           and coalesce(e->>'paidDate', '2000-01-01') ~ '^\d{4}-\d{2}-\d{2}$'
+           and e->>'dueDate' <= to_char(current_date, 'YYYY-MM-DD')
+      ) x
+  ) i on true
+  left join lateral (
+    select count(*) filter (where p.effective_status = 'KEPT') as kept,
+           count(*) filter (where p.effective_status = 'BROKEN') as broken
+      from public.payment_promise_status p
+     where p.client_id = c.id
+  ) pr on true
+  left join lateral (
+    select count(*) as loans,
+           count(*) filter (where tx.type = 'REFINANCE'
+                              and tx.date >= to_char(current_date - interval '12 months', 'YYYY-MM-DD')) as refinances_12m,
+           max(tx."balanceAfter") as max_exposure,
+           min(tx.date) as first_date
+      from public.transactions tx
+     where tx."clientId" = c.id::text
+       and not coalesce(tx.voided, false)
+       and tx.type in ('DISBURSEMENT', 'REFINANCE')
+  ) t on true
+  left join lateral (
+    select count(*) as referrals,
+           count(*) filter (where rc.status = 'BAD_DEBT') as bad_debt_referrals
+      from public.clients rc
+     where rc."referrerId" = c.id::text
+  ) r on true
+  cross join lateral (
+    select least(
+             case when t.first_date ~ '^\d{4}-\d{2}-\d{2}$' then t.first_date end,
+             case when c."creditStartDate" ~ '^\d{4}-\d{2}-\d{2}$' then c."creditStartDate" end
+           ) as since
+  ) s;
+
+grant select on public.client_credit_factors to authenticated;
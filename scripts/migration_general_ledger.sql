@@ -0,0 +1,706 @@
+-- ============================================================================
+-- Libro diario de partida doble. Antes bank_accounts.balance era un número
+-- mutable que se "empujaba" con bump_bank_balance, y la cartera/utilidad se
+-- derivaban al vuelo en ClientList: nada garantizaba que los libros cuadraran
+-- ni dejaba rastro auditable para un contador.
+--
+-- Ahora:
+--   * ledger_accounts: plan de cuentas por organización (una cuenta por cada
+--     banco/caja + cartera, ingresos por interés y mora, gasto por castigo,
+--     capital del propietario y una cuenta puente para redirecciones).
+--   * journal_entries / journal_lines: asientos balanceados (débitos =
+--     créditos), de solo escritura por el servidor (sin políticas de INSERT/
+--     UPDATE/DELETE para usuarios).
+--   * Un trigger sobre transactions postea cada movimiento: alta, edición
+--     (contra-asiento del estado anterior + asiento nuevo), reversión y purga.
+--   * bank_accounts.balance pasa a ser un CACHÉ del diario: solo lo escribe
+--     el posteo; un UPDATE directo del saldo se rechaza. bump_bank_balance se
+--     elimina.
+--   * Vista ledger_account_balances para el balance de comprobación.
+--
+-- Asientos por tipo ("caja" = la cuenta bancaria del movimiento, o la cuenta
+-- puente si no tiene banco, p. ej. redirecciones):
+--   DISBURSEMENT/REFINANCE/REDIRECT_IN  Db Cartera          / Cr Caja
+--   PAYMENT_CAPITAL/REDIRECT_OUT/
+--   SETTLEMENT                          Db Caja (monto+int) / Cr Cartera (monto) + Cr Intereses (int)
+--   PAYMENT_INTEREST                    Db Caja             / Cr Intereses
+--   PAYMENT_PENALTY                     Db Caja             / Cr Ingresos por mora
+--   BANK_DEPOSIT                        Db Caja             / Cr Capital propietario
+--   BANK_WITHDRAWAL                     Db Capital          / Cr Caja
+--   REVERSAL                            asiento inverso del movimiento original
+-- Backfill: asientos de apertura con los saldos actuales de cada banco y de
+-- la cartera (contra Capital del propietario), más los intereses y la mora
+-- ya cobrados reclasificados a sus cuentas de ingreso.
+-- ============================================================================
+
+create table if not exists public.ledger_accounts (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  code text not null,
+  name text not null,
+  kind text not null check (kind in ('ASSET','LIABILITY','EQUITY','INCOME','EXPENSE')),
+  system_key text not null check (system_key in ('BANK','CLEARING','LOANS_RECEIVABLE','OWNER_EQUITY','INTEREST_INCOME','PENALTY_INCOME','BAD_DEBT_EXPENSE')),
+  bank_account_id text,
+  created_at timestamptz default now(),
+  unique (organization_id, code)
+);
+create unique index if not exists ledger_accounts_system_key_uniq
+  on public.ledger_accounts (organization_id, system_key) where system_key <> 'BANK';
+create unique index if not exists ledger_accounts_bank_uniq
+  on public.ledger_accounts (bank_account_id) where bank_account_id is not null;
+
+create table if not exists public.journal_entries (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  source text not null check (source in ('TRANSACTION','OPENING')),
+  transaction_id text,
+  date text not null,
+  description text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+create index if not exists journal_entries_org_date_idx on public.journal_entries (organization_id, date);
+create index if not exists journal_entries_tx_idx on public.journal_entries (transaction_id);
+
+create table if not exists public.journal_lines (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.journal_entries(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  account_id uuid not null references public.ledger_accounts(id),
+  debit numeric not null default 0 check (debit >= 0),
+  credit numeric not null default 0 check (credit >= 0),
+  constraint journal_lines_one_side check (debit = 0 or credit = 0)
+);
+create index if not exists journal_lines_account_idx on public.journal_lines (account_id);
+create index if not exists journal_lines_entry_idx on public.journal_lines (entry_id);
+
+alter table public.ledger_accounts enable row level security;
+alter table public.journal_entries enable row level security;
+alter table public.journal_lines enable row level security;
+
+drop policy if exists "ledger_accounts_select" on public.ledger_accounts;
+create policy "ledger_accounts_select" on public.ledger_accounts
+  for select to authenticated using (private.is_org_member(organization_id));
+drop policy if exists "journal_entries_select" on public.journal_entries;
+create policy "journal_entries_select" on public.journal_entries
+  for select to authenticated using (private.is_org_member(organization_id));
+drop policy if exists "journal_lines_select" on public.journal_lines;
+create policy "journal_lines_select" on public.journal_lines
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- ----------------------------------------------------------------------------
+-- Plan de cuentas (se crea bajo demanda)
+-- ----------------------------------------------------------------------------
+create or replace function private.ledger_account(p_org uuid, p_key text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_id uuid;
+begin
+  select a.id into v_id from public.ledger_accounts a
+   where a.organization_id = p_org and a.system_key = p_key;
+  if v_id is not null then return v_id; end if;
+
+  insert into public.ledger_accounts (organization_id, code, name, kind, system_key)
+  select p_org, d.code, d.name, d.kind, p_key
+    from (values
+      ('CLEARING',         '1195', 'Cuenta puente (redirecciones)', 'ASSET'),
+      ('LOANS_RECEIVABLE', '1305', 'Cartera de créditos',           'ASSET'),
+      ('OWNER_EQUITY',     '3105', 'Capital del propietario',       'EQUITY'),
+      ('INTEREST_INCOME',  '4150', 'Ingresos por intereses',        'INCOME'),
+      ('PENALTY_INCOME',   '4155', 'Ingresos por mora',             'INCOME'),
+      ('BAD_DEBT_EXPENSE', '5199', 'Gasto por cartera castigada',   'EXPENSE')
+    ) as d(key, code, name, kind)
+   where d.key = p_key
+  on conflict do nothing
+  returning id into v_id;
+
+  if v_id is null then
+    select a.id into v_id from public.ledger_accounts a
+     where a.organization_id = p_org and a.system_key = p_key;
+  end if;
+  if v_id is null then raise exception 'Cuenta contable desconocida: %', p_key; end if;
+  return v_id;
+end $$;
+
+create or replace function private.bank_ledger_account(p_org uuid, p_bank_id text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_id uuid;
+  v_name text;
+  v_seq int;
+begin
+  select a.id into v_id from public.ledger_accounts a where a.bank_account_id = p_bank_id;
+  if v_id is not null then return v_id; end if;
+
+  select b.name into v_name from public.bank_accounts b
+   where b.id::text = p_bank_id and b.organization_id = p_org;
+  if v_name is null then raise exception 'Cuenta bancaria no encontrada'; end if;
+
+  select count(*) + 1 into v_seq from public.ledger_accounts a
+   where a.organization_id = p_org and a.system_key = 'BANK';
+
+  insert into public.ledger_accounts (organization_id, code, name, kind, system_key, bank_account_id)
+  values (p_org, '1110-' || lpad(v_seq::text, 2, '0'), v_name, 'ASSET', 'BANK', p_bank_id)
+  returning id into v_id;
+  return v_id;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Posteo: valida que el asiento cuadre y refresca el caché de saldos bancarios.
+-- p_lines: [{ account_id, debit, credit }]
+-- ----------------------------------------------------------------------------
+create or replace function private.post_entry(
+  p_org uuid, p_source text, p_transaction_id text, p_date text, p_description text, p_lines jsonb
+)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_entry uuid;
+  v_debit numeric;
+  v_credit numeric;
+begin
+  select coalesce(sum((l->>'debit')::numeric), 0), coalesce(sum((l->>'credit')::numeric), 0)
+    into v_debit, v_credit
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) l;
+
+  if v_debit = 0 and v_credit = 0 then return null; end if;
+  if round(v_debit, 2) <> round(v_credit, 2) then
+    raise exception 'Asiento descuadrado: débitos % / créditos %', v_debit, v_credit;
+  end if;
+
+  insert into public.journal_entries (organization_id, source, transaction_id, date, description)
+  values (p_org, p_source, p_transaction_id, coalesce(p_date, to_char(current_date, 'YYYY-MM-DD')), p_description)
+  returning id into v_entry;
+
+  insert into public.journal_lines (entry_id, organization_id, account_id, debit, credit)
+  select v_entry, p_org, (l->>'account_id')::uuid,
+         coalesce((l->>'debit')::numeric, 0), coalesce((l->>'credit')::numeric, 0)
+    from jsonb_array_elements(p_lines) l
+   where coalesce((l->>'debit')::numeric, 0) <> 0 or coalesce((l->>'credit')::numeric, 0) <> 0;
+
+  perform set_config('prestaflow.ledger_sync', 'on', true);
+  update public.bank_accounts b
+     set balance = (select coalesce(sum(jl.debit - jl.credit), 0)
+                      from public.journal_lines jl where jl.account_id = a.id)
+    from public.ledger_accounts a
+   where a.bank_account_id = b.id::text
+     and a.id in (select (l->>'account_id')::uuid from jsonb_array_elements(p_lines) l);
+  perform set_config('prestaflow.ledger_sync', 'off', true);
+
+  return v_entry;
+end $$;
+
+-- Líneas del asiento de un movimiento; p_reverse invierte débitos y créditos.
+create or replace function private.transaction_lines(t public.transactions, p_reverse boolean default false)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := t.organization_id;
+  v_cash uuid;
+  v_amount numeric := coalesce(t.amount, 0);
+  v_interest numeric := coalesce(t."interestPaid", 0);
+  v_lines jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_out jsonb := '[]'::jsonb;
+begin
+  v_cash := case
+    when nullif(t."bankAccountId", '') is not null then private.bank_ledger_account(v_org, t."bankAccountId")
+    else private.ledger_account(v_org, 'CLEARING')
+  end;
+
+  if t.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', 0, 'credit', v_amount),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_interest));
+  elsif t.type = 'PAYMENT_INTEREST' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_amount + v_interest));
+  elsif t.type = 'PAYMENT_PENALTY' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'PENALTY_INCOME'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_DEPOSIT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_WITHDRAWAL' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  end if;
+
+  if not p_reverse then return v_lines; end if;
+
+  for v_line in select * from jsonb_array_elements(v_lines) loop
+    v_out := v_out || jsonb_build_array(jsonb_build_object(
+      'account_id', v_line->'account_id', 'debit', v_line->'credit', 'credit', v_line->'debit'));
+  end loop;
+  return v_out;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Trigger de posteo sobre transactions
+-- ----------------------------------------------------------------------------
+create or replace function private.post_transaction_journal()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_origin public.transactions;
+  v_bank numeric;
+  v_prior_outflow numeric;
+begin
+  if tg_op = 'INSERT' then
+    if new.type = 'REVERSAL' then
+      select * into v_origin from public.transactions t where t.id::text = new."relatedTransactionId";
+      if v_origin.id is not null then
+        perform private.post_entry(new.organization_id, 'TRANSACTION', new.id::text, new.date,
+          'Reversión ' || v_origin.type || coalesce(': ' || nullif(new.notes, ''), ''),
+          private.transaction_lines(v_origin, true));
+      end if;
+    else
+      perform private.post_entry(new.organization_id, 'TRANSACTION', new.id::text, new.date,
+        new.type || coalesce(': ' || nullif(new.notes, ''), ''),
+        private.transaction_lines(new, false));
+
+      -- Salidas de caja: no se permite saldo negativo (antes lo validaba bump_bank_balance).
+      if new.type in ('DISBURSEMENT', 'REFINANCE', 'BANK_WITHDRAWAL') and nullif(new."bankAccountId", '') is not null then
+        select b.balance into v_bank from public.bank_accounts b where b.id::text = new."bankAccountId";
+        if v_bank < 0 then raise exception 'Fondos insuficientes'; end if;
+      end if;
+    end if;
+    return new;
+
+  elsif tg_op = 'UPDATE' then
+    -- Edición: contra-asiento del estado anterior + asiento del nuevo. Los
+    -- cambios de "balanceAfter" (recálculo) o de voided no postean nada.
+    if not old.voided and not new.voided and old.type <> 'REVERSAL'
+       and (old.type, old.amount, old."interestPaid", old."bankAccountId")
+           is distinct from (new.type, new.amount, new."interestPaid", new."bankAccountId") then
+      perform private.post_entry(new.organization_id, 'TRANSACTION', new.id::text, new.date,
+        'Edición (anula asiento anterior) ' || old.type, private.transaction_lines(old, true));
+      perform private.post_entry(new.organization_id, 'TRANSACTION', new.id::text, new.date,
+        'Edición ' || new.type || coalesce(': ' || nullif(new.notes, ''), ''), private.transaction_lines(new, false));
+
+      -- Misma validación de fondos que al insertar, sobre lo que la edición
+      -- agrega a la salida de esa cuenta (más monto o cambio de cuenta).
+      v_prior_outflow := case when old.type in ('DISBURSEMENT', 'REFINANCE', 'BANK_WITHDRAWAL')
+                                   and old."bankAccountId" = new."bankAccountId"
+                              then coalesce(old.amount, 0) else 0 end;
+      if new.type in ('DISBURSEMENT', 'REFINANCE', 'BANK_WITHDRAWAL') and nullif(new."bankAccountId", '') is not null
+         and coalesce(new.amount, 0) > v_prior_outflow then
+        select b.balance into v_bank from public.bank_accounts b where b.id::text = new."bankAccountId";
+        if v_bank < 0 then raise exception 'Fondos insuficientes'; end if;
+      end if;
+    end if;
+    return new;
+
+  else
+    -- Purga del propietario: el asiento original queda y se postea su inverso.
+    if not old.voided and old.type <> 'REVERSAL' then
+      perform private.post_entry(old.organization_id, 'TRANSACTION', old.id::text, to_char(current_date, 'YYYY-MM-DD'),
+        'Purga ' || old.type, private.transaction_lines(old, true));
+    end if;
+    return old;
+  end if;
+end $$;
+
+drop trigger if exists trg_post_transaction_journal on public.transactions;
+create trigger trg_post_transaction_journal
+  after insert or update or delete on public.transactions
+  for each row execute function private.post_transaction_journal();
+
+-- ----------------------------------------------------------------------------
+-- Cuentas bancarias: saldo inicial como asiento de apertura; el saldo solo lo
+-- escribe el posteo.
+-- ----------------------------------------------------------------------------
+create or replace function private.open_bank_ledger_account()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_account uuid;
+begin
+  v_account := private.bank_ledger_account(new.organization_id, new.id::text);
+  if coalesce(new.balance, 0) > 0 then
+    perform private.post_entry(new.organization_id, 'OPENING', null, to_char(current_date, 'YYYY-MM-DD'),
+      'Saldo inicial ' || new.name,
+      jsonb_build_array(
+        jsonb_build_object('account_id', v_account, 'debit', new.balance, 'credit', 0),
+        jsonb_build_object('account_id', private.ledger_account(new.organization_id, 'OWNER_EQUITY'), 'debit', 0, 'credit', new.balance)));
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_open_bank_ledger_account on public.bank_accounts;
+create trigger trg_open_bank_ledger_account
+  after insert on public.bank_accounts
+  for each row execute function private.open_bank_ledger_account();
+
+create or replace function private.guard_bank_balance()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if new.balance is distinct from old.balance
+     and coalesce(current_setting('prestaflow.ledger_sync', true), 'off') <> 'on' then
+    raise exception 'El saldo de la cuenta se deriva del libro diario; registre un movimiento';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_bank_balance on public.bank_accounts;
+create trigger trg_guard_bank_balance
+  before update on public.bank_accounts
+  for each row execute function private.guard_bank_balance();
+
+drop function if exists public.bump_bank_balance(text, numeric, boolean);
+
+-- ----------------------------------------------------------------------------
+-- Saldos por cuenta (balance de comprobación). security_invoker → aplica RLS.
+-- balance con signo natural: deudor para activos/gastos, acreedor para el resto.
+-- ----------------------------------------------------------------------------
+create or replace view public.ledger_account_balances
+with (security_invoker = true) as
+select a.id,
+       a.organization_id,
+       a.code,
+       a.name,
+       a.kind,
+       a.system_key,
+       a.bank_account_id,
+       coalesce(sum(l.debit), 0) as debit,
+       coalesce(sum(l.credit), 0) as credit,
+       case when a.kind in ('ASSET', 'EXPENSE')
+            then coalesce(sum(l.debit - l.credit), 0)
+            else coalesce(sum(l.credit - l.debit), 0)
+       end as balance
+  from public.ledger_accounts a
+  left join public.journal_lines l on l.account_id = a.id
+ group by a.id;
+
+grant select on public.ledger_account_balances to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- register_payment / reverse_transaction: la caja ya la mueve el posteo, así
+-- que se quitan sus UPDATE directos de bank_accounts (solo leen el saldo).
+-- ----------------------------------------------------------------------------
+create or replace function public.register_payment(
+  p_tx jsonb,
+  p_penalty jsonb default null,
+  p_client_fields jsonb default '{}'::jsonb,
+  p_redirect jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client_id text := p_tx->>'clientId';
+  v_org uuid;
+  v_bank_id text := nullif(p_tx->>'bankAccountId', '');
+  v_bank_balance numeric;
+  v_target_id text := case when p_tx->>'type' = 'REDIRECT_OUT' then nullif(p_tx->>'relatedClientId', '') end;
+  v_tx public.transactions;
+  v_client jsonb;
+  v_target jsonb;
+  v_ledger jsonb;
+  v_target_ledger jsonb;
+begin
+  if p_tx->>'type' not in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT', 'SETTLEMENT') then
+    raise exception 'Tipo de movimiento no admitido como pago: %', p_tx->>'type';
+  end if;
+
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = v_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not private.has_perm(v_org, 'create_transactions') then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  if coalesce((p_tx->>'amount')::numeric, 0) < 0
+     or coalesce((p_tx->>'interestPaid')::numeric, 0) < 0
+     or coalesce((p_penalty->>'amount')::numeric, 0) < 0 then
+    raise exception 'Los montos no pueden ser negativos';
+  end if;
+
+  -- Receptor de la redirección: otro cliente de la misma organización.
+  if v_target_id is not null then
+    if v_target_id = v_client_id then
+      raise exception 'Un cliente no puede redirigirse un pago a sí mismo';
+    end if;
+    perform 1 from public.clients c
+     where c.id::text = v_target_id
+       and c.organization_id = v_org
+     for update;
+    if not found then raise exception 'Cliente receptor no encontrado'; end if;
+  end if;
+
+  -- La contraparte sale del pago: mismo receptor, monto y fecha.
+  if p_redirect is not null then
+    if v_target_id is null then
+      raise exception 'Solo una redirección con receptor lleva contraparte';
+    end if;
+    if p_redirect->>'clientId' is distinct from v_target_id
+       or (p_redirect->>'amount')::numeric is distinct from (p_tx->>'amount')::numeric
+       or p_redirect->>'date' is distinct from p_tx->>'date' then
+      raise exception 'La contraparte no coincide con la redirección';
+    end if;
+  end if;
+
+  if v_bank_id is not null and not exists (
+    select 1 from public.bank_accounts b where b.id::text = v_bank_id and b.organization_id = v_org
+  ) then
+    raise exception 'Cuenta no encontrada';
+  end if;
+
+  -- 1. Movimientos (el trigger de posteo mueve la caja)
+  v_tx := private.insert_payment_row(p_tx, jsonb_build_object(
+    'organization_id', v_org, 'clientId', v_client_id, 'type', p_tx->>'type', 'relatedClientId', v_target_id));
+
+  if p_penalty is not null then
+    perform private.insert_payment_row(p_penalty, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_client_id, 'type', 'PAYMENT_PENALTY',
+      'relatedTransactionId', v_tx.id::text));
+  end if;
+
+  if v_bank_id is not null then
+    select b.balance into v_bank_balance from public.bank_accounts b where b.id::text = v_bank_id;
+  end if;
+
+  -- 2. Saldos del cliente
+  perform public.recalculate_client_balances(v_client_id);
+
+  -- 3. Plan de cuotas / próximo vencimiento
+  update public.clients c
+     set "paymentSchedule" = case when p_client_fields ? 'paymentSchedule'
+                                  then p_client_fields->'paymentSchedule' else c."paymentSchedule" end,
+         "nextPaymentDate" = case when p_client_fields ? 'nextPaymentDate'
+                                  then p_client_fields->>'nextPaymentDate' else c."nextPaymentDate" end
+   where c.id::text = v_client_id;
+
+  -- 4. Contraparte de la redirección
+  if p_redirect is not null then
+    perform private.insert_payment_row(p_redirect, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_target_id, 'type', 'REDIRECT_IN',
+      'amount', v_tx.amount, 'date', v_tx.date, 'interestPaid', 0, 'capitalPaid', 0,
+      'relatedClientId', v_client_id, 'relatedTransactionId', v_tx.id::text));
+
+    perform public.recalculate_client_balances(v_target_id);
+
+    update public.clients c
+       set "pendingRedirectionBalance" = greatest(0, coalesce(c."pendingRedirectionBalance", 0) - coalesce(v_tx.amount, 0))
+     where c.id::text = v_target_id
+    returning to_jsonb(c) into v_target;
+
+    select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_target_ledger
+      from public.transactions t
+     where t."clientId" = v_target_id and t.organization_id = v_org;
+  end if;
+
+  select to_jsonb(c) into v_client from public.clients c where c.id::text = v_client_id;
+
+  select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_ledger
+    from public.transactions t
+   where t."clientId" = v_client_id and t.organization_id = v_org;
+
+  return jsonb_build_object(
+    'client', v_client,
+    'transactions', v_ledger,
+    'bank_balance', v_bank_balance,
+    'target_client', v_target,
+    'target_transactions', v_target_ledger
+  );
+end $$;
+
+revoke all on function public.register_payment(jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.register_payment(jsonb, jsonb, jsonb, jsonb) to authenticated;
+
+create or replace function public.reverse_transaction(p_tx_id text, p_reason text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_origin public.transactions;
+  v_row public.transactions;
+  v_reason text := nullif(btrim(p_reason), '');
+  v_clients text[] := '{}';
+  v_banks text[] := '{}';
+  v_client text;
+begin
+  if v_reason is null then raise exception 'Debe indicar el motivo de la reversión'; end if;
+
+  select * into v_origin from public.transactions t where t.id::text = p_tx_id;
+  if v_origin.id is null then raise exception 'Movimiento no encontrado'; end if;
+  v_org := v_origin.organization_id;
+
+  if not private.has_perm(v_org, 'delete_transactions') then
+    raise exception 'Acceso denegado al movimiento';
+  end if;
+
+  if v_origin."clientId" is null then raise exception 'Solo se reversan movimientos de clientes'; end if;
+  if v_origin.voided then raise exception 'El movimiento ya fue reversado'; end if;
+  if v_origin.type = 'REVERSAL' then raise exception 'Una reversión no se puede reversar'; end if;
+  if v_origin.type = 'REDIRECT_IN' and v_origin."relatedTransactionId" is not null then
+    raise exception 'Reverse la redirección desde el cliente que pagó';
+  end if;
+
+  perform 1 from public.clients c
+   where c.organization_id = v_org
+     and c.id::text in (
+       select t."clientId" from public.transactions t
+        where t.organization_id = v_org
+          and (t.id::text = p_tx_id or t."relatedTransactionId" = p_tx_id)
+     )
+   order by c.id
+   for update;
+
+  for v_row in
+    select * from public.transactions t
+     where t.organization_id = v_org
+       and (t.id::text = p_tx_id or t."relatedTransactionId" = p_tx_id)
+       and not t.voided
+       and t.type <> 'REVERSAL'
+     order by t.created_at
+     for update
+  loop
+    update public.transactions
+       set voided = true, "voidReason" = v_reason
+     where id = v_row.id;
+
+    -- El REVERSAL postea el asiento inverso (y mueve la caja) vía trigger.
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "relatedTransactionId", "relatedClientId", "bankAccountId"
+    ) values (
+      v_org, v_row."clientId", to_char(current_date, 'YYYY-MM-DD'), 'REVERSAL',
+      v_row.amount, coalesce(v_row."interestPaid", 0), 0, 0, v_reason,
+      v_row.id::text, v_row."relatedClientId", v_row."bankAccountId"
+    );
+
+    if v_row."bankAccountId" is not null then
+      v_banks := array_append(v_banks, v_row."bankAccountId");
+    end if;
+
+    if v_row.type = 'REDIRECT_IN' then
+      update public.clients c
+         set "pendingRedirectionBalance" = coalesce(c."pendingRedirectionBalance", 0) + coalesce(v_row.amount, 0)
+       where c.id::text = v_row."clientId";
+    end if;
+
+    if not v_row."clientId" = any(v_clients) then
+      v_clients := array_append(v_clients, v_row."clientId");
+    end if;
+  end loop;
+
+  foreach v_client in array v_clients loop
+    perform public.recalculate_client_balances(v_client);
+  end loop;
+
+  return jsonb_build_object(
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb)
+        from public.transactions t
+       where t.organization_id = v_org and t."clientId" = any(v_clients)
+    ),
+    'banks', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'balance', b.balance)), '[]'::jsonb)
+        from public.bank_accounts b
+       where b.organization_id = v_org and b.id::text = any(v_banks)
+    )
+  );
+end $$;
+
+revoke all on function public.reverse_transaction(text, text) from public, anon;
+grant execute on function public.reverse_transaction(text, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Backfill: asientos de apertura con la foto actual (bancos, cartera e ingresos).
+-- ----------------------------------------------------------------------------
+do $$
+declare
+  v_org record;
+  v_bank record;
+  v_portfolio numeric;
+  v_interest numeric;
+  v_penalty numeric;
+begin
+  for v_org in select o.id from public.organizations o loop
+    if exists (select 1 from public.journal_entries e where e.organization_id = v_org.id and e.source = 'OPENING') then
+      continue;
+    end if;
+
+    for v_bank in select b.id, b.name, coalesce(b.balance, 0) as balance from public.bank_accounts b where b.organization_id = v_org.id loop
+      perform private.bank_ledger_account(v_org.id, v_bank.id::text);
+      if v_bank.balance <> 0 then
+        perform private.post_entry(v_org.id, 'OPENING', null, to_char(current_date, 'YYYY-MM-DD'),
+          'Saldo de apertura ' || v_bank.name,
+          case when v_bank.balance > 0 then jsonb_build_array(
+            jsonb_build_object('account_id', private.bank_ledger_account(v_org.id, v_bank.id::text), 'debit', v_bank.balance, 'credit', 0),
+            jsonb_build_object('account_id', private.ledger_account(v_org.id, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_bank.balance))
+          else jsonb_build_array(
+            jsonb_build_object('account_id', private.ledger_account(v_org.id, 'OWNER_EQUITY'), 'debit', -v_bank.balance, 'credit', 0),
+            jsonb_build_object('account_id', private.bank_ledger_account(v_org.id, v_bank.id::text), 'debit', 0, 'credit', -v_bank.balance))
+          end);
+      end if;
+    end loop;
+
+    select coalesce(sum(x."balanceAfter"), 0) into v_portfolio
+      from (
+        select distinct on (t."clientId") t."balanceAfter"
+          from public.transactions t
+         where t.organization_id = v_org.id and t."clientId" is not null
+         order by t."clientId", t.date desc, t.created_at desc, t.id desc
+      ) x;
+
+    if v_portfolio > 0 then
+      perform private.post_entry(v_org.id, 'OPENING', null, to_char(current_date, 'YYYY-MM-DD'),
+        'Cartera de apertura',
+        jsonb_build_array(
+          jsonb_build_object('account_id', private.ledger_account(v_org.id, 'LOANS_RECEIVABLE'), 'debit', v_portfolio, 'credit', 0),
+          jsonb_build_object('account_id', private.ledger_account(v_org.id, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_portfolio)));
+    end if;
+
+    -- Ingresos históricos: se reclasifican desde el capital para que la
+    -- utilidad del tablero no arranque en cero tras la migración.
+    select coalesce(sum(coalesce(t."interestPaid", 0) + case when t.type = 'PAYMENT_INTEREST' then coalesce(t.amount, 0) else 0 end), 0),
+           coalesce(sum(case when t.type = 'PAYMENT_PENALTY' then coalesce(t.amount, 0) else 0 end), 0)
+      into v_interest, v_penalty
+      from public.transactions t
+     where t.organization_id = v_org.id
+       and not t.voided
+       and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT', 'SETTLEMENT', 'PAYMENT_PENALTY');
+
+    if v_interest > 0 or v_penalty > 0 then
+      perform private.post_entry(v_org.id, 'OPENING', null, to_char(current_date, 'YYYY-MM-DD'),
+        'Ingresos históricos de apertura',
+        jsonb_build_array(
+          jsonb_build_object('account_id', private.ledger_account(v_org.id, 'OWNER_EQUITY'), 'debit', v_interest + v_penalty, 'credit', 0),
+          jsonb_build_object('account_id', private.ledger_account(v_org.id, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_interest),
+          jsonb_build_object('account_id', private.ledger_account(v_org.id, 'PENALTY_INCOME'), 'debit', 0, 'credit', v_penalty)));
+    end if;
+  end loop;
+end $$;
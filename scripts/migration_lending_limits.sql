@@ -0,0 +1,263 @@
+-- ============================================================================
+-- Cupos y exposición. clients."loanLimit" se guardaba pero nadie lo revisaba:
+-- se podía desembolsar cualquier monto. Ahora un trigger valida cada
+-- DISBURSEMENT / REFINANCE / REDIRECT_IN (la redirección es un préstamo para
+-- quien la recibe) y la edición que suba su monto, contra:
+--
+--   * el cupo del cliente ("loanLimit", si tiene);
+--   * settings.lending_policy.maxPerClient: deuda máxima por cliente en la
+--     organización;
+--   * settings.lending_policy.groupLimit (opcional): deuda conjunta de los
+--     clientes con el mismo fiador (por teléfono, o nombre si no hay) y/o del
+--     mismo grupo de referidos (quien refiere y sus referidos), según groupBy.
+--
+--   settings.lending_policy (jsonb):
+--     { "maxPerClient", "groupLimit", "groupBy": "GUARANTOR"|"REFERRER"|"BOTH" }
+--
+-- Excepción: solo el propietario, con motivo. authorize_lending_override deja
+-- una autorización de un solo uso (15 minutos, hasta el monto indicado) y el
+-- registro en audit_logs; el trigger la consume con el desembolso.
+-- ============================================================================
+
+alter table public.settings add column if not exists lending_policy jsonb;
+grant select (lending_policy) on public.settings to authenticated;
+
+create table if not exists public.lending_overrides (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  reason text not null,
+  violations jsonb not null default '[]'::jsonb,
+  approved_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  expires_at timestamptz not null default now() + interval '15 minutes',
+  transaction_id uuid
+);
+create index if not exists lending_overrides_client_idx on public.lending_overrides (client_id, created_at desc);
+
+alter table public.lending_overrides enable row level security;
+
+drop policy if exists "lending_overrides_select" on public.lending_overrides;
+create policy "lending_overrides_select" on public.lending_overrides
+  for select to authenticated using (private.is_org_admin(organization_id));
+
+revoke insert, update, delete on public.lending_overrides from anon, authenticated;
+grant select on public.lending_overrides to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Reglas incumplidas si el cliente recibe p_amount más. p_replaced_amount es
+-- lo que ya suma el movimiento que se está editando (0 si es nuevo).
+-- Cada elemento: { rule, limit, resulting, group? }
+-- ----------------------------------------------------------------------------
+create or replace function private.lending_limit_violations(p_client_id uuid, p_amount numeric, p_replaced_amount numeric default 0)
+returns jsonb
+language plpgsql stable
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+  v_policy jsonb;
+  v_balance numeric;
+  v_resulting numeric;
+  v_max numeric;
+  v_group_limit numeric;
+  v_group_by text;
+  v_phone text;
+  v_guarantor text;
+  v_referrer text;
+  v_group_balance numeric;
+  v_out jsonb := '[]'::jsonb;
+begin
+  select * into v_client from public.clients c where c.id = p_client_id;
+  if v_client.id is null then return v_out; end if;
+
+  select s.lending_policy into v_policy from public.settings s where s.organization_id = v_client.organization_id;
+  select coalesce(p.balance, 0) into v_balance from public.client_portfolio p where p.client_id = p_client_id;
+  v_resulting := coalesce(v_balance, 0) - coalesce(p_replaced_amount, 0) + p_amount;
+
+  if coalesce(v_client."loanLimit", 0) > 0 and v_resulting > v_client."loanLimit" then
+    v_out := v_out || jsonb_build_object('rule', 'CLIENT_LIMIT', 'limit', v_client."loanLimit", 'resulting', v_resulting);
+  end if;
+
+  v_max := nullif(v_policy->>'maxPerClient', '')::numeric;
+  if coalesce(v_max, 0) > 0 and v_resulting > v_max then
+    v_out := v_out || jsonb_build_object('rule', 'ORG_MAX', 'limit', v_max, 'resulting', v_resulting);
+  end if;
+
+  v_group_limit := nullif(v_policy->>'groupLimit', '')::numeric;
+  if coalesce(v_group_limit, 0) > 0 then
+    v_group_by := coalesce(v_policy->>'groupBy', 'BOTH');
+
+    if v_group_by in ('GUARANTOR', 'BOTH') then
+      v_phone := nullif(regexp_replace(coalesce(v_client."guarantorPhone", ''), '\D', '', 'g'), '');
+      v_guarantor := nullif(lower(btrim(coalesce(v_client."guarantorName", ''))), '');
+      if v_phone is not null or v_guarantor is not null then
+        select coalesce(sum(p.balance), 0) into v_group_balance
+          from public.clients c
+          join public.client_portfolio p on p.client_id = c.id
+         where c.organization_id = v_client.organization_id
+           and c.id <> p_client_id
+           and case when v_phone is not null
+                    then regexp_replace(coalesce(c."guarantorPhone", ''), '\D', '', 'g') = v_phone
+                    else lower(btrim(coalesce(c."guarantorName", ''))) = v_guarantor end;
+        if v_group_balance + v_resulting > v_group_limit then
+          v_out := v_out || jsonb_build_object('rule', 'GROUP_LIMIT', 'group', 'GUARANTOR', 'limit', v_group_limit,
+                                               'resulting', v_group_balance + v_resulting);
+        end if;
+      end if;
+    end if;
+
+    if v_group_by in ('REFERRER', 'BOTH') then
+      -- El grupo de un cliente es el de quien lo refirió; si nadie lo refirió, el suyo.
+      v_referrer := coalesce(nullif(v_client."referrerId", ''), v_client.id::text);
+      select coalesce(sum(p.balance), 0) into v_group_balance
+        from public.clients c
+        join public.client_portfolio p on p.client_id = c.id
+       where c.organization_id = v_client.organization_id
+         and c.id <> p_client_id
+         and (c.id::text = v_referrer or c."referrerId" = v_referrer);
+      if v_group_balance > 0 and v_group_balance + v_resulting > v_group_limit then
+        v_out := v_out || jsonb_build_object('rule', 'GROUP_LIMIT', 'group', 'REFERRER', 'limit', v_group_limit,
+                                             'resulting', v_group_balance + v_resulting);
+      end if;
+    end if;
+  end if;
+
+  return v_out;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Validación en el servidor
+-- ----------------------------------------------------------------------------
+create or replace function private.enforce_lending_limits()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_prev public.transactions;
+  v_client_id uuid;
+  v_replaced numeric := 0;
+  v_violations jsonb;
+  v_override uuid;
+begin
+  if auth.uid() is null or new.type not in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') or coalesce(new.voided, false) then
+    return new;
+  end if;
+  -- La app edita con upsert: la edición llega como INSERT ... ON CONFLICT.
+  if tg_op = 'UPDATE' then
+    v_prev := old;
+  else
+    select * into v_prev from public.transactions t where t.id = new.id;
+  end if;
+  if v_prev.id is not null and v_prev.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') and not coalesce(v_prev.voided, false) then
+    if new.amount <= v_prev.amount then return new; end if;
+    v_replaced := v_prev.amount;
+  end if;
+
+  begin
+    v_client_id := new."clientId"::uuid;
+  exception when invalid_text_representation then
+    return new;
+  end;
+
+  v_violations := private.lending_limit_violations(v_client_id, new.amount, v_replaced);
+  if jsonb_array_length(v_violations) = 0 then return new; end if;
+
+  -- Ya autorizado (el upsert dispara este trigger dos veces, como INSERT y como UPDATE).
+  if exists (select 1 from public.lending_overrides o where o.transaction_id = new.id and o.amount >= new.amount) then
+    return new;
+  end if;
+
+  update public.lending_overrides o
+     set transaction_id = new.id
+   where o.id = (
+     select o2.id from public.lending_overrides o2
+      where o2.client_id = v_client_id
+        and o2.transaction_id is null
+        and o2.expires_at > now()
+        and o2.amount >= new.amount
+      order by o2.created_at desc
+      limit 1
+   )
+  returning o.id into v_override;
+
+  if v_override is null then
+    raise exception 'El préstamo supera el cupo permitido (%). Solo el propietario puede autorizar la excepción.',
+      (select string_agg(
+                case v->>'rule'
+                  when 'CLIENT_LIMIT' then 'cupo del cliente ' || (v->>'limit')
+                  when 'ORG_MAX' then 'máximo por cliente ' || (v->>'limit')
+                  else 'grupo de ' || case v->>'group' when 'GUARANTOR' then 'fiador ' else 'referidos ' end || (v->>'limit')
+                end, ', ')
+         from jsonb_array_elements(v_violations) v);
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_enforce_lending_limits on public.transactions;
+create trigger trg_enforce_lending_limits
+  before insert or update of amount, type, voided on public.transactions
+  for each row execute function private.enforce_lending_limits();
+
+-- ----------------------------------------------------------------------------
+-- Consulta previa (para avisar en el formulario) y excepción del propietario
+-- ----------------------------------------------------------------------------
+create or replace function public.check_lending_limits(p_client_id uuid, p_amount numeric, p_replaced_amount numeric default 0)
+returns jsonb
+language plpgsql stable
+security definer set search_path = ''
+as $$
+declare v_org uuid;
+begin
+  select c.organization_id into v_org from public.clients c where c.id = p_client_id;
+  if v_org is null or not private.has_perm(v_org, 'create_transactions') then
+    raise exception 'Acceso denegado';
+  end if;
+  return private.lending_limit_violations(p_client_id, p_amount, p_replaced_amount);
+end $$;
+
+create or replace function public.authorize_lending_override(p_client_id uuid, p_amount numeric, p_reason text, p_replaced_amount numeric default 0)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+  v_violations jsonb;
+  v_row public.lending_overrides;
+begin
+  select * into v_client from public.clients c where c.id = p_client_id;
+  if v_client.id is null then raise exception 'Cliente no encontrado'; end if;
+  if not exists (select 1 from public.organization_members m
+                  where m.organization_id = v_client.organization_id
+                    and m.user_id = auth.uid() and m.role = 'owner') then
+    raise exception 'Solo el propietario puede autorizar préstamos por encima del cupo';
+  end if;
+  if length(btrim(coalesce(p_reason, ''))) < 5 then
+    raise exception 'Indique el motivo de la excepción';
+  end if;
+  if coalesce(p_amount, 0) <= 0 then raise exception 'Monto no válido'; end if;
+
+  v_violations := private.lending_limit_violations(p_client_id, p_amount, p_replaced_amount);
+
+  insert into public.lending_overrides (organization_id, client_id, amount, reason, violations)
+  values (v_client.organization_id, p_client_id, p_amount, btrim(p_reason), v_violations)
+  returning * into v_row;
+
+  insert into public.audit_logs (organization_id, level, message, action, entity, details)
+  values (
+    v_client.organization_id, 'WARNING',
+    format('Préstamo sobre el cupo autorizado: %s por %s', v_client.name, p_amount),
+    'UPDATE', 'CLIENT',
+    format('Motivo: %s | Reglas: %s', btrim(p_reason), v_violations::text)
+  );
+
+  return to_jsonb(v_row);
+end $$;
+
+revoke all on function public.check_lending_limits(uuid, numeric, numeric) from public, anon;
+grant execute on function public.check_lending_limits(uuid, numeric, numeric) to authenticated;
+revoke all on function public.authorize_lending_override(uuid, numeric, text, numeric) from public, anon;
+grant execute on function public.authorize_lending_override(uuid, numeric, text, numeric) to authenticated;
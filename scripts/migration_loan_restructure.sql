@@ -0,0 +1,226 @@
+-- ============================================================================
+-- Reestructuración de préstamos. Hasta ahora se simulaba con un REFINANCE y
+-- editando a mano cuota y plazo: no quedaba rastro de las condiciones
+-- anteriores ni de cuánto interés se perdonó.
+--
+-- restructure_loan toma el saldo de capital del préstamo y el interés vencido
+-- sin pagar, aplica condiciones nuevas (tasa, plazo, frecuencia, tipo) y deja:
+--
+--   * un movimiento RESTRUCTURE (monto 0, no mueve saldo ni caja ni asientos)
+--     que marca el inicio del plan nuevo: los pagos anteriores ya no se
+--     imputan a sus cuotas;
+--   * el plan nuevo en el préstamo. El interés vencido que no se condona se
+--     capitaliza repartido en las cuotas (la app genera el plan);
+--   * una versión en loan_terms_history con las condiciones y el plan
+--     anteriores, las nuevas, y el interés vencido, condonado y capitalizado.
+--
+-- loans.restructure_count / restructured_at permiten reportar la cartera
+-- reestructurada aparte.
+-- ============================================================================
+
+alter table public.loans add column if not exists restructure_count integer not null default 0;
+alter table public.loans add column if not exists restructured_at timestamptz;
+
+create table if not exists public.loan_terms_history (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  loan_id uuid not null references public.loans(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  version integer not null,
+  transaction_id uuid references public.transactions(id) on delete set null,
+  effective_date text not null,
+  reason text not null,
+  balance numeric not null default 0,
+  accrued_interest numeric not null default 0,
+  interest_written_off numeric not null default 0,
+  capitalized_interest numeric not null default 0,
+  previous_terms jsonb not null,
+  new_terms jsonb not null,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  unique (loan_id, version)
+);
+create index if not exists loan_terms_history_client_idx on public.loan_terms_history (client_id, created_at desc);
+
+alter table public.loan_terms_history enable row level security;
+
+drop policy if exists "loan_terms_history_select" on public.loan_terms_history;
+create policy "loan_terms_history_select" on public.loan_terms_history
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+revoke insert, update, delete on public.loan_terms_history from anon, authenticated;
+grant select on public.loan_terms_history to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Interés vencido sin pagar de un plan ya imputado: de cada cuota vencida a
+-- la fecha, la parte de interés que el pago no alcanzó a cubrir (el pago
+-- cubre primero el interés).
+-- ----------------------------------------------------------------------------
+create or replace function private.schedule_accrued_interest(p_schedule jsonb, p_date text)
+returns numeric
+language sql immutable
+set search_path = ''
+as $$
+  select coalesce(sum(greatest(0, coalesce((e->>'interest')::numeric, 0) - coalesce((e->>'paidAmount')::numeric, 0))), 0)
+    from jsonb_array_elements(coalesce(p_schedule, '[]'::jsonb)) e
+   where e->>'dueDate' <= p_date;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Reestructuración
+--   p_terms: { interestRate, interestType, paymentFrequency, loanTermMonths,
+--              installmentsCount, installmentAmount }
+--   p_schedule: plan nuevo sobre el saldo, con el interés capitalizado.
+-- ----------------------------------------------------------------------------
+create or replace function public.restructure_loan(
+  p_loan_id uuid, p_date text, p_terms jsonb, p_schedule jsonb, p_interest_write_off numeric, p_reason text
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_loan public.loans;
+  v_client public.clients;
+  v_reason text := nullif(btrim(coalesce(p_reason, '')), '');
+  v_accrued numeric;
+  v_write_off numeric := round(coalesce(p_interest_write_off, 0), 2);
+  v_principal numeric;
+  v_tx_id uuid;
+  v_history public.loan_terms_history;
+begin
+  select * into v_loan from public.loans l where l.id = p_loan_id;
+  if v_loan.id is null then raise exception 'Préstamo no encontrado'; end if;
+  if not private.has_perm(v_loan.organization_id, 'create_transactions') then
+    raise exception 'Acceso denegado al préstamo';
+  end if;
+
+  -- Mismo orden de bloqueo que el recálculo: cliente y luego préstamo.
+  select * into v_client from public.clients c where c.id = v_loan.client_id for update;
+  select * into v_loan from public.loans l where l.id = p_loan_id for update;
+
+  if v_loan.status <> 'ACTIVE' or v_loan.balance <= 0 then
+    raise exception 'Solo se reestructuran préstamos con saldo pendiente';
+  end if;
+  if v_reason is null or length(v_reason) < 5 then
+    raise exception 'Indique el motivo de la reestructuración';
+  end if;
+  if p_date is null or p_date !~ '^\d{4}-\d{2}-\d{2}$' then
+    raise exception 'Fecha no válida';
+  end if;
+  if jsonb_typeof(p_schedule) <> 'array' or jsonb_array_length(p_schedule) = 0 then
+    raise exception 'El plan de pagos nuevo está vacío';
+  end if;
+  if coalesce((p_terms->>'loanTermMonths')::numeric, 0) <= 0 or coalesce((p_terms->>'interestRate')::numeric, -1) < 0
+     or p_terms->>'paymentFrequency' not in ('DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY')
+     or p_terms->>'interestType' not in ('FIXED', 'DIMINISHING') then
+    raise exception 'Condiciones nuevas no válidas';
+  end if;
+
+  v_accrued := round(private.schedule_accrued_interest(v_loan.payment_schedule, p_date), 2);
+  if v_write_off < 0 or v_write_off > v_accrued then
+    raise exception 'La condonación debe estar entre 0 y el interés vencido (%)', v_accrued;
+  end if;
+
+  -- El plan nuevo amortiza el saldo actual (tolerancia de redondeo por cuota).
+  select coalesce(sum((e->>'principal')::numeric), 0) into v_principal
+    from jsonb_array_elements(p_schedule) e;
+  if abs(v_principal - v_loan.balance) > jsonb_array_length(p_schedule) then
+    raise exception 'El plan nuevo no corresponde al saldo del préstamo';
+  end if;
+
+  insert into public.transactions (
+    organization_id, "clientId", "loanId", date, type, amount, "interestPaid", "capitalPaid", "balanceAfter", notes
+  ) values (
+    v_loan.organization_id, v_loan.client_id::text, v_loan.id, p_date, 'RESTRUCTURE', 0, 0, 0, 0,
+    'Reestructuración: ' || v_reason
+  )
+  returning id into v_tx_id;
+
+  insert into public.loan_terms_history (
+    organization_id, loan_id, client_id, version, transaction_id, effective_date, reason,
+    balance, accrued_interest, interest_written_off, capitalized_interest, previous_terms, new_terms
+  ) values (
+    v_loan.organization_id, v_loan.id, v_loan.client_id, v_loan.restructure_count + 1, v_tx_id, p_date, v_reason,
+    v_loan.balance, v_accrued, v_write_off, v_accrued - v_write_off,
+    jsonb_build_object(
+      'interestRate', v_loan.interest_rate,
+      'interestType', v_loan.interest_type,
+      'paymentFrequency', v_loan.payment_frequency,
+      'loanTermMonths', v_loan.loan_term_months,
+      'installmentsCount', v_loan.installments_count,
+      'installmentAmount', v_loan.installment_amount,
+      'nextPaymentDate', v_loan.next_payment_date,
+      'paymentSchedule', v_loan.payment_schedule
+    ),
+    jsonb_build_object(
+      'interestRate', (p_terms->>'interestRate')::numeric,
+      'interestType', p_terms->>'interestType',
+      'paymentFrequency', p_terms->>'paymentFrequency',
+      'loanTermMonths', (p_terms->>'loanTermMonths')::numeric,
+      'installmentsCount', nullif(p_terms->>'installmentsCount', '')::numeric,
+      'installmentAmount', nullif(p_terms->>'installmentAmount', '')::numeric
+    )
+  )
+  returning * into v_history;
+
+  update public.loans l
+     set interest_rate = (p_terms->>'interestRate')::numeric,
+         interest_type = p_terms->>'interestType',
+         payment_frequency = p_terms->>'paymentFrequency',
+         loan_term_months = (p_terms->>'loanTermMonths')::numeric,
+         installments_count = coalesce(nullif(p_terms->>'installmentsCount', '')::numeric, jsonb_array_length(p_schedule)),
+         installment_amount = nullif(p_terms->>'installmentAmount', '')::numeric,
+         payment_schedule = p_schedule,
+         next_payment_date = (select min(e->>'dueDate') from jsonb_array_elements(p_schedule) e),
+         restructure_count = l.restructure_count + 1,
+         restructured_at = now()
+   where l.id = v_loan.id;
+
+  perform public.recalculate_client_balances(v_loan.client_id::text);
+
+  insert into public.audit_logs (organization_id, level, message, action, entity, details)
+  values (
+    v_loan.organization_id, 'WARNING',
+    format('Préstamo reestructurado: %s (versión %s)', v_client.name, v_history.version),
+    'UPDATE', 'CLIENT',
+    format('Motivo: %s | Saldo: %s | Interés vencido: %s | Condonado: %s | Capitalizado: %s',
+           v_reason, v_loan.balance, v_accrued, v_write_off, v_accrued - v_write_off)
+  );
+
+  return jsonb_build_object(
+    'client', (select to_jsonb(c) from public.clients c where c.id = v_loan.client_id),
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb)
+        from public.transactions t
+       where t."clientId" = v_loan.client_id::text
+    ),
+    'version', to_jsonb(v_history)
+  );
+end $$;
+
+revoke all on function public.restructure_loan(uuid, text, jsonb, jsonb, numeric, text) from public, anon;
+grant execute on function public.restructure_loan(uuid, text, jsonb, jsonb, numeric, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- La reestructuración no se reversa: dejaría el plan nuevo sin su origen.
+-- ----------------------------------------------------------------------------
+create or replace function private.block_restructure_void()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if old.type = 'RESTRUCTURE' and new.voided and not old.voided then
+    raise exception 'Una reestructuración no se puede reversar; registre una nueva con las condiciones correctas';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_block_restructure_void on public.transactions;
+create trigger trg_block_restructure_void
+  before update of voided on public.transactions
+  for each row execute function private.block_restructure_void();
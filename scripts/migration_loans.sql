@@ -0,0 +1,547 @@
+-- ============================================================================
+-- Varios préstamos por cliente. Hasta ahora el cliente era un solo saldo y las
+-- condiciones del crédito (tasa, plazo, frecuencia, plan de cuotas) vivían en
+-- la fila de clients, así que dos préstamos con tasas distintas no cabían.
+-- Ahora cada préstamo es una fila de public.loans con sus condiciones, su plan,
+-- su saldo y su estado, y cada movimiento del cliente apunta a uno ("loanId").
+--
+--   * recalculate_client_balances calcula, además del saldo corrido del
+--     cliente (que sigue siendo el total), el saldo y el estado de cada
+--     préstamo (ACTIVE mientras deba algo, PAID al quedar en cero).
+--   * clients."paymentSchedule" pasa a ser la unión de los planes de los
+--     préstamos activos (cada cuota lleva su loanId), "nextPaymentDate" el
+--     vencimiento más próximo y "installmentAmount" la suma de las cuotas. Lo
+--     mantiene un trigger: mora, ruta, listados y puntaje siguen leyendo el
+--     cliente sin cambios.
+--   * Un DISBURSEMENT sin "loanId" abre un préstamo nuevo, igual que un
+--     REDIRECT_IN para un receptor sin préstamo activo; cualquier otro
+--     movimiento sin "loanId" se imputa al préstamo activo más antiguo (pagos
+--     encolados sin conexión, etc.).
+--   * register_payment guarda el plan imputado en el préstamo del pago.
+--   * Los clientes con historial quedan con un préstamo que agrupa todos sus
+--     movimientos y hereda sus condiciones.
+-- ============================================================================
+
+create table if not exists public.loans (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  label text,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE','PAID')),
+  start_date text,
+  principal numeric not null default 0,
+  balance numeric not null default 0,
+  interest_rate numeric,
+  interest_type text,
+  payment_frequency text,
+  loan_term_months numeric,
+  installments_count numeric,
+  installment_amount numeric,
+  payment_schedule jsonb not null default '[]'::jsonb check (jsonb_typeof(payment_schedule) = 'array'),
+  next_payment_date text,
+  created_at timestamptz default now(),
+  closed_at timestamptz
+);
+create index if not exists loans_client_idx on public.loans (client_id, created_at);
+
+alter table public.transactions add column if not exists "loanId" uuid references public.loans(id) on delete set null;
+create index if not exists idx_tx_loan on public.transactions("loanId");
+
+alter table public.loans enable row level security;
+
+drop policy if exists "loans_select" on public.loans;
+create policy "loans_select" on public.loans
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+drop policy if exists "loans_update" on public.loans;
+create policy "loans_update" on public.loans
+  for update to authenticated
+  using (private.has_perm(organization_id, 'create_transactions'))
+  with check (private.has_perm(organization_id, 'create_transactions'));
+
+-- Los préstamos nacen con su desembolso; saldo, capital y estado los calcula
+-- el servidor. La app solo edita condiciones y plan.
+revoke insert, update, delete on public.loans from anon, authenticated;
+grant select on public.loans to authenticated;
+grant update (label, interest_rate, interest_type, payment_frequency, loan_term_months,
+              installments_count, installment_amount, payment_schedule, next_payment_date)
+  on public.loans to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Reasignar un movimiento a otro préstamo no cambia montos ni fechas: se
+-- permite también en períodos cerrados (lo necesita la migración de datos).
+-- ----------------------------------------------------------------------------
+create or replace function private.guard_closed_period()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := coalesce(new.organization_id, old.organization_id);
+  v_closed text := private.closed_through(v_org);
+begin
+  if v_closed is null then
+    return case when tg_op = 'DELETE' then old else new end;
+  end if;
+
+  -- Solo cambian el saldo derivado o el préstamo: se permite.
+  if tg_op = 'UPDATE'
+     and (to_jsonb(new) - 'balanceAfter' - 'loanId') = (to_jsonb(old) - 'balanceAfter' - 'loanId') then
+    return new;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') and left(old.date, 7) <= v_closed then
+    raise exception 'Período contable cerrado (%): registre la corrección como ajuste en el período abierto', left(old.date, 7);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and left(new.date, 7) <= v_closed then
+    raise exception 'Período contable cerrado (%): use una fecha posterior a %', left(new.date, 7), v_closed;
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Datos existentes: un préstamo por cliente con movimientos de crédito
+-- ----------------------------------------------------------------------------
+insert into public.loans (organization_id, client_id, start_date, interest_rate, interest_type, payment_frequency,
+                          loan_term_months, installments_count, installment_amount, payment_schedule, next_payment_date)
+select c.organization_id, c.id,
+       coalesce(nullif(c."creditStartDate", ''), f.first_date),
+       c."interestRate", c."interestType", c."paymentFrequency",
+       c."loanTermMonths", c."installmentsCount", c."installmentAmount",
+       coalesce(c."paymentSchedule", '[]'::jsonb), c."nextPaymentDate"
+  from public.clients c
+  join lateral (
+    select min(tx.date) as first_date
+      from public.transactions tx
+     where tx."clientId" = c.id::text
+       and tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN')
+  ) f on f.first_date is not null
+ where not exists (select 1 from public.loans l where l.client_id = c.id);
+
+update public.transactions t
+   set "loanId" = l.id
+  from public.loans l
+ where t."clientId" = l.client_id::text
+   and t."loanId" is null;
+
+-- ----------------------------------------------------------------------------
+-- Préstamo de cada movimiento nuevo
+-- ----------------------------------------------------------------------------
+create or replace function private.attach_transaction_loan()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+begin
+  if nullif(new."clientId", '') is null
+     or new.type not in ('DISBURSEMENT', 'REFINANCE', 'PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT',
+                         'REDIRECT_IN', 'SETTLEMENT', 'PAYMENT_PENALTY', 'REVERSAL') then
+    return new;
+  end if;
+
+  if new."loanId" is not null then
+    if not exists (select 1 from public.loans l where l.id = new."loanId" and l.client_id::text = new."clientId") then
+      raise exception 'El préstamo no pertenece al cliente';
+    end if;
+    return new;
+  end if;
+
+  -- Edición por upsert: llega como INSERT y conserva el préstamo que ya tenía.
+  if tg_op = 'INSERT' then
+    select t."loanId" into new."loanId" from public.transactions t where t.id = new.id;
+    if new."loanId" is not null then return new; end if;
+  end if;
+
+  if new.type = 'REVERSAL' then
+    select t."loanId" into new."loanId" from public.transactions t where t.id::text = new."relatedTransactionId";
+    return new;
+  end if;
+
+  -- Una redirección recibida suma deuda: va al préstamo vigente del receptor
+  -- o, si no tiene ninguno activo, abre uno como un desembolso.
+  if new.type = 'REDIRECT_IN' then
+    select l.id into new."loanId"
+      from public.loans l
+     where l.client_id::text = new."clientId" and l.status = 'ACTIVE'
+     order by l.created_at
+     limit 1;
+    if new."loanId" is not null then return new; end if;
+  end if;
+
+  if new.type in ('DISBURSEMENT', 'REDIRECT_IN') then
+    select * into v_client from public.clients c where c.id::text = new."clientId";
+    if v_client.id is null then return new; end if;
+
+    -- El primer préstamo hereda las condiciones y el plan guardados en el
+    -- cliente (alta con crédito inicial); los siguientes los recibe la app.
+    insert into public.loans (organization_id, client_id, start_date, principal, balance,
+                              interest_rate, interest_type, payment_frequency, loan_term_months,
+                              installments_count, installment_amount, payment_schedule, next_payment_date)
+    select v_client.organization_id, v_client.id, new.date, new.amount, new.amount,
+           v_client."interestRate", v_client."interestType", v_client."paymentFrequency", v_client."loanTermMonths",
+           v_client."installmentsCount", v_client."installmentAmount",
+           case when first_loan then coalesce(v_client."paymentSchedule", '[]'::jsonb) else '[]'::jsonb end,
+           case when first_loan then v_client."nextPaymentDate" end
+      from (select not exists (select 1 from public.loans l where l.client_id = v_client.id) as first_loan) x
+    returning id into new."loanId";
+    return new;
+  end if;
+
+  select l.id into new."loanId"
+    from public.loans l
+   where l.client_id::text = new."clientId"
+   order by l.status <> 'ACTIVE', l.created_at
+   limit 1;
+  return new;
+end $$;
+
+drop trigger if exists trg_attach_transaction_loan on public.transactions;
+create trigger trg_attach_transaction_loan
+  before insert or update of "loanId" on public.transactions
+  for each row execute function private.attach_transaction_loan();
+
+-- ----------------------------------------------------------------------------
+-- Vista del cliente: plan unido, próximo vencimiento y cuota total
+-- ----------------------------------------------------------------------------
+create or replace function private.sync_client_loans(p_client_id uuid)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  update public.clients c
+     set "paymentSchedule" = s.schedule,
+         "nextPaymentDate" = coalesce(s.next_date, c."nextPaymentDate"),
+         "installmentAmount" = coalesce(s.installment, c."installmentAmount")
+    from (
+      select coalesce((
+               select jsonb_agg(e || jsonb_build_object('loanId', l.id) order by e->>'dueDate', l.created_at)
+                 from public.loans l
+                 cross join lateral jsonb_array_elements(l.payment_schedule) e
+                where l.client_id = p_client_id and l.status = 'ACTIVE'
+             ), '[]'::jsonb) as schedule,
+             (select min(l.next_payment_date)
+                from public.loans l
+               where l.client_id = p_client_id and l.status = 'ACTIVE'
+                 and l.next_payment_date ~ '^\d{4}-\d{2}-\d{2}$') as next_date,
+             (select sum(l.installment_amount)
+                from public.loans l
+               where l.client_id = p_client_id and l.status = 'ACTIVE') as installment
+    ) s
+   where c.id = p_client_id
+     and (c."paymentSchedule", c."nextPaymentDate", c."installmentAmount")
+         is distinct from (s.schedule, coalesce(s.next_date, c."nextPaymentDate"), coalesce(s.installment, c."installmentAmount"));
+end $$;
+
+create or replace function private.on_loan_change()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  perform private.sync_client_loans(coalesce(new.client_id, old.client_id));
+  return null;
+end $$;
+
+drop trigger if exists trg_loans_sync_client on public.loans;
+create trigger trg_loans_sync_client
+  after insert or delete or update of status, payment_schedule, next_payment_date, installment_amount on public.loans
+  for each row execute function private.on_loan_change();
+
+-- ----------------------------------------------------------------------------
+-- Recalculo: saldo corrido del cliente + saldo y estado de cada préstamo
+-- ----------------------------------------------------------------------------
+create or replace function public.recalculate_client_balances(p_client_id text)
+returns setof public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+begin
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = p_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not (private.has_perm(v_org, 'create_transactions') or private.has_perm(v_org, 'delete_transactions')) then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  update public.transactions t
+     set "balanceAfter" = r.running
+    from (
+      select x.id,
+             case when abs(x.running) < 0.01 then 0 else x.running end as running
+        from (
+          select tx.id,
+                 round(sum(
+                   case
+                     when tx.voided then 0
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+                     else 0
+                   end
+                 ) over (order by tx.date, tx.created_at, tx.id rows between unbounded preceding and current row), 2) as running
+            from public.transactions tx
+           where tx."clientId" = p_client_id
+             and tx.organization_id = v_org
+        ) x
+    ) r
+   where t.id = r.id
+     and t."balanceAfter" is distinct from r.running;
+
+  update public.loans l
+     set balance = s.balance,
+         principal = s.principal,
+         status = case when s.balance > 0 then 'ACTIVE' else 'PAID' end,
+         closed_at = case when s.balance > 0 then null else coalesce(l.closed_at, now()) end
+    from (
+      select x.id,
+             case when abs(x.balance) < 0.01 then 0 else x.balance end as balance,
+             x.principal
+        from (
+          select l2.id,
+                 round(coalesce(sum(
+                   case
+                     when tx.voided then 0
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+                     else 0
+                   end), 0), 2) as balance,
+                 coalesce(sum(tx.amount) filter (
+                   where not tx.voided and tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN')), 0) as principal
+            from public.loans l2
+            left join public.transactions tx on tx."loanId" = l2.id
+           where l2.client_id::text = p_client_id
+           group by l2.id
+        ) x
+    ) s
+   where l.id = s.id
+     and (l.balance, l.principal, l.status)
+         is distinct from (s.balance, s.principal, case when s.balance > 0 then 'ACTIVE' else 'PAID' end);
+
+  return query
+    select t.* from public.transactions t
+     where t."clientId" = p_client_id
+       and t.organization_id = v_org
+     order by t.date, t.created_at, t.id;
+end $$;
+
+revoke all on function public.recalculate_client_balances(text) from public, anon;
+grant execute on function public.recalculate_client_balances(text) to authenticated;
+
+-- Saldos de los préstamos migrados
+update public.loans l
+   set balance = case when abs(s.balance) < 0.01 then 0 else s.balance end,
+       principal = s.principal,
+       status = case when s.balance >= 0.01 then 'ACTIVE' else 'PAID' end,
+       closed_at = case when s.balance >= 0.01 then null else now() end
+  from (
+    select tx."loanId" as id,
+           round(sum(
+             case
+               when tx.voided then 0
+               when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+               when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+               else 0
+             end), 2) as balance,
+           coalesce(sum(tx.amount) filter (
+             where not tx.voided and tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN')), 0) as principal
+      from public.transactions tx
+     where tx."loanId" is not null
+     group by tx."loanId"
+  ) s
+ where l.id = s.id;
+
+-- ----------------------------------------------------------------------------
+-- register_payment: el plan imputado va al préstamo del pago
+-- ----------------------------------------------------------------------------
+-- El navegador indica a qué préstamo abona; el trigger valida que sea del cliente.
+create or replace function private.insert_payment_row(p_row jsonb, p_server jsonb)
+returns public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_row jsonb;
+  v_cols text;
+  v_tx public.transactions;
+begin
+  select jsonb_strip_nulls(coalesce(jsonb_object_agg(e.key, e.value), '{}'::jsonb) || p_server)
+    into v_row
+    from jsonb_each(coalesce(p_row, '{}'::jsonb)) e
+   where e.key in ('id', 'date', 'amount', 'interestPaid', 'capitalPaid', 'notes',
+                   'bankAccountId', 'receiptUrl', 'created_at', 'loanId');
+
+  select string_agg(quote_ident(a.attname), ', ' order by a.attnum) into v_cols
+    from pg_catalog.pg_attribute a
+   where a.attrelid = 'public.transactions'::regclass
+     and a.attnum > 0
+     and not a.attisdropped
+     and v_row ? a.attname;
+
+  execute format(
+    'insert into public.transactions (%1$s) select %1$s from jsonb_populate_record(null::public.transactions, $1) returning *',
+    v_cols
+  ) into v_tx using v_row;
+  return v_tx;
+end $$;
+
+create or replace function public.register_payment(
+  p_tx jsonb,
+  p_penalty jsonb default null,
+  p_client_fields jsonb default '{}'::jsonb,
+  p_redirect jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client_id text := p_tx->>'clientId';
+  v_org uuid;
+  v_bank_id text := nullif(p_tx->>'bankAccountId', '');
+  v_bank_balance numeric;
+  v_target_id text := case when p_tx->>'type' = 'REDIRECT_OUT' then nullif(p_tx->>'relatedClientId', '') end;
+  v_tx public.transactions;
+  v_client jsonb;
+  v_target jsonb;
+  v_ledger jsonb;
+  v_target_ledger jsonb;
+begin
+  if p_tx->>'type' not in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT', 'SETTLEMENT') then
+    raise exception 'Tipo de movimiento no admitido como pago: %', p_tx->>'type';
+  end if;
+
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = v_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not private.has_perm(v_org, 'create_transactions') then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  if coalesce((p_tx->>'amount')::numeric, 0) < 0
+     or coalesce((p_tx->>'interestPaid')::numeric, 0) < 0
+     or coalesce((p_penalty->>'amount')::numeric, 0) < 0 then
+    raise exception 'Los montos no pueden ser negativos';
+  end if;
+
+  -- Receptor de la redirección: otro cliente de la misma organización.
+  if v_target_id is not null then
+    if v_target_id = v_client_id then
+      raise exception 'Un cliente no puede redirigirse un pago a sí mismo';
+    end if;
+    perform 1 from public.clients c
+     where c.id::text = v_target_id
+       and c.organization_id = v_org
+     for update;
+    if not found then raise exception 'Cliente receptor no encontrado'; end if;
+  end if;
+
+  -- La contraparte sale del pago: mismo receptor, monto y fecha.
+  if p_redirect is not null then
+    if v_target_id is null then
+      raise exception 'Solo una redirección con receptor lleva contraparte';
+    end if;
+    if p_redirect->>'clientId' is distinct from v_target_id
+       or (p_redirect->>'amount')::numeric is distinct from (p_tx->>'amount')::numeric
+       or p_redirect->>'date' is distinct from p_tx->>'date' then
+      raise exception 'La contraparte no coincide con la redirección';
+    end if;
+  end if;
+
+  if v_bank_id is not null and not exists (
+    select 1 from public.bank_accounts b where b.id::text = v_bank_id and b.organization_id = v_org
+  ) then
+    raise exception 'Cuenta no encontrada';
+  end if;
+
+  -- 1. Movimientos (el trigger de posteo mueve la caja; el de préstamos
+  --    valida o asigna "loanId")
+  v_tx := private.insert_payment_row(p_tx, jsonb_build_object(
+    'organization_id', v_org, 'clientId', v_client_id, 'type', p_tx->>'type', 'relatedClientId', v_target_id));
+
+  if p_penalty is not null then
+    perform private.insert_payment_row(p_penalty, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_client_id, 'type', 'PAYMENT_PENALTY',
+      'relatedTransactionId', v_tx.id::text, 'loanId', v_tx."loanId"));
+  end if;
+
+  if v_bank_id is not null then
+    select b.balance into v_bank_balance from public.bank_accounts b where b.id::text = v_bank_id;
+  end if;
+
+  -- 2. Saldos del cliente y de sus préstamos
+  perform public.recalculate_client_balances(v_client_id);
+
+  -- 3. Plan de cuotas / próximo vencimiento: del préstamo (el trigger de
+  --    loans rehace el plan unido del cliente) o, sin préstamos, del cliente.
+  if v_tx."loanId" is not null then
+    update public.loans l
+       set payment_schedule = case when p_client_fields ? 'paymentSchedule'
+                                   then p_client_fields->'paymentSchedule' else l.payment_schedule end,
+           next_payment_date = case when p_client_fields ? 'nextPaymentDate'
+                                    then p_client_fields->>'nextPaymentDate' else l.next_payment_date end
+     where l.id = v_tx."loanId";
+  else
+    update public.clients c
+       set "paymentSchedule" = case when p_client_fields ? 'paymentSchedule'
+                                    then p_client_fields->'paymentSchedule' else c."paymentSchedule" end,
+           "nextPaymentDate" = case when p_client_fields ? 'nextPaymentDate'
+                                    then p_client_fields->>'nextPaymentDate' else c."nextPaymentDate" end
+     where c.id::text = v_client_id;
+  end if;
+
+  -- 4. Contraparte de la redirección. El trigger de préstamos la lleva al
+  --    préstamo activo del receptor o le abre uno.
+  if p_redirect is not null then
+    perform private.insert_payment_row(p_redirect, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_target_id, 'type', 'REDIRECT_IN',
+      'amount', v_tx.amount, 'date', v_tx.date, 'interestPaid', 0, 'capitalPaid', 0,
+      'relatedClientId', v_client_id, 'relatedTransactionId', v_tx.id::text));
+
+    perform public.recalculate_client_balances(v_target_id);
+
+    update public.clients c
+       set "pendingRedirectionBalance" = greatest(0, coalesce(c."pendingRedirectionBalance", 0) - coalesce(v_tx.amount, 0))
+     where c.id::text = v_target_id
+    returning to_jsonb(c) into v_target;
+
+    select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_target_ledger
+      from public.transactions t
+     where t."clientId" = v_target_id and t.organization_id = v_org;
+  end if;
+
+  select to_jsonb(c) into v_client from public.clients c where c.id::text = v_client_id;
+
+  select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_ledger
+    from public.transactions t
+   where t."clientId" = v_client_id and t.organization_id = v_org;
+
+  return jsonb_build_object(
+    'client', v_client,
+    'transactions', v_ledger,
+    'bank_balance', v_bank_balance,
+    'target_client', v_target,
+    'target_transactions', v_target_ledger
+  );
+end $$;
+
+revoke all on function public.register_payment(jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.register_payment(jsonb, jsonb, jsonb, jsonb) to authenticated;
+
+-- Plan unido de los clientes migrados
+select private.sync_client_loans(l.client_id) from (select distinct client_id from public.loans) l;
@@ -0,0 +1,438 @@
+-- ============================================================================
+-- Multimoneda. Hasta ahora todo era COP: el formato del cliente, los mensajes
+-- de auditoría y el diario. Algunas sedes prestan en USD y quieren su propia
+-- organización en esa moneda.
+--
+--   * organizations.currency: moneda funcional de la organización (la del
+--     diario, la cartera y los reportes). Solo se puede cambiar mientras la
+--     organización no tenga movimientos.
+--   * bank_accounts.currency: moneda propia de una cuenta (null = la de la
+--     organización). bank_accounts.balance queda SIEMPRE en la moneda de la
+--     cuenta; el diario la lleva valorizada en la moneda funcional y guarda el
+--     monto original en journal_lines.amount_currency.
+--   * transactions."exchangeRate": moneda de la cuenta → moneda funcional.
+--     Vale 1 en cuentas de la moneda de la organización (se normaliza).
+--   * Las cuentas en otra moneda solo admiten ingresos/retiros con tasa
+--     explícita y transferencias; créditos y pagos van por cuentas en la
+--     moneda de la organización. Las cajas de efectivo (arqueo) también.
+--   * transfer_between_accounts recibe p_rate (unidades de la moneda destino
+--     por unidad de la moneda origen) cuando las monedas difieren.
+-- ============================================================================
+
+alter table public.organizations
+  add column if not exists currency text not null default 'COP' check (currency ~ '^[A-Z]{3}$');
+alter table public.bank_accounts
+  add column if not exists currency text check (currency ~ '^[A-Z]{3}$');
+alter table public.transactions
+  add column if not exists "exchangeRate" numeric not null default 1 check ("exchangeRate" > 0);
+alter table public.journal_lines
+  add column if not exists amount_currency numeric;
+
+-- Moneda efectiva de una cuenta bancaria.
+create or replace function private.bank_currency(p_bank_id text)
+returns text
+language sql stable
+security definer set search_path = ''
+as $$
+  select coalesce(b.currency, o.currency)
+    from public.bank_accounts b
+    join public.organizations o on o.id = b.organization_id
+   where b.id::text = p_bank_id;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Reglas de moneda
+-- ----------------------------------------------------------------------------
+create or replace function private.guard_organization_currency()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if new.currency is distinct from old.currency
+     and exists (select 1 from public.transactions t where t.organization_id = new.id) then
+    raise exception 'La organización ya tiene movimientos; no se puede cambiar su moneda (%)', old.currency;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_organization_currency on public.organizations;
+create trigger trg_guard_organization_currency
+  before update of currency on public.organizations
+  for each row execute function private.guard_organization_currency();
+
+create or replace function private.guard_bank_currency()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_org_currency text;
+begin
+  select o.currency into v_org_currency from public.organizations o where o.id = new.organization_id;
+  -- Guardar null cuando coincide: así la cuenta sigue a la organización.
+  if new.currency = v_org_currency then new.currency := null; end if;
+
+  if new.currency is not null then
+    if coalesce(new."isCash", false) then
+      raise exception 'Las cajas de efectivo manejan la moneda de la organización (%)', v_org_currency;
+    end if;
+    if tg_op = 'INSERT' and coalesce(new.balance, 0) <> 0 then
+      raise exception 'Las cuentas en % se abren en cero; fondéelas con una transferencia o un ingreso con tasa de cambio', new.currency;
+    end if;
+  end if;
+
+  if tg_op = 'UPDATE' and new.currency is distinct from old.currency
+     and exists (select 1 from public.transactions t where t."bankAccountId" = new.id::text) then
+    raise exception 'La cuenta ya tiene movimientos; no se puede cambiar su moneda';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_bank_currency on public.bank_accounts;
+create trigger trg_guard_bank_currency
+  before insert or update of currency, "isCash" on public.bank_accounts
+  for each row execute function private.guard_bank_currency();
+
+create or replace function private.guard_transaction_currency()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_currency text;
+  v_org_currency text;
+begin
+  if tg_op = 'UPDATE'
+     and (new."bankAccountId", new."exchangeRate", new.type) is not distinct from (old."bankAccountId", old."exchangeRate", old.type) then
+    return new;
+  end if;
+
+  select o.currency into v_org_currency from public.organizations o where o.id = new.organization_id;
+  v_currency := coalesce(private.bank_currency(nullif(new."bankAccountId", '')), v_org_currency);
+
+  if v_currency = v_org_currency then
+    new."exchangeRate" := 1;
+    return new;
+  end if;
+
+  if new.type not in ('BANK_DEPOSIT', 'BANK_WITHDRAWAL', 'BANK_TRANSFER_OUT', 'BANK_TRANSFER_IN', 'BANK_FEE', 'REVERSAL') then
+    raise exception 'Los créditos y pagos se registran en cuentas en % (la cuenta está en %)', v_org_currency, v_currency;
+  end if;
+  if new.type in ('BANK_DEPOSIT', 'BANK_WITHDRAWAL') and new."exchangeRate" = 1 then
+    raise exception 'Indique la tasa de cambio % → %', v_currency, v_org_currency;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_guard_transaction_currency on public.transactions;
+create trigger trg_guard_transaction_currency
+  before insert or update on public.transactions
+  for each row execute function private.guard_transaction_currency();
+
+-- ----------------------------------------------------------------------------
+-- Posteo: guarda amount_currency y el caché de saldo queda en la moneda de la
+-- cuenta (las líneas anteriores, sin amount_currency, ya estaban en COP).
+-- ----------------------------------------------------------------------------
+create or replace function private.post_entry(
+  p_org uuid, p_source text, p_transaction_id text, p_date text, p_description text, p_lines jsonb
+)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_entry uuid;
+  v_debit numeric;
+  v_credit numeric;
+begin
+  select coalesce(sum((l->>'debit')::numeric), 0), coalesce(sum((l->>'credit')::numeric), 0)
+    into v_debit, v_credit
+    from jsonb_array_elements(coalesce(p_lines, '[]'::jsonb)) l;
+
+  if v_debit = 0 and v_credit = 0 then return null; end if;
+  if round(v_debit, 2) <> round(v_credit, 2) then
+    raise exception 'Asiento descuadrado: débitos % / créditos %', v_debit, v_credit;
+  end if;
+
+  insert into public.journal_entries (organization_id, source, transaction_id, date, description)
+  values (p_org, p_source, p_transaction_id, coalesce(p_date, to_char(current_date, 'YYYY-MM-DD')), p_description)
+  returning id into v_entry;
+
+  insert into public.journal_lines (entry_id, organization_id, account_id, debit, credit, amount_currency)
+  select v_entry, p_org, (l->>'account_id')::uuid,
+         coalesce((l->>'debit')::numeric, 0), coalesce((l->>'credit')::numeric, 0),
+         (l->>'amount_currency')::numeric
+    from jsonb_array_elements(p_lines) l
+   where coalesce((l->>'debit')::numeric, 0) <> 0 or coalesce((l->>'credit')::numeric, 0) <> 0;
+
+  perform set_config('prestaflow.ledger_sync', 'on', true);
+  update public.bank_accounts b
+     set balance = (select coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0)
+                      from public.journal_lines jl where jl.account_id = a.id)
+    from public.ledger_accounts a
+   where a.bank_account_id = b.id::text
+     and a.id in (select (l->>'account_id')::uuid from jsonb_array_elements(p_lines) l);
+  perform set_config('prestaflow.ledger_sync', 'off', true);
+
+  return v_entry;
+end $$;
+
+-- Líneas del asiento valorizadas con "exchangeRate"; la línea de la cuenta
+-- bancaria conserva su monto original en amount_currency.
+create or replace function private.transaction_lines(t public.transactions, p_reverse boolean default false)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := t.organization_id;
+  v_cash uuid;
+  v_amount numeric := coalesce(t.amount, 0);
+  v_interest numeric := coalesce(t."interestPaid", 0);
+  v_rate numeric := coalesce(t."exchangeRate", 1);
+  v_lines jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_debit numeric;
+  v_credit numeric;
+  v_out jsonb := '[]'::jsonb;
+begin
+  v_cash := case
+    when nullif(t."bankAccountId", '') is not null then private.bank_ledger_account(v_org, t."bankAccountId")
+    else private.ledger_account(v_org, 'CLEARING')
+  end;
+
+  if t.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', 0, 'credit', v_amount),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_interest));
+  elsif t.type = 'PAYMENT_INTEREST' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_amount + v_interest));
+  elsif t.type = 'PAYMENT_PENALTY' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'PENALTY_INCOME'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_DEPOSIT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_WITHDRAWAL' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_OUT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_IN' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_FEE' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'BANK_FEE_EXPENSE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  end if;
+
+  -- Valorización: cada línea se pasa a la moneda funcional. Con tasa distinta
+  -- de 1 el asiento tiene siempre dos líneas del mismo monto, así que el
+  -- redondeo no lo descuadra.
+  for v_line in select * from jsonb_array_elements(v_lines) loop
+    v_debit := (v_line->>'debit')::numeric;
+    v_credit := (v_line->>'credit')::numeric;
+    if p_reverse then
+      select v_credit, v_debit into v_debit, v_credit;
+    end if;
+    v_out := v_out || jsonb_build_array(
+      jsonb_build_object('account_id', v_line->'account_id', 'debit', round(v_debit * v_rate, 2), 'credit', round(v_credit * v_rate, 2))
+      || case when v_rate <> 1 and (v_line->>'account_id')::uuid = v_cash
+              then jsonb_build_object('amount_currency', v_debit - v_credit)
+              else '{}'::jsonb end);
+  end loop;
+  return v_out;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Transferencias con tasa de cambio
+-- ----------------------------------------------------------------------------
+drop function if exists public.transfer_between_accounts(text, text, numeric, numeric, text);
+
+create or replace function public.transfer_between_accounts(
+  p_from_bank_id text,
+  p_to_bank_id text,
+  p_amount numeric,
+  p_fee numeric default 0,
+  p_note text default null,
+  p_rate numeric default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_to_org uuid;
+  v_from_name text;
+  v_to_name text;
+  v_org_currency text;
+  v_from_currency text;
+  v_to_currency text;
+  v_from_rate numeric;      -- origen → moneda funcional
+  v_in_amount numeric;      -- monto recibido, en la moneda destino
+  v_in_rate numeric;        -- destino → moneda funcional
+  v_out_id uuid := gen_random_uuid();
+  v_in_id uuid := gen_random_uuid();
+  v_fee numeric := coalesce(p_fee, 0);
+  v_date text := to_char(current_date, 'YYYY-MM-DD');
+  v_note text := nullif(btrim(p_note), '');
+  v_balance numeric;
+begin
+  if p_from_bank_id = p_to_bank_id then raise exception 'Elija dos cuentas distintas'; end if;
+  if p_amount is null or p_amount <= 0 then raise exception 'El monto debe ser mayor a cero'; end if;
+  if v_fee < 0 then raise exception 'La comisión no puede ser negativa'; end if;
+
+  -- Bloqueo en orden estable para no cruzarse con otra transferencia inversa.
+  perform 1 from public.bank_accounts b
+   where b.id::text in (p_from_bank_id, p_to_bank_id)
+   order by b.id
+   for update;
+
+  select b.organization_id, b.name into v_org, v_from_name from public.bank_accounts b where b.id::text = p_from_bank_id;
+  select b.organization_id, b.name into v_to_org, v_to_name from public.bank_accounts b where b.id::text = p_to_bank_id;
+  if v_org is null or v_to_org is null then raise exception 'Cuenta no encontrada'; end if;
+  if v_org <> v_to_org then raise exception 'Las cuentas pertenecen a organizaciones distintas'; end if;
+  if not private.has_perm(v_org, 'manage_banks') then
+    raise exception 'Acceso denegado a las cuentas';
+  end if;
+
+  select o.currency into v_org_currency from public.organizations o where o.id = v_org;
+  v_from_currency := private.bank_currency(p_from_bank_id);
+  v_to_currency := private.bank_currency(p_to_bank_id);
+
+  if v_from_currency = v_to_currency then
+    v_in_amount := p_amount;
+    -- Misma moneda extranjera: la plata sale al costo promedio en libros del origen.
+    select coalesce(sum(jl.debit - jl.credit) / nullif(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0), 1)
+      into v_from_rate
+      from public.journal_lines jl
+      join public.ledger_accounts a on a.id = jl.account_id
+     where a.bank_account_id = p_from_bank_id;
+    if v_from_currency = v_org_currency then v_from_rate := 1; end if;
+  else
+    if p_rate is null or p_rate <= 0 then
+      raise exception 'Indique la tasa de cambio % → %', v_from_currency, v_to_currency;
+    end if;
+    v_in_amount := round(p_amount * p_rate, 2);
+    if v_from_currency = v_org_currency then
+      v_from_rate := 1;
+    elsif v_to_currency = v_org_currency then
+      v_from_rate := p_rate;
+    else
+      raise exception 'Una de las dos cuentas debe estar en la moneda de la organización (%)', v_org_currency;
+    end if;
+  end if;
+  -- La entrada se valoriza igual que la salida: la cuenta puente queda en cero.
+  v_in_rate := p_amount * v_from_rate / v_in_amount;
+
+  insert into public.transactions (
+    id, organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+    "balanceAfter", notes, "relatedTransactionId", "bankAccountId", "exchangeRate"
+  ) values
+    (v_out_id, v_org, null, v_date, 'BANK_TRANSFER_OUT', p_amount, 0, 0, 0,
+     coalesce(v_note, 'Transferencia a ' || v_to_name), v_in_id::text, p_from_bank_id, v_from_rate),
+    (v_in_id, v_org, null, v_date, 'BANK_TRANSFER_IN', v_in_amount, 0, 0, 0,
+     coalesce(v_note, 'Transferencia desde ' || v_from_name), v_out_id::text, p_to_bank_id, v_in_rate);
+
+  if v_fee > 0 then
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "relatedTransactionId", "bankAccountId", "exchangeRate"
+    ) values (
+      v_org, null, v_date, 'BANK_FEE', v_fee, 0, 0, 0,
+      'Comisión transferencia a ' || v_to_name, v_out_id::text, p_from_bank_id, v_from_rate
+    );
+  end if;
+
+  select b.balance into v_balance from public.bank_accounts b where b.id::text = p_from_bank_id;
+  if v_balance < 0 then raise exception 'Fondos insuficientes en %', v_from_name; end if;
+
+  return jsonb_build_object(
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.created_at), '[]'::jsonb)
+        from public.transactions t
+       where t.id in (v_out_id, v_in_id) or (t."relatedTransactionId" = v_out_id::text and t.type = 'BANK_FEE')
+    ),
+    'banks', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'balance', b.balance)), '[]'::jsonb)
+        from public.bank_accounts b
+       where b.id::text in (p_from_bank_id, p_to_bank_id)
+    )
+  );
+end $$;
+
+revoke all on function public.transfer_between_accounts(text, text, numeric, numeric, text, numeric) from public, anon;
+grant execute on function public.transfer_between_accounts(text, text, numeric, numeric, text, numeric) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Conciliación: el extracto viene en la moneda de la cuenta, así que se compara
+-- contra el monto original y no contra el valorizado.
+-- ----------------------------------------------------------------------------
+create or replace function private.auto_match_statement_line(p_line_id uuid)
+returns text
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_line public.bank_statement_lines;
+  v_tx text;
+  v_candidates int;
+  v_ref_hit boolean;
+begin
+  select * into v_line from public.bank_statement_lines l where l.id = p_line_id for update;
+  if v_line.status <> 'UNMATCHED' then return v_line.transaction_id; end if;
+
+  with cand as (
+    select t.id::text as tx_id,
+           abs(t.date::date - v_line.date::date) as days,
+           (coalesce(v_line.reference, '') <> ''
+             and (t.notes ilike '%' || v_line.reference || '%' or t.id::text = v_line.reference)) as ref_hit
+      from public.transactions t
+      join (
+        select e.transaction_id, sum(coalesce(jl.amount_currency, jl.debit - jl.credit)) as net
+          from public.journal_lines jl
+          join public.journal_entries e on e.id = jl.entry_id
+          join public.ledger_accounts a on a.id = jl.account_id
+         where a.bank_account_id = v_line.bank_account_id
+           and e.source = 'TRANSACTION'
+         group by e.transaction_id
+      ) j on j.transaction_id = t.id::text
+     where t.organization_id = v_line.organization_id
+       and t."bankAccountId" = v_line.bank_account_id
+       and not t.voided
+       and t.type <> 'REVERSAL'
+       and abs(j.net - v_line.amount) < 1
+       and abs(t.date::date - v_line.date::date) <= 3
+       and not exists (select 1 from public.bank_statement_lines x where x.transaction_id = t.id::text)
+  )
+  select (select c.tx_id from cand c order by c.ref_hit desc, c.days, c.tx_id limit 1),
+         (select count(*) from cand),
+         (select bool_or(c.ref_hit) from cand)
+    into v_tx, v_candidates, v_ref_hit;
+
+  -- Sin referencia que desempate, solo se concilia si el candidato es único.
+  if v_tx is null or (v_candidates > 1 and not coalesce(v_ref_hit, false)) then
+    return null;
+  end if;
+
+  update public.bank_statement_lines
+     set status = 'MATCHED', transaction_id = v_tx, auto_matched = true,
+         matched_by = auth.uid(), matched_at = now()
+   where id = p_line_id;
+  return v_tx;
+end $$;
@@ -0,0 +1,218 @@
+-- ============================================================================
+-- Promesas de pago. El cobrador anotaba "promete pagar el viernes" en la nota
+-- de la visita y nadie volvía a mirar si se cumplió.
+--
+--   * payment_promises: monto y fecha prometidos por un cliente, registrados
+--     desde la ficha, desde una parada de la ruta o por el asistente.
+--     Un cliente tiene a lo sumo una promesa pendiente: registrar otra cierra
+--     la anterior (incumplida si su fecha ya pasó, cancelada si no).
+--   * Cumplida: un trigger sobre transactions la marca KEPT cuando los pagos
+--     registrados después de la promesa, con fecha hasta la prometida, suman
+--     el monto.
+--   * Incumplida: payment_promise_status la muestra BROKEN en cuanto pasa la
+--     fecha sin cumplirse; no hace falta un proceso nocturno.
+--   * client_promise_stats: promesas cumplidas e incumplidas por cliente.
+-- Escritura solo por las RPC. Lectura: quien ve al cliente ve sus promesas.
+-- ============================================================================
+
+create table if not exists public.payment_promises (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  promised_date text not null,
+  amount numeric not null check (amount > 0),
+  status text not null default 'PENDING' check (status in ('PENDING','KEPT','BROKEN','CANCELLED')),
+  note text,
+  source text not null default 'MANUAL' check (source in ('MANUAL','ROUTE','AI')),
+  route_stop_id uuid references public.collection_route_stops(id) on delete set null,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  resolved_at timestamptz,
+  kept_transaction_id uuid
+);
+create index if not exists payment_promises_org_date_idx on public.payment_promises (organization_id, promised_date);
+create unique index if not exists payment_promises_one_pending_idx on public.payment_promises (client_id) where status = 'PENDING';
+
+alter table public.payment_promises enable row level security;
+
+drop policy if exists "payment_promises_select" on public.payment_promises;
+create policy "payment_promises_select" on public.payment_promises
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+revoke insert, update, delete on public.payment_promises from anon, authenticated;
+grant select on public.payment_promises to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Estado efectivo y cumplimiento por cliente
+-- ----------------------------------------------------------------------------
+create or replace view public.payment_promise_status
+with (security_invoker = true) as
+select p.*,
+       c.name as client_name,
+       c."cardCode" as card_code,
+       c.phone,
+       case when p.status = 'PENDING' and p.promised_date < to_char(current_date, 'YYYY-MM-DD')
+            then 'BROKEN' else p.status end as effective_status
+  from public.payment_promises p
+  join public.clients c on c.id = p.client_id;
+
+grant select on public.payment_promise_status to authenticated;
+
+create or replace view public.client_promise_stats
+with (security_invoker = true) as
+select s.client_id,
+       s.organization_id,
+       count(*) filter (where s.effective_status <> 'CANCELLED') as total,
+       count(*) filter (where s.effective_status = 'KEPT') as kept,
+       count(*) filter (where s.effective_status = 'BROKEN') as broken,
+       count(*) filter (where s.effective_status = 'PENDING') as pending
+  from public.payment_promise_status s
+ group by s.client_id, s.organization_id;
+
+grant select on public.client_promise_stats to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Cumplimiento automático al registrar pagos
+-- ----------------------------------------------------------------------------
+create or replace function private.settle_payment_promises(p_client_ids text[])
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  -- El pago que completa el monto queda como el que cumplió la promesa.
+  update public.payment_promises p
+     set status = 'KEPT',
+         resolved_at = now(),
+         kept_transaction_id = k.tx_id
+    from (
+      select distinct on (x.promise_id) x.promise_id, x.tx_id
+        from (
+          select pp.id as promise_id, pp.amount, t.id as tx_id,
+                 sum(t.amount + coalesce(t."interestPaid", 0))
+                   over (partition by pp.id order by t.created_at, t.id) as running
+            from public.payment_promises pp
+            join public.transactions t
+              on t."clientId" = pp.client_id::text
+             and t.created_at >= pp.created_at
+             and t.date <= pp.promised_date
+             and not coalesce(t.voided, false)
+             and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'PAYMENT_PENALTY', 'REDIRECT_OUT', 'SETTLEMENT')
+           where pp.status = 'PENDING'
+             and pp.client_id::text = any(p_client_ids)
+        ) x
+       where x.running >= x.amount
+       order by x.promise_id, x.running
+    ) k
+   where p.id = k.promise_id;
+end $$;
+
+create or replace function private.sync_payment_promises()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_ids text[];
+begin
+  select array_agg(distinct n."clientId") into v_ids
+    from new_rows n
+   where n.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'PAYMENT_PENALTY', 'REDIRECT_OUT', 'SETTLEMENT');
+
+  if v_ids is not null then
+    perform private.settle_payment_promises(v_ids);
+  end if;
+  return null;
+end $$;
+
+drop trigger if exists trg_payment_promises_insert on public.transactions;
+create trigger trg_payment_promises_insert
+  after insert on public.transactions
+  referencing new table as new_rows
+  for each statement execute function private.sync_payment_promises();
+
+-- ----------------------------------------------------------------------------
+-- Registrar y cancelar
+-- ----------------------------------------------------------------------------
+create or replace function public.create_payment_promise(
+  p_client_id uuid,
+  p_amount numeric,
+  p_promised_date text,
+  p_note text default null,
+  p_source text default 'MANUAL',
+  p_route_stop_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+  v_today text := to_char(current_date, 'YYYY-MM-DD');
+  v_row public.payment_promises;
+begin
+  select * into v_client from public.clients c where c.id = p_client_id;
+  if v_client.id is null then raise exception 'Cliente no encontrado'; end if;
+  if not private.has_perm(v_client.organization_id, 'create_transactions')
+     or not private.can_see_client(v_client.organization_id, v_client."assignedTo") then
+    raise exception 'Acceso denegado a las promesas de pago';
+  end if;
+  if coalesce(p_amount, 0) <= 0 then raise exception 'El monto prometido debe ser mayor a cero'; end if;
+  if p_promised_date is null or p_promised_date !~ '^\d{4}-\d{2}-\d{2}$' then
+    raise exception 'Fecha prometida no válida';
+  end if;
+  if p_promised_date < v_today then raise exception 'La fecha prometida no puede ser anterior a hoy'; end if;
+  if p_source not in ('MANUAL', 'ROUTE', 'AI') then raise exception 'Origen no válido: %', p_source; end if;
+  if p_route_stop_id is not null and not exists (
+    select 1 from public.collection_route_stops s where s.id = p_route_stop_id and s.client_id = p_client_id
+  ) then
+    raise exception 'La parada no corresponde al cliente';
+  end if;
+
+  update public.payment_promises p
+     set status = case when p.promised_date < v_today then 'BROKEN' else 'CANCELLED' end,
+         resolved_at = now()
+   where p.client_id = p_client_id and p.status = 'PENDING';
+
+  insert into public.payment_promises (organization_id, client_id, promised_date, amount, note, source, route_stop_id)
+  values (v_client.organization_id, p_client_id, p_promised_date, p_amount, nullif(btrim(p_note), ''), p_source, p_route_stop_id)
+  returning * into v_row;
+
+  -- Desde la ruta, la parada queda marcada con la promesa en la nota.
+  if p_route_stop_id is not null then
+    perform public.mark_route_stop(
+      p_route_stop_id, 'PROMISED',
+      concat_ws(' · ', 'Promete ' || p_amount::text || ' el ' || p_promised_date, nullif(btrim(p_note), ''))
+    );
+  end if;
+
+  return to_jsonb(v_row);
+end $$;
+
+create or replace function public.cancel_payment_promise(p_promise_id uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_row public.payment_promises;
+begin
+  select * into v_row from public.payment_promises p where p.id = p_promise_id for update;
+  if v_row.id is null then raise exception 'Promesa no encontrada'; end if;
+  if v_row.created_by is distinct from auth.uid() and not private.is_org_admin(v_row.organization_id) then
+    raise exception 'Solo quien registró la promesa (o un administrador) puede cancelarla';
+  end if;
+  if v_row.status <> 'PENDING' then raise exception 'La promesa ya está cerrada'; end if;
+
+  update public.payment_promises p
+     set status = 'CANCELLED', resolved_at = now()
+   where p.id = p_promise_id
+  returning * into v_row;
+  return to_jsonb(v_row);
+end $$;
+
+revoke all on function public.create_payment_promise(uuid, numeric, text, text, text, uuid) from public, anon;
+grant execute on function public.create_payment_promise(uuid, numeric, text, text, text, uuid) to authenticated;
+revoke all on function public.cancel_payment_promise(uuid) from public, anon;
+grant execute on function public.cancel_payment_promise(uuid) to authenticated;
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Plan de pagos por cliente (tabla de amortización).
+-- Antes solo se guardaba la cuota, el número de cuotas y el total de interés;
+-- el desglose capital/interés de cada pago se calculaba a mano. El front genera
+-- el plan (services/loanUtils.ts → generateAmortizationSchedule) al crear el
+-- cliente o al desembolsar/refinanciar y lo persiste aquí como jsonb:
+--   [{ "number", "dueDate", "principal", "interest", "payment", "balance" }]
+-- ============================================================================
+alter table public.clients add column if not exists "paymentSchedule" jsonb;
+
+-- El plan debe ser un arreglo (o null para clientes sin crédito vigente).
+alter table public.clients drop constraint if exists clients_payment_schedule_is_array;
+alter table public.clients add constraint clients_payment_schedule_is_array
+  check ("paymentSchedule" is null or jsonb_typeof("paymentSchedule") = 'array');
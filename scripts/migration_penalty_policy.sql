@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Intereses de mora por organización.
+-- Antes la mora se anotaba a mano en las notas del pago y se perdía en los
+-- reportes. Ahora:
+--   * settings.penalty_policy (jsonb) guarda la política de la organización:
+--       { "enabled", "rateType": "DAILY"|"MONTHLY", "rate", "graceDays", "capPercent" }
+--   * La mora se causa en el front sobre cada cuota vencida del plan de pagos
+--     (services/loanUtils.ts → calculateLateFees) y se cobra como un movimiento
+--     propio de tipo 'PAYMENT_PENALTY', separado de PAYMENT_INTEREST.
+-- ============================================================================
+alter table public.settings add column if not exists penalty_policy jsonb;
+
+-- C3 restringió el SELECT de settings a una lista de columnas: la nueva columna
+-- hay que concederla explícitamente o el fetch de settings devuelve 42501.
+grant select (penalty_policy) on public.settings to authenticated;
@@ -0,0 +1,197 @@
+-- ============================================================================
+-- Cierre contable mensual. Hasta ahora nada impedía editar (o purgar) un
+-- movimiento del año pasado desde TransactionModal: el único filtro era la
+-- política transactions_update, que solo mira permisos, no fechas.
+--
+-- Ahora:
+--   * accounting_periods: un registro por mes cerrado ('YYYY-MM') con la foto
+--     al cierre: saldo de cada banco (según el libro diario), cartera total e
+--     ingresos por interés y mora del mes.
+--   * Solo el PROPIETARIO cierra (close_period) y solo meses ya terminados, en
+--     orden: tras el primer cierre, el siguiente debe ser el mes inmediato.
+--     reopen_period deshace únicamente el último cierre.
+--   * Un trigger BEFORE sobre transactions rechaza alta, edición y borrado de
+--     cualquier movimiento fechado en un período cerrado (también los que
+--     hacen las RPC security definer, que saltan RLS). Las correcciones se
+--     registran como ajuste con fecha del período abierto.
+--   * El recálculo de "balanceAfter" sigue permitido: es un dato derivado y no
+--     cambia mientras no entren movimientos con fecha cerrada.
+-- ============================================================================
+
+create table if not exists public.accounting_periods (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  period text not null check (period ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  closed_at timestamptz default now(),
+  closed_by uuid default auth.uid(),
+  bank_balances jsonb not null default '[]'::jsonb,
+  portfolio_total numeric not null default 0,
+  interest_income numeric not null default 0,
+  penalty_income numeric not null default 0,
+  unique (organization_id, period)
+);
+
+alter table public.accounting_periods enable row level security;
+
+-- Lectura para miembros; la escritura solo ocurre vía close/reopen_period.
+drop policy if exists "accounting_periods_select" on public.accounting_periods;
+create policy "accounting_periods_select" on public.accounting_periods
+  for select to authenticated using (private.is_org_member(organization_id));
+
+create or replace function private.is_org_owner(p_org uuid)
+returns boolean
+language sql stable
+security definer set search_path = ''
+as $$
+  select exists (
+    select 1 from public.organization_members m
+     where m.organization_id = p_org
+       and m.user_id = (select auth.uid())
+       and m.role = 'owner'
+  );
+$$;
+
+-- Último mes cerrado de la organización (null si nunca se ha cerrado).
+create or replace function private.closed_through(p_org uuid)
+returns text
+language sql stable
+security definer set search_path = ''
+as $$
+  select max(p.period) from public.accounting_periods p where p.organization_id = p_org;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- Bloqueo de períodos cerrados
+-- ----------------------------------------------------------------------------
+create or replace function private.guard_closed_period()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := coalesce(new.organization_id, old.organization_id);
+  v_closed text := private.closed_through(v_org);
+begin
+  if v_closed is null then
+    return case when tg_op = 'DELETE' then old else new end;
+  end if;
+
+  -- Solo cambia el saldo derivado: se permite (recálculo de la RPC).
+  if tg_op = 'UPDATE'
+     and (to_jsonb(new) - 'balanceAfter') = (to_jsonb(old) - 'balanceAfter') then
+    return new;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') and left(old.date, 7) <= v_closed then
+    raise exception 'Período contable cerrado (%): registre la corrección como ajuste en el período abierto', left(old.date, 7);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and left(new.date, 7) <= v_closed then
+    raise exception 'Período contable cerrado (%): use una fecha posterior a %', left(new.date, 7), v_closed;
+  end if;
+
+  return case when tg_op = 'DELETE' then old else new end;
+end $$;
+
+drop trigger if exists trg_guard_closed_period on public.transactions;
+create trigger trg_guard_closed_period
+  before insert or update or delete on public.transactions
+  for each row execute function private.guard_closed_period();
+
+-- ----------------------------------------------------------------------------
+-- Cierre / reapertura
+-- ----------------------------------------------------------------------------
+create or replace function public.close_period(p_org uuid, p_period text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_last text;
+  v_end text;
+  v_row public.accounting_periods;
+begin
+  if not private.is_org_owner(p_org) then
+    raise exception 'Solo el propietario puede cerrar períodos contables';
+  end if;
+  if p_period !~ '^\d{4}-(0[1-9]|1[0-2])$' then
+    raise exception 'Período inválido: %', p_period;
+  end if;
+  if p_period >= to_char(current_date, 'YYYY-MM') then
+    raise exception 'Solo se pueden cerrar meses ya terminados';
+  end if;
+
+  -- Serializa cierres concurrentes de la misma organización.
+  perform 1 from public.organizations o where o.id = p_org for update;
+
+  v_last := private.closed_through(p_org);
+  if v_last is not null and p_period <= v_last then
+    raise exception 'El período % ya está cerrado', p_period;
+  end if;
+  if v_last is not null
+     and p_period <> to_char((v_last || '-01')::date + interval '1 month', 'YYYY-MM') then
+    raise exception 'Cierre primero el período %', to_char((v_last || '-01')::date + interval '1 month', 'YYYY-MM');
+  end if;
+
+  v_end := to_char((p_period || '-01')::date + interval '1 month' - interval '1 day', 'YYYY-MM-DD');
+
+  insert into public.accounting_periods (
+    organization_id, period, bank_balances, portfolio_total, interest_income, penalty_income
+  )
+  select p_org, p_period,
+    -- Saldo de cada banco al cierre según el diario.
+    (select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'name', b.name, 'balance', coalesce(s.balance, 0)) order by b.name), '[]'::jsonb)
+       from public.bank_accounts b
+       left join lateral (
+         select sum(jl.debit - jl.credit) as balance
+           from public.journal_lines jl
+           join public.journal_entries e on e.id = jl.entry_id
+           join public.ledger_accounts a on a.id = jl.account_id
+          where a.bank_account_id = b.id::text
+            and e.date <= v_end
+       ) s on true
+      where b.organization_id = p_org),
+    -- Cartera: último saldo de cada cliente a la fecha de cierre.
+    (select coalesce(sum(x."balanceAfter"), 0)
+       from (
+         select distinct on (t."clientId") t."balanceAfter"
+           from public.transactions t
+          where t.organization_id = p_org and t."clientId" is not null and t.date <= v_end
+          order by t."clientId", t.date desc, t.created_at desc, t.id desc
+       ) x),
+    (select coalesce(sum(coalesce(t."interestPaid", 0) + case when t.type = 'PAYMENT_INTEREST' then coalesce(t.amount, 0) else 0 end), 0)
+       from public.transactions t
+      where t.organization_id = p_org and not t.voided and left(t.date, 7) = p_period
+        and t.type in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT', 'SETTLEMENT')),
+    (select coalesce(sum(t.amount), 0)
+       from public.transactions t
+      where t.organization_id = p_org and not t.voided and left(t.date, 7) = p_period
+        and t.type = 'PAYMENT_PENALTY')
+  returning * into v_row;
+
+  return to_jsonb(v_row);
+end $$;
+
+create or replace function public.reopen_period(p_org uuid, p_period text)
+returns void
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if not private.is_org_owner(p_org) then
+    raise exception 'Solo el propietario puede reabrir períodos contables';
+  end if;
+
+  perform 1 from public.organizations o where o.id = p_org for update;
+
+  if p_period is distinct from private.closed_through(p_org) then
+    raise exception 'Solo se puede reabrir el último período cerrado';
+  end if;
+
+  delete from public.accounting_periods p
+   where p.organization_id = p_org and p.period = p_period;
+end $$;
+
+revoke all on function public.close_period(uuid, text) from public, anon;
+grant execute on function public.close_period(uuid, text) to authenticated;
+revoke all on function public.reopen_period(uuid, text) from public, anon;
+grant execute on function public.reopen_period(uuid, text) to authenticated;
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Recalculo de saldos del cliente en el servidor (resuelve la carrera del
+-- upsert masivo). Antes el navegador leía su copia del historial, recalculaba
+-- "balanceAfter" y hacía upsert de TODAS las filas: si dos cobradores operaban
+-- el mismo cliente a la vez, el último upsert pisaba los saldos del otro con
+-- una copia vieja del libro.
+--
+-- Ahora la RPC recalcula dentro de una sola transacción de Postgres:
+--   * Bloquea la fila del cliente (FOR UPDATE) → los recálculos del mismo
+--     cliente se serializan.
+--   * Usa el historial REAL de la tabla (no el del navegador).
+--   * Devuelve el libro del cliente ya recalculado y ordenado.
+-- Orden y signos idénticos a services/transactionService.ts:
+--   suman:  DISBURSEMENT, REFINANCE, REDIRECT_IN
+--   restan: PAYMENT_CAPITAL, REDIRECT_OUT, SETTLEMENT
+--   neutros: PAYMENT_INTEREST, PAYMENT_PENALTY (y cualquier otro)
+-- SEGURIDAD: security definer (bypassa RLS) → valida explícitamente que quien
+-- llama pueda actualizar transacciones de la organización del cliente (mismo
+-- criterio que la política transactions_update).
+-- ============================================================================
+create or replace function public.recalculate_client_balances(p_client_id text)
+returns setof public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+begin
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = p_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not (private.has_perm(v_org, 'create_transactions') or private.has_perm(v_org, 'delete_transactions')) then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  update public.transactions t
+     set "balanceAfter" = r.running
+    from (
+      select x.id,
+             case when abs(x.running) < 0.01 then 0 else x.running end as running
+        from (
+          select tx.id,
+                 round(sum(
+                   case
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+                     else 0
+                   end
+                 ) over (order by tx.date, tx.created_at, tx.id rows between unbounded preceding and current row), 2) as running
+            from public.transactions tx
+           where tx."clientId" = p_client_id
+             and tx.organization_id = v_org
+        ) x
+    ) r
+   where t.id = r.id
+     and t."balanceAfter" is distinct from r.running;
+
+  return query
+    select t.* from public.transactions t
+     where t."clientId" = p_client_id
+       and t.organization_id = v_org
+     order by t.date, t.created_at, t.id;
+end $$;
+
+revoke all on function public.recalculate_client_balances(text) from public, anon;
+grant execute on function public.recalculate_client_balances(text) to authenticated;
@@ -0,0 +1,205 @@
+-- ============================================================================
+-- Registro ATÓMICO de pagos. Antes un cobro eran varias llamadas sueltas desde
+-- el navegador (upsert del movimiento, bump_bank_balance, recálculo de saldos,
+-- patch de la fecha de próximo pago y, en redirecciones, el REDIRECT_IN del
+-- receptor + otro patch). Si una fallaba a mitad de camino los libros quedaban
+-- inconsistentes (p. ej. caja sumada sin movimiento, o fecha sin avanzar, ya
+-- que el patch del cliente solo registraba una advertencia).
+--
+-- Ahora todo ocurre dentro de UNA transacción de Postgres: o se aplican todos
+-- los efectos o ninguno.
+--   1. Inserta el pago (y opcionalmente su PAYMENT_PENALTY).
+--   2. Suma a la cuenta bancaria monto + interés + mora.
+--   3. Recalcula "balanceAfter" del cliente (recalculate_client_balances).
+--   4. Actualiza "paymentSchedule" / "nextPaymentDate" (calculados por el
+--      front con la misma imputación de services/loanUtils.ts).
+--   5. En REDIRECT_OUT: inserta el REDIRECT_IN del receptor, recalcula su
+--      libro y baja su "pendingRedirectionBalance".
+-- Devuelve { client, transactions, bank_balance, target_client,
+-- target_transactions } para que la UI fusione el resultado.
+--
+-- SEGURIDAD: security definer (bypassa RLS) → exige 'create_transactions' en
+-- la organización del cliente. Del JSON del navegador solo se copian las
+-- columnas de captura (private.insert_payment_row); organización, cliente,
+-- tipo y vínculos los fija el servidor, y el REDIRECT_IN toma monto, fecha y
+-- receptor del pago. La cuenta bancaria y el receptor deben pertenecer a la
+-- misma organización.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Inserta una fila de pago. De p_row (JSON del navegador) solo se toman las
+-- columnas de la lista; p_server trae las que decide el servidor y pisa lo
+-- que venga del front. Las columnas que no llegan (o llegan en null) toman
+-- su DEFAULT: "balanceAfter" lo calcula el recálculo y las que se agreguen a
+-- la tabla más adelante no quedan expuestas ni en NULL.
+-- ----------------------------------------------------------------------------
+create or replace function private.insert_payment_row(p_row jsonb, p_server jsonb)
+returns public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_row jsonb;
+  v_cols text;
+  v_tx public.transactions;
+begin
+  select jsonb_strip_nulls(coalesce(jsonb_object_agg(e.key, e.value), '{}'::jsonb) || p_server)
+    into v_row
+    from jsonb_each(coalesce(p_row, '{}'::jsonb)) e
+   where e.key in ('id', 'date', 'amount', 'interestPaid', 'capitalPaid', 'notes',
+                   'bankAccountId', 'receiptUrl', 'created_at');
+
+  select string_agg(quote_ident(a.attname), ', ' order by a.attnum) into v_cols
+    from pg_catalog.pg_attribute a
+   where a.attrelid = 'public.transactions'::regclass
+     and a.attnum > 0
+     and not a.attisdropped
+     and v_row ? a.attname;
+
+  execute format(
+    'insert into public.transactions (%1$s) select %1$s from jsonb_populate_record(null::public.transactions, $1) returning *',
+    v_cols
+  ) into v_tx using v_row;
+  return v_tx;
+end $$;
+
+create or replace function public.register_payment(
+  p_tx jsonb,
+  p_penalty jsonb default null,
+  p_client_fields jsonb default '{}'::jsonb,
+  p_redirect jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client_id text := p_tx->>'clientId';
+  v_org uuid;
+  v_bank_id text := nullif(p_tx->>'bankAccountId', '');
+  v_delta numeric;
+  v_bank_balance numeric;
+  v_target_id text := case when p_tx->>'type' = 'REDIRECT_OUT' then nullif(p_tx->>'relatedClientId', '') end;
+  v_tx public.transactions;
+  v_client jsonb;
+  v_target jsonb;
+  v_ledger jsonb;
+  v_target_ledger jsonb;
+begin
+  if p_tx->>'type' not in ('PAYMENT_CAPITAL', 'PAYMENT_INTEREST', 'REDIRECT_OUT', 'SETTLEMENT') then
+    raise exception 'Tipo de movimiento no admitido como pago: %', p_tx->>'type';
+  end if;
+
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = v_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not private.has_perm(v_org, 'create_transactions') then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  if coalesce((p_tx->>'amount')::numeric, 0) < 0
+     or coalesce((p_tx->>'interestPaid')::numeric, 0) < 0
+     or coalesce((p_penalty->>'amount')::numeric, 0) < 0 then
+    raise exception 'Los montos no pueden ser negativos';
+  end if;
+
+  -- Receptor de la redirección: otro cliente de la misma organización.
+  if v_target_id is not null then
+    if v_target_id = v_client_id then
+      raise exception 'Un cliente no puede redirigirse un pago a sí mismo';
+    end if;
+    perform 1 from public.clients c
+     where c.id::text = v_target_id
+       and c.organization_id = v_org
+     for update;
+    if not found then raise exception 'Cliente receptor no encontrado'; end if;
+  end if;
+
+  -- La contraparte sale del pago: mismo receptor, monto y fecha.
+  if p_redirect is not null then
+    if v_target_id is null then
+      raise exception 'Solo una redirección con receptor lleva contraparte';
+    end if;
+    if p_redirect->>'clientId' is distinct from v_target_id
+       or (p_redirect->>'amount')::numeric is distinct from (p_tx->>'amount')::numeric
+       or p_redirect->>'date' is distinct from p_tx->>'date' then
+      raise exception 'La contraparte no coincide con la redirección';
+    end if;
+  end if;
+
+  -- 1. Movimientos
+  v_tx := private.insert_payment_row(p_tx, jsonb_build_object(
+    'organization_id', v_org, 'clientId', v_client_id, 'type', p_tx->>'type', 'relatedClientId', v_target_id));
+
+  if p_penalty is not null then
+    perform private.insert_payment_row(p_penalty, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_client_id, 'type', 'PAYMENT_PENALTY',
+      'relatedTransactionId', v_tx.id::text));
+  end if;
+
+  -- 2. Caja: un solo movimiento por el total recibido.
+  if v_bank_id is not null then
+    v_delta := coalesce(v_tx.amount, 0)
+             + coalesce(v_tx."interestPaid", 0)
+             + coalesce((p_penalty->>'amount')::numeric, 0);
+
+    update public.bank_accounts b
+       set balance = b.balance + v_delta
+     where b.id::text = v_bank_id
+       and b.organization_id = v_org
+    returning b.balance into v_bank_balance;
+
+    if v_bank_balance is null then raise exception 'Cuenta no encontrada'; end if;
+  end if;
+
+  -- 3. Saldos del cliente
+  perform public.recalculate_client_balances(v_client_id);
+
+  -- 4. Plan de cuotas / próximo vencimiento
+  update public.clients c
+     set "paymentSchedule" = case when p_client_fields ? 'paymentSchedule'
+                                  then p_client_fields->'paymentSchedule' else c."paymentSchedule" end,
+         "nextPaymentDate" = case when p_client_fields ? 'nextPaymentDate'
+                                  then p_client_fields->>'nextPaymentDate' else c."nextPaymentDate" end
+   where c.id::text = v_client_id;
+
+  -- 5. Contraparte de la redirección
+  if p_redirect is not null then
+    perform private.insert_payment_row(p_redirect, jsonb_build_object(
+      'organization_id', v_org, 'clientId', v_target_id, 'type', 'REDIRECT_IN',
+      'amount', v_tx.amount, 'date', v_tx.date, 'interestPaid', 0, 'capitalPaid', 0,
+      'relatedClientId', v_client_id, 'relatedTransactionId', v_tx.id::text));
+
+    perform public.recalculate_client_balances(v_target_id);
+
+    update public.clients c
+       set "pendingRedirectionBalance" = greatest(0, coalesce(c."pendingRedirectionBalance", 0) - coalesce(v_tx.amount, 0))
+     where c.id::text = v_target_id
+    returning to_jsonb(c) into v_target;
+
+    select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_target_ledger
+      from public.transactions t
+     where t."clientId" = v_target_id and t.organization_id = v_org;
+  end if;
+
+  select to_jsonb(c) into v_client from public.clients c where c.id::text = v_client_id;
+
+  select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb) into v_ledger
+    from public.transactions t
+   where t."clientId" = v_client_id and t.organization_id = v_org;
+
+  return jsonb_build_object(
+    'client', v_client,
+    'transactions', v_ledger,
+    'bank_balance', v_bank_balance,
+    'target_client', v_target,
+    'target_transactions', v_target_ledger
+  );
+end $$;
+
+revoke all on function public.register_payment(jsonb, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.register_payment(jsonb, jsonb, jsonb, jsonb) to authenticated;
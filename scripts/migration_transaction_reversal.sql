@@ -0,0 +1,199 @@
+-- ============================================================================
+-- Reversión (contra-asiento) en lugar de borrado físico. Antes
+-- deleteTransaction eliminaba la fila y re-aplicaba el delta bancario: para un
+-- negocio de préstamos eso destruye la evidencia de lo que ocurrió.
+--
+-- Ahora:
+--   * transactions.voided / "voidReason": el movimiento original queda marcado
+--     como anulado, con el motivo (obligatorio).
+--   * Se inserta un movimiento REVERSAL enlazado por "relatedTransactionId"
+--     con los mismos montos; ambos siguen visibles en el historial.
+--   * Los movimientos anulados dejan de sumar en "balanceAfter"; el REVERSAL
+--     es neutro (solo deja rastro). La caja recibe el delta inverso.
+--   * La reversión arrastra los movimientos hijos del original (mora cobrada
+--     con el pago, REDIRECT_IN del receptor de una redirección).
+--   * El borrado físico queda solo como PURGA del propietario.
+-- ============================================================================
+
+alter table public.transactions add column if not exists voided boolean not null default false;
+alter table public.transactions add column if not exists "voidReason" text;
+
+-- Purga: solo el propietario de la organización.
+drop policy if exists "transactions_delete" on public.transactions;
+create policy "transactions_delete" on public.transactions
+  for delete to authenticated using (
+    exists (
+      select 1 from public.organization_members m
+       where m.organization_id = transactions.organization_id
+         and m.user_id = (select auth.uid())
+         and m.role = 'owner'
+    )
+  );
+
+-- Recalculo: los movimientos anulados no afectan el saldo.
+create or replace function public.recalculate_client_balances(p_client_id text)
+returns setof public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+begin
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = p_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not (private.has_perm(v_org, 'create_transactions') or private.has_perm(v_org, 'delete_transactions')) then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  update public.transactions t
+     set "balanceAfter" = r.running
+    from (
+      select x.id,
+             case when abs(x.running) < 0.01 then 0 else x.running end as running
+        from (
+          select tx.id,
+                 round(sum(
+                   case
+                     when tx.voided then 0
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then -coalesce(tx.amount, 0)
+                     else 0
+                   end
+                 ) over (order by tx.date, tx.created_at, tx.id rows between unbounded preceding and current row), 2) as running
+            from public.transactions tx
+           where tx."clientId" = p_client_id
+             and tx.organization_id = v_org
+        ) x
+    ) r
+   where t.id = r.id
+     and t."balanceAfter" is distinct from r.running;
+
+  return query
+    select t.* from public.transactions t
+     where t."clientId" = p_client_id
+       and t.organization_id = v_org
+     order by t.date, t.created_at, t.id;
+end $$;
+
+revoke all on function public.recalculate_client_balances(text) from public, anon;
+grant execute on function public.recalculate_client_balances(text) to authenticated;
+
+-- Reversión atómica. Devuelve { transactions: libro de los clientes afectados,
+-- banks: [{ id, balance }] } para que la UI fusione el resultado.
+-- SEGURIDAD: security definer → exige 'delete_transactions' (mismo permiso que
+-- antes tenía el borrado) en la organización del movimiento.
+create or replace function public.reverse_transaction(p_tx_id text, p_reason text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+  v_origin public.transactions;
+  v_row public.transactions;
+  v_reason text := nullif(btrim(p_reason), '');
+  v_delta numeric;
+  v_clients text[] := '{}';
+  v_banks text[] := '{}';
+  v_client text;
+begin
+  if v_reason is null then raise exception 'Debe indicar el motivo de la reversión'; end if;
+
+  select * into v_origin from public.transactions t where t.id::text = p_tx_id;
+  if v_origin.id is null then raise exception 'Movimiento no encontrado'; end if;
+  v_org := v_origin.organization_id;
+
+  if not private.has_perm(v_org, 'delete_transactions') then
+    raise exception 'Acceso denegado al movimiento';
+  end if;
+
+  if v_origin."clientId" is null then raise exception 'Solo se reversan movimientos de clientes'; end if;
+  if v_origin.voided then raise exception 'El movimiento ya fue reversado'; end if;
+  if v_origin.type = 'REVERSAL' then raise exception 'Una reversión no se puede reversar'; end if;
+  if v_origin.type = 'REDIRECT_IN' and v_origin."relatedTransactionId" is not null then
+    raise exception 'Reverse la redirección desde el cliente que pagó';
+  end if;
+
+  -- Bloquear los clientes involucrados (orden estable para evitar deadlocks).
+  perform 1 from public.clients c
+   where c.organization_id = v_org
+     and c.id::text in (
+       select t."clientId" from public.transactions t
+        where t.organization_id = v_org
+          and (t.id::text = p_tx_id or t."relatedTransactionId" = p_tx_id)
+     )
+   order by c.id
+   for update;
+
+  for v_row in
+    select * from public.transactions t
+     where t.organization_id = v_org
+       and (t.id::text = p_tx_id or t."relatedTransactionId" = p_tx_id)
+       and not t.voided
+       and t.type <> 'REVERSAL'
+     order by t.created_at
+     for update
+  loop
+    update public.transactions
+       set voided = true, "voidReason" = v_reason
+     where id = v_row.id;
+
+    insert into public.transactions (
+      organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid",
+      "balanceAfter", notes, "relatedTransactionId", "relatedClientId", "bankAccountId"
+    ) values (
+      v_org, v_row."clientId", to_char(current_date, 'YYYY-MM-DD'), 'REVERSAL',
+      v_row.amount, coalesce(v_row."interestPaid", 0), 0, 0, v_reason,
+      v_row.id::text, v_row."relatedClientId", v_row."bankAccountId"
+    );
+
+    if v_row."bankAccountId" is not null then
+      v_delta := case
+        when v_row.type in ('DISBURSEMENT', 'REFINANCE') then coalesce(v_row.amount, 0)
+        else -(coalesce(v_row.amount, 0) + coalesce(v_row."interestPaid", 0))
+      end;
+      -- Reversión: se permite saldo negativo para no bloquear la corrección.
+      update public.bank_accounts b
+         set balance = b.balance + v_delta
+       where b.id::text = v_row."bankAccountId"
+         and b.organization_id = v_org;
+      v_banks := array_append(v_banks, v_row."bankAccountId");
+    end if;
+
+    -- El receptor de una redirección vuelve a quedar esperando esos fondos.
+    if v_row.type = 'REDIRECT_IN' then
+      update public.clients c
+         set "pendingRedirectionBalance" = coalesce(c."pendingRedirectionBalance", 0) + coalesce(v_row.amount, 0)
+       where c.id::text = v_row."clientId";
+    end if;
+
+    if not v_row."clientId" = any(v_clients) then
+      v_clients := array_append(v_clients, v_row."clientId");
+    end if;
+  end loop;
+
+  foreach v_client in array v_clients loop
+    perform public.recalculate_client_balances(v_client);
+  end loop;
+
+  return jsonb_build_object(
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb)
+        from public.transactions t
+       where t.organization_id = v_org and t."clientId" = any(v_clients)
+    ),
+    'banks', (
+      select coalesce(jsonb_agg(jsonb_build_object('id', b.id, 'balance', b.balance)), '[]'::jsonb)
+        from public.bank_accounts b
+       where b.organization_id = v_org and b.id::text = any(v_banks)
+    )
+  );
+end $$;
+
+revoke all on function public.reverse_transaction(text, text) from public, anon;
+grant execute on function public.reverse_transaction(text, text) to authenticated;
@@ -0,0 +1,611 @@
+-- ============================================================================
+-- Castigo de cartera. Marcar un cliente como BAD_DEBT no tocaba los libros:
+-- su saldo seguía sumando en "Capital en la Calle" y en la Cartera (1305).
+--
+-- write_off_client (solo propietario/administrador, que queda como quien
+-- aprobó) deja, en una sola transacción de Postgres:
+--   * un movimiento WRITE_OFF por cada préstamo con saldo. Resta del saldo
+--     como un abono, pero no entra plata:  Db Gasto por cartera castigada
+--     (5199) / Cr Cartera (1305). El préstamo queda WRITTEN_OFF;
+--   * una fila en write_offs con el monto, motivo, fecha y aprobador;
+--   * el cliente en BAD_DEBT, fuera de la cartera activa.
+--
+-- Lo que el cliente pague después se registra con record_recovery como
+-- RECOVERY: no mueve saldo (ya está en cero) y va a ingresos por
+-- recuperación:  Db Caja/Banco / Cr Recuperación de cartera castigada (4210).
+-- Se recupera como máximo lo castigado.
+--
+-- client_list_stats suma lo castigado y lo recuperado para la tasa de
+-- recuperación del tablero.
+-- ============================================================================
+
+create table if not exists public.write_offs (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  reason text not null,
+  date text not null,
+  loans jsonb not null default '[]'::jsonb,
+  approved_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+create index if not exists write_offs_org_idx on public.write_offs (organization_id, date);
+create index if not exists write_offs_client_idx on public.write_offs (client_id, created_at desc);
+
+alter table public.write_offs enable row level security;
+
+drop policy if exists "write_offs_select" on public.write_offs;
+create policy "write_offs_select" on public.write_offs
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+revoke insert, update, delete on public.write_offs from anon, authenticated;
+grant select on public.write_offs to authenticated;
+
+alter table public.loans drop constraint if exists loans_status_check;
+alter table public.loans add constraint loans_status_check
+  check (status in ('ACTIVE','PAID','WRITTEN_OFF'));
+
+alter table public.ledger_accounts drop constraint if exists ledger_accounts_system_key_check;
+alter table public.ledger_accounts add constraint ledger_accounts_system_key_check
+  check (system_key in ('BANK','CLEARING','LOANS_RECEIVABLE','OWNER_EQUITY','INTEREST_INCOME','PENALTY_INCOME','BAD_DEBT_EXPENSE','BANK_FEE_EXPENSE','RECOVERY_INCOME'));
+
+-- Plan de cuentas: se agrega Recuperación de cartera castigada (4210).
+create or replace function private.ledger_account(p_org uuid, p_key text)
+returns uuid
+language plpgsql
+security definer set search_path = ''
+as $$
+declare v_id uuid;
+begin
+  select a.id into v_id from public.ledger_accounts a
+   where a.organization_id = p_org and a.system_key = p_key;
+  if v_id is not null then return v_id; end if;
+
+  insert into public.ledger_accounts (organization_id, code, name, kind, system_key)
+  select p_org, d.code, d.name, d.kind, p_key
+    from (values
+      ('CLEARING',         '1195', 'Cuenta puente (redirecciones y transferencias)', 'ASSET'),
+      ('LOANS_RECEIVABLE', '1305', 'Cartera de créditos',           'ASSET'),
+      ('OWNER_EQUITY',     '3105', 'Capital del propietario',       'EQUITY'),
+      ('INTEREST_INCOME',  '4150', 'Ingresos por intereses',        'INCOME'),
+      ('PENALTY_INCOME',   '4155', 'Ingresos por mora',             'INCOME'),
+      ('RECOVERY_INCOME',  '4210', 'Recuperación de cartera castigada', 'INCOME'),
+      ('BAD_DEBT_EXPENSE', '5199', 'Gasto por cartera castigada',   'EXPENSE'),
+      ('BANK_FEE_EXPENSE', '5305', 'Gastos bancarios',              'EXPENSE')
+    ) as d(key, code, name, kind)
+   where d.key = p_key
+  on conflict do nothing
+  returning id into v_id;
+
+  if v_id is null then
+    select a.id into v_id from public.ledger_accounts a
+     where a.organization_id = p_org and a.system_key = p_key;
+  end if;
+  if v_id is null then raise exception 'Cuenta contable desconocida: %', p_key; end if;
+  return v_id;
+end $$;
+
+
+-- Asientos del castigo y de la recuperación.
+create or replace function private.transaction_lines(t public.transactions, p_reverse boolean default false)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid := t.organization_id;
+  v_cash uuid;
+  v_amount numeric := coalesce(t.amount, 0);
+  v_interest numeric := coalesce(t."interestPaid", 0);
+  v_rate numeric := coalesce(t."exchangeRate", 1);
+  v_lines jsonb := '[]'::jsonb;
+  v_line jsonb;
+  v_debit numeric;
+  v_credit numeric;
+  v_out jsonb := '[]'::jsonb;
+begin
+  v_cash := case
+    when nullif(t."bankAccountId", '') is not null then private.bank_ledger_account(v_org, t."bankAccountId")
+    else private.ledger_account(v_org, 'CLEARING')
+  end;
+
+  if t.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT') then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', 0, 'credit', v_amount),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_interest));
+  elsif t.type = 'PAYMENT_INTEREST' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount + v_interest, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'INTEREST_INCOME'), 'debit', 0, 'credit', v_amount + v_interest));
+  elsif t.type = 'PAYMENT_PENALTY' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'PENALTY_INCOME'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_DEPOSIT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_WITHDRAWAL' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'OWNER_EQUITY'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_OUT' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_TRANSFER_IN' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'CLEARING'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'WRITE_OFF' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'BAD_DEBT_EXPENSE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'LOANS_RECEIVABLE'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'RECOVERY' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', v_cash, 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'RECOVERY_INCOME'), 'debit', 0, 'credit', v_amount));
+  elsif t.type = 'BANK_FEE' then
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account_id', private.ledger_account(v_org, 'BANK_FEE_EXPENSE'), 'debit', v_amount, 'credit', 0),
+      jsonb_build_object('account_id', v_cash, 'debit', 0, 'credit', v_amount));
+  end if;
+
+  -- Valorización: cada línea se pasa a la moneda funcional. Con tasa distinta
+  -- de 1 el asiento tiene siempre dos líneas del mismo monto, así que el
+  -- redondeo no lo descuadra.
+  for v_line in select * from jsonb_array_elements(v_lines) loop
+    v_debit := (v_line->>'debit')::numeric;
+    v_credit := (v_line->>'credit')::numeric;
+    if p_reverse then
+      select v_credit, v_debit into v_debit, v_credit;
+    end if;
+    v_out := v_out || jsonb_build_array(
+      jsonb_build_object('account_id', v_line->'account_id', 'debit', round(v_debit * v_rate, 2), 'credit', round(v_credit * v_rate, 2))
+      || case when v_rate <> 1 and (v_line->>'account_id')::uuid = v_cash
+              then jsonb_build_object('amount_currency', v_debit - v_credit)
+              else '{}'::jsonb end);
+  end loop;
+  return v_out;
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Recálculo: WRITE_OFF resta como un abono; el préstamo castigado queda
+-- WRITTEN_OFF en vez de PAID.
+-- ----------------------------------------------------------------------------
+create or replace function public.recalculate_client_balances(p_client_id text)
+returns setof public.transactions
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_org uuid;
+begin
+  select c.organization_id into v_org
+    from public.clients c
+   where c.id::text = p_client_id
+   for update;
+
+  if v_org is null then raise exception 'Cliente no encontrado'; end if;
+
+  if not (private.has_perm(v_org, 'create_transactions') or private.has_perm(v_org, 'delete_transactions')) then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  update public.transactions t
+     set "balanceAfter" = r.running
+    from (
+      select x.id,
+             case when abs(x.running) < 0.01 then 0 else x.running end as running
+        from (
+          select tx.id,
+                 round(sum(
+                   case
+                     when tx.voided then 0
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT', 'WRITE_OFF') then -coalesce(tx.amount, 0)
+                     else 0
+                   end
+                 ) over (order by tx.date, tx.created_at, tx.id rows between unbounded preceding and current row), 2) as running
+            from public.transactions tx
+           where tx."clientId" = p_client_id
+             and tx.organization_id = v_org
+        ) x
+    ) r
+   where t.id = r.id
+     and t."balanceAfter" is distinct from r.running;
+
+  update public.loans l
+     set balance = s.balance,
+         principal = s.principal,
+         status = case when s.balance > 0 then 'ACTIVE' when s.written_off then 'WRITTEN_OFF' else 'PAID' end,
+         closed_at = case when s.balance > 0 then null else coalesce(l.closed_at, now()) end
+    from (
+      select x.id,
+             case when abs(x.balance) < 0.01 then 0 else x.balance end as balance,
+             x.principal,
+             x.written_off
+        from (
+          select l2.id,
+                 round(coalesce(sum(
+                   case
+                     when tx.voided then 0
+                     when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+                     when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT', 'WRITE_OFF') then -coalesce(tx.amount, 0)
+                     else 0
+                   end), 0), 2) as balance,
+                 coalesce(sum(tx.amount) filter (
+                   where not tx.voided and tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN')), 0) as principal,
+                 coalesce(bool_or(not tx.voided and tx.type = 'WRITE_OFF'), false) as written_off
+            from public.loans l2
+            left join public.transactions tx on tx."loanId" = l2.id
+           where l2.client_id::text = p_client_id
+           group by l2.id
+        ) x
+    ) s
+   where l.id = s.id
+     and (l.balance, l.principal, l.status)
+         is distinct from (s.balance, s.principal, case when s.balance > 0 then 'ACTIVE' when s.written_off then 'WRITTEN_OFF' else 'PAID' end);
+
+  return query
+    select t.* from public.transactions t
+     where t."clientId" = p_client_id
+       and t.organization_id = v_org
+     order by t.date, t.created_at, t.id;
+end $$;
+
+revoke all on function public.recalculate_client_balances(text) from public, anon;
+grant execute on function public.recalculate_client_balances(text) to authenticated;
+
+-- Reporte de descuadres con las mismas reglas de saldo.
+create or replace function private.balance_drift_report(p_org uuid)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_clients jsonb;
+  v_banks jsonb := '[]'::jsonb;
+  v_bank record;
+  v_ledger uuid;
+  v_opening numeric;
+  v_journal numeric;
+  v_recomputed numeric;
+  v_rows jsonb;
+begin
+  -- Clientes: saldo corrido guardado contra el recalculado con las mismas
+  -- reglas que recalculate_client_balances.
+  with calc as (
+    select tx.id, tx."clientId" as client_id, tx.date, tx.type, tx.amount, tx.created_at,
+           coalesce(tx."balanceAfter", 0) as stored,
+           round(sum(
+             case
+               when tx.voided then 0
+               when tx.type in ('DISBURSEMENT', 'REFINANCE', 'REDIRECT_IN') then coalesce(tx.amount, 0)
+               when tx.type in ('PAYMENT_CAPITAL', 'REDIRECT_OUT', 'SETTLEMENT', 'WRITE_OFF') then -coalesce(tx.amount, 0)
+               else 0
+             end
+           ) over (partition by tx."clientId" order by tx.date, tx.created_at, tx.id
+                   rows between unbounded preceding and current row), 2) as running,
+           row_number() over (partition by tx."clientId" order by tx.date desc, tx.created_at desc, tx.id desc) as from_end
+      from public.transactions tx
+     where tx.organization_id = p_org
+       and coalesce(tx."clientId", '') <> ''
+  ), norm as (
+    select c.*, case when abs(c.running) < 0.01 then 0 else c.running end as expected
+      from calc c
+  ), bad as (
+    select n.*, row_number() over (partition by n.client_id order by n.date, n.created_at, n.id) as rn,
+           count(*) over (partition by n.client_id) as total
+      from norm n
+     where abs(n.stored - n.expected) >= 0.01
+  )
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'client_id', s.client_id,
+           'client_name', cl.name,
+           'stored', s.stored,
+           'expected', s.expected,
+           'mismatches', s.total,
+           'transactions', s.rows
+         ) order by cl.name), '[]'::jsonb)
+    into v_clients
+    from (
+      select b.client_id,
+             max(b.total) as total,
+             (select n.stored from norm n where n.client_id = b.client_id and n.from_end = 1) as stored,
+             (select n.expected from norm n where n.client_id = b.client_id and n.from_end = 1) as expected,
+             jsonb_agg(jsonb_build_object(
+               'transaction_id', b.id, 'date', b.date, 'type', b.type, 'amount', b.amount,
+               'stored', b.stored, 'expected', b.expected
+             ) order by b.rn) filter (where b.rn <= 20) as rows
+        from bad b
+       group by b.client_id
+    ) s
+    left join public.clients cl on cl.id::text = s.client_id;
+
+  -- Cuentas: saldo guardado, saldo del diario y apertura + asientos esperados.
+  for v_bank in
+    select b.id::text as id, b.name, coalesce(b.balance, 0) as stored
+      from public.bank_accounts b
+     where b.organization_id = p_org
+     order by b.name
+  loop
+    v_ledger := private.bank_ledger_account(p_org, v_bank.id);
+
+    select coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)) filter (where e.source = 'OPENING'), 0),
+           coalesce(sum(coalesce(jl.amount_currency, jl.debit - jl.credit)), 0)
+      into v_opening, v_journal
+      from public.journal_lines jl
+      join public.journal_entries e on e.id = jl.entry_id
+     where jl.account_id = v_ledger;
+
+    select v_opening + coalesce(sum(coalesce((l->>'amount_currency')::numeric, (l->>'debit')::numeric - (l->>'credit')::numeric)), 0)
+      into v_recomputed
+      from public.transactions t,
+           jsonb_array_elements(private.expected_transaction_lines(t)) l
+     where t.organization_id = p_org
+       and (l->>'account_id')::uuid = v_ledger;
+
+    select coalesce(jsonb_agg(jsonb_build_object(
+             'transaction_id', m.transaction_id,
+             'date', t.date,
+             'type', coalesce(t.type, 'HUÉRFANO'),
+             'amount', t.amount,
+             'gap', coalesce(g.amount_currency, g.debit - g.credit)
+           ) order by t.date nulls first, m.transaction_id), '[]'::jsonb)
+      into v_rows
+      from private.journal_mismatches(p_org) m
+      join private.transaction_journal_gap(p_org, m.transaction_id) g on g.account_id = v_ledger
+      left join public.transactions t on t.id::text = m.transaction_id;
+
+    if abs(v_bank.stored - v_recomputed) >= 0.01
+       or abs(v_bank.stored - v_journal) >= 0.01
+       or jsonb_array_length(v_rows) > 0 then
+      v_banks := v_banks || jsonb_build_object(
+        'bank_account_id', v_bank.id,
+        'name', v_bank.name,
+        'stored', v_bank.stored,
+        'journal', v_journal,
+        'recomputed', v_recomputed,
+        'drift', v_bank.stored - v_recomputed,
+        'transactions', v_rows
+      );
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'organization_id', p_org,
+    'checked_at', now(),
+    'clients', v_clients,
+    'banks', v_banks
+  );
+end $$;
+
+-- ----------------------------------------------------------------------------
+-- Castigo: todo el saldo del cliente, préstamo por préstamo.
+-- ----------------------------------------------------------------------------
+create or replace function public.write_off_client(p_client_id uuid, p_date text, p_reason text)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+  v_reason text := nullif(btrim(coalesce(p_reason, '')), '');
+  v_loan record;
+  v_loans jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_tx_id uuid;
+  v_row public.write_offs;
+begin
+  select * into v_client from public.clients c where c.id = p_client_id;
+  if v_client.id is null then raise exception 'Cliente no encontrado'; end if;
+  if not private.is_org_admin(v_client.organization_id) then
+    raise exception 'Solo el propietario o un administrador puede castigar cartera';
+  end if;
+
+  -- Mismo orden de bloqueo que el recálculo: cliente y luego préstamos.
+  select * into v_client from public.clients c where c.id = p_client_id for update;
+
+  if v_client.status = 'BAD_DEBT' then raise exception 'El cliente ya está castigado'; end if;
+  if v_reason is null or length(v_reason) < 5 then
+    raise exception 'Indique el motivo del castigo';
+  end if;
+  if p_date is null or p_date !~ '^\d{4}-\d{2}-\d{2}$' then
+    raise exception 'Fecha no válida';
+  end if;
+
+  for v_loan in
+    select l.id, l.label, l.balance
+      from public.loans l
+     where l.client_id = p_client_id
+       and l.status = 'ACTIVE'
+       and l.balance > 0
+     order by l.created_at
+       for update
+  loop
+    insert into public.transactions (
+      organization_id, "clientId", "loanId", date, type, amount, "interestPaid", "capitalPaid", "balanceAfter", notes
+    ) values (
+      v_client.organization_id, p_client_id::text, v_loan.id, p_date, 'WRITE_OFF', v_loan.balance, 0, 0, 0,
+      'Castigo de cartera: ' || v_reason
+    )
+    returning id into v_tx_id;
+
+    v_loans := v_loans || jsonb_build_object('loan_id', v_loan.id, 'label', v_loan.label,
+                                             'amount', v_loan.balance, 'transaction_id', v_tx_id);
+    v_total := v_total + v_loan.balance;
+  end loop;
+
+  if v_total <= 0 then raise exception 'El cliente no tiene saldo pendiente para castigar'; end if;
+
+  insert into public.write_offs (organization_id, client_id, amount, reason, date, loans)
+  values (v_client.organization_id, p_client_id, v_total, v_reason, p_date, v_loans)
+  returning * into v_row;
+
+  update public.clients c set status = 'BAD_DEBT' where c.id = p_client_id;
+
+  -- Las promesas pendientes ya no se van a cobrar como cuota.
+  update public.payment_promises p
+     set status = 'CANCELLED'
+   where p.client_id = p_client_id and p.status = 'PENDING';
+
+  perform public.recalculate_client_balances(p_client_id::text);
+
+  insert into public.audit_logs (organization_id, level, message, action, entity, details)
+  values (
+    v_client.organization_id, 'WARNING',
+    format('Cartera castigada: %s por %s', v_client.name, v_total),
+    'UPDATE', 'CLIENT',
+    format('Motivo: %s | Fecha: %s | Préstamos: %s', v_reason, p_date, jsonb_array_length(v_loans))
+  );
+
+  return jsonb_build_object(
+    'client', (select to_jsonb(c) from public.clients c where c.id = p_client_id),
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb)
+        from public.transactions t
+       where t."clientId" = p_client_id::text
+    ),
+    'write_off', to_jsonb(v_row)
+  );
+end $$;
+
+revoke all on function public.write_off_client(uuid, text, text) from public, anon;
+grant execute on function public.write_off_client(uuid, text, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Recuperación: pago de un cliente castigado.
+-- ----------------------------------------------------------------------------
+create or replace function public.record_recovery(
+  p_client_id uuid, p_amount numeric, p_date text, p_bank_account_id text, p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer set search_path = ''
+as $$
+declare
+  v_client public.clients;
+  v_amount numeric := round(coalesce(p_amount, 0), 2);
+  v_written_off numeric;
+  v_recovered numeric;
+begin
+  select * into v_client from public.clients c where c.id = p_client_id;
+  if v_client.id is null then raise exception 'Cliente no encontrado'; end if;
+  if not private.has_perm(v_client.organization_id, 'create_transactions') then
+    raise exception 'Acceso denegado al cliente';
+  end if;
+
+  select * into v_client from public.clients c where c.id = p_client_id for update;
+
+  if v_client.status <> 'BAD_DEBT' then
+    raise exception 'Solo se registran recuperaciones de clientes castigados';
+  end if;
+  if v_amount <= 0 then raise exception 'El monto debe ser mayor a cero'; end if;
+  if p_date is null or p_date !~ '^\d{4}-\d{2}-\d{2}$' then
+    raise exception 'Fecha no válida';
+  end if;
+  if not exists (select 1 from public.bank_accounts b
+                  where b.id::text = p_bank_account_id and b.organization_id = v_client.organization_id) then
+    raise exception 'Cuenta no encontrada';
+  end if;
+
+  select coalesce(sum(w.amount), 0) into v_written_off
+    from public.write_offs w where w.client_id = p_client_id;
+  select coalesce(sum(t.amount), 0) into v_recovered
+    from public.transactions t
+   where t."clientId" = p_client_id::text and t.type = 'RECOVERY' and not t.voided;
+  if v_recovered + v_amount > v_written_off then
+    raise exception 'La recuperación supera lo castigado (pendiente por recuperar: %)', v_written_off - v_recovered;
+  end if;
+
+  insert into public.transactions (
+    organization_id, "clientId", date, type, amount, "interestPaid", "capitalPaid", "balanceAfter", notes, "bankAccountId"
+  ) values (
+    v_client.organization_id, p_client_id::text, p_date, 'RECOVERY', v_amount, 0, 0, 0,
+    coalesce(nullif(btrim(p_notes), ''), 'Recuperación de cartera castigada'), p_bank_account_id
+  );
+
+  perform public.recalculate_client_balances(p_client_id::text);
+
+  return jsonb_build_object(
+    'client', to_jsonb(v_client),
+    'transactions', (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.date, t.created_at, t.id), '[]'::jsonb)
+        from public.transactions t
+       where t."clientId" = p_client_id::text
+    ),
+    'bank_balance', (select b.balance from public.bank_accounts b where b.id::text = p_bank_account_id)
+  );
+end $$;
+
+revoke all on function public.record_recovery(uuid, numeric, text, text, text) from public, anon;
+grant execute on function public.record_recovery(uuid, numeric, text, text, text) to authenticated;
+
+-- ----------------------------------------------------------------------------
+-- El castigo no se reversa: el cliente quedaría castigado sin saldo castigado.
+-- ----------------------------------------------------------------------------
+create or replace function private.block_write_off_void()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  if old.type = 'WRITE_OFF' and new.voided and not old.voided then
+    raise exception 'Un castigo no se puede reversar; registre lo que el cliente pague como recuperación';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_block_write_off_void on public.transactions;
+create trigger trg_block_write_off_void
+  before update of voided on public.transactions
+  for each row execute function private.block_write_off_void();
+
+-- ----------------------------------------------------------------------------
+-- Resumen del tablero con lo castigado y lo recuperado
+-- ----------------------------------------------------------------------------
+create or replace function public.client_list_stats(p_org uuid, p_assigned text default null)
+returns jsonb
+language sql stable
+set search_path = ''
+as $$
+  select jsonb_build_object(
+    'total', count(*),
+    'active', count(*) filter (where l.status = 'ACTIVE'),
+    'due_today', count(*) filter (where l.status = 'ACTIVE' and l."nextPaymentDate" = to_char(current_date, 'YYYY-MM-DD')),
+    'late', count(*) filter (where l.status = 'ACTIVE' and l."isLate"),
+    'waiting', count(*) filter (where coalesce(l."pendingRedirectionBalance", 0) > 0),
+    'portfolio', coalesce(sum(l.balance) filter (where l.status = 'ACTIVE'), 0),
+    'interest', coalesce(sum(l."totalInterest") filter (where l.status = 'ACTIVE'), 0),
+    'penalty', coalesce(sum(l."totalPenalty"), 0),
+    'written_off', (
+      select coalesce(sum(w.amount), 0)
+        from public.write_offs w
+        join public.clients c on c.id = w.client_id
+       where w.organization_id = p_org
+         and private.matches_assignee(c."assignedTo", p_assigned)
+    ),
+    'recovered', (
+      select coalesce(sum(t.amount), 0)
+        from public.transactions t
+        join public.clients c on c.id::text = t."clientId"
+       where t.organization_id = p_org
+         and t.type = 'RECOVERY'
+         and not t.voided
+         and private.matches_assignee(c."assignedTo", p_assigned)
+    )
+  )
+    from public.client_list l
+   where l.organization_id = p_org
+     and private.matches_assignee(l."assignedTo", p_assigned);
+$$;
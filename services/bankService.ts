@@ -0,0 +1,102 @@
+import { supabase } from '../lib/supabaseClient';
+import { BalanceProof, BankAccount, Transaction } from '../types';
+
+/**
+ * Movements of a bank account in a date range (history, statement matching).
+ * The global transaction list only carries summary columns (no bank/notes).
+ */
+export const fetchBankTransactions = async (bankAccountId: string, fromDate: string, toDate: string): Promise<Transaction[]> => {
+    const { data, error } = await supabase
+        .from('transactions')
+        .select('id, clientId, date, type, amount, interestPaid, notes, voided, bankAccountId, relatedTransactionId, created_at')
+        .eq('bankAccountId', bankAccountId)
+        .gte('date', fromDate)
+        .lte('date', toDate)
+        .order('date', { ascending: false })
+        .limit(1000);
+    if (error) throw error;
+    return (data || []).map(({ created_at, ...t }: any) => ({
+        ...t,
+        amount: Number(t.amount) || 0,
+        interestPaid: Number(t.interestPaid) || 0,
+        capitalPaid: 0,
+        balanceAfter: 0,
+        createdAt: created_at ? new Date(created_at).getTime() : 0
+    }));
+};
+
+/**
+ * Account of the other leg of each transfer: { [legId]: counterpartBankAccountId }.
+ */
+export const fetchTransferCounterparts = async (legs: Transaction[]): Promise<Record<string, string>> => {
+    const relatedIds = legs
+        .filter(t => (t.type === 'BANK_TRANSFER_OUT' || t.type === 'BANK_TRANSFER_IN') && t.relatedTransactionId)
+        .map(t => t.relatedTransactionId as string);
+    if (relatedIds.length === 0) return {};
+
+    const { data, error } = await supabase.from('transactions').select('id, bankAccountId').in('id', relatedIds);
+    if (error) throw error;
+
+    const byId = new Map((data || []).map((r: any) => [r.id, r.bankAccountId]));
+    return legs.reduce((acc, t) => {
+        const other = t.relatedTransactionId ? byId.get(t.relatedTransactionId) : undefined;
+        return other ? { ...acc, [t.id]: other } : acc;
+    }, {} as Record<string, string>);
+};
+
+/**
+ * Renames an account or changes its number. The server mirrors the name onto
+ * the account's ledger account and requires manage_banks.
+ */
+export const updateBankAccount = async (bankAccountId: string, fields: { name: string; accountNumber: string }): Promise<BankAccount> => {
+    const { data, error } = await supabase
+        .from('bank_accounts')
+        .update({ name: fields.name, accountNumber: fields.accountNumber })
+        .eq('id', bankAccountId)
+        .select()
+        .single();
+    if (error) throw error;
+    return { ...data, id: String(data.id), balance: Number(data.balance) || 0 };
+};
+
+/**
+ * Soft-archives (or restores) an account. Archiving is rejected unless the
+ * balance is zero and no cash session is open.
+ */
+export const setBankAccountArchived = async (bankAccountId: string, archived: boolean): Promise<BankAccount> => {
+    const { data, error } = await supabase
+        .from('bank_accounts')
+        .update({ archivedAt: archived ? new Date().toISOString() : null })
+        .eq('id', bankAccountId)
+        .select()
+        .single();
+    if (error) throw error;
+    return { ...data, id: String(data.id), balance: Number(data.balance) || 0 };
+};
+
+/**
+ * Recomputes the balance from the opening entries plus every live transaction
+ * of the account (`bank_balance_proof` RPC).
+ */
+export const fetchBalanceProof = async (bankAccountId: string): Promise<BalanceProof> => {
+    const { data, error } = await supabase.rpc('bank_balance_proof', { p_bank_id: bankAccountId });
+    if (error) throw error;
+    return {
+        bankAccountId: String(data.bank_account_id),
+        opening: Number(data.opening) || 0,
+        movements: Number(data.movements) || 0,
+        recomputed: Number(data.recomputed) || 0,
+        stored: Number(data.stored) || 0,
+        journal: Number(data.journal) || 0,
+        drift: Number(data.drift) || 0,
+        rows: (data.rows || []).map((r: any) => ({
+            transactionId: r.transaction_id,
+            date: r.date,
+            type: r.type,
+            notes: r.notes,
+            amount: Number(r.amount) || 0,
+            effect: Number(r.effect) || 0,
+            running: Number(r.running) || 0
+        }))
+    };
+};
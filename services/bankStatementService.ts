@@ -0,0 +1,109 @@
+import { supabase } from '../lib/supabaseClient';
+import { BankStatementLine, ParsedStatementLine, StatementMapping, Transaction } from '../types';
+
+/**
+ * Maps a raw `bank_statement_lines` row (snake_case) to BankStatementLine.
+ */
+const fromDbRow = (row: any): BankStatementLine => ({
+    id: row.id,
+    importId: row.import_id,
+    bankAccountId: String(row.bank_account_id),
+    date: row.date,
+    description: row.description || '',
+    reference: row.reference || '',
+    amount: Number(row.amount) || 0,
+    status: row.status,
+    transactionId: row.transaction_id,
+    autoMatched: !!row.auto_matched,
+    matchedAt: row.matched_at
+});
+
+export interface ImportStatementResult {
+    importId: string;
+    inserted: number;
+    duplicates: number;
+    matched: number;
+}
+
+/**
+ * Statement lines of a bank account, most recent first.
+ */
+export const fetchStatementLines = async (bankAccountId: string): Promise<BankStatementLine[]> => {
+    const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .select('*')
+        .eq('bank_account_id', bankAccountId)
+        .order('date', { ascending: false })
+        .limit(500);
+    if (error) throw error;
+    return (data || []).map(fromDbRow);
+};
+
+/**
+ * Stores a parsed statement and auto-matches it on the server. Lines already
+ * imported for the account are skipped (fingerprint), so re-uploading is safe.
+ */
+export const importStatement = async (
+    bankAccountId: string,
+    fileName: string,
+    format: 'CSV' | 'OFX',
+    lines: ParsedStatementLine[]
+): Promise<ImportStatementResult> => {
+    const { data, error } = await supabase.rpc('import_bank_statement', {
+        p_bank_id: bankAccountId,
+        p_file_name: fileName,
+        p_format: format,
+        p_lines: lines
+    });
+    if (error) throw error;
+    return {
+        importId: data.import_id,
+        inserted: Number(data.inserted) || 0,
+        duplicates: Number(data.duplicates) || 0,
+        matched: Number(data.matched) || 0
+    };
+};
+
+/**
+ * Retries auto-matching for every pending line of the account.
+ * @returns How many lines were matched.
+ */
+export const autoMatchStatement = async (bankAccountId: string): Promise<number> => {
+    const { data, error } = await supabase.rpc('auto_match_bank_statement', { p_bank_id: bankAccountId });
+    if (error) throw error;
+    return Number(data) || 0;
+};
+
+export type StatementLineAction = 'MATCH' | 'UNMATCH' | 'IGNORE' | 'CREATE';
+
+/**
+ * Manual reconciliation of one line. CREATE registers the line as a
+ * BANK_DEPOSIT/BANK_WITHDRAWAL and returns the new transaction.
+ */
+export const resolveStatementLine = async (
+    lineId: string,
+    action: StatementLineAction,
+    transactionId?: string
+): Promise<{ line: BankStatementLine; transaction: Transaction | null }> => {
+    const { data, error } = await supabase.rpc('resolve_statement_line', {
+        p_line_id: lineId,
+        p_action: action,
+        p_tx_id: transactionId || null
+    });
+    if (error) throw error;
+
+    let transaction: Transaction | null = null;
+    if (data.transaction) {
+        const { created_at, ...rest } = data.transaction;
+        transaction = { ...rest, amount: Number(rest.amount) || 0, createdAt: created_at ? new Date(created_at).getTime() : Date.now() };
+    }
+    return { line: fromDbRow(data.line), transaction };
+};
+
+/**
+ * Saves the CSV column mapping of a bank account.
+ */
+export const saveStatementMapping = async (bankAccountId: string, mapping: StatementMapping): Promise<void> => {
+    const { error } = await supabase.from('bank_accounts').update({ statementMapping: mapping }).eq('id', bankAccountId);
+    if (error) throw error;
+};
@@ -0,0 +1,66 @@
+import { supabase } from '../lib/supabaseClient';
+import { CashSession } from '../types';
+
+const toNumberOrNull = (v: any) => (v === null || v === undefined ? null : Number(v));
+
+/**
+ * Maps a `cash_session_status` / `cash_sessions` row (snake_case) to CashSession.
+ * The view exposes `current_inflow/outflow`; the RPCs return the bare table row.
+ */
+const fromDbRow = (row: any): CashSession => ({
+    id: row.id,
+    organization_id: row.organization_id,
+    bankAccountId: String(row.bank_account_id),
+    collectorId: row.collector_id,
+    date: row.date,
+    status: row.status,
+    openingBalance: Number(row.opening_balance) || 0,
+    openedAt: row.opened_at,
+    inflow: Number(row.current_inflow ?? row.expected_inflow) || 0,
+    outflow: Number(row.current_outflow ?? row.expected_outflow) || 0,
+    expectedBalance: toNumberOrNull(row.expected_balance),
+    countedAmount: toNumberOrNull(row.counted_amount),
+    difference: toNumberOrNull(row.difference),
+    explanation: row.explanation,
+    closedAt: row.closed_at,
+    signature: row.signature
+});
+
+/**
+ * Cash sessions visible to the current user (RLS: own sessions, or all for
+ * owner/admin) from `sinceDate` on, most recent first.
+ */
+export const fetchCashSessions = async (orgId: string, sinceDate: string): Promise<CashSession[]> => {
+    const { data, error } = await supabase
+        .from('cash_session_status')
+        .select('*')
+        .eq('organization_id', orgId)
+        .gte('date', sinceDate)
+        .order('date', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(fromDbRow);
+};
+
+/**
+ * Opens today's session for a cash account; the server fixes the opening balance.
+ */
+export const openCashSession = async (bankAccountId: string): Promise<CashSession> => {
+    const { data, error } = await supabase.rpc('open_cash_session', { p_bank_id: bankAccountId });
+    if (error) throw error;
+    return fromDbRow(data);
+};
+
+/**
+ * Closes a session with the counted cash. The server recomputes the expected
+ * balance from the journal, requires an explanation for any difference and
+ * seals the summary.
+ */
+export const closeCashSession = async (sessionId: string, counted: number, explanation?: string): Promise<CashSession> => {
+    const { data, error } = await supabase.rpc('close_cash_session', {
+        p_session_id: sessionId,
+        p_counted: counted,
+        p_explanation: explanation || null
+    });
+    if (error) throw error;
+    return fromDbRow(data);
+};
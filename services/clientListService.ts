@@ -0,0 +1,195 @@
+import { supabase } from '../lib/supabaseClient';
+import { Client, ClientListFilter, ClientListItem, ClientListSort, ClientListStats, ClientPortfolioSummary } from '../types';
+import { summarizeArrears } from './loanUtils';
+import { getToday } from '../utils/format';
+
+export const CLIENT_PAGE_SIZE = 50;
+
+export interface ClientListQuery {
+    search: string;
+    filter: ClientListFilter;
+    sort: ClientListSort;
+    assignedTo?: string; // Collector user_id, or 'NONE' for unassigned; empty = everyone
+}
+
+const matchesAssignee = (client: Client, assignedTo?: string) =>
+    !assignedTo || (assignedTo === 'NONE' ? !client.assignedTo : client.assignedTo === assignedTo);
+
+// Columna y sentido de cada orden; el id desempata para que las páginas no se solapen.
+const SORT_COLUMNS: Record<ClientListSort, { column: string; ascending: boolean }> = {
+    RECENT: { column: 'createdAt', ascending: false },
+    NAME: { column: 'name', ascending: true },
+    BALANCE: { column: 'balance', ascending: false },
+    NEXT_PAYMENT: { column: 'nextPaymentDate', ascending: true },
+    LAST_ACTIVITY: { column: 'lastTxDate', ascending: false }
+};
+
+/**
+ * Maps a `client_list` row to ClientListItem (numeric aggregates arrive as strings).
+ */
+const toSummary = (row: any): ClientPortfolioSummary => ({
+    balance: Number(row.balance) || 0,
+    totalDisbursed: Number(row.totalDisbursed) || 0,
+    capitalCollected: Number(row.capitalCollected) || 0,
+    totalInterest: Number(row.totalInterest) || 0,
+    totalPenalty: Number(row.totalPenalty) || 0,
+    lastTxDate: row.lastTxDate || null,
+    lastPaymentDate: row.lastPaymentDate || null,
+    isLate: !!row.isLate,
+    daysOverdue: Number(row.daysOverdue) || 0
+});
+
+const fromDbRow = (row: any): ClientListItem => ({
+    ...row,
+    ...toSummary(row),
+    overdueInstallments: Number(row.overdueInstallments) || 0,
+    overdueAmount: Number(row.overdueAmount) || 0
+});
+
+const SUMMARY_COLUMNS = 'id, balance, totalDisbursed, capitalCollected, totalInterest, totalPenalty, lastTxDate, lastPaymentDate, isLate, daysOverdue';
+
+/**
+ * One page of the client list, filtered and sorted on the server.
+ * @returns The rows and the total count matching the query.
+ */
+export const fetchClientPage = async (
+    orgId: string,
+    query: ClientListQuery,
+    offset: number,
+    limit: number = CLIENT_PAGE_SIZE
+): Promise<{ rows: ClientListItem[]; total: number }> => {
+    const sort = SORT_COLUMNS[query.sort];
+    const { data, error, count } = await supabase
+        .rpc('search_clients', {
+            p_org: orgId,
+            p_search: query.search.trim() || null,
+            p_filter: query.filter,
+            p_assigned: query.assignedTo || null
+        }, { count: 'exact' })
+        .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1);
+    if (error) throw error;
+    return { rows: (data || []).map(fromDbRow), total: count ?? 0 };
+};
+
+/**
+ * Every client matching the query, fetched page by page (e.g. the whole
+ * late list for a mass notification).
+ */
+export const fetchAllClients = async (orgId: string, query: ClientListQuery): Promise<ClientListItem[]> => {
+    const all: ClientListItem[] = [];
+    for (let offset = 0; ; offset += 1000) {
+        const { rows } = await fetchClientPage(orgId, query, offset, 1000);
+        all.push(...rows);
+        if (rows.length < 1000) return all;
+    }
+};
+
+/**
+ * Dashboard totals of the client list (counts per filter and portfolio sums),
+ * optionally limited to one collector's clients.
+ */
+export const fetchClientListStats = async (orgId: string, assignedTo?: string): Promise<ClientListStats> => {
+    const { data, error } = await supabase.rpc('client_list_stats', { p_org: orgId, p_assigned: assignedTo || null });
+    if (error) throw error;
+    return {
+        total: Number(data?.total) || 0,
+        active: Number(data?.active) || 0,
+        dueToday: Number(data?.due_today) || 0,
+        late: Number(data?.late) || 0,
+        waiting: Number(data?.waiting) || 0,
+        portfolio: Number(data?.portfolio) || 0,
+        interest: Number(data?.interest) || 0,
+        penalty: Number(data?.penalty) || 0,
+        writtenOff: Number(data?.written_off) || 0,
+        recovered: Number(data?.recovered) || 0
+    };
+};
+
+/**
+ * Portfolio summary of every client of the organization (or only `clientIds`),
+ * keyed by client id. Reads the trigger-maintained summary, not transactions.
+ */
+export const fetchClientSummaries = async (orgId: string, clientIds?: string[]): Promise<Record<string, ClientPortfolioSummary>> => {
+    const summaries: Record<string, ClientPortfolioSummary> = {};
+    for (let offset = 0; ; offset += 1000) {
+        let request = supabase.from('client_list').select(SUMMARY_COLUMNS).eq('organization_id', orgId);
+        if (clientIds) request = request.in('id', clientIds);
+        const { data, error } = await request.order('id', { ascending: true }).range(offset, offset + 999);
+        if (error) throw error;
+        (data || []).forEach((row: any) => { summaries[row.id] = toSummary(row); });
+        if (!data || data.length < 1000) return summaries;
+    }
+};
+
+const EMPTY_SUMMARY: ClientPortfolioSummary = {
+    balance: 0, totalDisbursed: 0, capitalCollected: 0, totalInterest: 0, totalPenalty: 0,
+    lastTxDate: null, lastPaymentDate: null, isLate: false, daysOverdue: 0
+};
+
+/**
+ * The client list rebuilt from the local copy when there is no connection:
+ * same search, filters and order as `search_clients`, all rows at once.
+ */
+export const buildLocalClientList = (
+    clients: Client[],
+    summaries: Record<string, ClientPortfolioSummary>,
+    query: ClientListQuery
+): ClientListItem[] => {
+    const today = getToday();
+    const term = query.search.trim().toLowerCase();
+    const sort = SORT_COLUMNS[query.sort];
+
+    const rows: ClientListItem[] = clients.map(c => {
+        const arrears = summarizeArrears(c.paymentSchedule, today);
+        return {
+            ...c,
+            ...(summaries[c.id] || EMPTY_SUMMARY),
+            overdueInstallments: arrears.overdueCount,
+            overdueAmount: arrears.overdueAmount
+        };
+    });
+
+    const matches = (c: ClientListItem) => !term || [c.name, c.guarantorName, c.cardCode, c.cedula, c.phone]
+        .some(v => v && String(v).toLowerCase().includes(term));
+    const inFilter = (c: ClientListItem) => {
+        switch (query.filter) {
+            case 'TODAY': return c.status === 'ACTIVE' && c.nextPaymentDate === today && c.balance > 0;
+            case 'LATE': return c.status === 'ACTIVE' && c.isLate;
+            case 'WAITING': return (c.pendingRedirectionBalance || 0) > 0;
+            default: return true;
+        }
+    };
+
+    return rows.filter(c => matchesAssignee(c, query.assignedTo) && matches(c) && inFilter(c)).sort((a, b) => {
+        const x = (a as any)[sort.column];
+        const y = (b as any)[sort.column];
+        if (x == null && y == null) return a.id.localeCompare(b.id);
+        if (x == null) return 1;
+        if (y == null) return -1;
+        const diff = typeof x === 'number' ? x - y : String(x).localeCompare(String(y));
+        return (sort.ascending ? diff : -diff) || a.id.localeCompare(b.id);
+    });
+};
+
+/**
+ * Dashboard totals over a locally built list (see buildLocalClientList).
+ */
+export const buildLocalListStats = (rows: ClientListItem[]): ClientListStats => {
+    const today = getToday();
+    const active = rows.filter(c => c.status === 'ACTIVE');
+    return {
+        total: rows.length,
+        active: active.length,
+        dueToday: active.filter(c => c.nextPaymentDate === today && c.balance > 0).length,
+        late: active.filter(c => c.isLate).length,
+        waiting: rows.filter(c => (c.pendingRedirectionBalance || 0) > 0).length,
+        portfolio: active.reduce((sum, c) => sum + c.balance, 0),
+        interest: active.reduce((sum, c) => sum + c.totalInterest, 0),
+        penalty: rows.reduce((sum, c) => sum + c.totalPenalty, 0),
+        // Los castigos no viajan en la copia local.
+        writtenOff: 0,
+        recovered: 0
+    };
+};
@@ -0,0 +1,38 @@
+import { supabase } from '../lib/supabaseClient';
+import { CollectorPerformance } from '../types';
+
+/**
+ * Assigns clients to a collector, or leaves them unassigned with `null`
+ * (owner/admin only). Returns how many clients changed hands.
+ */
+export const assignClients = async (orgId: string, clientIds: string[], collectorId: string | null): Promise<number> => {
+    const { data, error } = await supabase.rpc('assign_clients', {
+        p_org: orgId,
+        p_client_ids: clientIds,
+        p_collector: collectorId
+    });
+    if (error) throw error;
+    return Number(data) || 0;
+};
+
+/**
+ * Per-collector portfolio, arrears and collections between two dates
+ * (inclusive, YYYY-MM-DD). Owner/admin only.
+ */
+export const fetchCollectorPerformance = async (orgId: string, from: string, to: string): Promise<CollectorPerformance[]> => {
+    const { data, error } = await supabase.rpc('collector_performance', { p_org: orgId, p_from: from, p_to: to });
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        collectorId: row.collector_id,
+        clients: Number(row.clients) || 0,
+        activeClients: Number(row.active_clients) || 0,
+        portfolio: Number(row.portfolio) || 0,
+        lateClients: Number(row.late_clients) || 0,
+        overdueAmount: Number(row.overdue_amount) || 0,
+        collected: Number(row.collected) || 0,
+        routes: Number(row.routes) || 0,
+        routeExpected: Number(row.route_expected) || 0,
+        routeCollected: Number(row.route_collected) || 0,
+        unvisited: Number(row.unvisited) || 0
+    }));
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeCreditScore, describeCreditScore } from './creditScoreService';
+import { CreditFactors } from '../types';
+
+// El cliente de Supabase exige URL y llave; el cálculo no lo usa.
+vi.mock('../lib/supabaseClient', () => ({ supabase: {} }));
+
+const factors = (extra: Partial<CreditFactors> = {}): CreditFactors => ({
+    clientId: 'client-1',
+    dueInstallments: 0,
+    onTimeInstallments: 0,
+    avgDaysLate: null,
+    keptPromises: 0,
+    brokenPromises: 0,
+    loans: 0,
+    refinances12m: 0,
+    maxExposure: 0,
+    tenureDays: null,
+    referrals: 0,
+    badDebtReferrals: 0,
+    ...extra,
+});
+
+describe('computeCreditScore', () => {
+    it('califica un buen historial y sugiere un cupo redondeado', () => {
+        const credit = computeCreditScore(factors({
+            dueInstallments: 10, onTimeInstallments: 10, avgDaysLate: 0,
+            keptPromises: 3, brokenPromises: 1,
+            loans: 2, tenureDays: 730, maxExposure: 1234000,
+        }));
+
+        expect(credit.score).toBe(96);
+        expect(credit.band).toBe('A');
+        expect(credit.suggestedLimit).toBe(1900000);
+    });
+
+    it('reparte el peso de los factores sin datos entre los demás', () => {
+        const credit = computeCreditScore(factors({ dueInstallments: 10, onTimeInstallments: 5, avgDaysLate: 15 }));
+
+        expect(credit.score).toBe(50);
+        expect(credit.band).toBe('C');
+        expect(credit.suggestedLimit).toBeNull();
+        expect(credit.factors.filter(f => f.score === null).map(f => f.key)).toEqual(['PROMISES', 'REFINANCES', 'TENURE', 'REFERRALS']);
+    });
+
+    it('no califica con un historial demasiado corto', () => {
+        const credit = computeCreditScore(factors({ loans: 1, tenureDays: 10, maxExposure: 500000 }));
+
+        expect(credit).toEqual(expect.objectContaining({ score: null, band: null, suggestedLimit: null }));
+        expect(credit.factors).toHaveLength(6);
+    });
+
+    it('no baja de cero con atrasos, refinanciaciones y referidos castigados', () => {
+        const credit = computeCreditScore(factors({
+            dueInstallments: 4, onTimeInstallments: 0, avgDaysLate: 45,
+            loans: 3, refinances12m: 6, tenureDays: 0,
+            referrals: 3, badDebtReferrals: 3, maxExposure: 500000,
+        }));
+
+        expect(credit.score).toBe(0);
+        expect(credit.band).toBe('D');
+        expect(credit.suggestedLimit).toBe(250000);
+    });
+});
+
+describe('describeCreditScore', () => {
+    it('muestra los puntos de cada factor y marca los que no cuentan', () => {
+        const lines = describeCreditScore(computeCreditScore(factors({ dueInstallments: 10, onTimeInstallments: 5, avgDaysLate: 15 }))).split('\n');
+
+        expect(lines[0]).toBe('Cuotas a tiempo: 5 de 10 cuotas vencidas · 15/30');
+        expect(lines[2]).toBe('Promesas de pago: Sin promesas cerradas (no cuenta)');
+    });
+});
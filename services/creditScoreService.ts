@@ -0,0 +1,122 @@
+import { supabase } from '../lib/supabaseClient';
+import { CreditFactors, CreditScore, CreditScoreBand, CreditScoreFactor } from '../types';
+
+// Below this many points of applicable factors the history is too thin to score.
+const MIN_SCORED_WEIGHT = 50;
+
+const BAND_LIMIT_MULTIPLIER: Record<CreditScoreBand, number> = { A: 1.5, B: 1.2, C: 1, D: 0.5 };
+
+export const CREDIT_BAND_LABELS: Record<CreditScoreBand, string> = {
+    A: 'Excelente',
+    B: 'Bueno',
+    C: 'Regular',
+    D: 'Riesgoso',
+};
+
+const factorsFromDbRow = (row: any): CreditFactors => ({
+    clientId: String(row.client_id),
+    dueInstallments: Number(row.due_installments) || 0,
+    onTimeInstallments: Number(row.on_time_installments) || 0,
+    avgDaysLate: row.avg_days_late === null || row.avg_days_late === undefined ? null : Number(row.avg_days_late),
+    keptPromises: Number(row.kept_promises) || 0,
+    brokenPromises: Number(row.broken_promises) || 0,
+    loans: Number(row.loans) || 0,
+    refinances12m: Number(row.refinances_12m) || 0,
+    maxExposure: Number(row.max_exposure) || 0,
+    tenureDays: row.tenure_days === null || row.tenure_days === undefined ? null : Number(row.tenure_days),
+    referrals: Number(row.referrals) || 0,
+    badDebtReferrals: Number(row.bad_debt_referrals) || 0
+});
+
+const bandFor = (score: number): CreditScoreBand =>
+    score >= 80 ? 'A' : score >= 65 ? 'B' : score >= 50 ? 'C' : 'D';
+
+// Two significant digits: a suggestion, not an exact figure.
+const roundSuggestion = (value: number) => {
+    if (value <= 0) return 0;
+    const step = Math.pow(10, Math.max(0, Math.floor(Math.log10(value)) - 1));
+    return Math.round(value / step) * step;
+};
+
+/**
+ * Scores a client 0-100 from its payment history. Each factor contributes
+ * its weight times a 0-1 sub-score; factors without data are left out and
+ * the rest are scaled up, so a client is not punished for what has not
+ * happened yet.
+ */
+export const computeCreditScore = (f: CreditFactors): CreditScore => {
+    const plural = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+    const resolvedPromises = f.keptPromises + f.brokenPromises;
+
+    const factors: CreditScoreFactor[] = [
+        {
+            key: 'ON_TIME', label: 'Cuotas a tiempo', weight: 30,
+            detail: f.dueInstallments > 0 ? `${f.onTimeInstallments} de ${plural(f.dueInstallments, 'cuota vencida', 'cuotas vencidas')}` : 'Sin cuotas vencidas aún',
+            score: f.dueInstallments > 0 ? f.onTimeInstallments / f.dueInstallments : null
+        },
+        {
+            key: 'DAYS_LATE', label: 'Atraso promedio', weight: 20,
+            detail: f.avgDaysLate !== null ? plural(f.avgDaysLate, 'día', 'días') : 'Sin cuotas vencidas aún',
+            score: f.avgDaysLate !== null ? Math.max(0, 1 - f.avgDaysLate / 30) : null
+        },
+        {
+            key: 'PROMISES', label: 'Promesas de pago', weight: 15,
+            detail: resolvedPromises > 0 ? `${f.keptPromises} cumplidas, ${f.brokenPromises} incumplidas` : 'Sin promesas cerradas',
+            score: resolvedPromises > 0 ? f.keptPromises / resolvedPromises : null
+        },
+        {
+            key: 'REFINANCES', label: 'Refinanciaciones (12 meses)', weight: 10,
+            detail: f.loans > 0 ? plural(f.refinances12m, 'refinanciación', 'refinanciaciones') : 'Sin préstamos',
+            score: f.loans > 0 ? Math.max(0, 1 - f.refinances12m / 4) : null
+        },
+        {
+            key: 'TENURE', label: 'Antigüedad', weight: 15,
+            detail: f.tenureDays !== null ? (f.tenureDays >= 60 ? plural(Math.floor(f.tenureDays / 30), 'mes', 'meses') : plural(f.tenureDays, 'día', 'días')) : 'Sin fecha de inicio',
+            score: f.tenureDays !== null ? Math.min(1, Math.max(0, f.tenureDays) / 365) : null
+        },
+        {
+            key: 'REFERRALS', label: 'Referidos en cartera castigada', weight: 10,
+            detail: f.referrals > 0 ? `${f.badDebtReferrals} de ${plural(f.referrals, 'referido', 'referidos')}` : 'No ha referido clientes',
+            score: f.referrals > 0 ? Math.max(0, 1 - f.badDebtReferrals * 0.5) : null
+        },
+    ];
+
+    const scored = factors.filter(x => x.score !== null);
+    const weight = scored.reduce((sum, x) => sum + x.weight, 0);
+    if (weight < MIN_SCORED_WEIGHT) return { score: null, band: null, factors, suggestedLimit: null };
+
+    const score = Math.round((scored.reduce((sum, x) => sum + x.weight * (x.score as number), 0) / weight) * 100);
+    const band = bandFor(score);
+    return {
+        score,
+        band,
+        factors,
+        suggestedLimit: f.maxExposure > 0 ? roundSuggestion(f.maxExposure * BAND_LIMIT_MULTIPLIER[band]) : null
+    };
+};
+
+/**
+ * One line per factor, for tooltips.
+ */
+export const describeCreditScore = (credit: CreditScore): string =>
+    credit.factors
+        .map(x => `${x.label}: ${x.detail}${x.score === null ? ' (no cuenta)' : ` · ${Math.round(x.score * x.weight)}/${x.weight}`}`)
+        .join('\n');
+
+/**
+ * Credit factors of the given clients (those the user can see).
+ */
+export const fetchCreditFactors = async (clientIds: string[]): Promise<CreditFactors[]> => {
+    if (clientIds.length === 0) return [];
+    const { data, error } = await supabase
+        .from('client_credit_factors')
+        .select('*')
+        .in('client_id', clientIds);
+    if (error) throw error;
+    return (data || []).map(factorsFromDbRow);
+};
+
+export const fetchClientCreditScore = async (clientId: string): Promise<CreditScore | null> => {
+    const [factors] = await fetchCreditFactors([clientId]);
+    return factors ? computeCreditScore(factors) : null;
+};
@@ -0,0 +1,61 @@
+import { supabase } from '../lib/supabaseClient';
+import { DriftReport } from '../types';
+
+/**
+ * Maps the jsonb returned by `balance_drift_report` / `repair_balance_drift`.
+ */
+const fromReport = (data: any): DriftReport => ({
+    checkedAt: data.checked_at,
+    clients: (data.clients || []).map((c: any) => ({
+        clientId: String(c.client_id),
+        clientName: c.client_name || 'Cliente eliminado',
+        stored: Number(c.stored) || 0,
+        expected: Number(c.expected) || 0,
+        mismatches: Number(c.mismatches) || 0,
+        transactions: (c.transactions || []).map((t: any) => ({
+            transactionId: String(t.transaction_id),
+            date: t.date,
+            type: t.type,
+            amount: Number(t.amount) || 0,
+            stored: Number(t.stored) || 0,
+            expected: Number(t.expected) || 0
+        }))
+    })),
+    banks: (data.banks || []).map((b: any) => ({
+        bankAccountId: String(b.bank_account_id),
+        name: b.name,
+        stored: Number(b.stored) || 0,
+        journal: Number(b.journal) || 0,
+        recomputed: Number(b.recomputed) || 0,
+        drift: Number(b.drift) || 0,
+        transactions: (b.transactions || []).map((t: any) => ({
+            transactionId: String(t.transaction_id),
+            date: t.date,
+            type: t.type,
+            amount: t.amount == null ? null : Number(t.amount),
+            gap: Number(t.gap) || 0
+        }))
+    }))
+});
+
+/**
+ * Recomputes every client running balance and every bank balance from the raw
+ * transactions and lists what differs. Owner only; read-only.
+ */
+export const fetchDriftReport = async (orgId: string): Promise<DriftReport> => {
+    const { data, error } = await supabase.rpc('balance_drift_report', { p_org: orgId });
+    if (error) throw error;
+    return fromReport(data);
+};
+
+/**
+ * Repairs the drift found by the report: recalculates the affected clients,
+ * posts today-dated adjustment entries for mismatched journal entries and
+ * resyncs cached bank balances. The server writes the audit log entry.
+ * @returns The report after the repair (empty when everything matched).
+ */
+export const repairDrift = async (orgId: string): Promise<DriftReport> => {
+    const { data, error } = await supabase.rpc('repair_balance_drift', { p_org: orgId });
+    if (error) throw error;
+    return fromReport(data);
+};
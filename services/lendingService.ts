@@ -0,0 +1,48 @@
+import { supabase } from '../lib/supabaseClient';
+import { LendingViolation } from '../types';
+import { formatCurrency } from '../utils/format';
+
+const violationFromDbRow = (row: any): LendingViolation => ({
+    rule: row.rule,
+    group: row.group || undefined,
+    limit: Number(row.limit) || 0,
+    resulting: Number(row.resulting) || 0
+});
+
+export const describeLendingViolation = (v: LendingViolation): string => {
+    const label = v.rule === 'CLIENT_LIMIT'
+        ? 'Cupo del cliente'
+        : v.rule === 'ORG_MAX'
+            ? 'Máximo por cliente'
+            : v.group === 'GUARANTOR' ? 'Límite del grupo de fiador' : 'Límite del grupo de referidos';
+    return `${label}: ${formatCurrency(v.limit)} (quedaría en ${formatCurrency(v.resulting)})`;
+};
+
+/**
+ * Limits the client would break by receiving `amount` more. When editing a
+ * loan, `replacedAmount` is its current amount so it is not counted twice.
+ * Same rules the server enforces on save.
+ */
+export const checkLendingLimits = async (clientId: string, amount: number, replacedAmount = 0): Promise<LendingViolation[]> => {
+    const { data, error } = await supabase.rpc('check_lending_limits', {
+        p_client_id: clientId,
+        p_amount: amount,
+        p_replaced_amount: replacedAmount
+    });
+    if (error) throw error;
+    return (Array.isArray(data) ? data : []).map(violationFromDbRow);
+};
+
+/**
+ * Owner-only: allows the next loan of this client up to `amount` despite the
+ * limits, for 15 minutes. The server logs the reason in audit_logs.
+ */
+export const authorizeLendingOverride = async (clientId: string, amount: number, reason: string, replacedAmount = 0): Promise<void> => {
+    const { error } = await supabase.rpc('authorize_lending_override', {
+        p_client_id: clientId,
+        p_amount: amount,
+        p_reason: reason,
+        p_replaced_amount: replacedAmount
+    });
+    if (error) throw error;
+};
@@ -0,0 +1,179 @@
+import { supabase } from '../lib/supabaseClient';
+import { Loan, LoanTermsVersion, ScheduledInstallment, WriteOff } from '../types';
+
+export type LoanTermsUpdate = Partial<Pick<Loan,
+    'label' | 'interestRate' | 'paymentFrequency' | 'interestType' | 'loanTermMonths' |
+    'installmentsCount' | 'installmentAmount' | 'paymentSchedule' | 'nextPaymentDate'>>;
+
+// The only columns the app may write; balance, principal and status are server-side.
+const TERM_COLUMNS: Record<keyof LoanTermsUpdate, string> = {
+    label: 'label',
+    interestRate: 'interest_rate',
+    paymentFrequency: 'payment_frequency',
+    interestType: 'interest_type',
+    loanTermMonths: 'loan_term_months',
+    installmentsCount: 'installments_count',
+    installmentAmount: 'installment_amount',
+    paymentSchedule: 'payment_schedule',
+    nextPaymentDate: 'next_payment_date'
+};
+
+const optionalNumber = (value: any) => value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * Maps a `loans` row (snake_case) to Loan. `index` is its opening order
+ * within the client, used to name loans without a stored label.
+ */
+const loanFromDbRow = (row: any, index: number): Loan => ({
+    id: row.id,
+    organization_id: row.organization_id,
+    clientId: String(row.client_id),
+    label: row.label || `Préstamo ${index + 1}`,
+    status: row.status,
+    startDate: row.start_date || undefined,
+    principal: Number(row.principal) || 0,
+    balance: Number(row.balance) || 0,
+    interestRate: optionalNumber(row.interest_rate),
+    paymentFrequency: row.payment_frequency || undefined,
+    interestType: row.interest_type || undefined,
+    loanTermMonths: optionalNumber(row.loan_term_months),
+    installmentsCount: optionalNumber(row.installments_count),
+    installmentAmount: optionalNumber(row.installment_amount),
+    paymentSchedule: Array.isArray(row.payment_schedule) ? row.payment_schedule : [],
+    nextPaymentDate: row.next_payment_date || undefined,
+    restructureCount: Number(row.restructure_count) || 0,
+    restructuredAt: row.restructured_at,
+    createdAt: row.created_at,
+    closedAt: row.closed_at
+});
+
+const termsFromJson = (terms: any) => ({
+    interestRate: optionalNumber(terms?.interestRate),
+    interestType: terms?.interestType || undefined,
+    paymentFrequency: terms?.paymentFrequency || undefined,
+    loanTermMonths: optionalNumber(terms?.loanTermMonths),
+    installmentsCount: optionalNumber(terms?.installmentsCount),
+    installmentAmount: optionalNumber(terms?.installmentAmount)
+});
+
+/**
+ * Maps a `loan_terms_history` row (snake_case) to LoanTermsVersion.
+ */
+export const termsVersionFromDbRow = (row: any): LoanTermsVersion => ({
+    id: row.id,
+    loanId: row.loan_id,
+    version: Number(row.version) || 0,
+    transactionId: row.transaction_id,
+    effectiveDate: row.effective_date,
+    reason: row.reason,
+    balance: Number(row.balance) || 0,
+    accruedInterest: Number(row.accrued_interest) || 0,
+    interestWrittenOff: Number(row.interest_written_off) || 0,
+    capitalizedInterest: Number(row.capitalized_interest) || 0,
+    previousTerms: {
+        ...termsFromJson(row.previous_terms),
+        nextPaymentDate: row.previous_terms?.nextPaymentDate || undefined,
+        paymentSchedule: Array.isArray(row.previous_terms?.paymentSchedule) ? row.previous_terms.paymentSchedule : undefined
+    },
+    newTerms: termsFromJson(row.new_terms),
+    createdBy: row.created_by,
+    createdAt: row.created_at
+});
+
+/**
+ * Maps a `write_offs` row (snake_case) to WriteOff.
+ */
+export const writeOffFromDbRow = (row: any): WriteOff => ({
+    id: row.id,
+    clientId: row.client_id,
+    amount: Number(row.amount) || 0,
+    reason: row.reason,
+    date: row.date,
+    loans: (Array.isArray(row.loans) ? row.loans : []).map((l: any) => ({
+        loanId: l.loan_id,
+        label: l.label || undefined,
+        amount: Number(l.amount) || 0,
+        transactionId: l.transaction_id
+    })),
+    approvedBy: row.approved_by,
+    createdAt: row.created_at
+});
+
+/**
+ * Loans of a client in opening order, active, paid and written off.
+ */
+export const fetchClientLoans = async (clientId: string): Promise<Loan[]> => {
+    const { data, error } = await supabase
+        .from('loans')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(loanFromDbRow);
+};
+
+/**
+ * Terms versions of a loan (one per restructure), newest first.
+ */
+export const fetchLoanTermsHistory = async (loanId: string): Promise<LoanTermsVersion[]> => {
+    const { data, error } = await supabase
+        .from('loan_terms_history')
+        .select('*')
+        .eq('loan_id', loanId)
+        .order('version', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(termsVersionFromDbRow);
+};
+
+/**
+ * Write-offs of a client, newest first.
+ */
+export const fetchClientWriteOffs = async (clientId: string): Promise<WriteOff[]> => {
+    const { data, error } = await supabase
+        .from('write_offs')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(writeOffFromDbRow);
+};
+
+/**
+ * Updates the terms and/or schedule of a loan. The client's merged schedule
+ * is rebuilt by a trigger.
+ */
+export const updateLoan = async (loanId: string, fields: LoanTermsUpdate): Promise<void> => {
+    const row: Record<string, any> = {};
+    (Object.keys(fields) as (keyof LoanTermsUpdate)[]).forEach(key => {
+        if (fields[key] !== undefined) row[TERM_COLUMNS[key]] = fields[key];
+    });
+    if (Object.keys(row).length === 0) return;
+    const { error } = await supabase.from('loans').update(row).eq('id', loanId);
+    if (error) throw error;
+};
+
+/**
+ * One loan's installments out of the client's merged schedule, without the
+ * loanId tag (as stored in the loan).
+ */
+export const loanScheduleOf = (schedule: ScheduledInstallment[] | undefined, loanId: string): ScheduledInstallment[] =>
+    (schedule || []).filter(i => i.loanId === loanId).map(({ loanId: _loanId, ...inst }) => inst);
+
+/**
+ * Replaces one loan's installments in the client's merged schedule, keeping
+ * the due-date order. Used to reflect a change locally before the server
+ * rebuilds it.
+ */
+export const mergeLoanSchedule = (schedule: ScheduledInstallment[] | undefined, loanId: string, loanSchedule: ScheduledInstallment[]): ScheduledInstallment[] =>
+    [
+        ...(schedule || []).filter(i => i.loanId !== loanId),
+        ...loanSchedule.map(i => ({ ...i, loanId }))
+    ].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+/**
+ * Loan a payment goes to by default: the one with the oldest unpaid
+ * installment. Undefined when the client's schedule is not split by loan.
+ */
+export const defaultLoanIdFor = (schedule: ScheduledInstallment[] | undefined): string | undefined =>
+    (schedule || []).find(i => i.loanId && (i.paidAmount || 0) < i.payment)?.loanId
+    || (schedule || []).find(i => i.loanId)?.loanId;
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import {
+    allocatePaymentsToSchedule,
+    calculateLateFees,
+    calculateNextPaymentDate,
+    generateAmortizationSchedule,
+    getOutstandingLateFees,
+    summarizeArrears,
+} from './loanUtils';
+import { PenaltyPolicy, ScheduledInstallment, Transaction, TransactionType } from '../types';
+
+const params = {
+    initialAmount: '1200000',
+    interestRate: '5',
+    loanTermMonths: '6',
+    paymentFrequency: 'MONTHLY' as const,
+    interestType: 'FIXED' as const,
+};
+
+const installment = (number: number, dueDate: string, payment = 100000): ScheduledInstallment => ({
+    number, dueDate, principal: payment, interest: 0, payment, balance: 0,
+});
+
+const plan = [
+    installment(1, '2026-02-01'),
+    installment(2, '2026-03-01'),
+    installment(3, '2026-04-01'),
+];
+
+let seq = 0;
+const tx = (type: TransactionType, amount: number, date: string, extra: Partial<Transaction> = {}): Transaction => ({
+    id: `tx-${++seq}`,
+    clientId: 'client-1',
+    date,
+    type,
+    amount,
+    interestPaid: 0,
+    capitalPaid: 0,
+    balanceAfter: 0,
+    notes: '',
+    createdAt: seq,
+    ...extra,
+});
+
+describe('generateAmortizationSchedule', () => {
+    it('mantiene el día 31 en los vencimientos mensuales, ajustado al fin de mes', () => {
+        const schedule = generateAmortizationSchedule(params, '2026-01-31');
+
+        expect(schedule.map(i => i.dueDate)).toEqual([
+            '2026-02-28',
+            '2026-03-31',
+            '2026-04-30',
+            '2026-05-31',
+            '2026-06-30',
+            '2026-07-31',
+        ]);
+    });
+
+    it('usa el 29 de febrero en años bisiestos', () => {
+        const schedule = generateAmortizationSchedule({ ...params, loanTermMonths: '2' }, '2028-01-30');
+
+        expect(schedule.map(i => i.dueDate)).toEqual(['2028-02-29', '2028-03-30']);
+    });
+
+    it('cuenta las frecuencias en días desde la fecha de inicio', () => {
+        const schedule = generateAmortizationSchedule({ ...params, loanTermMonths: '1', paymentFrequency: 'BIWEEKLY' }, '2026-01-31');
+
+        expect(schedule.map(i => i.dueDate)).toEqual(['2026-02-15', '2026-03-02']);
+    });
+});
+
+describe('calculateNextPaymentDate', () => {
+    it('no desborda al mes siguiente desde un fin de mes', () => {
+        expect(calculateNextPaymentDate('2026-01-31', 'MONTHLY')).toBe('2026-02-28');
+        expect(calculateNextPaymentDate('2026-12-31', 'WEEKLY')).toBe('2027-01-07');
+    });
+});
+
+describe('allocatePaymentsToSchedule', () => {
+    it('llena primero la cuota más antigua y pasa el excedente a la siguiente', () => {
+        const allocated = allocatePaymentsToSchedule(plan, [
+            tx(TransactionType.DISBURSEMENT, 300000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_CAPITAL, 150000, '2026-02-01'),
+        ]);
+
+        expect(allocated.map(i => i.paidAmount)).toEqual([100000, 50000, 0]);
+    });
+
+    it('suma el interés pagado y solo cuenta pagos posteriores al último desembolso', () => {
+        const allocated = allocatePaymentsToSchedule(plan, [
+            tx(TransactionType.DISBURSEMENT, 300000, '2025-06-01'),
+            tx(TransactionType.PAYMENT_CAPITAL, 300000, '2025-07-01'),
+            tx(TransactionType.REFINANCE, 300000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_INTEREST, 0, '2026-02-01', { interestPaid: 30000 }),
+            tx(TransactionType.PAYMENT_CAPITAL, 80000, '2026-02-02', { interestPaid: 20000 }),
+        ]);
+
+        expect(allocated.map(i => i.paidAmount)).toEqual([100000, 30000, 0]);
+    });
+
+    it('ignora movimientos que no abonan al plan', () => {
+        const allocated = allocatePaymentsToSchedule(plan, [
+            tx(TransactionType.DISBURSEMENT, 300000, '2026-01-01'),
+            tx(TransactionType.REDIRECT_IN, 50000, '2026-01-10'),
+        ]);
+
+        expect(allocated.every(i => i.paidAmount === 0)).toBe(true);
+    });
+});
+
+describe('summarizeArrears', () => {
+    it('cuenta las cuotas vencidas, lo que falta en ellas y la próxima a cobrar', () => {
+        const allocated = allocatePaymentsToSchedule(plan, [
+            tx(TransactionType.DISBURSEMENT, 300000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_CAPITAL, 130000, '2026-02-01'),
+        ]);
+
+        const summary = summarizeArrears(allocated, '2026-03-15');
+
+        expect(summary.paidCount).toBe(1);
+        expect(summary.overdueCount).toBe(1);
+        expect(summary.overdueAmount).toBe(70000);
+        expect(summary.nextDue?.number).toBe(2);
+    });
+
+    it('no marca en mora una cuota que vence hoy', () => {
+        const summary = summarizeArrears(plan, '2026-02-01');
+
+        expect(summary.overdueCount).toBe(0);
+        expect(summary.nextDue?.number).toBe(1);
+    });
+
+    it('devuelve un resumen vacío sin plan', () => {
+        expect(summarizeArrears(undefined, '2026-02-01')).toEqual({ overdueCount: 0, overdueAmount: 0, paidCount: 0, nextDue: null });
+    });
+});
+
+describe('calculateLateFees', () => {
+    const daily: PenaltyPolicy = { enabled: true, rateType: 'DAILY', rate: 1, graceDays: 0 };
+    const single = [installment(1, '2026-02-01')];
+
+    it('cobra la tasa diaria sobre lo vencido por cada día de atraso', () => {
+        expect(calculateLateFees(single, daily, '2026-02-11')).toBe(10000);
+    });
+
+    it('descuenta los días de gracia y convierte la tasa mensual a diaria', () => {
+        expect(calculateLateFees(single, { ...daily, graceDays: 3 }, '2026-02-11')).toBe(7000);
+        expect(calculateLateFees(single, { ...daily, rateType: 'MONTHLY', rate: 3 }, '2026-02-11')).toBe(1000);
+    });
+
+    it('limita la mora de cada cuota al tope', () => {
+        expect(calculateLateFees(single, { ...daily, capPercent: 5 }, '2026-02-11')).toBe(5000);
+    });
+
+    it('solo cobra sobre el faltante de una cuota a medio pagar', () => {
+        const partial = allocatePaymentsToSchedule(single, [
+            tx(TransactionType.DISBURSEMENT, 100000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_CAPITAL, 40000, '2026-01-20'),
+        ]);
+
+        expect(calculateLateFees(partial, daily, '2026-02-11')).toBe(6000);
+    });
+
+    it('congela la mora de una cuota pagada con atraso en la fecha de pago', () => {
+        const paidLate = allocatePaymentsToSchedule(single, [
+            tx(TransactionType.DISBURSEMENT, 100000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_CAPITAL, 100000, '2026-02-05'),
+        ]);
+
+        expect(calculateLateFees(paidLate, daily, '2026-03-01')).toBe(4000);
+    });
+
+    it('no causa mora con la política desactivada o sin plan', () => {
+        expect(calculateLateFees(single, { ...daily, enabled: false }, '2026-02-11')).toBe(0);
+        expect(calculateLateFees(undefined, daily, '2026-02-11')).toBe(0);
+    });
+});
+
+describe('getOutstandingLateFees', () => {
+    const daily: PenaltyPolicy = { enabled: true, rateType: 'DAILY', rate: 1, graceDays: 0 };
+    const single = [installment(1, '2026-02-01')];
+
+    it('resta la mora ya cobrada desde el último desembolso', () => {
+        const history = [
+            tx(TransactionType.PAYMENT_PENALTY, 9000, '2025-12-01'),
+            tx(TransactionType.DISBURSEMENT, 100000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_PENALTY, 3000, '2026-02-05'),
+        ];
+
+        expect(getOutstandingLateFees(single, daily, history, '2026-02-11')).toBe(7000);
+    });
+
+    it('nunca devuelve un valor negativo', () => {
+        const history = [
+            tx(TransactionType.DISBURSEMENT, 100000, '2026-01-01'),
+            tx(TransactionType.PAYMENT_PENALTY, 50000, '2026-02-05'),
+        ];
+
+        expect(getOutstandingLateFees(single, daily, history, '2026-02-11')).toBe(0);
+    });
+});
@@ -1,5 +1,6 @@
 
 import { parseCurrency } from '../utils/format';
+import { ScheduledInstallment, Transaction, TransactionType, PenaltyPolicy } from '../types';
 
 interface LoanCalculationParams {
   initialAmount: string;
@@ -9,21 +10,31 @@ interface LoanCalculationParams {
   interestType: 'FIXED' | 'DIMINISHING';
 }
 
-export const calculateLoanProjection = (params: LoanCalculationParams) => {
+type PaymentFrequency = LoanCalculationParams['paymentFrequency'];
+
+// Cuántos pagos caben en un mes según la frecuencia (mes comercial de 30 días).
+const getFrequencyDivider = (frequency: PaymentFrequency) => {
+    if (frequency === 'BIWEEKLY') return 2;
+    if (frequency === 'WEEKLY') return 4;
+    if (frequency === 'DAILY') return 30;
+    return 1;
+};
+
+/**
+ * Núcleo compartido por la proyección y el plan de pagos: resuelve la cuota
+ * (sin redondear), el interés total y la tasa por periodo. Devuelve null si
+ * el capital no es válido.
+ */
+const resolveLoanTerms = (params: LoanCalculationParams) => {
     const P = parseCurrency(params.initialAmount);
     if (!P || P <= 0) return null;
 
     const monthlyRate = parseFloat(params.interestRate) || 0;
     const months = parseInt(params.loanTermMonths) || 1;
-    
-    // Frequency divider (How many payments per month)
-    let freqDivider = 1;
-    if (params.paymentFrequency === 'BIWEEKLY') freqDivider = 2;
-    if (params.paymentFrequency === 'WEEKLY') freqDivider = 4;
-    if (params.paymentFrequency === 'DAILY') freqDivider = 30; // Standard commercial month
+    const freqDivider = getFrequencyDivider(params.paymentFrequency);
 
     const totalInstallments = months * freqDivider;
-    const periodicRate = (monthlyRate / 100) / freqDivider; 
+    const periodicRate = (monthlyRate / 100) / freqDivider;
 
     let quota = 0;
     let totalInterest = 0;
@@ -33,7 +44,7 @@ export const calculateLoanProjection = (params: LoanCalculationParams) => {
        totalInterest = P * (monthlyRate / 100) * months;
        const totalPay = P + totalInterest;
        quota = totalPay / totalInstallments;
-       firstPeriodInterest = totalInterest / totalInstallments; 
+       firstPeriodInterest = totalInterest / totalInstallments;
     } else {
        if (periodicRate > 0) {
           quota = P * (periodicRate * Math.pow(1 + periodicRate, totalInstallments)) / (Math.pow(1 + periodicRate, totalInstallments) - 1);
@@ -45,36 +56,295 @@ export const calculateLoanProjection = (params: LoanCalculationParams) => {
        }
     }
 
+    return { P, quota, totalInterest, totalInstallments, periodicRate, firstPeriodInterest };
+};
+
+export const calculateLoanProjection = (params: LoanCalculationParams) => {
+    const terms = resolveLoanTerms(params);
+    if (!terms) return null;
+
     return {
-       quota: Math.round(quota),
-       totalInterest: Math.round(totalInterest),
-       totalInstallments,
-       firstPeriodInterest: Math.round(firstPeriodInterest)
+       quota: Math.round(terms.quota),
+       totalInterest: Math.round(terms.totalInterest),
+       totalInstallments: terms.totalInstallments,
+       firstPeriodInterest: Math.round(terms.firstPeriodInterest)
     };
 };
 
-export const calculateNextPaymentDate = (startDateStr: string, frequency: 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY'): string => {
-    const date = new Date(startDateStr);
-    // Adjust for timezone offset to prevent date shifting on simple additions
-    const userTimezoneOffset = date.getTimezoneOffset() * 60000;
-    const normalizedDate = new Date(date.getTime() + userTimezoneOffset);
+/**
+ * Plan de pagos completo: una fila por cuota con su vencimiento, la parte que
+ * abona a capital, la parte de interés y el saldo de capital que queda.
+ *
+ * - FIXED: interés plano sobre el capital inicial, repartido en partes iguales.
+ * - DIMINISHING: sistema francés (cuota fija, interés sobre saldo).
+ *
+ * Los valores se redondean a pesos; la última cuota absorbe el residuo del
+ * redondeo para que el capital cierre exactamente en 0.
+ *
+ * @param params Mismos parámetros que calculateLoanProjection.
+ * @param startDate Fecha de inicio del crédito (YYYY-MM-DD); la primera cuota vence un periodo después.
+ */
+export const generateAmortizationSchedule = (params: LoanCalculationParams, startDate: string): ScheduledInstallment[] => {
+    const terms = resolveLoanTerms(params);
+    if (!terms || !startDate) return [];
+
+    const { P, quota, totalInterest, totalInstallments, periodicRate } = terms;
+    const schedule: ScheduledInstallment[] = [];
+
+    let balance = Math.round(P);
+    const flatPrincipal = Math.round(P / totalInstallments);
+    const flatInterest = Math.round(totalInterest / totalInstallments);
+    let interestLeft = Math.round(totalInterest);
+
+    for (let n = 1; n <= totalInstallments; n++) {
+        const dueDate = addPaymentPeriods(startDate, params.paymentFrequency, n);
+        const isLast = n === totalInstallments;
+
+        let interest: number;
+        let principal: number;
+
+        if (params.interestType === 'FIXED') {
+            interest = isLast ? interestLeft : Math.min(flatInterest, interestLeft);
+            principal = isLast ? balance : Math.min(flatPrincipal, balance);
+        } else {
+            interest = Math.round(balance * periodicRate);
+            principal = isLast ? balance : Math.min(Math.round(quota) - interest, balance);
+        }
+
+        interestLeft -= interest;
+        balance -= principal;
+
+        schedule.push({
+            number: n,
+            dueDate,
+            principal,
+            interest,
+            payment: principal + interest,
+            balance
+        });
+    }
+
+    return schedule;
+};
+
+/**
+ * Interés vencido sin pagar de un plan ya imputado: de cada cuota vencida a
+ * la fecha, la parte de interés que su pago no alcanzó a cubrir (el pago
+ * cubre primero el interés). Mismo cálculo que restructure_loan en el servidor.
+ */
+export const getAccruedInterest = (schedule: ScheduledInstallment[] | undefined, date: string): number =>
+    (schedule || [])
+        .filter(i => i.dueDate <= date)
+        .reduce((sum, i) => sum + Math.max(0, i.interest - (i.paidAmount || 0)), 0);
+
+/**
+ * Reparte un interés capitalizado (reestructuración) en partes iguales entre
+ * las cuotas del plan; la última absorbe el residuo del redondeo. El capital
+ * y su saldo no cambian: el interés se cobra con las cuotas.
+ */
+export const capitalizeInterest = (schedule: ScheduledInstallment[], amount: number): ScheduledInstallment[] => {
+    const total = Math.round(amount);
+    if (total <= 0 || schedule.length === 0) return schedule;
+    const share = Math.floor(total / schedule.length);
+    return schedule.map((inst, idx) => {
+        const extra = idx === schedule.length - 1 ? total - share * (schedule.length - 1) : share;
+        return { ...inst, interest: inst.interest + extra, payment: inst.payment + extra };
+    });
+};
+
+/**
+ * Cuota vigente del plan: la primera que no está cubierta del todo. Si el plan
+ * aún no tiene pagos imputados, se usa la primera que vence en la fecha de
+ * referencia (normalmente el próximo vencimiento del cliente) o después.
+ * Si el plan ya venció por completo, devuelve la última.
+ */
+export const getCurrentInstallment = (schedule: ScheduledInstallment[] | undefined, referenceDate: string): ScheduledInstallment | null => {
+    if (!schedule || schedule.length === 0) return null;
+    const pending = schedule.find(i => i.paidAmount !== undefined ? i.paidAmount < i.payment : i.dueDate >= referenceDate);
+    return pending || schedule[schedule.length - 1];
+};
+
+/**
+ * Fecha que cae `periods` periodos después de la de inicio (YYYY-MM-DD), en UTC
+ * para no depender de la zona horaria. En mensual se conserva el día de inicio
+ * y se ajusta al último día del mes cuando no existe (31 ene → 28 feb → 31 mar),
+ * en vez de encadenar setMonth, que desborda al mes siguiente y arrastra el día.
+ */
+const addPaymentPeriods = (startDateStr: string, frequency: PaymentFrequency, periods: number): string => {
+    const [year, month, day] = startDateStr.slice(0, 10).split('-').map(Number);
+    let date: Date;
 
     switch (frequency) {
         case 'DAILY':
-            normalizedDate.setDate(normalizedDate.getDate() + 1);
+            date = new Date(Date.UTC(year, month - 1, day + periods));
             break;
         case 'WEEKLY':
-            normalizedDate.setDate(normalizedDate.getDate() + 7);
+            date = new Date(Date.UTC(year, month - 1, day + 7 * periods));
             break;
         case 'BIWEEKLY':
-            normalizedDate.setDate(normalizedDate.getDate() + 15);
-            break;
-        case 'MONTHLY':
-            normalizedDate.setMonth(normalizedDate.getMonth() + 1);
+            date = new Date(Date.UTC(year, month - 1, day + 15 * periods));
             break;
-        default:
-            normalizedDate.setMonth(normalizedDate.getMonth() + 1);
+        default: {
+            const lastDay = new Date(Date.UTC(year, month - 1 + periods + 1, 0)).getUTCDate();
+            date = new Date(Date.UTC(year, month - 1 + periods, Math.min(day, lastDay)));
+        }
+    }
+
+    return date.toISOString().split('T')[0];
+};
+
+export const calculateNextPaymentDate = (startDateStr: string, frequency: 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY'): string =>
+    addPaymentPeriods(startDateStr, frequency, 1);
+
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'OVERDUE' | 'PENDING';
+
+// Movimientos que abonan al plan de pagos: cuotas, intereses, redirecciones
+// pagadas a otro cliente y liquidaciones.
+const SCHEDULE_PAYMENT_TYPES: string[] = [
+    TransactionType.PAYMENT_CAPITAL,
+    TransactionType.PAYMENT_INTEREST,
+    TransactionType.REDIRECT_OUT,
+    TransactionType.SETTLEMENT,
+];
+
+// Movimientos que originan un plan nuevo (los pagos anteriores no cuentan).
+const SCHEDULE_ORIGIN_TYPES: string[] = [
+    TransactionType.DISBURSEMENT,
+    TransactionType.REFINANCE,
+    TransactionType.RESTRUCTURE,
+];
+
+/**
+ * Indica si el movimiento cuenta para saldos y reportes: los anulados y sus
+ * contra-asientos (REVERSAL) quedan en el historial solo como rastro.
+ */
+export const isEffectiveTransaction = (t: Transaction): boolean =>
+    !t.voided && t.type !== TransactionType.REVERSAL;
+
+// Movimientos posteriores al último desembolso/refinanciación/reestructuración (el plan vigente).
+const transactionsSinceOrigin = (clientTransactions: Transaction[]) => {
+    const effective = clientTransactions.filter(isEffectiveTransaction);
+    let originIndex = -1;
+    effective.forEach((t, idx) => {
+        if (SCHEDULE_ORIGIN_TYPES.includes(t.type)) originIndex = idx;
+    });
+    return effective.slice(originIndex + 1);
+};
+
+/**
+ * Imputa los pagos del cliente a las cuotas del plan, de la más antigua a la
+ * más reciente: cada pago llena primero la cuota pendiente más vieja y el
+ * excedente pasa a la siguiente. Solo cuentan los pagos posteriores al último
+ * desembolso/refinanciación/reestructuración, que es el que generó el plan vigente.
+ *
+ * @param schedule Plan de pagos del cliente.
+ * @param clientTransactions Historial del cliente ordenado cronológicamente.
+ * @returns El mismo plan con `paidAmount` y `paidDate` recalculados en cada cuota.
+ */
+export const allocatePaymentsToSchedule = (schedule: ScheduledInstallment[], clientTransactions: Transaction[]): ScheduledInstallment[] => {
+    const payments = transactionsSinceOrigin(clientTransactions)
+        .filter(t => SCHEDULE_PAYMENT_TYPES.includes(t.type));
+
+    const allocated = schedule.map(inst => ({ ...inst, paidAmount: 0, paidDate: undefined as string | undefined }));
+    let cursor = 0;
+
+    for (const p of payments) {
+        let available = (Number(p.amount) || 0) + (Number(p.interestPaid) || 0);
+        while (available > 0 && cursor < allocated.length) {
+            const inst = allocated[cursor];
+            const applied = Math.min(inst.payment - inst.paidAmount, available);
+            inst.paidAmount += applied;
+            available -= applied;
+            if (inst.paidAmount >= inst.payment) {
+                inst.paidDate = p.date;
+                cursor++;
+            }
+        }
+    }
+
+    return allocated;
+};
+
+export const getInstallmentStatus = (inst: ScheduledInstallment, today: string): InstallmentStatus => {
+    const paid = inst.paidAmount || 0;
+    if (paid >= inst.payment) return 'PAID';
+    if (inst.dueDate < today) return 'OVERDUE';
+    return paid > 0 ? 'PARTIAL' : 'PENDING';
+};
+
+/**
+ * Resumen de cartera vencida de un plan ya imputado: cuántas cuotas están
+ * vencidas sin cubrir, cuánto dinero falta en ellas y la próxima cuota a cobrar.
+ */
+export const summarizeArrears = (schedule: ScheduledInstallment[] | undefined, today: string) => {
+    const summary = { overdueCount: 0, overdueAmount: 0, paidCount: 0, nextDue: null as ScheduledInstallment | null };
+    if (!schedule) return summary;
+
+    for (const inst of schedule) {
+        const status = getInstallmentStatus(inst, today);
+        if (status === 'PAID') {
+            summary.paidCount++;
+            continue;
+        }
+        if (!summary.nextDue) summary.nextDue = inst;
+        if (status === 'OVERDUE') {
+            summary.overdueCount++;
+            summary.overdueAmount += inst.payment - (inst.paidAmount || 0);
+        }
     }
-    
-    return normalizedDate.toISOString().split('T')[0];
+    return summary;
+};
+
+const daysBetween = (from: string, to: string) =>
+    Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+/**
+ * Mora causada por el plan según la política de la organización. Cada cuota
+ * genera mora desde que vence (pasados los días de gracia) hasta que se cubre
+ * o hasta hoy: una cuota ya pagada con atraso conserva la mora que causó.
+ * El tope limita la mora de cada cuota a un % del valor vencido.
+ *
+ * @returns Mora total causada (sin descontar lo ya cobrado).
+ */
+export const calculateLateFees = (schedule: ScheduledInstallment[] | undefined, policy: PenaltyPolicy | undefined, today: string): number => {
+    if (!schedule || !policy?.enabled || !(policy.rate > 0)) return 0;
+
+    const dailyRate = policy.rateType === 'DAILY' ? policy.rate / 100 : policy.rate / 100 / 30;
+    const grace = Math.max(0, policy.graceDays || 0);
+
+    return schedule.reduce((total, inst) => {
+        const until = inst.paidDate || today;
+        const chargeableDays = daysBetween(inst.dueDate, until) - grace;
+        if (chargeableDays <= 0) return total;
+
+        // Pagada con atraso: la cuota completa estuvo vencida. Pendiente: solo el faltante.
+        const base = inst.paidDate ? inst.payment : inst.payment - (inst.paidAmount || 0);
+        if (base <= 0) return total;
+
+        let fee = base * dailyRate * chargeableDays;
+        if (policy.capPercent && policy.capPercent > 0) {
+            fee = Math.min(fee, base * policy.capPercent / 100);
+        }
+        return total + Math.round(fee);
+    }, 0);
+};
+
+/**
+ * Mora pendiente de cobro: la causada menos los cobros de mora registrados
+ * después del último desembolso/refinanciación.
+ */
+export const getOutstandingLateFees = (
+    schedule: ScheduledInstallment[] | undefined,
+    policy: PenaltyPolicy | undefined,
+    clientTransactions: Transaction[],
+    today: string
+): number => {
+    const accrued = calculateLateFees(schedule, policy, today);
+    if (accrued === 0) return 0;
+
+    const collected = transactionsSinceOrigin(clientTransactions)
+        .filter(t => t.type === TransactionType.PAYMENT_PENALTY)
+        .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+
+    return Math.max(0, accrued - collected);
 };
@@ -0,0 +1,90 @@
+import { QueuedPayment } from '../types';
+
+// IndexedDB local: última foto de los datos (para trabajar sin señal) y la cola
+// de pagos registrados offline. localStorage no sirve: tope de ~5MB y no guarda Blobs.
+const DB_NAME = 'prestaflow-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const QUEUE = 'queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+                if (!db.objectStoreNames.contains(QUEUE)) {
+                    db.createObjectStore(QUEUE, { keyPath: 'id' }).createIndex('organizationId', 'organizationId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const request = op(tx.objectStore(store));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+/**
+ * True when a failure means "no connection" rather than a server rejection.
+ * supabase-js reports fetch failures as an error object, not a throw.
+ */
+export const isNetworkError = (error: any): boolean => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = String(error?.message || error || '');
+    return /Failed to fetch|NetworkError|Load failed|network request failed/i.test(message);
+};
+
+// --- Snapshots (clave libre: `org:<id>`, `history:<clientId>`) ---
+
+export const readSnapshot = async <T>(key: string): Promise<T | null> => {
+    try {
+        const value = await run<T | undefined>(SNAPSHOTS, 'readonly', s => s.get(key));
+        return value ?? null;
+    } catch (err) {
+        console.warn('[offline] No se pudo leer la copia local:', err);
+        return null;
+    }
+};
+
+export const writeSnapshot = async (key: string, value: unknown): Promise<void> => {
+    try {
+        await run(SNAPSHOTS, 'readwrite', s => s.put(value, key));
+    } catch (err) {
+        console.warn('[offline] No se pudo guardar la copia local:', err);
+    }
+};
+
+// --- Cola de pagos ---
+
+/**
+ * Queued payments of an organization, oldest first (replay order).
+ */
+export const listQueuedPayments = async (organizationId: string): Promise<QueuedPayment[]> => {
+    const items = await run<QueuedPayment[]>(QUEUE, 'readonly', s => s.index('organizationId').getAll(organizationId));
+    return items.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putQueuedPayment = async (item: QueuedPayment): Promise<void> => {
+    await run(QUEUE, 'readwrite', s => s.put(item));
+};
+
+export const deleteQueuedPayment = async (id: string): Promise<void> => {
+    await run(QUEUE, 'readwrite', s => s.delete(id));
+};
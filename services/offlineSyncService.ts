@@ -0,0 +1,136 @@
+import { supabase } from '../lib/supabaseClient';
+import { Client, QueuedPayment, Transaction } from '../types';
+import { registerPayment, RegisterPaymentResult } from './transactionService';
+import { allocatePaymentsToSchedule, summarizeArrears } from './loanUtils';
+import { loanScheduleOf } from './loanService';
+import { getToday } from '../utils/format';
+
+export type QueuedPaymentOutcome =
+    | { status: 'SYNCED'; result: RegisterPaymentResult | null } // null: it was already on the server
+    | { status: 'CONFLICT'; reason: string };
+
+const uploadQueuedReceipt = async (item: QueuedPayment) => {
+    if (!item.receipt) return;
+    const { error } = await supabase.storage.from('receipts').upload(item.receipt.path, item.receipt.data, {
+        cacheControl: '3600',
+        contentType: item.receipt.contentType || undefined,
+        upsert: false
+    });
+    // Un intento anterior pudo subirlo y perder la respuesta.
+    if (error && !/exists|duplicate/i.test(error.message)) throw error;
+};
+
+const queuedRowIds = (item: QueuedPayment): string[] =>
+    [item.tx.id, item.penalty?.id, item.redirect?.id].filter((id): id is string => !!id);
+
+/**
+ * Schedule allocation and next payment date of a queued payment on top of the
+ * client's current schedule and ledger. A payment of a loan is allocated only
+ * against that loan's schedule and rows. Without a schedule the fields the
+ * collector entered are kept.
+ */
+const allocateOnLedger = (
+    item: QueuedPayment,
+    client: Pick<Partial<Client>, 'paymentSchedule' | 'nextPaymentDate'>,
+    ledger: Transaction[]
+): QueuedPayment['clientFields'] => {
+    const loanId = item.tx.loanId;
+    const schedule = loanId ? loanScheduleOf(client.paymentSchedule, loanId) : client.paymentSchedule;
+    if (!schedule?.length) return item.clientFields;
+    const paymentSchedule = allocatePaymentsToSchedule(schedule, [
+        ...(loanId ? ledger.filter(t => t.loanId === loanId) : ledger),
+        item.tx,
+        ...(item.penalty ? [item.penalty] : [])
+    ]);
+    const { nextDue } = summarizeArrears(paymentSchedule, getToday());
+    return { paymentSchedule, nextPaymentDate: nextDue?.dueDate || client.nextPaymentDate };
+};
+
+/**
+ * What changed on the server for the client since the payment was queued,
+ * or null when it can be replayed as is. Rows this queue synced itself
+ * (an earlier payment of the same client) are not changes.
+ */
+const findServerChange = async (item: QueuedPayment): Promise<string | null> => {
+    const [clientRes, txRes] = await Promise.all([
+        supabase.from('clients').select('id, nextPaymentDate').eq('id', item.clientId).maybeSingle(),
+        supabase.from('transactions')
+            .select('id', { count: 'exact', head: true })
+            .eq('clientId', item.clientId)
+            .gt('created_at', new Date(item.baseLastCreatedAt).toISOString())
+            .not('id', 'in', `(${[...queuedRowIds(item), ...(item.syncedIds || [])].join(',')})`)
+    ]);
+    if (clientRes.error) throw clientRes.error;
+    if (txRes.error) throw txRes.error;
+
+    if (!clientRes.data) return 'El cliente ya no existe en el servidor.';
+    if (txRes.count) return `${txRes.count} movimiento(s) nuevo(s) del cliente en el servidor desde que se registró el pago.`;
+    if ((clientRes.data.nextPaymentDate || null) !== (item.baseClientFields.nextPaymentDate || null)) {
+        return 'La fecha de próximo pago del cliente cambió en el servidor.';
+    }
+    return null;
+};
+
+/**
+ * Replays a queued offline payment: uploads its receipt, then registers it
+ * through `register_payment` unless the client changed on the server meanwhile.
+ * Throws on network or server errors so the caller can keep it queued.
+ */
+export const syncQueuedPayment = async (item: QueuedPayment): Promise<QueuedPaymentOutcome> => {
+    await uploadQueuedReceipt(item);
+
+    // El pago ya está si un intento anterior llegó al servidor sin respuesta.
+    const { data: existing, error } = await supabase.from('transactions').select('id').eq('id', item.tx.id).maybeSingle();
+    if (error) throw error;
+    if (existing) return { status: 'SYNCED', result: null };
+
+    if (!item.force) {
+        const reason = await findServerChange(item);
+        if (reason) return { status: 'CONFLICT', reason };
+    }
+
+    const result = await registerPayment({
+        tx: item.tx,
+        penalty: item.penalty,
+        clientFields: item.clientFields,
+        redirect: item.redirect
+    });
+    return { status: 'SYNCED', result };
+};
+
+/**
+ * Accepts a conflict: recomputes the schedule allocation on top of the
+ * server's current ledger and marks the item to be applied without checks.
+ */
+export const rebaseQueuedPayment = async (item: QueuedPayment): Promise<QueuedPayment> => {
+    const [clientRes, txRes] = await Promise.all([
+        supabase.from('clients').select('id, paymentSchedule, nextPaymentDate').eq('id', item.clientId).maybeSingle(),
+        supabase.from('transactions').select('*').eq('clientId', item.clientId)
+    ]);
+    if (clientRes.error) throw clientRes.error;
+    if (txRes.error) throw txRes.error;
+    if (!clientRes.data) throw new Error('El cliente ya no existe; descarte el pago.');
+
+    const ledger: Transaction[] = (txRes.data || [])
+        .map(({ created_at, ...t }: any) => ({ ...t, amount: Number(t.amount) || 0, createdAt: created_at ? new Date(created_at).getTime() : 0 }))
+        .sort((a: Transaction, b: Transaction) => a.date.localeCompare(b.date) || (a.createdAt || 0) - (b.createdAt || 0));
+
+    return { ...item, clientFields: allocateOnLedger(item, clientRes.data, ledger), status: 'PENDING', error: undefined, force: true };
+};
+
+/**
+ * Carries a payment that just synced into a later queued payment of the same
+ * client (or of the client receiving its redirection): its rows stop counting
+ * as server changes and, when the server answered, the later payment is
+ * re-allocated on the schedule and ledger the synced one left behind.
+ */
+export const carryOverSyncedPayment = (next: QueuedPayment, synced: QueuedPayment, result: RegisterPaymentResult | null): QueuedPayment => {
+    const carried = { ...next, syncedIds: [...(next.syncedIds || []), ...queuedRowIds(synced)] };
+    if (!result || next.clientId !== result.client.id) return carried;
+
+    return {
+        ...carried,
+        baseClientFields: { paymentSchedule: result.client.paymentSchedule, nextPaymentDate: result.client.nextPaymentDate },
+        clientFields: allocateOnLedger(next, result.client, result.transactions)
+    };
+};
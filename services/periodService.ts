@@ -0,0 +1,49 @@
+import { supabase } from '../lib/supabaseClient';
+import { AccountingPeriod } from '../types';
+
+/**
+ * Maps a raw `accounting_periods` row (snake_case) to the app's AccountingPeriod shape.
+ */
+const fromDbRow = (row: any): AccountingPeriod => ({
+    id: row.id,
+    organization_id: row.organization_id,
+    period: row.period,
+    closedAt: row.closed_at,
+    closedBy: row.closed_by,
+    bankBalances: (row.bank_balances || []).map((b: any) => ({ id: String(b.id), name: b.name, balance: Number(b.balance) || 0 })),
+    portfolioTotal: Number(row.portfolio_total) || 0,
+    interestIncome: Number(row.interest_income) || 0,
+    penaltyIncome: Number(row.penalty_income) || 0
+});
+
+/**
+ * Closed periods of an organization, most recent first.
+ */
+export const fetchClosedPeriods = async (orgId: string): Promise<AccountingPeriod[]> => {
+    const { data, error } = await supabase
+        .from('accounting_periods')
+        .select('*')
+        .eq('organization_id', orgId)
+        .order('period', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(fromDbRow);
+};
+
+/**
+ * Closes a month (YYYY-MM). Owner only; the `close_period` RPC validates the
+ * order of closes and takes the bank/portfolio snapshot. From then on the
+ * database rejects any insert, edit or delete dated in that month or earlier.
+ */
+export const closePeriod = async (orgId: string, period: string): Promise<AccountingPeriod> => {
+    const { data, error } = await supabase.rpc('close_period', { p_org: orgId, p_period: period });
+    if (error) throw error;
+    return fromDbRow(data);
+};
+
+/**
+ * Reopens the most recent closed month (owner only).
+ */
+export const reopenPeriod = async (orgId: string, period: string): Promise<void> => {
+    const { error } = await supabase.rpc('reopen_period', { p_org: orgId, p_period: period });
+    if (error) throw error;
+};
@@ -0,0 +1,112 @@
+import { supabase } from '../lib/supabaseClient';
+import { ClientPromiseStats, PaymentPromise, PaymentPromiseSource } from '../types';
+
+/**
+ * Maps a `payment_promise_status` row (snake_case) to PaymentPromise.
+ */
+const promiseFromDbRow = (row: any): PaymentPromise => ({
+    id: row.id,
+    organization_id: row.organization_id,
+    clientId: String(row.client_id),
+    clientName: row.client_name,
+    cardCode: row.card_code || undefined,
+    phone: row.phone || undefined,
+    promisedDate: row.promised_date,
+    amount: Number(row.amount) || 0,
+    status: row.status,
+    effectiveStatus: row.effective_status || row.status,
+    note: row.note,
+    source: row.source,
+    routeStopId: row.route_stop_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+    keptTransactionId: row.kept_transaction_id
+});
+
+/**
+ * Share of resolved promises the client kept, 0-100. Null until a promise
+ * is kept or broken.
+ */
+export const promiseKeepRate = (stats: ClientPromiseStats | null): number | null => {
+    if (!stats) return null;
+    const resolved = stats.kept + stats.broken;
+    return resolved > 0 ? Math.round((stats.kept / resolved) * 100) : null;
+};
+
+/**
+ * Promise history of a client, newest first.
+ */
+export const fetchClientPromises = async (clientId: string): Promise<PaymentPromise[]> => {
+    const { data, error } = await supabase
+        .from('payment_promise_status')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(promiseFromDbRow);
+};
+
+export const fetchClientPromiseStats = async (clientId: string): Promise<ClientPromiseStats> => {
+    const { data, error } = await supabase
+        .from('client_promise_stats')
+        .select('*')
+        .eq('client_id', clientId)
+        .maybeSingle();
+    if (error) throw error;
+    return {
+        total: Number(data?.total) || 0,
+        kept: Number(data?.kept) || 0,
+        broken: Number(data?.broken) || 0,
+        pending: Number(data?.pending) || 0
+    };
+};
+
+/**
+ * Pending promises plus those broken since `since` (YYYY-MM-DD), ordered by
+ * promised date. Follows the RLS visibility of clients.
+ */
+export const fetchOpenPromises = async (orgId: string, since: string): Promise<PaymentPromise[]> => {
+    const { data, error } = await supabase
+        .from('payment_promise_status')
+        .select('*')
+        .eq('organization_id', orgId)
+        .in('effective_status', ['PENDING', 'BROKEN'])
+        .gte('promised_date', since)
+        .order('promised_date', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(promiseFromDbRow);
+};
+
+export interface CreatePromiseInput {
+    clientId: string;
+    amount: number;
+    promisedDate: string;
+    note?: string;
+    source?: PaymentPromiseSource;
+    routeStopId?: string; // Also marks the stop as PROMISED
+}
+
+/**
+ * Records a promise. A pending promise of the same client is closed first
+ * (broken if its date already passed, cancelled otherwise).
+ */
+export const createPaymentPromise = async (input: CreatePromiseInput): Promise<void> => {
+    const { error } = await supabase.rpc('create_payment_promise', {
+        p_client_id: input.clientId,
+        p_amount: input.amount,
+        p_promised_date: input.promisedDate,
+        p_note: input.note || null,
+        p_source: input.source || 'MANUAL',
+        p_route_stop_id: input.routeStopId || null
+    });
+    if (error) throw error;
+};
+
+/**
+ * Cancels a pending promise (its author or owner/admin).
+ */
+export const cancelPaymentPromise = async (promiseId: string): Promise<void> => {
+    const { error } = await supabase.rpc('cancel_payment_promise', { p_promise_id: promiseId });
+    if (error) throw error;
+};
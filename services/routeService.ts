@@ -0,0 +1,121 @@
+import { supabase } from '../lib/supabaseClient';
+import { CollectionRoute, RouteOrderMode, RouteStop, RouteStopStatus } from '../types';
+
+const toNumberOrNull = (v: any) => (v === null || v === undefined ? null : Number(v));
+
+const routeFromDbRow = (row: any): CollectionRoute => ({
+    id: row.id,
+    organization_id: row.organization_id,
+    date: row.date,
+    collectorId: row.collector_id,
+    orderMode: row.order_mode,
+    status: row.status,
+    createdAt: row.created_at,
+    expectedTotal: toNumberOrNull(row.expected_total),
+    collectedTotal: toNumberOrNull(row.collected_total),
+    closedAt: row.closed_at
+});
+
+/**
+ * Maps a `collection_route_stop_status` row (snake_case) to RouteStop.
+ */
+const stopFromDbRow = (row: any): RouteStop => ({
+    id: row.id,
+    routeId: row.route_id,
+    clientId: String(row.client_id),
+    clientName: row.client_name,
+    address: row.address || undefined,
+    phone: row.phone || undefined,
+    cardCode: row.card_code || undefined,
+    position: Number(row.position) || 0,
+    neighborhood: row.neighborhood,
+    expectedAmount: Number(row.expected_amount) || 0,
+    collected: Number(row.collected) || 0,
+    status: row.status,
+    effectiveStatus: row.effective_status || row.status,
+    note: row.note,
+    visitedAt: row.visited_at
+});
+
+/**
+ * Routes of a day visible to the current user (RLS: own route, or every
+ * collector's for owner/admin).
+ */
+export const fetchRoutesForDate = async (orgId: string, date: string): Promise<CollectionRoute[]> => {
+    const { data, error } = await supabase
+        .from('collection_routes')
+        .select('*')
+        .eq('organization_id', orgId)
+        .eq('date', date);
+    if (error) throw error;
+    return (data || []).map(routeFromDbRow);
+};
+
+/**
+ * Stops of a route in visit order, with what was collected so far.
+ */
+export const fetchRouteStops = async (routeId: string): Promise<RouteStop[]> => {
+    const { data, error } = await supabase
+        .from('collection_route_stop_status')
+        .select('*')
+        .eq('route_id', routeId)
+        .order('position', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(stopFromDbRow);
+};
+
+/**
+ * Creates the collector's route for the date, or adds the clients that became
+ * due since it was built. Stops already marked keep their state and order.
+ */
+export const buildCollectionRoute = async (orgId: string, date: string, collectorId: string): Promise<CollectionRoute> => {
+    const { data, error } = await supabase.rpc('build_collection_route', {
+        p_org: orgId,
+        p_date: date,
+        p_collector: collectorId
+    });
+    if (error) throw error;
+    return routeFromDbRow(data);
+};
+
+/**
+ * Persists the visit order; `stopIds` is the full list in the new order.
+ */
+export const reorderRouteStops = async (routeId: string, stopIds: string[], mode: RouteOrderMode): Promise<void> => {
+    const { error } = await supabase.rpc('reorder_route_stops', {
+        p_route_id: routeId,
+        p_stop_ids: stopIds,
+        p_mode: mode
+    });
+    if (error) throw error;
+};
+
+export const markRouteStop = async (stopId: string, status: RouteStopStatus, note?: string): Promise<void> => {
+    const { error } = await supabase.rpc('mark_route_stop', {
+        p_stop_id: stopId,
+        p_status: status,
+        p_note: note || null
+    });
+    if (error) throw error;
+};
+
+/**
+ * Hands an open route over to another member (owner/admin only).
+ */
+export const assignCollectionRoute = async (routeId: string, collectorId: string): Promise<CollectionRoute> => {
+    const { data, error } = await supabase.rpc('assign_collection_route', {
+        p_route_id: routeId,
+        p_collector: collectorId
+    });
+    if (error) throw error;
+    return routeFromDbRow(data);
+};
+
+/**
+ * Closes the route and freezes its expected and collected totals.
+ */
+export const closeCollectionRoute = async (routeId: string): Promise<CollectionRoute> => {
+    const { data, error } = await supabase.rpc('close_collection_route', { p_route_id: routeId });
+    if (error) throw error;
+    return routeFromDbRow(data);
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { STATEMENT_PRESETS, isOfxFile, parseCsvStatement, parseOfxStatement, parseStatementAmount } from './statementParser';
+
+describe('parseStatementAmount', () => {
+    it('lee separadores locales, signo y paréntesis', () => {
+        expect(parseStatementAmount('$ -1.250.000,50', ',')).toBe(-1250000.5);
+        expect(parseStatementAmount('(35,000.00)', '.')).toBe(-35000);
+        expect(parseStatementAmount('50000-', '.')).toBe(-50000);
+        expect(parseStatementAmount('', '.')).toBe(0);
+    });
+});
+
+describe('parseCsvStatement', () => {
+    it('lee el formato Bancolombia y omite títulos y montos en cero', () => {
+        const csv = [
+            'FECHA,DESCRIPCIÓN,SUCURSAL,DCTO.,VALOR,SALDO',
+            '"Extracto de enero",,,,,',
+            '5/01/2026,"ABONO, CLIENTE",Centro,1001,150000.00,1150000.00',
+            '06/01/2026,COMISION,Centro,1002,-3500.00,1146500.00',
+            '07/01/2026,SIN MOVIMIENTO,Centro,1003,0,1146500.00',
+        ].join('\r\n');
+
+        const result = parseCsvStatement(csv, STATEMENT_PRESETS.BANCOLOMBIA.mapping);
+
+        expect(result.errors).toEqual([]);
+        expect(result.lines).toEqual([
+            { date: '2026-01-05', description: 'ABONO, CLIENTE', reference: '1001', amount: 150000 },
+            { date: '2026-01-06', description: 'COMISION', reference: '1002', amount: -3500 },
+        ]);
+    });
+
+    it('combina débito y crédito en un monto con signo', () => {
+        const csv = 'Fecha;Descripción;Referencia;Débito;Crédito;Saldo\n10/02/2026;Retiro;R1;20.000,00;;0\n11/02/2026;Consignación;R2;;75.500,00;0';
+
+        const { lines } = parseCsvStatement(csv, STATEMENT_PRESETS.DAVIVIENDA.mapping);
+
+        expect(lines.map(l => l.amount)).toEqual([-20000, 75500]);
+    });
+
+    it('reporta por fila las fechas que no existen en el calendario', () => {
+        const csv = [
+            'FECHA,DESCRIPCIÓN,SUCURSAL,DCTO.,VALOR,SALDO',
+            '31/02/2026,ABONO,Centro,1,1000,0',
+            '29/02/2028,ABONO BISIESTO,Centro,2,2000,0',
+            '05/13/2026,ABONO,Centro,3,3000,0',
+        ].join('\n');
+
+        const result = parseCsvStatement(csv, STATEMENT_PRESETS.BANCOLOMBIA.mapping);
+
+        expect(result.lines.map(l => l.date)).toEqual(['2028-02-29']);
+        expect(result.errors.map(e => e.row)).toEqual([2, 4]);
+        expect(result.errors[0].message).toContain('31/02/2026');
+    });
+
+    it('numera las filas del archivo aunque un campo traiga saltos de línea', () => {
+        const csv = 'FECHA,DESCRIPCIÓN,SUCURSAL,DCTO.,VALOR,SALDO\n01/03/2026,"ABONO\nEN DOS LÍNEAS",C,1,1000,0\n\n32/03/2026,ABONO,C,2,1000,0';
+
+        const result = parseCsvStatement(csv, STATEMENT_PRESETS.BANCOLOMBIA.mapping);
+
+        expect(result.lines).toHaveLength(1);
+        expect(result.errors).toEqual([expect.objectContaining({ row: 5 })]);
+    });
+});
+
+describe('parseOfxStatement', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260115120000<TRNAMT>250000.00<FITID>A1<NAME>ABONO<MEMO>Cuota 1
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260230<TRNAMT>-1000.00<FITID>A2<NAME>COMISION
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260116<TRNAMT>-4000.00<CHECKNUM>77<FITID>A3<NAME>CHEQUE
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    it('lee un movimiento por STMTTRN y reporta las fechas imposibles', () => {
+        const result = parseOfxStatement(ofx);
+
+        expect(result.lines).toEqual([
+            { date: '2026-01-15', description: 'ABONO · Cuota 1', reference: 'A1', amount: 250000 },
+            { date: '2026-01-16', description: 'CHEQUE', reference: '77', amount: -4000 },
+        ]);
+        expect(result.errors).toEqual([expect.objectContaining({ row: 2 })]);
+    });
+
+    it('reconoce el archivo por extensión o contenido', () => {
+        expect(isOfxFile('extracto.QFX', '')).toBe(true);
+        expect(isOfxFile('extracto.txt', ofx)).toBe(true);
+        expect(isOfxFile('extracto.csv', 'FECHA,VALOR')).toBe(false);
+    });
+});
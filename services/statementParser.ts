@@ -0,0 +1,192 @@
+import { ParsedStatementLine, StatementMapping, StatementParseError, StatementParseResult } from '../types';
+
+/**
+ * Column layouts for common Colombian banks. They are starting points: each
+ * bank account can save its own mapping (bank_accounts."statementMapping").
+ */
+export const STATEMENT_PRESETS: Record<string, { label: string; mapping: StatementMapping }> = {
+  BANCOLOMBIA: {
+    label: 'Bancolombia',
+    // FECHA, DESCRIPCIÓN, SUCURSAL, DCTO., VALOR, SALDO
+    mapping: { preset: 'BANCOLOMBIA', delimiter: ',', hasHeader: true, dateColumn: 0, dateFormat: 'DD/MM/YYYY', descriptionColumn: 1, referenceColumn: 3, amountColumn: 4, decimalSeparator: '.' }
+  },
+  DAVIVIENDA: {
+    label: 'Davivienda',
+    // Fecha; Descripción; Referencia; Débito; Crédito; Saldo
+    mapping: { preset: 'DAVIVIENDA', delimiter: ';', hasHeader: true, dateColumn: 0, dateFormat: 'DD/MM/YYYY', descriptionColumn: 1, referenceColumn: 2, debitColumn: 3, creditColumn: 4, decimalSeparator: ',' }
+  },
+  GENERIC: {
+    label: 'Genérico (Fecha, Descripción, Referencia, Valor)',
+    mapping: { preset: 'GENERIC', delimiter: ',', hasHeader: true, dateColumn: 0, dateFormat: 'YYYY-MM-DD', descriptionColumn: 1, referenceColumn: 2, amountColumn: 3, decimalSeparator: '.' }
+  }
+};
+
+/**
+ * Splits CSV text into rows, honoring double-quoted fields ("a, b" and "" escapes).
+ * Each row keeps the 1-based file line where it starts, for error messages.
+ */
+const splitCsv = (text: string, delimiter: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells: row });
+      row = [];
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells: row });
+  return rows;
+};
+
+/**
+ * Parses a bank amount such as "$ -1.250.000,50", "(35,000.00)" or "50000-".
+ */
+export const parseStatementAmount = (raw: string | undefined, decimalSeparator: '.' | ','): number => {
+  if (!raw) return 0;
+  let value = raw.trim();
+  const negative = /^\(.*\)$/.test(value) || /^[^\d]*-/.test(value) || value.endsWith('-');
+  value = value.replace(/[^\d.,]/g, '');
+  value = decimalSeparator === ','
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+  const num = Number(value);
+  if (!Number.isFinite(num)) return 0;
+  return negative ? -num : num;
+};
+
+/**
+ * Builds YYYY-MM-DD only if it is a real calendar day: Date.UTC rolls 31/02
+ * over to March, so the parts are compared back.
+ */
+const toIsoDate = (year: string, month: string, day: string): string | null => {
+  const y = Number(year), m = Number(month), d = Number(day);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * Reads a statement date. Returns null when the field is not a date at all
+ * (titles, subtotals, balance lines) and `{ error }` when it has the shape of
+ * one but is not a valid day — usually a wrong date format in the mapping.
+ */
+const parseStatementDate = (raw: string | undefined, format: StatementMapping['dateFormat']): { date: string } | { error: string } | null => {
+  const value = (raw || '').trim();
+  let parts: [string, string, string] | null = null;
+  let m: RegExpMatchArray | null = null;
+  switch (format) {
+    case 'DD/MM/YYYY':
+      m = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+      if (m) parts = [m[3], m[2], m[1]];
+      break;
+    case 'YYYY/MM/DD':
+    case 'YYYY-MM-DD':
+      m = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/);
+      if (m) parts = [m[1], m[2], m[3]];
+      break;
+    case 'YYYYMMDD':
+      m = value.match(/^(\d{4})(\d{2})(\d{2})/);
+      if (m) parts = [m[1], m[2], m[3]];
+      break;
+  }
+  if (!parts) return null;
+  const date = toIsoDate(...parts);
+  return date ? { date } : { error: `Fecha inválida "${value}" (formato ${format})` };
+};
+
+const column = (row: string[], index?: number | null) =>
+  index === null || index === undefined ? '' : (row[index] || '').trim();
+
+/**
+ * Parses a CSV statement with the given column mapping. Rows whose date does
+ * not parse (titles, subtotals, balance lines) are skipped; zero amounts too.
+ * Rows with an impossible date are reported in `errors` and left out.
+ */
+export const parseCsvStatement = (text: string, mapping: StatementMapping): StatementParseResult => {
+  const rows = splitCsv(text.replace(/^﻿/, ''), mapping.delimiter || ',');
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const lines: ParsedStatementLine[] = [];
+  const errors: StatementParseError[] = [];
+
+  for (const { line, cells: row } of dataRows) {
+    const parsed = parseStatementDate(column(row, mapping.dateColumn), mapping.dateFormat);
+    if (!parsed) continue;
+    if ('error' in parsed) {
+      errors.push({ row: line, message: parsed.error });
+      continue;
+    }
+
+    const amount = mapping.amountColumn !== null && mapping.amountColumn !== undefined
+      ? parseStatementAmount(column(row, mapping.amountColumn), mapping.decimalSeparator)
+      : Math.abs(parseStatementAmount(column(row, mapping.creditColumn), mapping.decimalSeparator))
+        - Math.abs(parseStatementAmount(column(row, mapping.debitColumn), mapping.decimalSeparator));
+    if (amount === 0) continue;
+
+    lines.push({
+      date: parsed.date,
+      description: column(row, mapping.descriptionColumn),
+      reference: column(row, mapping.referenceColumn),
+      amount
+    });
+  }
+
+  return { lines, errors };
+};
+
+/**
+ * Parses an OFX statement (SGML 1.x or XML 2.x): one line per <STMTTRN>.
+ */
+export const parseOfxStatement = (text: string): StatementParseResult => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  const tag = (block: string, name: string) => {
+    const m = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+    return m ? m[1].trim() : '';
+  };
+  const lines: ParsedStatementLine[] = [];
+  const errors: StatementParseError[] = [];
+
+  blocks.forEach((block, i) => {
+    const parsed = parseStatementDate(tag(block, 'DTPOSTED'), 'YYYYMMDD');
+    const amount = parseStatementAmount(tag(block, 'TRNAMT'), '.');
+    if (!parsed) return;
+    if ('error' in parsed) {
+      errors.push({ row: i + 1, message: parsed.error });
+      return;
+    }
+    if (amount === 0) return;
+    lines.push({
+      date: parsed.date,
+      description: [tag(block, 'NAME'), tag(block, 'MEMO')].filter(Boolean).join(' · '),
+      reference: tag(block, 'CHECKNUM') || tag(block, 'REFNUM') || tag(block, 'FITID'),
+      amount
+    });
+  });
+
+  return { lines, errors };
+};
+
+export const isOfxFile = (fileName: string, text: string) =>
+  /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
@@ -1,123 +1,312 @@
 
 import { supabase } from '../lib/supabaseClient';
-import { Transaction, TransactionType } from '../types';
+import { Client, LoanTerms, LoanTermsVersion, ScheduledInstallment, Transaction, WriteOff } from '../types';
+import { termsVersionFromDbRow, writeOffFromDbRow } from './loanService';
 
 /**
- * Helper to ensure safe arithmetic (prevents -0 and floating point errors for currency)
+ * Maps a raw `transactions` row (snake created_at) to the app's Transaction shape.
  */
-const safeAdd = (a: number, b: number) => Math.round((a + b) * 100) / 100;
+const fromDbRow = (row: any): Transaction => {
+  const { created_at, ...rest } = row;
+  return {
+    ...rest,
+    amount: Number(rest.amount) || 0,
+    interestPaid: Number(rest.interestPaid) || 0,
+    capitalPaid: Number(rest.capitalPaid) || 0,
+    balanceAfter: Number(rest.balanceAfter) || 0,
+    createdAt: created_at ? new Date(created_at).getTime() : 0
+  };
+};
 
 /**
- * Recalculates the running balance for a specific client based on their transaction history.
- * AUDIT IMPROVEMENT: Deterministic sorting and organization_id preservation.
- * 
+ * Recalculates the running balance for a specific client on the server.
+ * AUDIT IMPROVEMENT: the `recalculate_client_balances` RPC locks the client row and
+ * recomputes every `balanceAfter` inside one Postgres transaction, using the ledger
+ * stored in the database (not the browser's copy). Concurrent collectors working on
+ * the same client can no longer overwrite each other's balances.
+ *
+ * Ordering and signs match the previous client-side logic: date, then created_at,
+ * then id; DISBURSEMENT/REFINANCE/REDIRECT_IN add, PAYMENT_CAPITAL/REDIRECT_OUT/SETTLEMENT
+ * and WRITE_OFF subtract, interest and penalty payments and recoveries are neutral. `balanceAfter` stays the
+ * client's combined balance; each loan's balance, principal and status are refreshed
+ * from its own movements in the same call.
+ *
  * @param clientId The ID of the client.
- * @param currentTransactionsList The full list of transactions (used to filter for the specific client).
- * @returns The updated list of transactions for that client with correct balances.
+ * @returns The client's full ledger, chronologically sorted, with authoritative balances.
+ */
+export const recalculateClientTransactions = async (clientId: string): Promise<Transaction[]> => {
+  const { data, error } = await supabase.rpc('recalculate_client_balances', { p_client_id: clientId });
+
+  if (error) {
+    console.error("Error recalculating balances in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return (data || []).map(fromDbRow);
+};
+
+/**
+ * Maps an app Transaction to a `transactions` row (createdAt ms → created_at ISO;
+ * the local-only pendingSync flag is dropped).
+ */
+const toDbRow = (tx: Transaction) => {
+  const { createdAt, pendingSync, ...rest } = tx;
+  return { ...rest, created_at: new Date(createdAt).toISOString() };
+};
+
+export interface RegisterPaymentInput {
+  tx: Transaction;
+  penalty?: Transaction | null;
+  clientFields?: Pick<Partial<Client>, 'paymentSchedule' | 'nextPaymentDate'>;
+  redirect?: Transaction | null;
+}
+
+export interface RegisterPaymentResult {
+  client: Client;
+  transactions: Transaction[];
+  bankBalance: number | null;
+  targetClient: Client | null;
+  targetTransactions: Transaction[];
+}
+
+/**
+ * Registers a payment and all of its side effects in one server-side transaction.
+ * The `register_payment` RPC inserts the payment (plus optional penalty), bumps the
+ * bank balance, recalculates the ledger, updates the schedule/next date of the payment's loan
+ * (or of the client, if it has no loans) and,
+ * for redirections, books the counterpart on the receiving client. Either every
+ * effect is applied or none is.
+ *
+ * @returns The updated client(s), their ledgers and the authoritative bank balance.
+ */
+export const registerPayment = async ({ tx, penalty, clientFields, redirect }: RegisterPaymentInput): Promise<RegisterPaymentResult> => {
+  const { data, error } = await supabase.rpc('register_payment', {
+    p_tx: toDbRow(tx),
+    p_penalty: penalty ? toDbRow(penalty) : null,
+    p_client_fields: clientFields || {},
+    p_redirect: redirect ? toDbRow(redirect) : null,
+  });
+
+  if (error) {
+    console.error("Error registering payment in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    client: data.client as Client,
+    transactions: (data.transactions || []).map(fromDbRow),
+    bankBalance: data.bank_balance === null || data.bank_balance === undefined ? null : Number(data.bank_balance),
+    targetClient: (data.target_client as Client) || null,
+    targetTransactions: (data.target_transactions || []).map(fromDbRow),
+  };
+};
+
+export interface RestructureLoanInput {
+  loanId: string;
+  date: string; // YYYY-MM-DD
+  terms: LoanTerms;
+  schedule: ScheduledInstallment[]; // New schedule over the balance, capitalized interest included
+  interestWriteOff: number;
+  reason: string;
+}
+
+export interface RestructureLoanResult {
+  client: Client;
+  transactions: Transaction[];
+  version: LoanTermsVersion;
+}
+
+/**
+ * Restructures a loan in one server-side transaction. The `restructure_loan` RPC
+ * recomputes the overdue interest, checks the write-off against it, books a
+ * neutral RESTRUCTURE movement (the origin of the new schedule), saves the
+ * previous terms as a new version and applies the new terms and schedule.
+ *
+ * @returns The updated client, its ledger and the version just recorded.
+ */
+export const restructureLoan = async (input: RestructureLoanInput): Promise<RestructureLoanResult> => {
+  const { data, error } = await supabase.rpc('restructure_loan', {
+    p_loan_id: input.loanId,
+    p_date: input.date,
+    p_terms: input.terms,
+    p_schedule: input.schedule,
+    p_interest_write_off: input.interestWriteOff,
+    p_reason: input.reason,
+  });
+
+  if (error) {
+    console.error("Error restructuring loan in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    client: data.client as Client,
+    transactions: (data.transactions || []).map(fromDbRow),
+    version: termsVersionFromDbRow(data.version),
+  };
+};
+
+export interface WriteOffClientInput {
+  clientId: string;
+  date: string; // YYYY-MM-DD
+  reason: string;
+}
+
+export interface WriteOffClientResult {
+  client: Client;
+  transactions: Transaction[];
+  writeOff: WriteOff;
+}
+
+/**
+ * Writes off a client's whole outstanding balance in one server-side transaction.
+ * The `write_off_client` RPC (owner/admin only; the caller is recorded as approver)
+ * books one WRITE_OFF per loan with balance (bad-debt expense against the
+ * portfolio, no cash), records the write-off and moves the client to BAD_DEBT.
+ *
+ * @returns The updated client, its ledger and the write-off just recorded.
  */
-export const recalculateClientTransactions = async (clientId: string, currentTransactionsList: Transaction[]) => {
-  // 1. Get all transactions for this client
-  const clientTx = currentTransactionsList
-    .filter(t => t.clientId === clientId)
-    .sort((a, b) => {
-        // Primary Sort: Date
-        const dateDiff = new Date(a.date).getTime() - new Date(b.date).getTime();
-        if (dateDiff !== 0) return dateDiff;
-        
-        // Secondary Sort: CreatedAt Timestamp (Critical for same-day operations)
-        // If createdAt is missing, fallback to 0 to avoid NaN sort issues
-        const timeA = a.createdAt || 0;
-        const timeB = b.createdAt || 0;
-        if (timeA !== timeB) return timeA - timeB;
-
-        // Tertiary Sort: ID (Deterministic tie-breaker)
-        return a.id.localeCompare(b.id);
-    });
-
-  // 2. Recalculate running balance
-  let runningBalance = 0;
-  
-  const updatedClientTx = clientTx.map(t => {
-      let change = 0;
-      // Ensure number safety against strings or undefined
-      const amount = Number(t.amount) || 0; 
-
-      switch (t.type) {
-          case TransactionType.DISBURSEMENT:
-          case TransactionType.REFINANCE:
-          case TransactionType.REDIRECT_IN: // Receiving money increases debt
-              change = amount;
-              break;
-              
-          case TransactionType.PAYMENT_CAPITAL:
-          case TransactionType.REDIRECT_OUT: // Sending money (paying someone else) reduces debt
-              change = -amount;
-              break;
-              
-          case TransactionType.SETTLEMENT:
-              // Settlement reduces balance to 0, or reduces by specific amount if partial.
-              // Logic: Usually settlements are "payments" to close debt.
-              change = -amount; 
-              break;
-              
-          case TransactionType.PAYMENT_INTEREST:
-              // Interest payments do NOT affect capital balance in this model
-              change = 0;
-              break;
-              
-          default:
-              change = 0;
-      }
-      
-      runningBalance = safeAdd(runningBalance, change);
-      
-      // Force 0 if very close to 0 (floating point dust)
-      if (Math.abs(runningBalance) < 0.01) runningBalance = 0;
-      
-      // Return transaction with updated balance AND ensure organization_id is preserved for RLS
-      return { 
-        ...t, 
-        balanceAfter: runningBalance,
-        // Fallback for legacy data without org_id, though createClient should catch this
-        organization_id: t.organization_id 
-      };
+export const writeOffClient = async (input: WriteOffClientInput): Promise<WriteOffClientResult> => {
+  const { data, error } = await supabase.rpc('write_off_client', {
+    p_client_id: input.clientId,
+    p_date: input.date,
+    p_reason: input.reason,
   });
 
-  // 3. Update Supabase
-  // We perform an upsert to ensure all calculated balances are saved to the backend.
-  // In a high-scale production app, we would only update rows where balanceAfter changed.
-  if (updatedClientTx.length > 0) {
-      // Sanitize payload: Map camelCase TS types to snake_case DB types
-      const cleanPayload = updatedClientTx.map((tx) => {
-          const { id, organization_id, clientId, date, type, amount, interestPaid, capitalPaid, balanceAfter, notes, relatedTransactionId, relatedClientId, bankAccountId, receiptUrl, createdAt } = tx;
-          
-          return {
-              id, 
-              organization_id, 
-              clientId, 
-              date, 
-              type, 
-              amount, 
-              interestPaid, 
-              capitalPaid, 
-              balanceAfter, 
-              notes, 
-              relatedTransactionId, 
-              relatedClientId, 
-              bankAccountId, 
-              receiptUrl,
-              created_at: createdAt ? new Date(createdAt).toISOString() : new Date().toISOString() // MAP createdAt -> created_at
-          };
-      });
-
-      const { error } = await supabase.from('transactions').upsert(cleanPayload);
-      
-      if (error) {
-        console.error("Error recalculating balances in DB:", error);
-        // Don't throw immediately to allow UI to show state, but log specific error
-        throw new Error(`Sync Error: ${error.message}`);
-      }
+  if (error) {
+    console.error("Error writing off client in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    client: data.client as Client,
+    transactions: (data.transactions || []).map(fromDbRow),
+    writeOff: writeOffFromDbRow(data.write_off),
+  };
+};
+
+export interface RecordRecoveryInput {
+  clientId: string;
+  amount: number;
+  date: string; // YYYY-MM-DD
+  bankAccountId: string;
+  notes?: string;
+}
+
+export interface RecordRecoveryResult {
+  client: Client;
+  transactions: Transaction[];
+  bankBalance: number | null;
+}
+
+/**
+ * Records cash collected from a written-off client as a RECOVERY movement:
+ * recovery income into the given account, neutral to the (already zero)
+ * balance. The server caps the total recovered at the amount written off.
+ *
+ * @returns The client, its ledger and the authoritative bank balance.
+ */
+export const recordRecovery = async (input: RecordRecoveryInput): Promise<RecordRecoveryResult> => {
+  const { data, error } = await supabase.rpc('record_recovery', {
+    p_client_id: input.clientId,
+    p_amount: input.amount,
+    p_date: input.date,
+    p_bank_account_id: input.bankAccountId,
+    p_notes: input.notes || null,
+  });
+
+  if (error) {
+    console.error("Error recording recovery in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    client: data.client as Client,
+    transactions: (data.transactions || []).map(fromDbRow),
+    bankBalance: data.bank_balance === null || data.bank_balance === undefined ? null : Number(data.bank_balance),
+  };
+};
+
+export interface TransferResult {
+  transactions: Transaction[];
+  banks: { id: string; balance: number }[];
+}
+
+/**
+ * Moves money between two bank/cash accounts in one server-side transaction.
+ * The `transfer_between_accounts` RPC books a BANK_TRANSFER_OUT on the source, a
+ * BANK_TRANSFER_IN on the destination (each linked to the other through
+ * relatedTransactionId) and, when `fee` > 0, a BANK_FEE on the source.
+ * Between accounts in different currencies `rate` is required: destination
+ * units per source unit (the destination leg receives `amount * rate`).
+ *
+ * @returns The inserted legs and the authoritative balances of both accounts.
+ */
+export const transferBetweenAccounts = async (fromBankId: string, toBankId: string, amount: number, fee: number, note?: string, rate?: number): Promise<TransferResult> => {
+  const { data, error } = await supabase.rpc('transfer_between_accounts', {
+    p_from_bank_id: fromBankId,
+    p_to_bank_id: toBankId,
+    p_amount: amount,
+    p_fee: fee,
+    p_note: note || null,
+    p_rate: rate || null,
+  });
+
+  if (error) {
+    console.error("Error transferring between accounts in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    transactions: (data?.transactions || []).map(fromDbRow),
+    banks: (data?.banks || []).map((b: any) => ({ id: String(b.id), balance: Number(b.balance) || 0 })),
+  };
+};
+
+/**
+ * Reverses a whole transfer from any of its rows. The `reverse_transfer` RPC voids the
+ * BANK_TRANSFER_OUT, its BANK_TRANSFER_IN and the BANK_FEE together, each with its own
+ * REVERSAL, so the clearing account never keeps half a transfer.
+ *
+ * @returns The voided rows, their REVERSAL rows and the balances of the accounts involved.
+ */
+export const reverseTransfer = async (transactionId: string, reason: string): Promise<TransferResult> => {
+  const { data, error } = await supabase.rpc('reverse_transfer', { p_tx_id: transactionId, p_reason: reason });
+
+  if (error) {
+    console.error("Error reversing transfer in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
+  }
+
+  return {
+    transactions: (data?.transactions || []).map(fromDbRow),
+    banks: (data?.banks || []).map((b: any) => ({ id: String(b.id), balance: Number(b.balance) || 0 })),
+  };
+};
+
+export interface ReverseTransactionResult {
+  transactions: Transaction[];
+  banks: { id: string; balance: number }[];
+}
+
+/**
+ * Reverses (voids) a transaction with a linked REVERSAL contra-entry instead of deleting it.
+ * The `reverse_transaction` RPC marks the original (and its child rows: penalty, redirect
+ * counterpart) as voided with the given reason, books the inverse bank delta and
+ * recalculates the affected ledgers in one Postgres transaction.
+ *
+ * @returns The full ledgers of every affected client and the updated bank balances.
+ */
+export const reverseTransaction = async (transactionId: string, reason: string): Promise<ReverseTransactionResult> => {
+  const { data, error } = await supabase.rpc('reverse_transaction', { p_tx_id: transactionId, p_reason: reason });
+
+  if (error) {
+    console.error("Error reversing transaction in DB:", error);
+    throw new Error(`Sync Error: ${error.message}`);
   }
 
-  return updatedClientTx;
+  return {
+    transactions: (data?.transactions || []).map(fromDbRow),
+    banks: (data?.banks || []).map((b: any) => ({ id: b.id, balance: Number(b.balance) || 0 })),
+  };
 };
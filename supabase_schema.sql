@@ -57,6 +57,8 @@ create table if not exists public.organizations (
   name text not null,
   slug text,
   owner_id uuid references auth.users(id) on delete set null,
+  currency text not null default 'COP' check (currency ~ '^[A-Z]{3}$'),
+  restrict_client_visibility boolean not null default false,
   created_at timestamptz default now()
 );
 
@@ -147,6 +149,8 @@ create table if not exists public.settings (
   api_key text,
   n8n_webhook_url text,
   max_card_limit numeric default 500,
+  penalty_policy jsonb,
+  lending_policy jsonb, -- { maxPerClient, groupLimit, groupBy } (scripts/migration_lending_limits.sql)
   ai_provider text default 'GEMINI',
   ai_api_key text,
   ai_agent_name text default 'LuchoBot',
@@ -181,16 +185,38 @@ create table if not exists public.clients (
   "loanTermMonths" numeric,
   "installmentsCount" numeric,
   "installmentAmount" numeric,
+  "paymentSchedule" jsonb constraint clients_payment_schedule_is_array check ("paymentSchedule" is null or jsonb_typeof("paymentSchedule") = 'array'),
   "pendingRedirectionBalance" numeric,
   "redirectionWaitDays" numeric,
   "guarantorName" text,
   "guarantorPhone" text,
   notes text,
+  "assignedTo" uuid references auth.users(id) on delete set null,
   created_at timestamptz default now()
 );
 
 create index if not exists idx_clients_org on public.clients(organization_id);
 create index if not exists idx_clients_org_status on public.clients(organization_id, status);
+create index if not exists idx_clients_org_assigned on public.clients(organization_id, "assignedTo");
+-- Asignación a cobradores y visibilidad restringida: scripts/migration_client_assignment.sql
+-- Lista paginada (vista client_list, search_clients): scripts/migration_client_list.sql
+
+-- Resumen de cartera por cliente; lo mantienen triggers sobre transactions
+-- (scripts/migration_client_portfolio.sql). Solo lectura para la app.
+create table if not exists public.client_portfolio (
+  client_id uuid primary key references public.clients(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  balance numeric not null default 0,
+  total_disbursed numeric not null default 0,
+  capital_collected numeric not null default 0,
+  interest_collected numeric not null default 0,
+  penalty_collected numeric not null default 0,
+  last_tx_date text,
+  last_payment_date text,
+  updated_at timestamptz default now()
+);
+
+create index if not exists idx_client_portfolio_org on public.client_portfolio(organization_id);
 
 -- ----------------------------------------------------------------------------
 -- 8. TRANSACTIONS (camelCase - igual que clients)
@@ -210,16 +236,22 @@ create table if not exists public.transactions (
   "relatedTransactionId" text,
   "relatedClientId" text,
   "bankAccountId" text,
+  "exchangeRate" numeric not null default 1 check ("exchangeRate" > 0),
   "receiptUrl" text,
+  voided boolean not null default false,
+  "voidReason" text,
   created_at timestamptz default now()
 );
 
 create index if not exists idx_tx_org on public.transactions(organization_id);
 create index if not exists idx_tx_client on public.transactions("clientId");
 create index if not exists idx_tx_org_date on public.transactions(organization_id, date);
+create index if not exists idx_tx_client_order on public.transactions("clientId", date, created_at, id);
 
 -- ----------------------------------------------------------------------------
--- 9. BANK ACCOUNTS (camelCase)
+-- 9. BANK ACCOUNTS (camelCase). currency null = moneda de la organización;
+--    multimoneda y tasas de cambio: scripts/migration_multi_currency.sql
+--    Archivo, renombre y prueba de saldo: scripts/migration_bank_account_lifecycle.sql
 -- ----------------------------------------------------------------------------
 create table if not exists public.bank_accounts (
   id uuid primary key default gen_random_uuid(),
@@ -228,11 +260,280 @@ create table if not exists public.bank_accounts (
   "accountNumber" text,
   balance numeric default 0,
   "isCash" boolean default false,
+  "statementMapping" jsonb,
+  currency text check (currency ~ '^[A-Z]{3}$'),
+  "archivedAt" timestamptz,
   created_at timestamptz default now()
 );
 
 create index if not exists idx_banks_org on public.bank_accounts(organization_id);
 
+-- ----------------------------------------------------------------------------
+-- 9b. LIBRO DIARIO (partida doble). bank_accounts.balance es un caché del
+--     diario. Posteo, plan de cuentas y vista de saldos:
+--     scripts/migration_general_ledger.sql
+--     Verificación y reparación de descuadres (saldos de clientes y cuentas):
+--     scripts/migration_balance_integrity.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.ledger_accounts (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  code text not null,
+  name text not null,
+  kind text not null check (kind in ('ASSET','LIABILITY','EQUITY','INCOME','EXPENSE')),
+  system_key text not null check (system_key in ('BANK','CLEARING','LOANS_RECEIVABLE','OWNER_EQUITY','INTEREST_INCOME','PENALTY_INCOME','BAD_DEBT_EXPENSE','BANK_FEE_EXPENSE','RECOVERY_INCOME')),
+  bank_account_id text,
+  created_at timestamptz default now(),
+  unique (organization_id, code)
+);
+
+create table if not exists public.journal_entries (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  source text not null check (source in ('TRANSACTION','OPENING')),
+  transaction_id text,
+  date text not null,
+  description text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.journal_lines (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references public.journal_entries(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  account_id uuid not null references public.ledger_accounts(id),
+  debit numeric not null default 0 check (debit >= 0),
+  credit numeric not null default 0 check (credit >= 0),
+  amount_currency numeric,
+  constraint journal_lines_one_side check (debit = 0 or credit = 0)
+);
+
+-- ----------------------------------------------------------------------------
+-- 9c. CIERRES CONTABLES (foto mensual). Bloqueo de fechas cerradas y RPCs
+--     close_period / reopen_period: scripts/migration_period_close.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.accounting_periods (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  period text not null check (period ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  closed_at timestamptz default now(),
+  closed_by uuid default auth.uid(),
+  bank_balances jsonb not null default '[]'::jsonb,
+  portfolio_total numeric not null default 0,
+  interest_income numeric not null default 0,
+  penalty_income numeric not null default 0,
+  unique (organization_id, period)
+);
+
+-- ----------------------------------------------------------------------------
+-- 9d. ARQUEO DE CAJA (sesión diaria por caja). Apertura/cierre sellado y
+--     vista cash_session_status: scripts/migration_cash_sessions.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.cash_sessions (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  bank_account_id text not null,
+  collector_id uuid not null default auth.uid(),
+  date text not null,
+  status text not null default 'OPEN' check (status in ('OPEN','CLOSED')),
+  opening_balance numeric not null default 0,
+  opened_at timestamptz default now(),
+  expected_inflow numeric,
+  expected_outflow numeric,
+  expected_balance numeric,
+  counted_amount numeric,
+  difference numeric,
+  explanation text,
+  closed_at timestamptz,
+  signature text,
+  unique (bank_account_id, date)
+);
+create unique index if not exists cash_sessions_one_open
+  on public.cash_sessions (bank_account_id) where status = 'OPEN';
+
+-- ----------------------------------------------------------------------------
+-- 9e. EXTRACTOS BANCARIOS (importación CSV/OFX y conciliación). RPCs de
+--     importación y cruce: scripts/migration_bank_statements.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.bank_statement_imports (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  bank_account_id text not null,
+  file_name text,
+  format text not null check (format in ('CSV','OFX')),
+  line_count int not null default 0,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.bank_statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  import_id uuid not null references public.bank_statement_imports(id) on delete cascade,
+  bank_account_id text not null,
+  date text not null,
+  description text,
+  reference text,
+  amount numeric not null,
+  fingerprint text not null,
+  status text not null default 'UNMATCHED' check (status in ('UNMATCHED','MATCHED','CREATED','IGNORED')),
+  transaction_id text,
+  matched_by uuid,
+  matched_at timestamptz,
+  auto_matched boolean not null default false,
+  unique (bank_account_id, fingerprint)
+);
+create unique index if not exists bank_statement_lines_tx_uniq
+  on public.bank_statement_lines (transaction_id) where transaction_id is not null;
+
+-- ----------------------------------------------------------------------------
+-- 9f. RUTA DEL DÍA (una por cobrador y fecha, con sus paradas). RPCs de armado,
+--     orden, visitas y cierre: scripts/migration_collection_routes.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.collection_routes (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  date text not null,
+  collector_id uuid not null,
+  order_mode text not null default 'SEQUENCE' check (order_mode in ('SEQUENCE','NEIGHBORHOOD')),
+  status text not null default 'OPEN' check (status in ('OPEN','CLOSED')),
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  expected_total numeric,
+  collected_total numeric,
+  closed_at timestamptz,
+  unique (organization_id, collector_id, date)
+);
+
+create table if not exists public.collection_route_stops (
+  id uuid primary key default gen_random_uuid(),
+  route_id uuid not null references public.collection_routes(id) on delete cascade,
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  position int not null,
+  neighborhood text,
+  expected_amount numeric not null default 0,
+  status text not null default 'PENDING' check (status in ('PENDING','VISITED','PAID','PROMISED','NOT_HOME')),
+  note text,
+  visited_at timestamptz,
+  unique (route_id, client_id)
+);
+
+-- ----------------------------------------------------------------------------
+-- 9g. PROMESAS DE PAGO (a lo sumo una pendiente por cliente). Cumplimiento
+--     automático, estado efectivo y RPCs: scripts/migration_payment_promises.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.payment_promises (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  promised_date text not null,
+  amount numeric not null check (amount > 0),
+  status text not null default 'PENDING' check (status in ('PENDING','KEPT','BROKEN','CANCELLED')),
+  note text,
+  source text not null default 'MANUAL' check (source in ('MANUAL','ROUTE','AI')),
+  route_stop_id uuid references public.collection_route_stops(id) on delete set null,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  resolved_at timestamptz,
+  kept_transaction_id uuid
+);
+create index if not exists payment_promises_org_date_idx on public.payment_promises (organization_id, promised_date);
+create unique index if not exists payment_promises_one_pending_idx on public.payment_promises (client_id) where status = 'PENDING';
+
+-- ----------------------------------------------------------------------------
+-- 9h. EXCEPCIONES DE CUPO (autorizaciones de un solo uso del propietario). El
+--     trigger que valida cupos y exposición: scripts/migration_lending_limits.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.lending_overrides (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  reason text not null,
+  violations jsonb not null default '[]'::jsonb,
+  approved_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  expires_at timestamptz not null default now() + interval '15 minutes',
+  transaction_id uuid
+);
+create index if not exists lending_overrides_client_idx on public.lending_overrides (client_id, created_at desc);
+
+-- ----------------------------------------------------------------------------
+-- 9i. PRÉSTAMOS (varios por cliente; cada movimiento apunta a uno). Saldos,
+--     plan unido en clients y triggers: scripts/migration_loans.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.loans (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  label text,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE','PAID','WRITTEN_OFF')),
+  start_date text,
+  principal numeric not null default 0,
+  balance numeric not null default 0,
+  interest_rate numeric,
+  interest_type text,
+  payment_frequency text,
+  loan_term_months numeric,
+  installments_count numeric,
+  installment_amount numeric,
+  payment_schedule jsonb not null default '[]'::jsonb check (jsonb_typeof(payment_schedule) = 'array'),
+  next_payment_date text,
+  restructure_count integer not null default 0,
+  restructured_at timestamptz,
+  created_at timestamptz default now(),
+  closed_at timestamptz
+);
+create index if not exists loans_client_idx on public.loans (client_id, created_at);
+
+alter table public.transactions add column if not exists "loanId" uuid references public.loans(id) on delete set null;
+create index if not exists idx_tx_loan on public.transactions("loanId");
+
+-- ----------------------------------------------------------------------------
+-- 9j. VERSIONES DE CONDICIONES (una por reestructuración: condiciones y plan
+--     anteriores y nuevos). RPC restructure_loan: scripts/migration_loan_restructure.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.loan_terms_history (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  loan_id uuid not null references public.loans(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  version integer not null,
+  transaction_id uuid references public.transactions(id) on delete set null,
+  effective_date text not null,
+  reason text not null,
+  balance numeric not null default 0,
+  accrued_interest numeric not null default 0,
+  interest_written_off numeric not null default 0,
+  capitalized_interest numeric not null default 0,
+  previous_terms jsonb not null,
+  new_terms jsonb not null,
+  created_by uuid default auth.uid(),
+  created_at timestamptz default now(),
+  unique (loan_id, version)
+);
+create index if not exists loan_terms_history_client_idx on public.loan_terms_history (client_id, created_at desc);
+
+-- ----------------------------------------------------------------------------
+-- 9k. CASTIGOS DE CARTERA (saldo dado de baja, motivo y aprobador). RPCs
+--     write_off_client / record_recovery: scripts/migration_write_offs.sql
+-- ----------------------------------------------------------------------------
+create table if not exists public.write_offs (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  client_id uuid not null references public.clients(id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  reason text not null,
+  date text not null,
+  loans jsonb not null default '[]'::jsonb,
+  approved_by uuid default auth.uid(),
+  created_at timestamptz default now()
+);
+create index if not exists write_offs_org_idx on public.write_offs (organization_id, date);
+create index if not exists write_offs_client_idx on public.write_offs (client_id, created_at desc);
+
 -- ----------------------------------------------------------------------------
 -- 10. AUDIT LOGS
 -- ----------------------------------------------------------------------------
@@ -293,6 +594,21 @@ alter table public.bank_accounts enable row level security;
 alter table public.audit_logs enable row level security;
 alter table public.permissions_definition enable row level security;
 alter table public.member_permissions enable row level security;
+alter table public.ledger_accounts enable row level security;
+alter table public.journal_entries enable row level security;
+alter table public.journal_lines enable row level security;
+alter table public.accounting_periods enable row level security;
+alter table public.cash_sessions enable row level security;
+alter table public.bank_statement_imports enable row level security;
+alter table public.bank_statement_lines enable row level security;
+alter table public.client_portfolio enable row level security;
+alter table public.collection_routes enable row level security;
+alter table public.collection_route_stops enable row level security;
+alter table public.payment_promises enable row level security;
+alter table public.lending_overrides enable row level security;
+alter table public.loans enable row level security;
+alter table public.loan_terms_history enable row level security;
+alter table public.write_offs enable row level security;
 
 -- PROFILES
 create policy "profiles_select_self_or_comember" on public.profiles
@@ -404,6 +720,29 @@ as $$
       );
 $$;
 
+-- Cartera por cobrador (organizations.restrict_client_visibility): el operador
+-- solo ve sus clientes y los movimientos de ellos. [migracion client_assignment]
+create or replace function private.can_see_client(p_org uuid, p_assigned uuid)
+returns boolean
+language sql stable
+security definer set search_path = ''
+as $$
+  select p_assigned = auth.uid()
+      or not coalesce((select o.restrict_client_visibility from public.organizations o where o.id = p_org), false)
+      or private.is_org_admin(p_org);
+$$;
+
+create or replace function private.can_see_client_tx(p_org uuid, p_client_id text)
+returns boolean
+language sql stable
+security definer set search_path = ''
+as $$
+  select coalesce(
+    (select private.can_see_client(p_org, c."assignedTo") from public.clients c where c.id::text = p_client_id),
+    true
+  );
+$$;
+
 -- SETTINGS (SELECT abierto a miembros para que cargue la app)
 create policy "settings_select" on public.settings
   for select to authenticated using (private.is_org_member(organization_id));
@@ -416,7 +755,9 @@ create policy "settings_update" on public.settings
 
 -- CLIENTS
 create policy "clients_select" on public.clients
-  for select to authenticated using (private.is_org_member(organization_id));
+  for select to authenticated using (
+    private.is_org_member(organization_id) and private.can_see_client(organization_id, "assignedTo")
+  );
 create policy "clients_insert" on public.clients
   for insert to authenticated with check (private.has_perm(organization_id, 'create_clients'));
 create policy "clients_update" on public.clients
@@ -428,17 +769,27 @@ create policy "clients_delete" on public.clients
 
 -- TRANSACTIONS (UPDATE permitido a create/delete por el recalculo de balances)
 create policy "transactions_select" on public.transactions
-  for select to authenticated using (private.is_org_member(organization_id));
+  for select to authenticated using (
+    private.is_org_member(organization_id) and private.can_see_client_tx(organization_id, "clientId")
+  );
 create policy "transactions_insert" on public.transactions
   for insert to authenticated with check (private.has_perm(organization_id, 'create_transactions'));
 create policy "transactions_update" on public.transactions
   for update to authenticated
   using (private.has_perm(organization_id, 'create_transactions') or private.has_perm(organization_id, 'delete_transactions'))
   with check (private.has_perm(organization_id, 'create_transactions') or private.has_perm(organization_id, 'delete_transactions'));
+-- DELETE = purga física, solo el propietario (lo normal es reversar).
 create policy "transactions_delete" on public.transactions
-  for delete to authenticated using (private.has_perm(organization_id, 'delete_transactions'));
+  for delete to authenticated using (
+    exists (
+      select 1 from public.organization_members m
+       where m.organization_id = transactions.organization_id
+         and m.user_id = (select auth.uid())
+         and m.role = 'owner'
+    )
+  );
 
--- BANK ACCOUNTS (UPDATE de saldo ocurre al registrar/eliminar transacciones)
+-- BANK ACCOUNTS (el saldo solo cambia vía posteo del libro diario)
 create policy "banks_select" on public.bank_accounts
   for select to authenticated using (private.is_org_member(organization_id));
 create policy "banks_insert" on public.bank_accounts
@@ -450,6 +801,85 @@ create policy "banks_update" on public.bank_accounts
 create policy "banks_delete" on public.bank_accounts
   for delete to authenticated using (private.has_perm(organization_id, 'manage_banks'));
 
+-- LIBRO DIARIO (solo lectura para miembros; lo escribe únicamente el posteo)
+create policy "ledger_accounts_select" on public.ledger_accounts
+  for select to authenticated using (private.is_org_member(organization_id));
+create policy "journal_entries_select" on public.journal_entries
+  for select to authenticated using (private.is_org_member(organization_id));
+create policy "journal_lines_select" on public.journal_lines
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- CIERRES CONTABLES (solo lectura; se escriben vía close_period/reopen_period)
+create policy "accounting_periods_select" on public.accounting_periods
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- ARQUEO DE CAJA (el cobrador ve las suyas; propietario/admin, todas)
+create policy "cash_sessions_select" on public.cash_sessions
+  for select to authenticated using (
+    collector_id = (select auth.uid()) or private.is_org_admin(organization_id)
+  );
+
+-- EXTRACTOS BANCARIOS (solo lectura; se escriben vía las RPC de importación)
+create policy "bank_statement_imports_select" on public.bank_statement_imports
+  for select to authenticated using (private.is_org_member(organization_id));
+create policy "bank_statement_lines_select" on public.bank_statement_lines
+  for select to authenticated using (private.is_org_member(organization_id));
+
+-- RESUMEN DE CARTERA (solo lectura; lo escriben los triggers)
+create policy "client_portfolio_select" on public.client_portfolio
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+-- RUTA DEL DÍA (el cobrador ve las suyas; propietario/admin, todas)
+create policy "collection_routes_select" on public.collection_routes
+  for select to authenticated using (
+    collector_id = (select auth.uid()) or private.is_org_admin(organization_id)
+  );
+create policy "collection_route_stops_select" on public.collection_route_stops
+  for select to authenticated using (
+    exists (select 1 from public.collection_routes r
+             where r.id = route_id
+               and (r.collector_id = (select auth.uid()) or private.is_org_admin(r.organization_id)))
+  );
+
+-- PROMESAS DE PAGO (quien ve al cliente ve sus promesas; se escriben vía RPC)
+create policy "payment_promises_select" on public.payment_promises
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+-- EXCEPCIONES DE CUPO (propietario/admin; las crea authorize_lending_override)
+create policy "lending_overrides_select" on public.lending_overrides
+  for select to authenticated using (private.is_org_admin(organization_id));
+
+-- PRÉSTAMOS (quien ve al cliente ve sus préstamos; la app solo edita condiciones y plan)
+create policy "loans_select" on public.loans
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+create policy "loans_update" on public.loans
+  for update to authenticated
+  using (private.has_perm(organization_id, 'create_transactions'))
+  with check (private.has_perm(organization_id, 'create_transactions'));
+
+-- VERSIONES DE CONDICIONES (mismo alcance que los préstamos; solo las escribe restructure_loan)
+create policy "loan_terms_history_select" on public.loan_terms_history
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
+-- CASTIGOS (solo los escribe write_off_client)
+create policy "write_offs_select" on public.write_offs
+  for select to authenticated using (
+    private.is_org_member(organization_id)
+    and exists (select 1 from public.clients c where c.id = client_id)
+  );
+
 -- AUDIT LOGS (lectura restringida a view_audit_logs; insert abierto a miembros)
 create policy "audit_select" on public.audit_logs
   for select to authenticated using (private.has_perm(organization_id, 'view_audit_logs'));
@@ -7,6 +7,11 @@ export enum TransactionType {
   REDIRECT_OUT = 'REDIRECT_OUT', // This client PAYS, but money goes to Another Client (Reduces This Client's debt)
   REDIRECT_IN = 'REDIRECT_IN', // This client RECEIVES money from Another Client (Increases This Client's debt)
   SETTLEMENT = 'SETTLEMENT', // Closing the credit manually
+  PAYMENT_PENALTY = 'PAYMENT_PENALTY', // Late fee (mora) collected; does not touch principal
+  REVERSAL = 'REVERSAL', // Contra-entry of a voided transaction (relatedTransactionId → original); neutral
+  RESTRUCTURE = 'RESTRUCTURE', // Loan restructured with new terms (amount 0); starts a new schedule, neutral
+  WRITE_OFF = 'WRITE_OFF', // Outstanding loan balance written off as bad debt (reduces debt, no cash)
+  RECOVERY = 'RECOVERY', // Cash collected from a written-off client; recovery income, neutral to balance
 }
 
 export type ClientStatus = 'ACTIVE' | 'INACTIVE' | 'BAD_DEBT';
@@ -24,6 +29,8 @@ export interface Organization {
   name: string;
   slug?: string;
   owner_id?: string;
+  currency?: string; // ISO 4217 code; defaults to COP. Locked once the organization has transactions
+  restrict_client_visibility?: boolean; // Members only see the clients assigned to them
   created_at?: string;
 }
 
@@ -54,8 +61,287 @@ export interface BankAccount {
   organization_id?: string;
   name: string; // e.g., "Bancolombia Ahorros"
   accountNumber: string;
-  balance: number;
+  balance: number; // Cache of the general ledger; only journal posting changes it
   isCash: boolean; // true if it is "Efectivo" or "Caja Menor"
+  currency?: string | null; // null = organization currency; balance is always in this currency
+  archivedAt?: string | null; // Soft-archived: hidden from selectors, history kept. Only zero-balance accounts
+  statementMapping?: StatementMapping | null; // CSV column layout of this bank's statements
+}
+
+// Balance proof of a bank account: opening entries plus the effect of every
+// live (non-voided) transaction, compared with the stored balance and the journal.
+export interface BalanceProofRow {
+  transactionId: string;
+  date: string;
+  type: string;
+  notes?: string | null;
+  amount: number;
+  effect: number; // Signed, in the account currency
+  running: number;
+}
+
+export interface BalanceProof {
+  bankAccountId: string;
+  opening: number;
+  movements: number;
+  recomputed: number;
+  stored: number; // bank_accounts.balance
+  journal: number;
+  drift: number; // stored - recomputed
+  rows: BalanceProofRow[];
+}
+
+// Integrity check of an organization: stored balances that no longer match what
+// the raw transactions imply, with the transactions that caused the difference.
+export interface ClientDriftRow {
+  transactionId: string;
+  date: string;
+  type: string;
+  amount: number;
+  stored: number; // balanceAfter as saved
+  expected: number; // Running balance recomputed from the transactions
+}
+
+export interface ClientDrift {
+  clientId: string;
+  clientName: string;
+  stored: number;
+  expected: number;
+  mismatches: number; // Total rows off; `transactions` lists the first 20
+  transactions: ClientDriftRow[];
+}
+
+export interface BankDriftRow {
+  transactionId: string; // May point to a purged transaction (type 'HUÉRFANO')
+  date?: string | null;
+  type: string;
+  amount?: number | null;
+  gap: number; // Expected minus posted effect on the account
+}
+
+export interface BankDrift {
+  bankAccountId: string;
+  name: string;
+  stored: number;
+  journal: number;
+  recomputed: number;
+  drift: number; // stored - recomputed
+  transactions: BankDriftRow[];
+}
+
+export interface DriftReport {
+  checkedAt: string;
+  clients: ClientDrift[];
+  banks: BankDrift[];
+}
+
+// CSV statement layout. Columns are 0-based; use amountColumn for a signed
+// amount, or debitColumn/creditColumn when the bank splits them.
+export interface StatementMapping {
+  preset?: string;
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'YYYYMMDD' | 'YYYY/MM/DD';
+  descriptionColumn: number;
+  referenceColumn?: number | null;
+  amountColumn?: number | null;
+  debitColumn?: number | null;
+  creditColumn?: number | null;
+  decimalSeparator: '.' | ',';
+}
+
+// Normalized statement line (amount > 0 credits the account)
+export interface ParsedStatementLine {
+  date: string; // YYYY-MM-DD
+  description: string;
+  reference: string;
+  amount: number;
+}
+
+// Statement row that looks like a movement but cannot be read (e.g. 31/02/2026)
+export interface StatementParseError {
+  row: number; // 1-based line of the CSV file, or <STMTTRN> position in an OFX
+  message: string;
+}
+
+export interface StatementParseResult {
+  lines: ParsedStatementLine[];
+  errors: StatementParseError[];
+}
+
+export type StatementLineStatus = 'UNMATCHED' | 'MATCHED' | 'CREATED' | 'IGNORED';
+
+export interface BankStatementLine extends ParsedStatementLine {
+  id: string;
+  importId: string;
+  bankAccountId: string;
+  status: StatementLineStatus;
+  transactionId?: string | null;
+  autoMatched: boolean;
+  matchedAt?: string | null;
+}
+
+// General ledger (double-entry): balance per ledger account, derived from journal_lines
+export type LedgerAccountKind = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'INCOME' | 'EXPENSE';
+export type LedgerSystemKey = 'BANK' | 'CLEARING' | 'LOANS_RECEIVABLE' | 'OWNER_EQUITY' | 'INTEREST_INCOME' | 'PENALTY_INCOME' | 'BAD_DEBT_EXPENSE' | 'BANK_FEE_EXPENSE' | 'RECOVERY_INCOME';
+
+export interface LedgerAccountBalance {
+  id: string;
+  organization_id?: string;
+  code: string;
+  name: string;
+  kind: LedgerAccountKind;
+  system_key: LedgerSystemKey;
+  bank_account_id?: string | null;
+  debit: number;
+  credit: number;
+  balance: number; // Natural sign: debit-side for ASSET/EXPENSE, credit-side otherwise
+}
+
+// Month-end close: snapshot taken when the owner locks a period (YYYY-MM)
+export interface AccountingPeriod {
+  id: string;
+  organization_id?: string;
+  period: string; // YYYY-MM; every date up to this month is locked
+  closedAt: string;
+  closedBy?: string | null;
+  bankBalances: { id: string; name: string; balance: number }[]; // Per the journal at period end
+  portfolioTotal: number;
+  interestIncome: number;
+  penaltyIncome: number;
+}
+
+// Daily cash-box session (arqueo) of an isCash account
+export interface CashSession {
+  id: string;
+  organization_id?: string;
+  bankAccountId: string;
+  collectorId: string;
+  date: string; // YYYY-MM-DD
+  status: 'OPEN' | 'CLOSED';
+  openingBalance: number; // Journal balance at the end of the previous day
+  openedAt: string;
+  inflow: number; // Live for open sessions, frozen at close
+  outflow: number;
+  expectedBalance?: number | null;
+  countedAmount?: number | null;
+  difference?: number | null; // counted - expected
+  explanation?: string | null;
+  closedAt?: string | null;
+  signature?: string | null; // sha256 seal of the closing summary
+}
+
+export type RouteOrderMode = 'SEQUENCE' | 'NEIGHBORHOOD';
+export type RouteStopStatus = 'PENDING' | 'VISITED' | 'PAID' | 'PROMISED' | 'NOT_HOME';
+
+// Daily collection route of one member (ruta del día)
+export interface CollectionRoute {
+  id: string;
+  organization_id?: string;
+  date: string; // YYYY-MM-DD
+  collectorId: string;
+  orderMode: RouteOrderMode;
+  status: 'OPEN' | 'CLOSED';
+  createdAt?: string;
+  expectedTotal?: number | null; // Frozen at close
+  collectedTotal?: number | null;
+  closedAt?: string | null;
+}
+
+export interface RouteStop {
+  id: string;
+  routeId: string;
+  clientId: string;
+  clientName: string;
+  address?: string;
+  phone?: string;
+  cardCode?: string;
+  position: number; // 1-based visit order
+  neighborhood?: string | null; // Parsed from the client's address
+  expectedAmount: number; // Unpaid installments due up to the route date
+  collected: number; // Payments dated on the route day (live)
+  status: RouteStopStatus; // As marked by the collector
+  effectiveStatus: RouteStopStatus; // PAID when unmarked but a payment came in
+  note?: string | null;
+  visitedAt?: string | null;
+}
+
+export type PaymentPromiseStatus = 'PENDING' | 'KEPT' | 'BROKEN' | 'CANCELLED';
+export type PaymentPromiseSource = 'MANUAL' | 'ROUTE' | 'AI';
+
+export interface PaymentPromise {
+  id: string;
+  organization_id: string;
+  clientId: string;
+  clientName: string;
+  cardCode?: string;
+  phone?: string;
+  promisedDate: string; // YYYY-MM-DD
+  amount: number;
+  status: PaymentPromiseStatus; // As stored
+  effectiveStatus: PaymentPromiseStatus; // BROKEN once the date passes still pending
+  note?: string | null;
+  source: PaymentPromiseSource;
+  routeStopId?: string | null;
+  createdBy?: string | null;
+  createdAt: string;
+  resolvedAt?: string | null;
+  keptTransactionId?: string | null; // Payment that completed the amount
+}
+
+export interface ClientPromiseStats {
+  total: number; // Excludes cancelled promises
+  kept: number;
+  broken: number;
+  pending: number;
+}
+
+// Raw payment-history inputs of the credit score (client_credit_factors view)
+export interface CreditFactors {
+  clientId: string;
+  dueInstallments: number; // Installments of the current plan already due
+  onTimeInstallments: number; // Fully paid on or before their due date
+  avgDaysLate: number | null; // Unpaid ones count up to today
+  keptPromises: number;
+  brokenPromises: number;
+  loans: number; // Disbursements + refinances
+  refinances12m: number;
+  maxExposure: number; // Highest balance right after a disbursement
+  tenureDays: number | null;
+  referrals: number;
+  badDebtReferrals: number;
+}
+
+export type CreditFactorKey = 'ON_TIME' | 'DAYS_LATE' | 'PROMISES' | 'REFINANCES' | 'TENURE' | 'REFERRALS';
+export type CreditScoreBand = 'A' | 'B' | 'C' | 'D';
+
+export interface CreditScoreFactor {
+  key: CreditFactorKey;
+  label: string;
+  detail: string; // Human readable value, e.g. "8 de 10 cuotas"
+  weight: number; // Points out of 100 when every factor applies
+  score: number | null; // 0-1; null = no data, weight is redistributed
+}
+
+export interface CreditScore {
+  score: number | null; // 0-100; null = not enough history
+  band: CreditScoreBand | null;
+  factors: CreditScoreFactor[];
+  suggestedLimit: number | null;
+}
+
+// One row of the amortization schedule (plan de pagos)
+export interface ScheduledInstallment {
+  number: number; // 1-based installment index
+  dueDate: string; // YYYY-MM-DD
+  principal: number; // Abono a capital
+  interest: number; // Parte de interés
+  payment: number; // principal + interest
+  balance: number; // Capital pendiente después de esta cuota
+  paidAmount?: number; // Cuánto se ha imputado a esta cuota (pagos de la más antigua a la más nueva)
+  paidDate?: string; // Fecha del pago que terminó de cubrirla
+  loanId?: string; // Préstamo al que pertenece (plan unido del cliente)
 }
 
 export interface Client {
@@ -70,6 +356,7 @@ export interface Client {
   workAddress?: string;
   loanLimit?: number;
   referrerId?: string; // Who referred this client?
+  assignedTo?: string | null; // Collector (member user_id) in charge; null = unassigned
 
   // Credit Lifecycle
   status: ClientStatus;
@@ -83,6 +370,7 @@ export interface Client {
   loanTermMonths?: number; // Total duration in months
   installmentsCount?: number; // Total number of payments calculated
   installmentAmount?: number; // The fixed quota value
+  paymentSchedule?: ScheduledInstallment[]; // Plan de pagos generado al desembolsar
 
   // Redirection / Funding Logic
   pendingRedirectionBalance?: number; // How much money this client is WAITING to receive
@@ -95,12 +383,128 @@ export interface Client {
   createdAt: number;
 }
 
+export type LoanStatus = 'ACTIVE' | 'PAID' | 'WRITTEN_OFF';
+
+// One of the client's loans. Its terms and schedule used to live on Client,
+// which now keeps the merged schedule of the active loans.
+export interface Loan {
+  id: string;
+  organization_id?: string;
+  clientId: string;
+  label: string; // Stored label or "Préstamo N" by opening order
+  status: LoanStatus;
+  startDate?: string; // YYYY-MM-DD
+  principal: number; // Total lent (disbursements, refinances, redirections received)
+  balance: number; // Outstanding, computed by recalculate_client_balances
+  interestRate?: number;
+  paymentFrequency?: 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+  interestType?: 'FIXED' | 'DIMINISHING';
+  loanTermMonths?: number;
+  installmentsCount?: number;
+  installmentAmount?: number;
+  paymentSchedule: ScheduledInstallment[];
+  nextPaymentDate?: string;
+  restructureCount: number;
+  restructuredAt?: string | null;
+  createdAt: string;
+  closedAt?: string | null;
+}
+
+export type LoanTerms = Pick<Loan,
+  'interestRate' | 'interestType' | 'paymentFrequency' | 'loanTermMonths' | 'installmentsCount' | 'installmentAmount'>;
+
+// One entry per restructure: the terms it replaced and the ones it applied.
+export interface LoanTermsVersion {
+  id: string;
+  loanId: string;
+  version: number; // 1 = first restructure
+  transactionId?: string | null; // The RESTRUCTURE movement
+  effectiveDate: string; // YYYY-MM-DD
+  reason: string;
+  balance: number; // Principal outstanding when restructured
+  accruedInterest: number; // Overdue interest not yet paid
+  interestWrittenOff: number;
+  capitalizedInterest: number; // accruedInterest - interestWrittenOff, spread over the new schedule
+  previousTerms: LoanTerms & { nextPaymentDate?: string; paymentSchedule?: ScheduledInstallment[] };
+  newTerms: LoanTerms;
+  createdBy?: string | null;
+  createdAt: string;
+}
+
+// A client's balance written off as bad debt (one WRITE_OFF movement per loan).
+export interface WriteOff {
+  id: string;
+  clientId: string;
+  amount: number;
+  reason: string;
+  date: string; // YYYY-MM-DD
+  loans: { loanId: string; label?: string; amount: number; transactionId: string }[];
+  approvedBy?: string | null; // Owner/admin who approved it
+  createdAt: string;
+}
+
+// Row of the server-side client list (view client_list): the client plus the
+// aggregates the list used to compute from every transaction in the browser.
+export interface ClientListItem extends Client {
+  balance: number;
+  totalDisbursed: number;
+  capitalCollected: number;
+  totalInterest: number;
+  totalPenalty: number;
+  lastTxDate: string | null;
+  lastPaymentDate: string | null;
+  isLate: boolean;
+  daysOverdue: number; // Since the oldest unpaid installment (or nextPaymentDate without a plan)
+  overdueInstallments: number;
+  overdueAmount: number;
+}
+
+// Per-client portfolio summary kept by the database (table client_portfolio).
+export type ClientPortfolioSummary = Pick<ClientListItem,
+  'balance' | 'totalDisbursed' | 'capitalCollected' | 'totalInterest' | 'totalPenalty' |
+  'lastTxDate' | 'lastPaymentDate' | 'isLate' | 'daysOverdue'>;
+
+export type ClientListFilter = 'ALL' | 'TODAY' | 'LATE' | 'WAITING';
+export type ClientListSort = 'RECENT' | 'NAME' | 'BALANCE' | 'NEXT_PAYMENT' | 'LAST_ACTIVITY';
+
+export interface ClientListStats {
+  total: number;
+  active: number;
+  dueToday: number;
+  late: number;
+  waiting: number;
+  portfolio: number; // Sum of ACTIVE client balances
+  interest: number;
+  penalty: number;
+  writtenOff: number; // Sum of write-offs (balances moved out of the portfolio)
+  recovered: number; // Collected from written-off clients afterwards
+}
+
+// Portfolio and collections of one collector over a date range
+export interface CollectorPerformance {
+  collectorId: string | null; // null = unassigned clients
+  clients: number;
+  activeClients: number; // ACTIVE with balance
+  portfolio: number;
+  lateClients: number;
+  overdueAmount: number;
+  collected: number; // Payments of the collector's clients in the range
+  routes: number;
+  routeExpected: number;
+  routeCollected: number;
+  unvisited: number; // Route stops left pending
+}
+
+// Internal bank movements (clientId null). Transfer legs point at each other
+// through relatedTransactionId; a BANK_FEE points at its BANK_TRANSFER_OUT.
+export type BankMovementType = 'BANK_DEPOSIT' | 'BANK_WITHDRAWAL' | 'BANK_TRANSFER_OUT' | 'BANK_TRANSFER_IN' | 'BANK_FEE';
+
 export interface Transaction {
   id: string;
   organization_id?: string;
   clientId: string | null; // null for internal bank movements (BANK_DEPOSIT/WITHDRAWAL)
   date: string; // YYYY-MM-DD
-  type: TransactionType | 'BANK_DEPOSIT' | 'BANK_WITHDRAWAL';
+  type: TransactionType | BankMovementType;
   amount: number;
   interestPaid: number;
   capitalPaid: number;
@@ -110,18 +514,58 @@ export interface Transaction {
   // Relationships
   relatedTransactionId?: string;
   relatedClientId?: string;
+  loanId?: string; // Loan the movement belongs to (null for bank movements)
 
   // Bank Integration
   bankAccountId?: string; // Which bank was affected?
+  exchangeRate?: number; // Account currency → organization currency; 1 unless the bank holds another currency
 
   // Proof / Support
   receiptUrl?: string; // URL to the image/pdf in storage
 
+  // Reversal
+  voided?: boolean; // Original annulled by a REVERSAL; no longer affects balances
+  voidReason?: string;
+
   // Audit
   createdAt?: number; // Timestamp for precise sorting
+
+  // Offline
+  pendingSync?: boolean; // Local only: queued offline, not yet on the server
 }
 
 // DTO for Forms
+// OFFLINE QUEUE (IndexedDB)
+export type QueuedPaymentStatus = 'PENDING' | 'SYNCING' | 'CONFLICT' | 'ERROR';
+
+export interface QueuedReceipt {
+  path: string; // Storage path already written into tx.receiptUrl
+  contentType: string;
+  data: Blob;
+}
+
+// A payment registered without connection, replayed through register_payment on reconnect.
+export interface QueuedPayment {
+  id: string; // Same as tx.id, so a replay after a lost response is detected
+  organizationId: string;
+  clientId: string;
+  clientName: string;
+  queuedAt: number;
+  tx: Transaction;
+  penalty: Transaction | null;
+  redirect: Transaction | null;
+  clientFields: Pick<Partial<Client>, 'paymentSchedule' | 'nextPaymentDate'>;
+  // What the collector saw when paying: newer server movements or another
+  // next payment date → CONFLICT. The base fields are restored on discard.
+  baseLastCreatedAt: number;
+  baseClientFields: Pick<Partial<Client>, 'paymentSchedule' | 'nextPaymentDate'>;
+  syncedIds?: string[]; // Rows of earlier queued payments already synced for this client (not a conflict)
+  receipt: QueuedReceipt | null;
+  status: QueuedPaymentStatus;
+  error?: string;
+  force?: boolean; // Conflict accepted by the user: skip the check on the next sync
+}
+
 export interface TransactionFormInput {
   type: TransactionType;
   amount: number;
@@ -133,6 +577,10 @@ export interface TransactionFormInput {
   bankAccountId?: string;
   newCardCode?: string;
   receiptUrl?: string;
+  penalty?: number; // Mora cobrada junto con el pago (se registra como PAYMENT_PENALTY)
+  loanLimit?: number; // Nuevo cupo del cliente (sugerido por el puntaje) al prestar o refinanciar
+  limitOverrideReason?: string; // Motivo del propietario para prestar por encima del cupo
+  loanId?: string; // Préstamo al que se imputa el pago o la refinanciación; sin él, un desembolso abre uno nuevo
   // Simulator props
   installmentAmount?: number;
   installmentsCount?: number;
@@ -155,6 +603,31 @@ export interface UIConfig {
   visibleColumns?: string[];
 }
 
+// Late-fee policy (mora). Applied per overdue installment.
+export interface PenaltyPolicy {
+  enabled: boolean;
+  rateType: 'DAILY' | 'MONTHLY';
+  rate: number; // Percentage per day or per month (e.g. 3 for 3% monthly)
+  graceDays: number; // Days after the due date before mora starts counting
+  capPercent?: number; // Max mora per installment, as % of the overdue amount
+}
+
+export interface LendingPolicy {
+  maxPerClient?: number; // Max outstanding balance per client; empty = no cap
+  groupLimit?: number; // Max combined balance of a guarantor / referral group; empty = off
+  groupBy?: 'GUARANTOR' | 'REFERRER' | 'BOTH';
+}
+
+export type LendingRule = 'CLIENT_LIMIT' | 'ORG_MAX' | 'GROUP_LIMIT';
+
+// A limit the loan would break, as reported by check_lending_limits
+export interface LendingViolation {
+  rule: LendingRule;
+  group?: 'GUARANTOR' | 'REFERRER';
+  limit: number;
+  resulting: number; // Balance (or group balance) after the loan
+}
+
 export interface AppSettings {
   id?: string; // UUID in DB
   organization_id?: string;
@@ -164,6 +637,8 @@ export interface AppSettings {
   apiKey?: string;
   n8nWebhookUrl?: string; // URL for mass messaging automation
   maxCardLimit?: number; // NEW: Maximum number of physical cards (e.g., 500)
+  penaltyPolicy?: PenaltyPolicy; // Intereses de mora por organización
+  lendingPolicy?: LendingPolicy; // Cupos máximos validados en el servidor
 
   // UI Configuration
   uiConfig?: UIConfig;
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { CURRENCIES, formatCurrency, formatNumberWithDots, parseCurrency, setActiveCurrency } from './format';
+
+const AMOUNTS = [0, 7, 1234, 1234567.5, 98765432.25, -35000.75];
+
+// Redondeo a los decimales de la moneda: lo que muestra formatCurrency.
+const rounded = (value: number, currency: string) => {
+    const factor = 10 ** CURRENCIES[currency].decimals;
+    return Math.round(value * factor) / factor;
+};
+
+describe('parseCurrency / formatCurrency', () => {
+    afterEach(() => setActiveCurrency(null));
+
+    for (const currency of Object.keys(CURRENCIES)) {
+        it(`recupera el monto formateado en ${currency}`, () => {
+            for (const amount of AMOUNTS) {
+                expect(parseCurrency(formatCurrency(amount, currency), currency)).toBe(rounded(amount, currency));
+            }
+        });
+
+        it(`recupera lo que muestra el campo de dinero en ${currency}`, () => {
+            for (const amount of AMOUNTS.filter(a => a >= 0)) {
+                expect(parseCurrency(formatNumberWithDots(amount, currency), currency)).toBe(rounded(amount, currency));
+            }
+        });
+    }
+
+    it('usa la moneda de la organización activa cuando no se indica otra', () => {
+        setActiveCurrency('USD');
+        expect(parseCurrency(formatCurrency(1234.5))).toBe(1234.5);
+
+        setActiveCurrency('XXX');
+        expect(formatCurrency(1500000)).toBe(formatCurrency(1500000, 'COP'));
+    });
+
+    it('no confunde el separador de miles con decimales', () => {
+        expect(parseCurrency('1.500.000', 'COP')).toBe(1500000);
+        expect(parseCurrency('1,500,000.50', 'USD')).toBe(1500000.5);
+        expect(parseCurrency('', 'USD')).toBe(0);
+    });
+});
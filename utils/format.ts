@@ -1,29 +1,69 @@
-
 // Currency and Number Formatters
-export const formatNumberWithDots = (value: string | number) => {
+
+// Monedas soportadas. La de la organización es la predeterminada; una cuenta
+// bancaria puede manejar otra (ver BankAccount.currency).
+export const CURRENCIES: Record<string, { label: string; locale: string; decimals: number }> = {
+  COP: { label: 'Peso colombiano', locale: 'es-CO', decimals: 0 },
+  USD: { label: 'Dólar estadounidense', locale: 'en-US', decimals: 2 },
+  EUR: { label: 'Euro', locale: 'es-ES', decimals: 2 },
+  MXN: { label: 'Peso mexicano', locale: 'es-MX', decimals: 2 },
+  PEN: { label: 'Sol peruano', locale: 'es-PE', decimals: 2 }
+};
+
+export const DEFAULT_CURRENCY = 'COP';
+
+// Moneda de la organización activa (la fija OrganizationContext al cambiar de organización).
+let activeCurrency = DEFAULT_CURRENCY;
+
+export const setActiveCurrency = (currency?: string | null) => {
+  activeCurrency = currency && CURRENCIES[currency] ? currency : DEFAULT_CURRENCY;
+};
+
+export const getActiveCurrency = () => activeCurrency;
+
+const currencyConfig = (currency?: string | null) => CURRENCIES[currency || activeCurrency] || CURRENCIES[DEFAULT_CURRENCY];
+
+// Separadores de miles y decimales del locale de la moneda (es-CO: "." y ","; en-US: "," y ".").
+const separatorsFor = (currency?: string | null) => {
+  const parts = new Intl.NumberFormat(currencyConfig(currency).locale).formatToParts(1234567.5);
+  return {
+    group: parts.find(p => p.type === 'group')?.value || '.',
+    decimal: parts.find(p => p.type === 'decimal')?.value || ','
+  };
+};
+
+// Formatea lo que el usuario escribe en un campo de dinero (miles y, si la moneda los usa, decimales).
+export const formatNumberWithDots = (value: string | number, currency?: string | null) => {
   if (value === '' || value === undefined || value === null) return '';
-  const numStr = value.toString().replace(/\D/g, '');
-  return numStr.replace(/\B(?=(\d{3})+(?!\d))/g, ".");
+  const { group, decimal } = separatorsFor(currency);
+  const { decimals } = currencyConfig(currency);
+  const raw = typeof value === 'number' ? value.toFixed(decimals).replace('.', decimal) : value;
+  const [intPart, ...rest] = raw.split(decimal);
+  const grouped = intPart.replace(/\D/g, '').replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  if (decimals === 0 || rest.length === 0) return grouped;
+  return `${grouped}${decimal}${rest.join('').replace(/\D/g, '').slice(0, decimals)}`;
 };
 
-export const parseCurrency = (value: string) => {
+export const parseCurrency = (value: string, currency?: string | null) => {
   if (!value) return 0;
+  const { group, decimal } = separatorsFor(currency);
   // Security: Ensure we only parse safe number strings
-  const cleaned = value.toString().replace(/\./g, '');
+  const cleaned = value.toString().split(group).join('').replace(decimal, '.').replace(/[^\d.-]/g, '');
   const num = Number(cleaned);
   return isNaN(num) ? 0 : num;
 };
 
-export const formatCurrency = (val: number) => {
-  return new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(val);
+export const formatCurrency = (val: number, currency?: string | null) => {
+  const { locale, decimals } = currencyConfig(currency);
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: currency || activeCurrency, minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(val);
 };
 
 // Placeholder shown when "Modo Privado" (ocultar dinero) está activo.
 export const MONEY_HIDDEN = '$ ••••••';
 
 // Devuelve la cifra enmascarada si hidden=true, de lo contrario la formatea normal.
-export const formatCurrencyMasked = (val: number, hidden?: boolean) => {
-  return hidden ? MONEY_HIDDEN : formatCurrency(val);
+export const formatCurrencyMasked = (val: number, hidden?: boolean, currency?: string | null) => {
+  return hidden ? MONEY_HIDDEN : formatCurrency(val, currency);
 };
 
 export const getErrorMessage = (error: any): string => {